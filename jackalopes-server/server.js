@@ -17,9 +17,107 @@ const net = require('net');
 // Get port from environment variable or use default
 const PORT = process.env.SERVER_PORT || 8082;
 
+// Wire protocol version (see src/network/protocol.ts). Clients that don't
+// send a version are treated as version 1.
+const PROTOCOL_VERSION = 2;
+const MIN_PROTOCOL_VERSION = 1;
+
+// Optional wire features clients may ask for during auth
+const SERVER_CAPABILITIES = ['binary_player_update', 'reliable_events'];
+
+// Reliable game events (see src/network/reliable.ts). Unacked events are
+// resent after EVENT_RESEND_MS, doubling each time up to MAX_EVENT_RESEND_MS.
+const RELIABLE_EVENTS_CAPABILITY = 'reliable_events';
+const EVENT_RESEND_CHECK_MS = 100;
+const EVENT_RESEND_MS = 300;
+const MAX_EVENT_RESEND_MS = 2000;
+// Past this many unacked, new events for that client are refused
+const MAX_PENDING_EVENTS = 256;
+
+// Damage rules (see src/network/damage.ts)
+const MAX_HEALTH = 100;
+const FIREBALL_DAMAGE = 25;
+const RESPAWN_DELAY_MS = 3000;
+const HIT_REPORT_WINDOW_MS = 15000;
+
+// Movement bounds (see src/network/validation.ts). Reported states are only
+// acked as far as the character could have got at top speed since the last
+// one, with up to MAX_MOVE_BURST_S of movement banked for stalls, and never
+// more than MAX_TELEPORT_DISTANCE in one go.
+const MERC_MAX_SPEED = 0.025 * 240;
+const JACKALOPE_MAX_SPEED = 6.8 * 1.8;
+const SPEED_TOLERANCE = 1.25;
+const MAX_MOVE_BURST_S = 0.5;
+const MAX_TELEPORT_DISTANCE = 10;
+
+// Hit checks (see src/network/lagCompensation.ts). A reported hit only counts
+// if the fireball's arc passes through the target where the shooter saw them:
+// a round trip and an interpolation delay before the shot reached us, as the
+// shooter reports them in their pings, give or take HIT_REWIND_WINDOW_MS.
+const FIREBALL_SPEED = 90;
+const FIREBALL_GRAVITY = -15 * 0.3;
+const FIREBALL_RADIUS = 0.15;
+const FIREBALL_ARM_DISTANCE = 5;
+const MAX_FIREBALL_FLIGHT_S = 1.5;
+const HIT_SWEEP_STEP_S = 1 / 120;
+const HITBOX_HALF_HEIGHT = 1.0;
+const HITBOX_RADIUS = 0.5;
+const HITBOX_OFFSET_Y = -0.28;
+const DEFAULT_HIT_RTT_MS = 100;
+const MAX_HIT_RTT_MS = 300;
+const DEFAULT_INTERPOLATION_DELAY_MS = 100;
+const MIN_INTERPOLATION_DELAY_MS = 50;
+const MAX_INTERPOLATION_DELAY_MS = 500;
+const HIT_REWIND_WINDOW_MS = 50;
+const HIT_REWIND_STEP_MS = 25;
+// How far from the shooter a shot may start (see src/network/validation.ts)
+const MAX_SHOT_DISTANCE = 3;
+// Longer than the longest flight plus the furthest rewind
+const POSITION_HISTORY_MS = 3000;
+
+// Hunt mode rules (see src/network/rounds.ts)
+const MIN_ROUND_PLAYERS = 2;
+const LOBBY_COUNTDOWN_MS = 10000;
+const ROUND_DURATION_MS = 3 * 60 * 1000;
+const RESULTS_DURATION_MS = 10000;
+
+// Session limits (see src/network/sessions.ts)
+const MIN_SESSION_PLAYERS = 2;
+const MAX_SESSION_PLAYERS = 16;
+const MAX_SESSION_SPECTATORS = 16;
+const MAX_SESSION_NAME_LENGTH = 32;
+// Share codes leave out characters that are easy to misread (0/O, 1/I/L)
+const SESSION_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const SESSION_CODE_LENGTH = 6;
+// How long a dropped player's place is held for them to resume
+const RESUME_GRACE_MS = 30000;
+
+// Interest management (see src/network/interest.ts). Player updates go out
+// once a tick: nearby players every tick, distant, unseen and hidden ones
+// less often, and at most INTEREST_MAX_UPDATES_PER_TICK to each receiver.
+const UPDATE_TICK_MS = 50;
+const INTEREST_NEAR_DISTANCE = 8;
+const INTEREST_FAR_DISTANCE = 40;
+const INTEREST_MIN_PRIORITY = 0.1;
+const INTEREST_VIEW_HALF_ANGLE = (75 * Math.PI) / 180;
+const INTEREST_OUT_OF_VIEW_FACTOR = 0.5;
+const INTEREST_OCCLUDED_FACTOR = 0.5;
+const INTEREST_MAX_UPDATES_PER_TICK = 8;
+// The platforms players hide behind (see src/game/level.ts)
+const PLATFORM_BOXES = [
+    [5, 0, -5], [-5, 0, -5], [15, 0, 5], [-15, 0, 5], [0, 0, 15], [10, 0, -15], [-10, 0, -15]
+].map((position) => ({ position, halfExtents: [2, 2, 2] }));
+
+// Chat limits (see src/network/chat.ts)
+const MAX_CHAT_LENGTH = 200;
+const CHAT_RATE_LIMIT = 5;
+const CHAT_RATE_WINDOW_MS = 5000;
+
 // Storage for active connections and game sessions
 const clients = new Map();
 const sessions = new Map();
+// Resume token -> id of the client it belongs to
+const resumeTokens = new Map();
 let clientIdCounter = 1;
 
 // Create an HTTP server for WebSocket handshake
@@ -43,6 +141,12 @@ server.listen(PORT, '0.0.0.0', () => {
     logMessage(`Server running on port ${PORT}`);
 });
 
+// Resend reliable game events nobody has acked
+setInterval(resendGameEvents, EVENT_RESEND_CHECK_MS);
+
+// Relay the newest player updates
+setInterval(relayPlayerUpdates, UPDATE_TICK_MS);
+
 // Set up graceful shutdown
 process.on('SIGTERM', shutdownServer);
 process.on('SIGINT', shutdownServer);
@@ -93,7 +197,8 @@ function handleWebSocketUpgrade(req, socket, head) {
         sendToClient(clientId, {
             type: 'welcome',
             server: 'Jackalopes WebSocket Server',
-            timestamp: Date.now()
+            timestamp: Date.now(),
+            protocolVersion: PROTOCOL_VERSION
         });
 
         logMessage(`Client ${clientId} connected`);
@@ -131,6 +236,10 @@ function handleWebSocketData(clientId, buffer) {
                 const message = frame.payload.toString('utf8');
                 handleClientMessage(clientId, message);
             }
+            
+            if (frame.opcode === 2) { // Binary frame
+                handleBinaryMessage(clientId, frame.payload);
+            }
         }
     } catch (err) {
         logMessage(`Error processing data from client ${clientId}: ${err.message}`);
@@ -215,22 +324,58 @@ function handleClientMessage(clientId, message) {
                 handleJoinSession(clientId, data);
                 break;
                 
+            case 'create_session':
+                handleCreateSession(clientId, data);
+                break;
+                
+            case 'list_sessions':
+                handleListSessions(clientId);
+                break;
+                
             case 'player_update':
                 handlePlayerUpdate(clientId, data);
                 break;
                 
+            case 'player_input':
+                handlePlayerInput(clientId, data);
+                break;
+                
             case 'game_event':
                 handleGameEvent(clientId, data);
                 break;
                 
+            case 'event_ack':
+                handleEventAck(clientId, data);
+                break;
+                
             case 'chat':
                 handleChat(clientId, data);
                 break;
                 
+            case 'ping':
+                // Clock sync - echo the client's timestamp with ours
+                sendToClient(clientId, {
+                    type: 'pong',
+                    timestamp: data.timestamp,
+                    serverTime: Date.now()
+                });
+                // What the client measured, for rewinding its hits
+                if (Number.isFinite(data.rtt)) {
+                    client.rtt = Math.max(0, Math.min(MAX_HIT_RTT_MS, data.rtt));
+                }
+                if (Number.isFinite(data.interpolationDelay)) {
+                    client.interpolationDelay = Math.max(MIN_INTERPOLATION_DELAY_MS, Math.min(MAX_INTERPOLATION_DELAY_MS, data.interpolationDelay));
+                }
+                break;
+                
             case 'leave_session':
                 handleLeaveSession(clientId);
                 break;
                 
+            case 'role_swap_request':
+                handleRoleSwapRequest(clientId);
+                break;
+                
             default:
                 sendToClient(clientId, {
                     type: 'error',
@@ -257,270 +402,2008 @@ function handleAuth(clientId, data) {
         return;
     }
     
+    const protocolVersion = negotiateProtocolVersion(data.protocolVersion);
+    if (protocolVersion === null) {
+        sendToClient(clientId, {
+            type: 'error',
+            message: `Unsupported protocol version ${data.protocolVersion} (server supports ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION})`
+        });
+        return;
+    }
+    
     const playerName = data.playerName.replace(/[^\w\s]/g, '');
     
+    client.protocolVersion = protocolVersion;
+    client.capabilities = Array.isArray(data.capabilities)
+        ? data.capabilities.filter((capability) => SERVER_CAPABILITIES.includes(capability))
+        : [];
+    
+    // Coming back after a dropped connection. Unknown or expired tokens just
+    // get a new player.
+    if (data.resumeToken && resumePlayer(clientId, data.resumeToken)) {
+        return;
+    }
+    
     // Update client data
     client.playerName = playerName;
     client.authenticated = true;
     client.playerId = 'player_' + Math.random().toString(36).substr(2, 9);
+    client.resumeToken = generateResumeToken();
+    resumeTokens.set(client.resumeToken, clientId);
     
     sendToClient(clientId, {
         type: 'auth_success',
         player: {
             id: client.playerId,
             name: playerName
-        }
+        },
+        protocolVersion: protocolVersion,
+        capabilities: client.capabilities,
+        resumeToken: client.resumeToken
     });
     
     logMessage(`Client ${clientId} authenticated as ${playerName}`);
 }
 
+function generateResumeToken() {
+    const crypto = require('crypto');
+    return crypto.randomBytes(16).toString('hex');
+}
+
 /**
- * Handle session join requests
+ * Hand a dropped player's place to a new connection. They keep their id,
+ * team, health and session, and the other players never see them leave.
+ * Returns false if the token doesn't belong to anyone.
  */
-function handleJoinSession(clientId, data) {
+function resumePlayer(clientId, token) {
     const client = clients.get(clientId);
+    const oldClientId = resumeTokens.get(token);
+    const old = clients.get(oldClientId);
     
-    if (!client.authenticated) {
-        sendToClient(clientId, {
-            type: 'error',
-            message: 'You must authenticate before joining a session'
-        });
-        return;
+    if (!old || oldClientId === clientId) {
+        return false;
     }
     
-    // Generate or use provided session key
-    let sessionId;
-    let sessionKey;
-    
-    if (data.sessionKey) {
-        sessionKey = data.sessionKey;
-        
-        // Find session with this key
-        let found = false;
-        for (const [id, session] of sessions.entries()) {
-            if (session.key === sessionKey) {
-                sessionId = id;
-                found = true;
-                break;
-            }
-        }
-        
-        if (!found) {
-            // Create new session with the provided key
-            sessionId = 'session_' + Math.random().toString(36).substr(2, 9);
-            sessions.set(sessionId, {
-                key: sessionKey,
-                players: new Map(),
-                created: Date.now()
-            });
-        }
-    } else {
-        // Create a new session with a random key
-        sessionId = 'session_' + Math.random().toString(36).substr(2, 9);
-        sessionKey = Math.random().toString(36).substr(2, 9).toUpperCase();
-        
-        sessions.set(sessionId, {
-            key: sessionKey,
-            players: new Map(),
-            created: Date.now()
-        });
+    if (old.resumeTimer) {
+        clearTimeout(old.resumeTimer);
+    }
+    if (old.ackTimer) {
+        clearTimeout(old.ackTimer);
+    }
+    if (old.inputAckTimer) {
+        clearTimeout(old.inputAckTimer);
+    }
+    if (old.eventAckTimer) {
+        clearTimeout(old.eventAckTimer);
     }
     
-    const session = sessions.get(sessionId);
+    // The old socket may not have noticed it's dead yet
+    clients.delete(oldClientId);
+    if (old.socket && !old.socket.destroyed) {
+        old.socket.destroy();
+    }
     
-    // Add player to session
-    session.players.set(client.playerId, clientId);
-    client.sessionId = sessionId;
+    client.playerName = old.playerName;
+    client.authenticated = true;
+    client.playerId = old.playerId;
+    client.sessionId = old.sessionId;
+    client.team = old.team;
+    client.teamIndex = old.teamIndex;
+    client.playerType = old.playerType;
+    client.chatTimes = old.chatTimes;
+    client.inputSeq = old.inputSeq;
+    client.movement = old.movement;
+    client.moveBudget = old.moveBudget;
+    client.lastMoveAt = old.lastMoveAt;
+    client.lookYaw = old.lookYaw;
+    client.latestUpdate = old.latestUpdate;
+    client.positions = old.positions;
+    client.rtt = old.rtt;
+    client.interpolationDelay = old.interpolationDelay;
+    client.updateVersion = old.updateVersion;
+    client.events = old.events;
+    client.resumeToken = token;
+    resumeTokens.set(token, clientId);
     
-    // Notify client
     sendToClient(clientId, {
-        type: 'join_success',
-        session: {
-            id: sessionId,
-            key: sessionKey
-        },
+        type: 'auth_success',
         player: {
             id: client.playerId,
             name: client.playerName
-        }
+        },
+        protocolVersion: client.protocolVersion,
+        capabilities: client.capabilities,
+        resumeToken: token,
+        resumed: true
     });
     
-    // Notify other players in session
-    for (const [otherId, otherClientId] of session.players.entries()) {
-        if (otherId !== client.playerId) {
-            sendToClient(otherClientId, {
-                type: 'player_joined',
-                player: {
-                    id: client.playerId,
-                    name: client.playerName
-                }
-            });
+    const session = client.sessionId && sessions.get(client.sessionId);
+    if (session) {
+        session.players.set(client.playerId, clientId);
+        sendToClient(clientId, joinSuccessMessage(session, client, true));
+        sendToClient(clientId, roundStateMessage(session));
+    } else {
+        client.sessionId = null;
+    }
+    
+    // Everything they hadn't acked, including what happened while they were away
+    if (client.events) {
+        for (const entry of client.events.unacked) {
+            entry.sentAt = Date.now();
+            sendToClient(clientId, entry.message);
         }
     }
     
-    logMessage(`Client ${clientId} (${client.playerName}) joined session ${sessionId}`);
+    logMessage(`Client ${clientId} resumed ${client.playerId} (was client ${oldClientId})`);
+    return true;
 }
 
 /**
- * Handle player update messages
+ * Pick the protocol version both sides understand, or null if there is none
  */
-function handlePlayerUpdate(clientId, data) {
+function negotiateProtocolVersion(clientVersion) {
+    const requested = Number.isInteger(clientVersion) ? clientVersion : MIN_PROTOCOL_VERSION;
+    const agreed = Math.min(PROTOCOL_VERSION, requested);
+    return agreed >= MIN_PROTOCOL_VERSION ? agreed : null;
+}
+
+/**
+ * Handle session join requests
+ *
+ * `code` joins an existing session and fails if there isn't one. The older
+ * `sessionKey` form creates the session if it doesn't exist yet.
+ */
+function handleJoinSession(clientId, data) {
     const client = clients.get(clientId);
     
-    if (!client || !client.authenticated || !client.sessionId) {
-        return;
-    }
-    
-    if (!data.state) {
+    if (!client.authenticated) {
         sendToClient(clientId, {
             type: 'error',
-            message: 'Missing state in player_update'
+            message: 'You must authenticate before joining a session'
         });
         return;
     }
     
-    const session = sessions.get(client.sessionId);
-    if (!session) return;
+    let sessionId;
     
-    // Broadcast to other players in session
-    for (const [otherId, otherClientId] of session.players.entries()) {
-        if (otherId !== client.playerId) {
-            sendToClient(otherClientId, {
-                type: 'player_update',
-                player: client.playerId,
-                state: data.state,
-                timestamp: Date.now()
-            });
+    if (data.code) {
+        sessionId = findSessionByKey(String(data.code).trim().toUpperCase());
+        
+        if (!sessionId) {
+            sendJoinFailed(clientId, 'not_found', `No session with code ${data.code}`);
+            return;
         }
+    } else if (data.sessionKey) {
+        // Find session with this key, or create it
+        sessionId = findSessionByKey(data.sessionKey) || createSession(data.sessionKey, { name: data.sessionKey });
+    } else {
+        // Create a new session with a random key
+        sessionId = createSession(generateSessionCode(), {});
     }
+    
+    joinSession(clientId, sessionId, data.password, data.spectate === true);
 }
 
 /**
- * Handle game events
+ * Handle requests to create a named session. The creator joins it straight away.
  */
-function handleGameEvent(clientId, data) {
+function handleCreateSession(clientId, data) {
     const client = clients.get(clientId);
     
-    if (!client || !client.authenticated || !client.sessionId) {
-        return;
-    }
-    
-    if (!data.event) {
+    if (!client.authenticated) {
         sendToClient(clientId, {
             type: 'error',
-            message: 'Missing event in game_event'
+            message: 'You must authenticate before creating a session'
         });
         return;
     }
     
-    const session = sessions.get(client.sessionId);
-    if (!session) return;
+    const name = typeof data.name === 'string'
+        ? data.name.replace(/[^\w\s'-]/g, '').trim().slice(0, MAX_SESSION_NAME_LENGTH)
+        : '';
     
-    // Add player and timestamp information
-    const event = data.event;
-    event.player = client.playerId;
-    event.timestamp = Date.now();
+    const sessionId = createSession(generateSessionCode(), {
+        name: name || `${client.playerName}'s match`,
+        maxPlayers: data.maxPlayers,
+        password: data.password,
+        private: data.private
+    });
     
-    // Broadcast to all players in session (including sender)
-    for (const [_, otherClientId] of session.players.entries()) {
-        sendToClient(otherClientId, {
-            type: 'game_event',
-            event: event
+    logMessage(`Client ${clientId} created session ${sessions.get(sessionId).key}`);
+    joinSession(clientId, sessionId, data.password);
+}
+
+/**
+ * Send the public sessions that still have room
+ */
+function handleListSessions(clientId) {
+    const list = [];
+    
+    for (const session of sessions.values()) {
+        if (session.private || session.players.size >= session.maxPlayers) continue;
+        
+        list.push({
+            code: session.key,
+            name: session.name,
+            players: session.players.size,
+            maxPlayers: session.maxPlayers,
+            locked: Boolean(session.password),
+            phase: session.round.phase
         });
     }
+    
+    sendToClient(clientId, {
+        type: 'session_list',
+        sessions: list
+    });
+}
+
+/**
+ * Create an empty session and return its id
+ */
+function createSession(key, options) {
+    const sessionId = 'session_' + Math.random().toString(36).substr(2, 9);
+    const maxPlayers = Number.isInteger(options.maxPlayers)
+        ? Math.min(MAX_SESSION_PLAYERS, Math.max(MIN_SESSION_PLAYERS, options.maxPlayers))
+        : MAX_SESSION_PLAYERS;
+    
+    sessions.set(sessionId, {
+        key: key,
+        name: options.name || key,
+        maxPlayers: maxPlayers,
+        password: typeof options.password === 'string' && options.password ? options.password : null,
+        private: Boolean(options.private),
+        players: new Map(),
+        // Player id -> client id, like players, for those only watching
+        spectators: new Map(),
+        health: new Map(),
+        shots: new Map(),
+        // Receiver id -> subject id -> { accumulated, sentVersion }
+        interest: new Map(),
+        swapRequests: new Set(),
+        round: createRoundState(),
+        created: Date.now()
+    });
+    
+    return sessionId;
+}
+
+/**
+ * Find the id of the session with this key
+ */
+function findSessionByKey(key) {
+    for (const [id, session] of sessions.entries()) {
+        if (session.key === key) {
+            return id;
+        }
+    }
+    return null;
 }
 
 /**
- * Handle chat messages
+ * Pick a share code that no other session is using
  */
-function handleChat(clientId, data) {
+function generateSessionCode() {
+    let code;
+    do {
+        code = '';
+        for (let i = 0; i < SESSION_CODE_LENGTH; i++) {
+            code += SESSION_CODE_ALPHABET[Math.floor(Math.random() * SESSION_CODE_ALPHABET.length)];
+        }
+    } while (findSessionByKey(code));
+    return code;
+}
+
+/**
+ * Tell a client why they couldn't join
+ */
+function sendJoinFailed(clientId, reason, message) {
+    sendToClient(clientId, {
+        type: 'join_failed',
+        reason: reason,
+        message: message
+    });
+}
+
+/**
+ * Add an authenticated client to a session, checking its password and size
+ */
+function joinSession(clientId, sessionId, password, spectate) {
     const client = clients.get(clientId);
+    const session = sessions.get(sessionId);
     
-    if (!client || !client.authenticated || !client.sessionId) {
+    if (client.sessionId === sessionId) {
+        sendJoinFailed(clientId, 'already_joined', 'You are already in this session');
         return;
     }
     
-    if (!data.message || !data.message.trim()) {
+    if (session.password && password !== session.password) {
+        sendJoinFailed(clientId, 'wrong_password', password ? 'Wrong password' : 'This session needs a password');
         return;
     }
     
-    const session = sessions.get(client.sessionId);
-    if (!session) return;
+    if (spectate) {
+        joinAsSpectator(clientId, sessionId);
+        return;
+    }
     
-    // Sanitize message
-    const message = data.message.replace(/[^\w\s.!?,]/g, '');
+    if (session.players.size >= session.maxPlayers) {
+        sendJoinFailed(clientId, 'full', `Session is full (${session.maxPlayers} players)`);
+        return;
+    }
     
-    // Broadcast to all players in session
-    for (const [_, otherClientId] of session.players.entries()) {
-        sendToClient(otherClientId, {
-            type: 'chat',
-            player: client.playerId,
-            playerName: client.playerName,
-            message: message,
-            timestamp: Date.now()
-        });
+    // Only one session at a time
+    if (client.sessionId) {
+        handleLeaveSession(clientId);
+    }
+    
+    // Put the player on whichever team is short
+    client.team = smallerTeam(session);
+    client.teamIndex = nextTeamIndex(session, client.team);
+    
+    // Add player to session
+    session.players.set(client.playerId, clientId);
+    session.health.set(client.playerId, MAX_HEALTH);
+    client.sessionId = sessionId;
+    
+    // Notify client
+    sendToClient(clientId, joinSuccessMessage(session, client, false));
+    
+    // Notify everyone else in session
+    for (const otherClientId of sessionAudience(session)) {
+        if (otherClientId !== clientId) {
+            sendToClient(otherClientId, {
+                type: 'player_joined',
+                player: {
+                    id: client.playerId,
+                    name: client.playerName
+                }
+            });
+        }
+    }
+    
+    // Bring the new player into the match
+    sendToClient(clientId, roundStateMessage(session));
+    if (session.round.phase === 'countdown') {
+        session.round.roles.set(client.playerId, client.team);
+        broadcastRoundState(session);
     }
+    updateRoundPhase(session);
+    
+    logMessage(`Client ${clientId} (${client.playerName}) joined session ${sessionId} (${session.key})`);
 }
 
 /**
- * Handle session leave requests
+ * Add a client to a session to watch it. Spectators get what players get
+ * from the session, but take no player slot, team or health, and nothing
+ * they send as a player is acted on.
  */
-function handleLeaveSession(clientId) {
+function joinAsSpectator(clientId, sessionId) {
     const client = clients.get(clientId);
+    const session = sessions.get(sessionId);
     
-    if (!client || !client.sessionId) {
+    if (session.spectators.size >= MAX_SESSION_SPECTATORS) {
+        sendJoinFailed(clientId, 'full', `Session has all the spectators it can take (${MAX_SESSION_SPECTATORS})`);
         return;
     }
     
-    const session = sessions.get(client.sessionId);
-    if (!session) {
-        client.sessionId = null;
-        return;
+    if (client.sessionId) {
+        handleLeaveSession(clientId);
     }
     
-    // Remove player from session
-    session.players.delete(client.playerId);
+    session.spectators.set(client.playerId, clientId);
+    client.sessionId = sessionId;
+    client.spectator = true;
     
-    // Notify other players
-    for (const [_, otherClientId] of session.players.entries()) {
-        sendToClient(otherClientId, {
-            type: 'player_left',
-            player: client.playerId,
-            playerName: client.playerName
-        });
-    }
+    sendToClient(clientId, joinSuccessMessage(session, client, false));
     
-    // Clean up empty sessions
-    if (session.players.size === 0) {
-        sessions.delete(client.sessionId);
-        logMessage(`Session ${client.sessionId} removed (empty)`);
+    // Everyone already playing, with their names
+    const players = {};
+    for (const [playerId, playerClientId] of session.players.entries()) {
+        const player = clients.get(playerClientId);
+        if (!player || !player.latestUpdate || !isVec3(player.latestUpdate.state.position)) continue;
+        
+        players[playerId] = {
+            position: player.latestUpdate.state.position,
+            rotation: player.latestUpdate.state.rotation,
+            health: session.health.get(playerId),
+            playerType: playerTeam(session, player),
+            name: player.playerName
+        };
     }
+    sendToClient(clientId, { type: 'player_list', players });
+    sendToClient(clientId, roundStateMessage(session));
     
-    logMessage(`Client ${clientId} (${client.playerName}) left session ${client.sessionId}`);
-    client.sessionId = null;
+    logMessage(`Client ${clientId} (${client.playerName}) is watching session ${sessionId} (${session.key})`);
 }
 
 /**
- * Handle client disconnection
+ * Client ids of everyone who hears about a session: its players and spectators
  */
-function handleDisconnect(clientId) {
+function sessionAudience(session) {
+    return [...session.players.values(), ...session.spectators.values()];
+}
+
+function joinSuccessMessage(session, client, resumed) {
+    return {
+        type: 'join_success',
+        session: {
+            id: client.sessionId,
+            key: session.key,
+            name: session.name,
+            maxPlayers: session.maxPlayers,
+            locked: Boolean(session.password),
+            private: session.private
+        },
+        player: {
+            id: client.playerId,
+            name: client.playerName
+        },
+        playerCount: session.players.size,
+        protocolVersion: client.protocolVersion,
+        assignment: client.spectator ? undefined : teamAssignment(client),
+        health: session.health.get(client.playerId),
+        resumed,
+        spectator: Boolean(client.spectator)
+    };
+}
+
+/**
+ * Handle player update messages
+ */
+function handlePlayerUpdate(clientId, data) {
     const client = clients.get(clientId);
     
-    if (!client) {
+    if (!client || !client.authenticated || !client.sessionId || client.spectator) {
         return;
     }
     
-    // Handle session leave if in a session
-    if (client.sessionId) {
-        handleLeaveSession(clientId);
+    if (!data.state) {
+        sendToClient(clientId, {
+            type: 'error',
+            message: 'Missing state in player_update'
+        });
+        return;
     }
     
-    // Remove client
-    clients.delete(clientId);
+    const session = sessions.get(client.sessionId);
+    if (!session) return;
+    
+    // Remember what the player is so hit registration can tell jackalopes from mercs
+    if (data.state.playerType) {
+        client.playerType = data.state.playerType;
+    }
+    
+    // Nobody sees a position the player couldn't have reached. Players who
+    // send inputs are where their inputs got them; the rest are held to the
+    // same bounds here.
+    const now = Date.now();
+    let state = data.state;
+    if (client.inputSeq > 0 && client.movement) {
+        state = { ...state, position: client.movement.position, velocity: client.movement.velocity };
+    } else if (isVec3(state.position)) {
+        client.movement = boundMovement(client, state, now);
+        state = { ...state, position: client.movement.position, velocity: client.movement.velocity };
+    }
+    
+    // The others get it on the next tick, if interest management picks it
+    client.latestUpdate = {
+        state,
+        timestamp: now
+    };
+    if (isVec3(state.position)) {
+        recordPosition(client, state.position, now);
+    }
+    client.updateVersion = (client.updateVersion || 0) + 1;
+}
+
+/**
+ * Send each player in each session the updates interest management picks for
+ * them this tick
+ */
+function relayPlayerUpdates() {
+    for (const session of sessions.values()) {
+        const members = [];
+        for (const [playerId, clientId] of session.players.entries()) {
+            const client = clients.get(clientId);
+            if (client) {
+                members.push({ playerId, clientId, client });
+            }
+        }
+        
+        const subjects = members.filter(({ client }) =>
+            client.latestUpdate && isVec3(client.latestUpdate.state.position));
+        if (subjects.length === 0) continue;
+        
+        // Spectators have no position, so they get everyone at full rate
+        const receivers = members.slice();
+        for (const [playerId, clientId] of session.spectators.entries()) {
+            const client = clients.get(clientId);
+            if (client) {
+                receivers.push({ playerId, clientId, client });
+            }
+        }
+        
+        for (const receiver of receivers) {
+            for (const subject of selectUpdates(session, receiver, subjects)) {
+                sendToClient(receiver.clientId, {
+                    type: 'player_update',
+                    player: subject.playerId,
+                    state: subject.client.latestUpdate.state,
+                    timestamp: subject.client.latestUpdate.timestamp
+                });
+            }
+        }
+    }
+}
+
+/**
+ * Priority accumulators: each tick a subject with a state the receiver
+ * hasn't had adds its priority, and goes out once that reaches 1
+ */
+function selectUpdates(session, receiver, subjects) {
+    let pairs = session.interest.get(receiver.playerId);
+    if (!pairs) {
+        pairs = new Map();
+        session.interest.set(receiver.playerId, pairs);
+    }
+    const viewer = getViewer(receiver.client);
+    
+    const due = [];
+    for (const subject of subjects) {
+        if (subject.playerId === receiver.playerId) continue;
+        
+        const version = subject.client.updateVersion;
+        let pair = pairs.get(subject.playerId);
+        if (!pair) {
+            // Someone new goes out on the first tick
+            pair = { accumulated: 1, sentVersion: -1 };
+            pairs.set(subject.playerId, pair);
+        } else if (pair.sentVersion === version) {
+            continue;
+        } else {
+            pair.accumulated += viewer
+                ? getUpdatePriority(viewer, subject.client.latestUpdate.state.position)
+                : 1;
+        }
+        
+        if (pair.accumulated >= 1) {
+            due.push({ subject, pair, version });
+        }
+    }
+    
+    return due
+        .sort((a, b) => b.pair.accumulated - a.pair.accumulated)
+        .slice(0, INTEREST_MAX_UPDATES_PER_TICK)
+        .map(({ subject, pair, version }) => {
+            pair.accumulated = 0;
+            pair.sentVersion = version;
+            return subject;
+        });
+}
+
+/**
+ * Where a receiver is and which way they look, if we know. Their inputs
+ * carry the camera yaw; mercs' rotations don't turn, so those come second.
+ */
+function getViewer(client) {
+    const state = client.latestUpdate && client.latestUpdate.state;
+    if (!state || !isVec3(state.position)) {
+        return null;
+    }
+    
+    let yaw = null;
+    if (Number.isFinite(client.lookYaw)) {
+        yaw = client.lookYaw;
+    } else if (Array.isArray(state.rotation) && state.rotation.length === 4 && state.rotation.every(Number.isFinite)) {
+        const [x, y, z, w] = state.rotation;
+        yaw = Math.atan2(2 * (x * z + w * y), 1 - 2 * (x * x + y * y));
+    }
+    return { position: state.position, yaw };
+}
+
+/**
+ * Share of the tick rate a viewer gets of a player at this position
+ */
+function getUpdatePriority(viewer, position) {
+    const dx = position[0] - viewer.position[0];
+    const dz = position[2] - viewer.position[2];
+    const distance = Math.hypot(dx, position[1] - viewer.position[1], dz);
+    if (distance <= INTEREST_NEAR_DISTANCE) {
+        return 1;
+    }
+    
+    const falloff = Math.min(1, (distance - INTEREST_NEAR_DISTANCE) / (INTEREST_FAR_DISTANCE - INTEREST_NEAR_DISTANCE));
+    let priority = 1 - falloff * (1 - INTEREST_MIN_PRIORITY);
+    
+    if (viewer.yaw !== null) {
+        let angle = Math.abs(Math.atan2(dx, dz) - viewer.yaw) % (2 * Math.PI);
+        if (angle > Math.PI) {
+            angle = 2 * Math.PI - angle;
+        }
+        if (angle > INTEREST_VIEW_HALF_ANGLE) {
+            priority *= INTEREST_OUT_OF_VIEW_FACTOR;
+        }
+    }
+    if (isOccluded(viewer.position, position)) {
+        priority *= INTEREST_OCCLUDED_FACTOR;
+    }
+    
+    return Math.max(INTEREST_MIN_PRIORITY, priority);
+}
+
+/**
+ * Does the segment from a to b pass through a platform?
+ */
+function isOccluded(a, b) {
+    return PLATFORM_BOXES.some(({ position, halfExtents }) => {
+        let enter = 0;
+        let exit = 1;
+        for (let i = 0; i < 3; i++) {
+            const delta = b[i] - a[i];
+            const min = position[i] - halfExtents[i];
+            const max = position[i] + halfExtents[i];
+            if (Math.abs(delta) < 1e-9) {
+                if (a[i] < min || a[i] > max) return false;
+                continue;
+            }
+            let t0 = (min - a[i]) / delta;
+            let t1 = (max - a[i]) / delta;
+            if (t0 > t1) {
+                [t0, t1] = [t1, t0];
+            }
+            enter = Math.max(enter, t0);
+            exit = Math.min(exit, t1);
+            if (enter > exit) return false;
+        }
+        return true;
+    });
+}
+
+/**
+ * Binary player_update frames (see src/network/codec.ts for the layout).
+ * Delta frames are decoded against a frame we previously acknowledged, so we
+ * keep a short history of decoded frames per client.
+ */
+const BINARY_PLAYER_UPDATE = 1;
+const FLAG_DELTA = 1 << 0;
+const FLAG_POSITION = 1 << 1;
+const FLAG_ROTATION = 1 << 2;
+const FLAG_VELOCITY = 1 << 3;
+const FLAG_PLAYER_TYPE = 1 << 4;
+const FLAG_JACKALOPE = 1 << 5;
+const POSITION_SCALE = 1000;
+const VELOCITY_SCALE = 100;
+const ROTATION_MAX = 1023;
+const ROTATION_RANGE = Math.SQRT1_2;
+const UPDATE_HISTORY_SIZE = 64;
+const ACK_INTERVAL = 100; // ms
+
+function handleBinaryMessage(clientId, payload) {
+    const client = clients.get(clientId);
+    
+    if (!client || !client.authenticated) {
+        return;
+    }
+    
+    if (!client.capabilities || !client.capabilities.includes('binary_player_update')) {
+        sendToClient(clientId, {
+            type: 'error',
+            message: 'Binary messages were not negotiated'
+        });
+        return;
+    }
+    
+    if (payload.length < 4 || payload.readUInt8(0) !== BINARY_PLAYER_UPDATE) {
+        logMessage(`Dropping unknown binary message from client ${clientId}`);
+        return;
+    }
+    
+    const decoded = decodePlayerUpdateFrame(client, payload);
+    if (!decoded) {
+        logMessage(`Dropping undecodable player_update frame from client ${clientId}`);
+        return;
+    }
+    
+    // Remember the frame so later deltas can refer to it
+    if (!client.updateHistory) {
+        client.updateHistory = new Map();
+    }
+    client.updateHistory.set(decoded.frame, decoded);
+    if (client.updateHistory.size > UPDATE_HISTORY_SIZE) {
+        client.updateHistory.delete(client.updateHistory.keys().next().value);
+    }
+    scheduleUpdateAck(clientId, decoded.frame);
+    
+    const state = {
+        position: decoded.position.map((v) => v / POSITION_SCALE),
+        rotation: unpackQuaternion(decoded.rotation),
+        velocity: decoded.velocity.map((v) => v / VELOCITY_SCALE),
+        sequence: decoded.sequence
+    };
+    if (decoded.playerType) {
+        state.playerType = decoded.playerType;
+    }
+    
+    handlePlayerUpdate(clientId, { type: 'player_update', state });
+}
+
+function decodePlayerUpdateFrame(client, payload) {
+    try {
+        const flags = payload.readUInt8(1);
+        const frame = payload.readUInt16LE(2);
+        let offset = 4;
+        
+        let base = null;
+        if (flags & FLAG_DELTA) {
+            const baseFrame = payload.readUInt16LE(offset);
+            offset += 2;
+            base = client.updateHistory && client.updateHistory.get(baseFrame);
+            if (!base) {
+                return null;
+            }
+        }
+        
+        let sequence;
+        if (base) {
+            sequence = base.sequence + payload.readUInt32LE(offset);
+            offset += 4;
+        } else {
+            sequence = payload.readDoubleLE(offset);
+            offset += 8;
+        }
+        
+        let position = base ? base.position : null;
+        if (flags & FLAG_POSITION) {
+            if (base) {
+                position = [0, 1, 2].map((i) => base.position[i] + payload.readInt16LE(offset + i * 2));
+                offset += 6;
+            } else {
+                position = [0, 1, 2].map((i) => payload.readInt32LE(offset + i * 4));
+                offset += 12;
+            }
+        }
+        
+        let rotation = base ? base.rotation : null;
+        if (flags & FLAG_ROTATION) {
+            rotation = payload.readUInt32LE(offset);
+            offset += 4;
+        }
+        
+        let velocity = base ? base.velocity : [0, 0, 0];
+        if (flags & FLAG_VELOCITY) {
+            velocity = [0, 1, 2].map((i) => payload.readInt16LE(offset + i * 2));
+            offset += 6;
+        }
+        
+        if (position === null || rotation === null) {
+            return null;
+        }
+        
+        let playerType = null;
+        if (flags & FLAG_PLAYER_TYPE) {
+            playerType = flags & FLAG_JACKALOPE ? 'jackalope' : 'merc';
+        }
+        
+        return { frame, sequence, position, rotation, velocity, playerType };
+    } catch (err) {
+        // Buffer reads throw RangeError on truncated frames
+        return null;
+    }
+}
+
+function unpackQuaternion(packed) {
+    const components = [];
+    let remaining = packed;
+    for (let i = 0; i < 3; i++) {
+        const quantized = remaining % (ROTATION_MAX + 1);
+        remaining = Math.floor(remaining / (ROTATION_MAX + 1));
+        components.unshift((quantized / ROTATION_MAX) * 2 * ROTATION_RANGE - ROTATION_RANGE);
+    }
+    const largest = remaining & 3;
+    const sumSquares = components.reduce((sum, c) => sum + c * c, 0);
+    components.splice(largest, 0, Math.sqrt(Math.max(0, 1 - sumSquares)));
+    return components;
+}
+
+/**
+ * Acknowledge the newest binary frame at most every ACK_INTERVAL ms
+ */
+function scheduleUpdateAck(clientId, frame) {
+    const client = clients.get(clientId);
+    if (!client) return;
+    
+    client.pendingAckFrame = frame;
+    if (client.ackTimer) return;
+    
+    client.ackTimer = setTimeout(() => {
+        client.ackTimer = null;
+        sendToClient(clientId, {
+            type: 'player_update_ack',
+            frame: client.pendingAckFrame
+        });
+    }, ACK_INTERVAL);
+}
+
+/**
+ * Sequenced movement inputs (see src/network/prediction.ts). We don't run
+ * movement here, so the state the client predicted after its last input is
+ * acked as far as it could have got (boundMovement). Acking a different state
+ * is how the server overrides a player's position; the client rewinds to it
+ * and replays.
+ */
+function handlePlayerInput(clientId, data) {
+    const client = clients.get(clientId);
+    
+    if (!client || !client.authenticated || !client.sessionId || client.spectator) {
+        return;
+    }
+    
+    if (!Array.isArray(data.inputs) || data.inputs.length === 0 || !data.state || !isVec3(data.state.position)) {
+        sendToClient(clientId, {
+            type: 'error',
+            message: 'Malformed player_input'
+        });
+        return;
+    }
+    
+    // Compressed commands stand for `steps` inputs numbered from seq
+    const last = data.inputs[data.inputs.length - 1];
+    const steps = Number.isInteger(last.steps) && last.steps > 0 ? last.steps : 1;
+    const seq = last.seq + steps - 1;
+    
+    // Late or duplicated batch
+    if (!Number.isInteger(seq) || seq <= (client.inputSeq || 0)) {
+        return;
+    }
+    
+    client.inputSeq = seq;
+    if (Number.isFinite(last.yaw)) {
+        client.lookYaw = last.yaw;
+    }
+    client.movement = boundMovement(client, data.state, Date.now());
+    scheduleInputAck(clientId);
+}
+
+/**
+ * The part of a reported state the player could have reached: their
+ * horizontal distance is paid for from a budget that refills at top speed,
+ * and what's beyond it, or a teleport, is cut short
+ */
+function boundMovement(client, state, now) {
+    const session = sessions.get(client.sessionId);
+    const type = session ? playerTeam(session, client) : client.playerType;
+    const maxSpeed = (type === 'jackalope' ? JACKALOPE_MAX_SPEED : MERC_MAX_SPEED) * SPEED_TOLERANCE;
+    
+    let velocity = isVec3(state.velocity) ? state.velocity : [0, 0, 0];
+    const speed = Math.hypot(velocity[0], velocity[2]);
+    if (speed > maxSpeed) {
+        velocity = [velocity[0] * maxSpeed / speed, velocity[1], velocity[2] * maxSpeed / speed];
+    }
+    
+    const previous = client.movement;
+    const elapsed = Math.max(0, now - (client.lastMoveAt || now)) / 1000;
+    client.lastMoveAt = now;
+    if (!previous) {
+        // Nothing to compare the first state with
+        client.moveBudget = 0;
+        return { position: state.position, velocity };
+    }
+    
+    client.moveBudget = Math.min(maxSpeed * MAX_MOVE_BURST_S, (client.moveBudget || 0) + maxSpeed * elapsed);
+    
+    const from = previous.position;
+    const to = state.position;
+    const moved = Math.hypot(to[0] - from[0], to[1] - from[1], to[2] - from[2]);
+    const movedHorizontally = Math.hypot(to[0] - from[0], to[2] - from[2]);
+    
+    if (moved <= MAX_TELEPORT_DISTANCE && movedHorizontally <= client.moveBudget) {
+        client.moveBudget -= movedHorizontally;
+        return { position: to, velocity };
+    }
+    
+    // As far towards the reported position as the budget reaches
+    const t = moved > 0 ? Math.min(1, client.moveBudget / moved) : 0;
+    logMessage(`Holding back ${client.playerId}: moved ${moved.toFixed(2)} with ${client.moveBudget.toFixed(2)} to spare`);
+    client.moveBudget = 0;
+    return {
+        position: from.map((v, axis) => v + (to[axis] - v) * t),
+        velocity
+    };
+}
+
+function isVec3(value) {
+    return Array.isArray(value) && value.length === 3 && value.every(Number.isFinite);
+}
+
+/**
+ * Ack the newest processed input at most every ACK_INTERVAL ms
+ */
+function scheduleInputAck(clientId) {
+    const client = clients.get(clientId);
+    if (!client || client.inputAckTimer) return;
+    
+    client.inputAckTimer = setTimeout(() => {
+        client.inputAckTimer = null;
+        // They left the session in the meantime
+        if (!client.movement) return;
+        sendToClient(clientId, {
+            type: 'input_ack',
+            seq: client.inputSeq,
+            position: client.movement.position,
+            velocity: client.movement.velocity
+        });
+    }, ACK_INTERVAL);
+}
+
+/**
+ * Handle game events
+ */
+function handleGameEvent(clientId, data) {
+    const client = clients.get(clientId);
+    
+    if (!client || !client.authenticated || !client.sessionId || client.spectator) {
+        return;
+    }
+    
+    if (!data.event) {
+        sendToClient(clientId, {
+            type: 'error',
+            message: 'Missing event in game_event'
+        });
+        return;
+    }
+    
+    // Numbered events are handled in order and once each
+    if (Number.isInteger(data.seq) && hasCapability(client, RELIABLE_EVENTS_CAPABILITY)) {
+        receiveReliableEvent(clientId, data.seq, data.event);
+        return;
+    }
+    
+    applyGameEvent(client, data.event);
+}
+
+/**
+ * Act on one game event from a client
+ */
+function applyGameEvent(client, event) {
+    const session = sessions.get(client.sessionId);
+    if (!session) return;
+    
+    // Add player and timestamp information
+    event.player = client.playerId;
+    event.timestamp = Date.now();
+    
+    // Hits are resolved here rather than relayed - the server owns health
+    if (event.event_type === 'player_hit') {
+        handlePlayerHit(client, session, event);
+        return;
+    }
+    
+    // Remember shots so later hit reports can be checked against them
+    if (event.event_type === 'player_shoot' && event.shotId) {
+        const problem = checkShotOrigin(client, event);
+        if (problem) {
+            logMessage(`Dropped shot ${event.shotId} from ${client.playerId}: ${problem}`);
+            return;
+        }
+        const direction = isVec3(event.direction) ? event.direction : null;
+        const length = direction ? Math.hypot(direction[0], direction[1], direction[2]) : 0;
+        session.shots.set(String(event.shotId), {
+            attacker: client.playerId,
+            time: event.timestamp,
+            origin: isVec3(event.origin) ? event.origin : null,
+            direction: length > 1e-6 ? direction.map((v) => v / length) : null,
+            targets: new Set()
+        });
+        pruneShots(session);
+    }
+    
+    broadcastGameEvent(session, event);
+}
+
+/**
+ * Why a shot couldn't have been fired where it says, or null if it could.
+ * It has to start near where the shooter was when it arrived, on their side
+ * of any platform.
+ */
+function checkShotOrigin(client, event) {
+    if (!isVec3(event.origin)) {
+        return null;
+    }
+    const shooter = positionAt(client, event.timestamp)
+        || (client.latestUpdate && client.latestUpdate.state.position);
+    if (!isVec3(shooter)) {
+        return 'no known position';
+    }
+    
+    const offset = Math.hypot(
+        event.origin[0] - shooter[0],
+        event.origin[1] - shooter[1],
+        event.origin[2] - shooter[2]
+    );
+    if (offset > MAX_SHOT_DISTANCE) {
+        return `fired from ${offset.toFixed(1)} away`;
+    }
+    if (isOccluded(shooter, event.origin)) {
+        return 'fired from the far side of a platform';
+    }
+    return null;
+}
+
+/**
+ * Take a numbered game event. Events that overtook a missing one wait for it;
+ * duplicates are dropped.
+ */
+function receiveReliableEvent(clientId, seq, event) {
+    const client = clients.get(clientId);
+    const events = eventStreams(client);
+    
+    if (seq > events.delivered + 1) {
+        if (events.held.size < MAX_PENDING_EVENTS) {
+            events.held.set(seq, event);
+        }
+    } else if (seq === events.delivered + 1) {
+        events.delivered = seq;
+        applyGameEvent(client, event);
+        
+        while (events.held.has(events.delivered + 1)) {
+            events.delivered++;
+            const next = events.held.get(events.delivered);
+            events.held.delete(events.delivered);
+            applyGameEvent(client, next);
+        }
+    }
+    
+    // Duplicates are acked too, in case it was our ack that went missing
+    scheduleEventAck(clientId);
+}
+
+/**
+ * Ack the newest in-order game event at most every ACK_INTERVAL ms
+ */
+function scheduleEventAck(clientId) {
+    const client = clients.get(clientId);
+    if (!client || client.eventAckTimer) return;
+    
+    client.eventAckTimer = setTimeout(() => {
+        client.eventAckTimer = null;
+        sendToClient(clientId, {
+            type: 'event_ack',
+            seq: eventStreams(client).delivered
+        });
+    }, ACK_INTERVAL);
+}
+
+/**
+ * The client has every game event we sent it up to data.seq
+ */
+function handleEventAck(clientId, data) {
+    const client = clients.get(clientId);
+    if (!client || !client.events || !Number.isInteger(data.seq)) {
+        return;
+    }
+    
+    client.events.unacked = client.events.unacked.filter((entry) => entry.message.seq > data.seq);
+}
+
+/**
+ * A client's reliable event state: what we've sent it and not had acked, and
+ * how far we've got through what it sent us
+ */
+function eventStreams(client) {
+    if (!client.events) {
+        client.events = { nextSeq: 1, unacked: [], delivered: 0, held: new Map() };
+    }
+    return client.events;
+}
+
+function hasCapability(client, capability) {
+    return Array.isArray(client.capabilities) && client.capabilities.includes(capability);
+}
+
+/**
+ * Send a game event to one client. If it takes reliable events, number it and
+ * keep it until acked.
+ */
+function sendGameEvent(clientId, event) {
+    const client = clients.get(clientId);
+    if (!client) return;
+    
+    if (!hasCapability(client, RELIABLE_EVENTS_CAPABILITY)) {
+        sendToClient(clientId, { type: 'game_event', event: event });
+        return;
+    }
+    
+    const events = eventStreams(client);
+    // The client has stopped acking. Dropping a numbered event would leave a
+    // gap it waits at forever, so this one isn't numbered or sent at all.
+    if (events.unacked.length >= MAX_PENDING_EVENTS) {
+        logMessage(`Not sending ${event.event_type} to ${clientId}: ${events.unacked.length} events unacked`);
+        return;
+    }
+    
+    const message = { type: 'game_event', event: event, seq: events.nextSeq++ };
+    events.unacked.push({ message, sentAt: Date.now(), attempts: 1 });
+    sendToClient(clientId, message);
+}
+
+/**
+ * Resend game events whose ack is overdue. Dropped players get theirs when
+ * they resume.
+ */
+function resendGameEvents() {
+    const now = Date.now();
+    
+    for (const [clientId, client] of clients.entries()) {
+        if (!client.events || !client.socket) continue;
+        
+        for (const entry of client.events.unacked) {
+            const timeout = Math.min(MAX_EVENT_RESEND_MS, EVENT_RESEND_MS * Math.pow(2, entry.attempts - 1));
+            if (now - entry.sentAt >= timeout) {
+                entry.sentAt = now;
+                entry.attempts++;
+                sendToClient(clientId, entry.message);
+            }
+        }
+    }
+}
+
+/**
+ * Validate a reported fireball hit and apply damage
+ */
+function handlePlayerHit(client, session, event) {
+    const shotId = String(event.shotId || '');
+    const targetId = event.target;
+    const shot = session.shots.get(shotId);
+    
+    // The shot must be one we saw this player fire, recently
+    if (!shot || shot.attacker !== client.playerId || Date.now() - shot.time > HIT_REPORT_WINDOW_MS) {
+        logMessage(`Rejected hit from ${client.playerId}: unknown or expired shot ${shotId}`);
+        return;
+    }
+    
+    // Each shot can damage a given player once, and never the shooter
+    if (targetId === client.playerId || shot.targets.has(targetId)) {
+        return;
+    }
+    
+    const targetClientId = session.players.get(targetId);
+    const targetClient = targetClientId && clients.get(targetClientId);
+    if (!targetClient) {
+        return;
+    }
+    
+    // The fireball has to have gone through where the shooter saw the target
+    if (!traceShot(client, shot, targetClient)) {
+        logMessage(`Rejected hit from ${client.playerId} on ${targetId}: shot ${shotId} doesn't reach them`);
+        return;
+    }
+    
+    // Mercs don't hurt each other
+    const round = session.round;
+    if (playerTeam(session, targetClient) === 'merc') {
+        return;
+    }
+    
+    // No damage while counting down to a round or showing its results
+    if (round.phase === 'countdown' || round.phase === 'results') {
+        return;
+    }
+    
+    const currentHealth = session.health.has(targetId) ? session.health.get(targetId) : MAX_HEALTH;
+    if (currentHealth <= 0) {
+        return;
+    }
+    
+    shot.targets.add(targetId);
+    const health = Math.max(0, currentHealth - FIREBALL_DAMAGE);
+    session.health.set(targetId, health);
+    
+    broadcastGameEvent(session, {
+        event_type: 'player_damaged',
+        target: targetId,
+        attacker: client.playerId,
+        damage: currentHealth - health,
+        health: health,
+        shotId: shotId,
+        timestamp: Date.now()
+    });
+    
+    if (health === 0) {
+        broadcastGameEvent(session, {
+            event_type: 'player_killed',
+            target: targetId,
+            attacker: client.playerId,
+            timestamp: Date.now()
+        });
+        
+        // A jackalope killed during a round is tagged out until the next one
+        if (round.phase === 'playing' && round.roles.get(targetId) === 'jackalope') {
+            round.tagged.add(targetId);
+            round.tags.set(client.playerId, (round.tags.get(client.playerId) || 0) + 1);
+            broadcastRoundState(session);
+            checkRoundOver(session);
+            return;
+        }
+        
+        setTimeout(() => {
+            // The player may have left in the meantime
+            if (!session.players.has(targetId)) return;
+            session.health.set(targetId, MAX_HEALTH);
+            broadcastGameEvent(session, {
+                event_type: 'player_respawned',
+                target: targetId,
+                health: MAX_HEALTH,
+                timestamp: Date.now()
+            });
+        }, RESPAWN_DELAY_MS);
+    }
+    
+    logMessage(`${client.playerId} hit ${targetId} for ${currentHealth - health} damage (${health} HP left)`);
+}
+
+/**
+ * Keep a short history of where a player said they were, for rewinding hits
+ */
+function recordPosition(client, position, time) {
+    if (!client.positions) {
+        client.positions = [];
+    }
+    client.positions.push({ time, position });
+    while (client.positions.length > 0 && time - client.positions[0].time > POSITION_HISTORY_MS) {
+        client.positions.shift();
+    }
+}
+
+/**
+ * Where a player was at `time`, interpolated between reported positions.
+ * Null before the first one we kept; after the last, they're where they
+ * last said.
+ */
+function positionAt(client, time) {
+    const positions = client.positions || [];
+    if (positions.length === 0 || time < positions[0].time) {
+        return null;
+    }
+    
+    for (let i = 1; i < positions.length; i++) {
+        const next = positions[i];
+        if (time <= next.time) {
+            const previous = positions[i - 1];
+            const t = next.time > previous.time ? (time - previous.time) / (next.time - previous.time) : 1;
+            return previous.position.map((v, axis) => v + (next.position[axis] - v) * t);
+        }
+    }
+    return positions[positions.length - 1].position;
+}
+
+/**
+ * Did this shot's fireball reach the target? Rewinds the target to what the
+ * shooter was looking at when they fired, within a small window around it,
+ * and checks the level didn't stop the fireball first.
+ */
+function traceShot(shooter, shot, target) {
+    if (!shot.origin || !shot.direction) {
+        return false;
+    }
+    
+    const rtt = Number.isFinite(shooter.rtt) ? shooter.rtt : DEFAULT_HIT_RTT_MS;
+    const delay = Number.isFinite(shooter.interpolationDelay) ? shooter.interpolationDelay : DEFAULT_INTERPOLATION_DELAY_MS;
+    const renderTime = shot.time - rtt - delay;
+    
+    for (let offset = -HIT_REWIND_WINDOW_MS; offset <= HIT_REWIND_WINDOW_MS; offset += HIT_REWIND_STEP_MS) {
+        const flightTime = sweepFireball(shot, target, renderTime + offset);
+        if (flightTime !== null && !isFireballBlocked(shot, flightTime)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Seconds into its flight that the fireball meets the target's hitbox, with
+ * the target rewound to `rewindTime` at launch, or null if it never does
+ */
+function sweepFireball(shot, target, rewindTime) {
+    let previous = shot.origin;
+    let travelled = 0;
+    
+    for (let t = HIT_SWEEP_STEP_S; t <= MAX_FIREBALL_FLIGHT_S; t += HIT_SWEEP_STEP_S) {
+        const current = fireballPositionAt(shot, t);
+        travelled += Math.hypot(current[0] - previous[0], current[1] - previous[1], current[2] - previous[2]);
+        
+        // Fireballs can't hit anything until they've armed
+        if (travelled >= FIREBALL_ARM_DISTANCE) {
+            // Targets keep moving while the fireball is in flight
+            const position = positionAt(target, rewindTime + t * 1000);
+            if (!position) {
+                return null;
+            }
+            const bottom = [position[0], position[1] + HITBOX_OFFSET_Y - HITBOX_HALF_HEIGHT, position[2]];
+            const top = [position[0], position[1] + HITBOX_OFFSET_Y + HITBOX_HALF_HEIGHT, position[2]];
+            if (segmentDistance(previous, current, bottom, top) <= HITBOX_RADIUS + FIREBALL_RADIUS) {
+                return t;
+            }
+        }
+        previous = current;
+    }
+    return null;
+}
+
+/**
+ * Does a platform stop the fireball in its first `flightTime` seconds?
+ */
+function isFireballBlocked(shot, flightTime) {
+    let from = shot.origin;
+    for (let t = HIT_SWEEP_STEP_S; t < flightTime + HIT_SWEEP_STEP_S; t += HIT_SWEEP_STEP_S) {
+        const to = fireballPositionAt(shot, Math.min(t, flightTime));
+        if (isOccluded(from, to)) {
+            return true;
+        }
+        from = to;
+    }
+    return false;
+}
+
+/**
+ * Where the fireball is `t` seconds after leaving the muzzle
+ */
+function fireballPositionAt(shot, t) {
+    return [
+        shot.origin[0] + shot.direction[0] * FIREBALL_SPEED * t,
+        shot.origin[1] + shot.direction[1] * FIREBALL_SPEED * t + 0.5 * FIREBALL_GRAVITY * t * t,
+        shot.origin[2] + shot.direction[2] * FIREBALL_SPEED * t
+    ];
+}
+
+/**
+ * Shortest distance between segments p1-q1 and p2-q2 (Real-Time Collision
+ * Detection, 5.1.9)
+ */
+function segmentDistance(p1, q1, p2, q2) {
+    const d1 = [q1[0] - p1[0], q1[1] - p1[1], q1[2] - p1[2]];
+    const d2 = [q2[0] - p2[0], q2[1] - p2[1], q2[2] - p2[2]];
+    const r = [p1[0] - p2[0], p1[1] - p2[1], p1[2] - p2[2]];
+    const dot = (a, b) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+    const clamp01 = (v) => Math.max(0, Math.min(1, v));
+    
+    const a = dot(d1, d1);
+    const e = dot(d2, d2);
+    const f = dot(d2, r);
+    let s = 0;
+    let t = 0;
+    
+    if (a <= 1e-9 && e > 1e-9) {
+        t = clamp01(f / e);
+    } else if (a > 1e-9) {
+        const c = dot(d1, r);
+        if (e <= 1e-9) {
+            s = clamp01(-c / a);
+        } else {
+            const b = dot(d1, d2);
+            const denom = a * e - b * b;
+            s = denom > 1e-9 ? clamp01((b * f - c * e) / denom) : 0;
+            t = (b * s + f) / e;
+            if (t < 0) {
+                t = 0;
+                s = clamp01(-c / a);
+            } else if (t > 1) {
+                t = 1;
+                s = clamp01((b - c) / a);
+            }
+        }
+    }
+    
+    return Math.hypot(
+        p1[0] + d1[0] * s - (p2[0] + d2[0] * t),
+        p1[1] + d1[1] * s - (p2[1] + d2[1] * t),
+        p1[2] + d1[2] * s - (p2[2] + d2[2] * t)
+    );
+}
+
+/**
+ * Forget shots that are too old to be hit-reported
+ */
+function pruneShots(session) {
+    const cutoff = Date.now() - HIT_REPORT_WINDOW_MS;
+    for (const [shotId, shot] of session.shots.entries()) {
+        if (shot.time < cutoff) {
+            session.shots.delete(shotId);
+        }
+    }
+}
+
+/**
+ * Send a game event to everyone in a session
+ */
+function broadcastGameEvent(session, event) {
+    for (const otherClientId of sessionAudience(session)) {
+        sendGameEvent(otherClientId, event);
+    }
+}
+
+/**
+ * Fresh match state for a new session
+ */
+function createRoundState() {
+    return {
+        phase: 'waiting',
+        round: 0,
+        phaseEndsAt: 0,
+        roles: new Map(),
+        tagged: new Set(),
+        tags: new Map(),
+        wins: new Map(),
+        winner: null,
+        timer: null
+    };
+}
+
+/**
+ * Start or stop the match as players come and go
+ */
+function updateRoundPhase(session) {
+    const round = session.round;
+    const enoughPlayers = session.players.size >= MIN_ROUND_PLAYERS;
+    
+    if (round.phase === 'waiting') {
+        if (enoughPlayers) {
+            startCountdown(session);
+        }
+        return;
+    }
+    
+    if (!enoughPlayers) {
+        round.roles.clear();
+        round.tagged.clear();
+        round.tags.clear();
+        round.winner = null;
+        setRoundPhase(session, 'waiting', 0);
+        return;
+    }
+    
+    checkRoundOver(session);
+}
+
+/**
+ * Count down to the next round, with everyone on the other side from last time
+ */
+function startCountdown(session) {
+    const round = session.round;
+    const previousRoles = new Map(round.roles);
+    
+    round.round++;
+    round.roles.clear();
+    round.tagged.clear();
+    round.tags.clear();
+    round.winner = null;
+    
+    for (const playerId of session.players.keys()) {
+        const previous = previousRoles.get(playerId);
+        const client = clients.get(session.players.get(playerId));
+        if (previous) {
+            round.roles.set(playerId, previous === 'merc' ? 'jackalope' : 'merc');
+        } else if (round.round === 1 && client && client.team) {
+            round.roles.set(playerId, client.team);
+        } else {
+            round.roles.set(playerId, smallerSide(round.roles));
+        }
+    }
+    ensureBothSides(round.roles);
+    syncTeamsToRoles(session);
+    session.swapRequests.clear();
+    
+    setRoundPhase(session, 'countdown', LOBBY_COUNTDOWN_MS);
+    logMessage(`Round ${round.round} starting in ${LOBBY_COUNTDOWN_MS / 1000}s`);
+}
+
+/**
+ * Begin a round: everyone starts at full health
+ */
+function startRound(session) {
+    const round = session.round;
+    ensureBothSides(round.roles);
+    syncTeamsToRoles(session);
+    
+    for (const playerId of session.players.keys()) {
+        const health = session.health.has(playerId) ? session.health.get(playerId) : MAX_HEALTH;
+        session.health.set(playerId, MAX_HEALTH);
+        if (health !== MAX_HEALTH) {
+            broadcastGameEvent(session, {
+                event_type: 'player_respawned',
+                target: playerId,
+                health: MAX_HEALTH,
+                timestamp: Date.now()
+            });
+        }
+    }
+    
+    setRoundPhase(session, 'playing', ROUND_DURATION_MS);
+    logMessage(`Round ${round.round} started`);
+}
+
+/**
+ * End the round if one side has won
+ */
+function checkRoundOver(session) {
+    const round = session.round;
+    if (round.phase !== 'playing') return;
+    
+    const roles = [...round.roles.entries()];
+    const mercs = roles.filter(([, role]) => role === 'merc');
+    const jackalopes = roles.filter(([, role]) => role === 'jackalope');
+    
+    if (mercs.length === 0) {
+        endRound(session, 'jackalope');
+    } else if (jackalopes.every(([playerId]) => round.tagged.has(playerId))) {
+        endRound(session, 'merc');
+    }
+}
+
+/**
+ * Record the winning side and show the results
+ */
+function endRound(session, winner) {
+    const round = session.round;
+    round.winner = winner;
+    
+    for (const [playerId, role] of round.roles.entries()) {
+        if (role === winner) {
+            round.wins.set(playerId, (round.wins.get(playerId) || 0) + 1);
+        }
+    }
+    
+    setRoundPhase(session, 'results', RESULTS_DURATION_MS);
+    logMessage(`Round ${round.round} won by ${winner}s`);
+}
+
+/**
+ * Move the match to a new phase and tell everyone
+ */
+function setRoundPhase(session, phase, duration) {
+    const round = session.round;
+    
+    if (round.timer) {
+        clearTimeout(round.timer);
+        round.timer = null;
+    }
+    
+    round.phase = phase;
+    round.phaseEndsAt = duration ? Date.now() + duration : 0;
+    if (duration) {
+        round.timer = setTimeout(() => {
+            round.timer = null;
+            handleRoundPhaseEnd(session);
+        }, duration);
+    }
+    
+    broadcastRoundState(session);
+}
+
+function handleRoundPhaseEnd(session) {
+    switch (session.round.phase) {
+        case 'countdown':
+            startRound(session);
+            break;
+        case 'playing':
+            // The jackalopes outlasted the timer
+            endRound(session, 'jackalope');
+            break;
+        case 'results':
+            if (session.players.size >= MIN_ROUND_PLAYERS) {
+                startCountdown(session);
+            } else {
+                setRoundPhase(session, 'waiting', 0);
+            }
+            break;
+    }
+}
+
+/**
+ * The side with fewer players (jackalopes on a tie)
+ */
+function smallerSide(roles) {
+    let mercs = 0;
+    let jackalopes = 0;
+    for (const role of roles.values()) {
+        if (role === 'merc') mercs++;
+        else jackalopes++;
+    }
+    return mercs < jackalopes ? 'merc' : 'jackalope';
+}
+
+/**
+ * A round needs at least one player on each side
+ */
+function ensureBothSides(roles) {
+    if (roles.size < 2) return;
+    const values = [...roles.values()];
+    if (values.every((role) => role === values[0])) {
+        const last = [...roles.keys()].pop();
+        roles.set(last, values[0] === 'merc' ? 'jackalope' : 'merc');
+    }
+}
+
+/**
+ * Keep each player's team on the side they're playing, so they stay there
+ * once the match is over
+ */
+function syncTeamsToRoles(session) {
+    for (const [playerId, role] of session.round.roles.entries()) {
+        const client = clients.get(session.players.get(playerId));
+        if (client && client.team !== role) {
+            setTeam(session, client, role);
+        }
+    }
+}
+
+function roundStateMessage(session) {
+    const round = session.round;
+    return {
+        type: 'round_state',
+        round: {
+            phase: round.phase,
+            round: round.round,
+            remainingMs: round.phaseEndsAt ? Math.max(0, round.phaseEndsAt - Date.now()) : 0,
+            endsAt: round.phaseEndsAt || undefined,
+            roles: Object.fromEntries(round.roles),
+            tagged: [...round.tagged],
+            tags: Object.fromEntries(round.tags),
+            wins: Object.fromEntries(round.wins),
+            winner: round.winner
+        }
+    };
+}
+
+function broadcastRoundState(session) {
+    const message = roundStateMessage(session);
+    for (const otherClientId of sessionAudience(session)) {
+        sendToClient(otherClientId, message);
+    }
+}
+
+/**
+ * The team with fewer players in a session (jackalopes on a tie)
+ */
+function smallerTeam(session, exceptPlayerId) {
+    const sizes = teamSizes(session, exceptPlayerId);
+    return sizes.merc < sizes.jackalope ? 'merc' : 'jackalope';
+}
+
+function teamSizes(session, exceptPlayerId) {
+    const sizes = { merc: 0, jackalope: 0 };
+    for (const [playerId, otherClientId] of session.players.entries()) {
+        const other = clients.get(otherClientId);
+        if (playerId !== exceptPlayerId && other && other.team) {
+            sizes[other.team]++;
+        }
+    }
+    return sizes;
+}
+
+/**
+ * Lowest free slot on a team. Jackalopes get even slots and mercs odd ones,
+ * which is what clients that still reason about player indexes expect.
+ */
+function nextTeamIndex(session, team) {
+    const taken = new Set();
+    for (const otherClientId of session.players.values()) {
+        const other = clients.get(otherClientId);
+        if (other && other.team === team) {
+            taken.add(other.teamIndex);
+        }
+    }
+    let index = team === 'jackalope' ? 0 : 1;
+    while (taken.has(index)) {
+        index += 2;
+    }
+    return index;
+}
+
+function teamAssignment(client) {
+    return { team: client.team, index: client.teamIndex };
+}
+
+/**
+ * Move a player to the other team, if it doesn't unbalance the teams. If it
+ * would, the request waits for someone on the other team to ask as well.
+ */
+function handleRoleSwapRequest(clientId) {
+    const client = clients.get(clientId);
+    
+    if (!client || !client.authenticated || !client.sessionId || client.spectator) {
+        return;
+    }
+    
+    const session = sessions.get(client.sessionId);
+    if (!session) return;
+    
+    // Once a round is under way the sides are fixed until it's over
+    if (session.round.phase === 'playing' || session.round.phase === 'results') {
+        sendToClient(clientId, {
+            type: 'role_swap',
+            status: 'denied',
+            reason: 'Sides can only be swapped before a round starts'
+        });
+        return;
+    }
+    
+    const otherTeam = client.team === 'merc' ? 'jackalope' : 'merc';
+    const sizes = teamSizes(session, client.playerId);
+    
+    if (sizes[otherTeam] + 1 - sizes[client.team] <= 1) {
+        swapTeam(session, client);
+        broadcastRoundState(session);
+        return;
+    }
+    
+    // Trade places with someone who asked to move the other way
+    for (const playerId of session.swapRequests) {
+        const other = clients.get(session.players.get(playerId));
+        if (other && other.team === otherTeam) {
+            swapTeam(session, other);
+            swapTeam(session, client);
+            broadcastRoundState(session);
+            return;
+        }
+    }
+    
+    session.swapRequests.add(client.playerId);
+    sendToClient(clientId, {
+        type: 'role_swap',
+        status: 'pending',
+        reason: `Waiting for a ${otherTeam} to swap with`
+    });
+}
+
+function swapTeam(session, client) {
+    session.swapRequests.delete(client.playerId);
+    setTeam(session, client, client.team === 'merc' ? 'jackalope' : 'merc');
+    
+    // Counting down to a round - the swap applies to it
+    if (session.round.roles.has(client.playerId)) {
+        session.round.roles.set(client.playerId, client.team);
+    }
+    
+    sendToClient(client.id, { type: 'role_swap', status: 'granted' });
+    logMessage(`${client.playerId} swapped to ${client.team}`);
+}
+
+/**
+ * Move a player to a team and tell them
+ */
+function setTeam(session, client, team) {
+    client.team = team;
+    client.teamIndex = nextTeamIndex(session, team);
+    sendToClient(client.id, {
+        type: 'team_assignment',
+        assignment: teamAssignment(client)
+    });
+}
+
+/**
+ * Handle chat messages. `channel` is 'all' (default) or 'team'.
+ */
+function handleChat(clientId, data) {
+    const client = clients.get(clientId);
+    
+    if (!client || !client.authenticated || !client.sessionId || client.spectator) {
+        return;
+    }
+    
+    if (typeof data.message !== 'string' || !data.message.trim()) {
+        return;
+    }
+    
+    if (data.message.length > MAX_CHAT_LENGTH) {
+        sendToClient(clientId, {
+            type: 'chat_rejected',
+            reason: 'too_long'
+        });
+        return;
+    }
+    
+    const retryAfterMs = chatRetryAfter(client);
+    if (retryAfterMs > 0) {
+        sendToClient(clientId, {
+            type: 'chat_rejected',
+            reason: 'rate_limited',
+            retryAfterMs: retryAfterMs
+        });
+        return;
+    }
+    
+    const session = sessions.get(client.sessionId);
+    if (!session) return;
+    
+    // Sanitize message
+    const message = data.message.replace(/[^\w\s.!?,'-]/g, '').trim();
+    if (!message) return;
+    
+    const channel = data.channel === 'team' ? 'team' : 'all';
+    const team = playerTeam(session, client);
+    
+    // Broadcast to everyone in the session, or just the sender's team
+    for (const [_, otherClientId] of session.players.entries()) {
+        if (channel === 'team' && playerTeam(session, clients.get(otherClientId)) !== team) {
+            continue;
+        }
+        
+        sendToClient(otherClientId, {
+            type: 'chat',
+            player: client.playerId,
+            playerName: client.playerName,
+            message: message,
+            channel: channel,
+            timestamp: Date.now()
+        });
+    }
+}
+
+/**
+ * Record a chat message against the sender's rate limit. Returns how long they
+ * have to wait in ms, or 0 if the message can go out.
+ */
+function chatRetryAfter(client) {
+    const now = Date.now();
+    client.chatTimes = (client.chatTimes || []).filter((time) => now - time < CHAT_RATE_WINDOW_MS);
+    
+    if (client.chatTimes.length >= CHAT_RATE_LIMIT) {
+        return client.chatTimes[0] + CHAT_RATE_WINDOW_MS - now;
+    }
+    
+    client.chatTimes.push(now);
+    return 0;
+}
+
+/**
+ * The side a player is on right now: their hunt mode role during a round,
+ * otherwise the team they were assigned
+ */
+function playerTeam(session, client) {
+    return session.round.roles.get(client.playerId) || client.team || client.playerType;
+}
+
+/**
+ * Handle session leave requests
+ */
+function handleLeaveSession(clientId) {
+    const client = clients.get(clientId);
+    
+    if (!client || !client.sessionId) {
+        return;
+    }
+    
+    const session = sessions.get(client.sessionId);
+    if (!session) {
+        client.sessionId = null;
+        return;
+    }
+    
+    if (client.spectator) {
+        session.spectators.delete(client.playerId);
+        session.interest.delete(client.playerId);
+        client.spectator = false;
+        removeIfEmpty(client.sessionId);
+        logMessage(`Client ${clientId} (${client.playerName}) stopped watching session ${client.sessionId}`);
+        client.sessionId = null;
+        return;
+    }
+    
+    // Remove player from session
+    session.players.delete(client.playerId);
+    session.interest.delete(client.playerId);
+    for (const pairs of session.interest.values()) {
+        pairs.delete(client.playerId);
+    }
+    session.health.delete(client.playerId);
+    session.round.roles.delete(client.playerId);
+    session.round.wins.delete(client.playerId);
+    session.swapRequests.delete(client.playerId);
+    
+    // Notify everyone left
+    for (const otherClientId of sessionAudience(session)) {
+        sendToClient(otherClientId, {
+            type: 'player_left',
+            player: client.playerId,
+            playerName: client.playerName
+        });
+    }
+    
+    if (!removeIfEmpty(client.sessionId)) {
+        updateRoundPhase(session);
+    }
+    
+    logMessage(`Client ${clientId} (${client.playerName}) left session ${client.sessionId}`);
+    client.sessionId = null;
+    client.latestUpdate = null;
+    client.positions = [];
+    client.movement = null;
+}
+
+/**
+ * Remove a session nobody is playing in or watching. Returns true if it went.
+ */
+function removeIfEmpty(sessionId) {
+    const session = sessions.get(sessionId);
+    if (!session || session.players.size > 0 || session.spectators.size > 0) {
+        return false;
+    }
+    
+    if (session.round.timer) {
+        clearTimeout(session.round.timer);
+    }
+    sessions.delete(sessionId);
+    logMessage(`Session ${sessionId} removed (empty)`);
+    return true;
+}
+
+/**
+ * Handle client disconnection
+ */
+function handleDisconnect(clientId) {
+    const client = clients.get(clientId);
+    
+    // Already holding their place (close frame followed by the socket closing)
+    if (!client || client.resumeTimer) {
+        return;
+    }
+    
+    if (client.ackTimer) {
+        clearTimeout(client.ackTimer);
+        client.ackTimer = null;
+    }
+    if (client.inputAckTimer) {
+        clearTimeout(client.inputAckTimer);
+        client.inputAckTimer = null;
+    }
+    if (client.eventAckTimer) {
+        clearTimeout(client.eventAckTimer);
+        client.eventAckTimer = null;
+    }
+    
+    // Spectators have no place to hold; they'll just watch again
+    if (client.spectator) {
+        handleLeaveSession(clientId);
+    }
+    
+    // Dropped without leaving - hold their place in case they come back
+    if (client.sessionId && sessions.has(client.sessionId)) {
+        holdPlayer(clientId);
+        return;
+    }
+    
+    removeClient(clientId);
     logMessage(`Client ${clientId} disconnected`);
 }
 
+/**
+ * Keep a dropped player in their session for RESUME_GRACE_MS. Nothing is sent
+ * to them meanwhile, and they only leave if nobody resumes them in time.
+ */
+function holdPlayer(clientId) {
+    const client = clients.get(clientId);
+    
+    client.socket = null;
+    client.resumeTimer = setTimeout(() => {
+        logMessage(`Client ${clientId} (${client.playerName}) did not come back`);
+        handleLeaveSession(clientId);
+        removeClient(clientId);
+    }, RESUME_GRACE_MS);
+    
+    logMessage(`Client ${clientId} (${client.playerName}) dropped, holding their place for ${RESUME_GRACE_MS}ms`);
+}
+
+function removeClient(clientId) {
+    const client = clients.get(clientId);
+    
+    if (client.resumeToken && resumeTokens.get(client.resumeToken) === clientId) {
+        resumeTokens.delete(client.resumeToken);
+    }
+    clients.delete(clientId);
+}
+
 /**
  * Send a message to a client
  */
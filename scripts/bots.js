@@ -0,0 +1,109 @@
+// Fill a session with headless bots and report what it costs, e.g.
+//
+//   npm run bots -- --count 20 --movement patrol --duration 60
+//
+// Runs src/network/bots.ts through Vite, so the bots are the same
+// ConnectionManager the game uses. Prints, once a second and per bot, the
+// updates the server fans out and the client-side network time per frame.
+// Needs a server running (node jackalopes-server/server.js) and Node 22, or
+// Node 20+ with --experimental-websocket (the npm script passes it).
+
+import { parseArgs } from 'node:util';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const { values: args } = parseArgs({
+  options: {
+    url: { type: 'string', default: 'ws://localhost:8082' },
+    session: { type: 'string' },
+    count: { type: 'string', default: '10' },
+    movement: { type: 'string', default: 'random' },
+    'fire-ms': { type: 'string', default: '3000' },
+    'churn-ms': { type: 'string', default: '0' },
+    'tick-ms': { type: 'string', default: '50' },
+    duration: { type: 'string', default: '30' },
+    help: { type: 'boolean', default: false }
+  }
+});
+
+if (args.help) {
+  console.log(`Usage: npm run bots -- [options]
+
+  --url <ws url>      Server to connect to (${args.url})
+  --session <code>    Join this session instead of the default one
+  --count <n>         Number of bots (${args.count})
+  --movement <kind>   random, patrol or idle (${args.movement})
+  --fire-ms <ms>      Average time between each bot's shots, 0 for none (${args['fire-ms']})
+  --churn-ms <ms>     Average time before a bot leaves and rejoins, 0 for never (${args['churn-ms']})
+  --tick-ms <ms>      How often bots move and send updates (${args['tick-ms']})
+  --duration <s>      Seconds to run for, 0 to run until Ctrl+C (${args.duration})`);
+  process.exit(0);
+}
+
+if (typeof WebSocket === 'undefined') {
+  console.error('No WebSocket in this Node. Use Node 22+, or run with --experimental-websocket.');
+  process.exit(1);
+}
+
+if (!['random', 'patrol', 'idle'].includes(args.movement)) {
+  console.error(`Unknown movement "${args.movement}", expected random, patrol or idle`);
+  process.exit(1);
+}
+
+const vite = await createServer({
+  root: fileURLToPath(new URL('..', import.meta.url)),
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false }
+});
+const { BotHarness } = await vite.ssrLoadModule('/src/network/bots.ts');
+
+const harness = new BotHarness({
+  serverUrl: args.url,
+  sessionCode: args.session ?? null,
+  movement: args.movement,
+  fireIntervalMs: Number(args['fire-ms']),
+  churnIntervalMs: Number(args['churn-ms']),
+  tickMs: Number(args['tick-ms'])
+});
+
+const startedAt = Date.now();
+const count = Number(args.count);
+const duration = Number(args.duration) * 1000;
+console.log(`Starting ${count} bots against ${args.url}${args.session ? `, session ${args.session}` : ''}`);
+harness.spawn(count);
+
+// Worst frame seen while the session was full
+let worstFrameMs = 0;
+
+const report = () => {
+  const stats = harness.getStats();
+  if (stats.active === stats.bots) {
+    worstFrameMs = Math.max(worstFrameMs, stats.maxFrameMs);
+  }
+
+  const seconds = Math.round((Date.now() - startedAt) / 1000);
+  console.log(
+    `${String(seconds).padStart(4)}s  ${stats.active}/${stats.bots} in session` +
+    `  | per bot: up ${stats.updatesSent.toFixed(1)}/s, down ${stats.updatesReceived.toFixed(1)} updates/s` +
+    `, ${stats.messagesReceived.toFixed(1)} msgs/s, ${(stats.bytesReceived / 1024).toFixed(1)} KB/s` +
+    `  | frame ${stats.frameMs.toFixed(2)}ms avg, ${stats.maxFrameMs.toFixed(2)}ms max` +
+    `  | ${stats.shots} shots, ${stats.joins} joins, ${stats.leaves} leaves`
+  );
+};
+
+const reportInterval = setInterval(report, 1000);
+
+const finish = async () => {
+  clearInterval(reportInterval);
+  harness.stop();
+  console.log(`Done. Worst frame with every bot in session: ${worstFrameMs.toFixed(2)}ms`);
+  await vite.close();
+  // Give the leave_session messages a moment to go out
+  setTimeout(() => process.exit(0), 200);
+};
+
+process.on('SIGINT', finish);
+if (duration > 0) {
+  setTimeout(finish, duration);
+}
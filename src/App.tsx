@@ -2,25 +2,39 @@ import { Canvas } from './common/components/canvas'
 import { Crosshair } from './common/components/crosshair'
 import { Instructions } from './common/components/instructions'
 import { useLoadingAssets } from './common/hooks/use-loading-assets'
-import { Environment, MeshReflectorMaterial, PerspectiveCamera, OrbitControls } from '@react-three/drei'
+import { Environment, PerspectiveCamera, OrbitControls } from '@react-three/drei'
 import { EffectComposer, Vignette, ChromaticAberration, BrightnessContrast, ToneMapping, Bloom } from '@react-three/postprocessing'
 import { BlendFunction } from 'postprocessing'
 import { useFrame, useThree } from '@react-three/fiber'
-import { CuboidCollider, Physics, RigidBody } from '@react-three/rapier'
+import { Physics } from '@react-three/rapier'
 import { useControls, folder } from 'leva'
-import { useTexture } from '@react-three/drei'
-import { useRef, useEffect, useState, useMemo } from 'react'
+import { useRef, useEffect, useState, useMemo, useCallback } from 'react'
 import * as THREE from 'three'
 import { Player, PlayerControls } from './game/player'
 import { Jackalope } from './game/jackalope'
 import { Ball } from './game/ball'
 import { SphereTool, setSphereDarkMode } from './game/sphere-tool'
 import { Platforms } from './game/platforms'
+import { Scene } from './game/scene'
 import { MultiplayerManager, useRemoteShots } from './network/MultiplayerManager'
 import { NetworkStats } from './network/NetworkStats'
 import { ConnectionManager } from './network/ConnectionManager'
+import { GameSnapshot, SessionInfo } from './network/protocol'
+import { DEFAULT_PLAYER_TIMEOUTS } from './network/presence'
+import { LINK_PRESETS, LINK_PRESET_NAMES, LinkConditions, LinkPreset, LinkStats } from './network/LinkConditioner'
+import { BotHarness, BotHarnessStats, BotMovement } from './network/bots'
+import { GameHost } from './network/GameHost'
+import { PeerHostListener } from './network/transport'
+import { SessionRecording, encodeRecording, getRecordingFileName } from './network/recording'
+import { formatRoundTime } from './network/rounds'
 import { ConnectionTest } from './components/ConnectionTest'
 import { VirtualGamepad } from './components/VirtualGamepad'
+import { HealthDisplay } from './components/HealthDisplay'
+import { RoundDisplay } from './components/RoundDisplay'
+import { Lobby } from './components/Lobby'
+import { ReplayViewer } from './components/ReplayViewer'
+import { SpectatorView } from './components/SpectatorView'
+import { ChatOverlay } from './components/ChatOverlay'
 import { RemotePlayer } from './game/RemotePlayer'
 // import { KeyDisplay } from './common/components/key-display' // Commenting out unused import
 import { ModelTester } from './game/ModelTester'
@@ -223,79 +237,26 @@ const Stars = ({ count = 1000, depth = 100, size = 0.2, color = "#ffffff", twink
     );
 };
 
-const Scene = ({ playerRef }: { playerRef: React.RefObject<any> }) => {
-    const texture = useTexture('/final-texture.png')
-    texture.wrapS = texture.wrapT = THREE.RepeatWrapping
-    
-    // Ground texture (50x50)
-    const groundTexture = texture.clone()
-    groundTexture.wrapS = groundTexture.wrapT = THREE.RepeatWrapping
-    groundTexture.repeat.set(12, 12) // 12 repeats to match ground size
-    
-    // Side walls texture (2x4)
-    const sideWallTexture = texture.clone()
-    sideWallTexture.wrapS = sideWallTexture.wrapT = THREE.RepeatWrapping
-    sideWallTexture.repeat.set(12, 1) // 12 repeats horizontally to match wall length
-    
-    // Front/back walls texture (50x4)
-    const frontWallTexture = texture.clone()
-    frontWallTexture.wrapS = frontWallTexture.wrapT = THREE.RepeatWrapping
-    frontWallTexture.repeat.set(12, 1) // 12 repeats horizontally to match wall width
-
-    return (
-        <RigidBody type="fixed" position={[0, 0, 0]} colliders={false}>
-            {/* Ground collider */}
-            <CuboidCollider args={[25, 0.1, 25]} position={[0, -0.1, 0]} />
-            
-            {/* Wall colliders */}
-            <CuboidCollider position={[25, 2, 0]} args={[1, 2, 25]} />
-            <CuboidCollider position={[-25, 2, 0]} args={[1, 2, 25]} />
-            <CuboidCollider position={[0, 2, 25]} args={[25, 2, 1]} />
-            <CuboidCollider position={[0, 2, -25]} args={[25, 2, 1]} />
-            
-            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, 0]} receiveShadow>
-                <planeGeometry args={[50, 50]} />
-                <MeshReflectorMaterial
-                    map={groundTexture}
-                    mirror={0}
-                    roughness={1}
-                    depthScale={0}
-                    minDepthThreshold={0.9}
-                    maxDepthThreshold={1}
-                    metalness={0}
-                />
-            </mesh>
-            
-            {/* Border walls */}
-            <mesh position={[25, 2, 0]} castShadow receiveShadow>
-                <boxGeometry args={[2, 4, 50]} />
-                <meshStandardMaterial map={sideWallTexture} side={THREE.DoubleSide} />
-            </mesh>
-            <mesh position={[-25, 2, 0]} castShadow receiveShadow>
-                <boxGeometry args={[2, 4, 50]} />
-                <meshStandardMaterial map={sideWallTexture} side={THREE.DoubleSide} />
-            </mesh>
-            <mesh position={[0, 2, 25]} castShadow receiveShadow>
-                <boxGeometry args={[50, 4, 2]} />
-                <meshStandardMaterial map={frontWallTexture} side={THREE.DoubleSide} />
-            </mesh>
-            <mesh position={[0, 2, -25]} castShadow receiveShadow>
-                <boxGeometry args={[50, 4, 2]} />
-                <meshStandardMaterial map={frontWallTexture} side={THREE.DoubleSide} />
-            </mesh>
-        </RigidBody>
-    )
-}
-
 const SnapshotDebugOverlay = ({ 
-  snapshots,
-  getSnapshotAtTime
+  connectionManager
 }: { 
-  snapshots: any[],
-  getSnapshotAtTime: (timestamp: number) => any
+  connectionManager: ConnectionManager
 }) => {
   const [expanded, setExpanded] = useState(false);
-  const [selectedSnapshot, setSelectedSnapshot] = useState<any>(null);
+  const [selectedSnapshot, setSelectedSnapshot] = useState<GameSnapshot | null>(null);
+  const [snapshots, setSnapshots] = useState<GameSnapshot[]>(() => connectionManager.getSnapshots());
+  
+  // Follow the shared snapshot history as it grows
+  useEffect(() => {
+    const handleSnapshotRecorded = () => {
+      setSnapshots(connectionManager.getSnapshots());
+    };
+    
+    connectionManager.on('snapshot_recorded', handleSnapshotRecorded);
+    return () => {
+      connectionManager.off('snapshot_recorded', handleSnapshotRecorded);
+    };
+  }, [connectionManager]);
   
   // Update selected snapshot when snapshots change
   useEffect(() => {
@@ -445,6 +406,101 @@ const MultiplayerDebugPanel = ({
   // Track forces
   const [forceCount, setForceCount] = useState(0);
   
+  // Last answer to a role swap request
+  const [roleSwapStatus, setRoleSwapStatus] = useState<string | null>(null);
+  
+  // Simulated network conditions (development builds only)
+  const [linkConditions, setLinkConditions] = useState<LinkConditions | null>(() => connectionManager?.getLinkConditions() ?? null);
+  const [linkStats, setLinkStats] = useState<{ outgoing: LinkStats, incoming: LinkStats } | null>(null);
+  
+  // Bots joining our server and session (development builds only)
+  const botHarness = useRef<BotHarness | null>(null);
+  const [botStats, setBotStats] = useState<BotHarnessStats | null>(null);
+  const [botMovement, setBotMovement] = useState<BotMovement>('random');
+  const [botsFire, setBotsFire] = useState(true);
+  const [botsChurn, setBotsChurn] = useState(false);
+  
+  // Recording the session for a bug report
+  const [recordingProgress, setRecordingProgress] = useState<{ entries: number, duration: number, truncated: boolean } | null>(null);
+  const [recordingStatus, setRecordingStatus] = useState<string | null>(null);
+  
+  useEffect(() => {
+    return () => {
+      botHarness.current?.stop();
+      botHarness.current = null;
+    };
+  }, []);
+  
+  useEffect(() => {
+    if (!visible) return;
+    
+    const poll = () => setBotStats(botHarness.current?.getStats() ?? null);
+    poll();
+    const interval = setInterval(poll, 500);
+    return () => clearInterval(interval);
+  }, [visible]);
+  
+  useEffect(() => {
+    if (!connectionManager) return;
+    
+    connectionManager.on('link_conditions', setLinkConditions);
+    return () => {
+      connectionManager.off('link_conditions', setLinkConditions);
+    };
+  }, [connectionManager]);
+  
+  useEffect(() => {
+    if (!connectionManager || !visible) return;
+    
+    const poll = () => setRecordingProgress(connectionManager.getRecordingProgress());
+    poll();
+    const interval = setInterval(poll, 500);
+    return () => clearInterval(interval);
+  }, [connectionManager, visible]);
+  
+  const saveRecording = async () => {
+    const recording: SessionRecording | null = connectionManager.stopRecording();
+    setRecordingProgress(null);
+    if (!recording) return;
+    
+    setRecordingStatus('Saving...');
+    const url = URL.createObjectURL(await encodeRecording(recording));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getRecordingFileName(recording);
+    link.click();
+    // Once the download has the data
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    setRecordingStatus(`Saved ${link.download}`);
+  };
+  
+  useEffect(() => {
+    if (!connectionManager || !visible) return;
+    
+    const poll = () => setLinkStats(connectionManager.getLinkStats());
+    poll();
+    const interval = setInterval(poll, 500);
+    return () => clearInterval(interval);
+  }, [connectionManager, visible]);
+  
+  const activeLinkPreset = linkConditions
+    ? (Object.keys(LINK_PRESETS) as LinkPreset[]).find(preset =>
+        (Object.keys(LINK_PRESETS[preset]) as (keyof LinkConditions)[]).every(key => LINK_PRESETS[preset][key] === linkConditions[key]))
+    : undefined;
+  
+  useEffect(() => {
+    if (!connectionManager) return;
+    
+    const handleRoleSwap = (data: { status: string, reason?: string }) => {
+      setRoleSwapStatus(data.reason ? `${data.status} - ${data.reason}` : data.status);
+    };
+    
+    connectionManager.on('role_swap', handleRoleSwap);
+    return () => {
+      connectionManager.off('role_swap', handleRoleSwap);
+    };
+  }, [connectionManager]);
+  
   useEffect(() => {
     if (!connectionManager || !characterTypeOverride) return;
     
@@ -513,15 +569,43 @@ const MultiplayerDebugPanel = ({
     }
   };
   
-  const resetPlayerCount = () => {
-    if (connectionManager && connectionManager.resetPlayerCount) {
-      connectionManager.resetPlayerCount();
-      console.log('🔄 Reset player count - next reload will assign new player types');
-      
-      // After reset, force a reload to get a new player type
-      if (confirm('Reset player count successful! Reload now to get a new player type?')) {
-        window.location.reload();
-      }
+  const requestRoleSwap = () => {
+    if (connectionManager && connectionManager.requestRoleSwap) {
+      setRoleSwapStatus('requested');
+      connectionManager.requestRoleSwap();
+    }
+  };
+  
+  const spawnBots = (count: number) => {
+    if (!connectionManager) return;
+    
+    if (!botHarness.current) {
+      botHarness.current = new BotHarness({
+        serverUrl: connectionManager.getServerUrl(),
+        sessionCode: connectionManager.getCurrentSession()?.key ?? null,
+        movement: botMovement,
+        fireIntervalMs: botsFire ? 3000 : 0,
+        churnIntervalMs: botsChurn ? 10000 : 0
+      });
+    }
+    botHarness.current.spawn(count);
+  };
+  
+  const updateBots = (movement: BotMovement, fire: boolean, churn: boolean) => {
+    setBotMovement(movement);
+    setBotsFire(fire);
+    setBotsChurn(churn);
+    botHarness.current?.setOptions({
+      movement,
+      fireIntervalMs: fire ? 3000 : 0,
+      churnIntervalMs: churn ? 10000 : 0
+    });
+  };
+  
+  const rebalanceTeams = () => {
+    if (connectionManager && connectionManager.rebalanceOfflineTeam) {
+      connectionManager.rebalanceOfflineTeam();
+      console.log('🔄 Rebalanced offline teams');
     }
   };
 
@@ -627,9 +711,9 @@ const MultiplayerDebugPanel = ({
       
       <div style={{ marginBottom: '10px' }}>
         <button 
-          onClick={resetPlayerCount}
+          onClick={requestRoleSwap}
           style={{ 
-            backgroundColor: '#F44336', 
+            backgroundColor: '#009688', 
             border: 'none', 
             color: 'white', 
             padding: '5px 10px', 
@@ -638,13 +722,192 @@ const MultiplayerDebugPanel = ({
             cursor: 'pointer'
           }}
         >
-          RESET PLAYER COUNT
+          REQUEST ROLE SWAP
         </button>
+        {roleSwapStatus && <span style={{ fontSize: '10px' }}>{roleSwapStatus}</span>}
+      </div>
+      
+      {/* Offline there's no server to pick teams, so the tabs balance them among themselves */}
+      {isOfflineMode && (
+        <div style={{ marginBottom: '10px' }}>
+          <button 
+            onClick={rebalanceTeams}
+            style={{ 
+              backgroundColor: '#F44336', 
+              border: 'none', 
+              color: 'white', 
+              padding: '5px 10px', 
+              margin: '0 5px 5px 0',
+              borderRadius: '3px',
+              cursor: 'pointer'
+            }}
+          >
+            REBALANCE TEAMS
+          </button>
+        </div>
+      )}
+      
+      {import.meta.env.DEV && (
+        <div style={{ marginBottom: '10px' }}>
+          <div style={{ marginBottom: '5px' }}>Link Conditioner:</div>
+          {(Object.keys(LINK_PRESETS) as LinkPreset[]).map(preset => (
+            <button 
+              key={preset}
+              onClick={() => connectionManager?.setLinkPreset(preset)}
+              style={{ 
+                backgroundColor: activeLinkPreset === preset ? '#3F51B5' : '#607D8B', 
+                border: 'none', 
+                color: 'white', 
+                padding: '5px 10px', 
+                margin: '0 5px 5px 0',
+                borderRadius: '3px',
+                cursor: 'pointer'
+              }}
+            >
+              {LINK_PRESET_NAMES[preset].toUpperCase()}
+            </button>
+          ))}
+          {linkConditions?.enabled && (
+            <div style={{ fontSize: '10px' }}>
+              {linkConditions.latencyMs}±{linkConditions.jitterMs}ms each way, {(linkConditions.lossRate * 100).toFixed(1)}% loss, {(linkConditions.duplicateRate * 100).toFixed(1)}% dup, {(linkConditions.reorderRate * 100).toFixed(1)}% reorder, {linkConditions.bandwidthKbps > 0 ? `${linkConditions.bandwidthKbps}kbps` : 'unlimited'}
+            </div>
+          )}
+          {linkConditions?.enabled && linkStats && (
+            <div style={{ fontSize: '10px', opacity: 0.8 }}>
+              Up: {linkStats.outgoing.dropped} dropped, {linkStats.outgoing.duplicated} dup, {linkStats.outgoing.reordered} reordered, {linkStats.outgoing.inFlight} in flight<br />
+              Down: {linkStats.incoming.dropped} dropped, {linkStats.incoming.duplicated} dup, {linkStats.incoming.reordered} reordered, {linkStats.incoming.inFlight} in flight
+            </div>
+          )}
+        </div>
+      )}
+      
+      {import.meta.env.DEV && !isOfflineMode && (
+        <div style={{ marginBottom: '10px' }}>
+          <div style={{ marginBottom: '5px' }}>Bots:</div>
+          {[1, 5].map(count => (
+            <button 
+              key={count}
+              onClick={() => spawnBots(count)}
+              style={{ 
+                backgroundColor: '#795548', 
+                border: 'none', 
+                color: 'white', 
+                padding: '5px 10px', 
+                margin: '0 5px 5px 0',
+                borderRadius: '3px',
+                cursor: 'pointer'
+              }}
+            >
+              +{count}
+            </button>
+          ))}
+          <button 
+            onClick={() => botHarness.current?.stop()}
+            style={{ 
+              backgroundColor: '#795548', 
+              border: 'none', 
+              color: 'white', 
+              padding: '5px 10px', 
+              margin: '0 5px 5px 0',
+              borderRadius: '3px',
+              cursor: 'pointer'
+            }}
+          >
+            REMOVE ALL
+          </button>
+          <br />
+          {(['random', 'patrol', 'idle'] as BotMovement[]).map(movement => (
+            <button 
+              key={movement}
+              onClick={() => updateBots(movement, botsFire, botsChurn)}
+              style={{ 
+                backgroundColor: botMovement === movement ? '#3F51B5' : '#607D8B', 
+                border: 'none', 
+                color: 'white', 
+                padding: '5px 10px', 
+                margin: '0 5px 5px 0',
+                borderRadius: '3px',
+                cursor: 'pointer'
+              }}
+            >
+              {movement.toUpperCase()}
+            </button>
+          ))}
+          <button 
+            onClick={() => updateBots(botMovement, !botsFire, botsChurn)}
+            style={{ 
+              backgroundColor: botsFire ? '#3F51B5' : '#607D8B', 
+              border: 'none', 
+              color: 'white', 
+              padding: '5px 10px', 
+              margin: '0 5px 5px 0',
+              borderRadius: '3px',
+              cursor: 'pointer'
+            }}
+          >
+            FIRE
+          </button>
+          <button 
+            onClick={() => updateBots(botMovement, botsFire, !botsChurn)}
+            style={{ 
+              backgroundColor: botsChurn ? '#3F51B5' : '#607D8B', 
+              border: 'none', 
+              color: 'white', 
+              padding: '5px 10px', 
+              margin: '0 5px 5px 0',
+              borderRadius: '3px',
+              cursor: 'pointer'
+            }}
+          >
+            CHURN
+          </button>
+          {botStats && botStats.bots > 0 && (
+            <div style={{ fontSize: '10px', opacity: 0.8 }}>
+              {botStats.active}/{botStats.bots} in session, {botStats.joins} joins, {botStats.leaves} leaves, {botStats.shots} shots<br />
+              Per bot: {botStats.updatesReceived.toFixed(0)} updates/s in, {(botStats.bytesReceived / 1024).toFixed(1)} KB/s<br />
+              Frame: {botStats.frameMs.toFixed(2)}ms avg, {botStats.maxFrameMs.toFixed(2)}ms max
+            </div>
+          )}
+        </div>
+      )}
+      
+      <div style={{ marginBottom: '10px' }}>
+        <div style={{ marginBottom: '5px' }}>Recording:</div>
+        <button 
+          onClick={() => {
+            if (recordingProgress) {
+              void saveRecording();
+            } else {
+              connectionManager.startRecording();
+              setRecordingStatus(null);
+              setRecordingProgress(connectionManager.getRecordingProgress());
+            }
+          }}
+          style={{ 
+            backgroundColor: recordingProgress ? '#f44336' : '#607D8B', 
+            border: 'none', 
+            color: 'white', 
+            padding: '5px 10px', 
+            margin: '0 5px 5px 0',
+            borderRadius: '3px',
+            cursor: 'pointer'
+          }}
+        >
+          {recordingProgress ? 'STOP & SAVE' : 'RECORD'}
+        </button>
+        {recordingProgress && (
+          <div style={{ fontSize: '10px', opacity: 0.8 }}>
+            {formatRoundTime(recordingProgress.duration)}, {recordingProgress.entries} entries{recordingProgress.truncated ? ' (full, no longer growing)' : ''}
+          </div>
+        )}
+        {recordingStatus && (
+          <div style={{ fontSize: '10px', opacity: 0.8 }}>{recordingStatus}</div>
+        )}
       </div>
       
       <div style={{ fontSize: '10px', opacity: 0.8 }}>
         Connection: {connectionManager ? 'Ready' : 'Not initialized'}<br />
-        Mode: {isOfflineMode ? 'Offline (LocalStorage)' : 'Online (WebSocket)'}<br />
+        Mode: {isOfflineMode ? 'Offline (BroadcastChannel)' : 'Online (WebSocket)'}<br />
         Forces: {forceCount}
       </div>
       
@@ -1235,7 +1498,19 @@ export function App() {
     };
     
     // Create a shared ConnectionManager instance with the staging server URL
-    const [connectionManager] = useState(() => new ConnectionManager('ws://staging.games.bonsai.so/websocket/'));
+    const [connectionManager] = useState(() => {
+        const manager = new ConnectionManager('ws://staging.games.bonsai.so/websocket/');
+        // The lobby picks the session
+        manager.waitInLobby();
+        return manager;
+    });
+    // Stay in the lobby until we've joined a session (or chosen to play offline)
+    const [inLobby, setInLobby] = useState(true);
+    const [session, setSession] = useState<SessionInfo | null>(null);
+    // Joined the session to watch it (see SpectatorView)
+    const [spectating, setSpectating] = useState(false);
+    // A recording picked in the lobby, watched instead of playing
+    const [replayRecording, setReplayRecording] = useState<SessionRecording | null>(null);
     // Add state to track if we're in offline mode
     const [isOfflineMode, setIsOfflineMode] = useState(false);
     // Track if notification is visible
@@ -1312,24 +1587,171 @@ export function App() {
     }, [connectionManager]);
     
     // Add multiplayer controls to Leva panel and track its state change
-    const { enableMultiplayer } = useControls('Multiplayer', {
+    const {
+        enableMultiplayer,
+        staleAfter,
+        removeAfter,
+        linkPreset,
+        linkLatency,
+        linkJitter,
+        linkLoss,
+        linkDuplicate,
+        linkReorder,
+        linkBandwidth
+    } = useControls('Multiplayer', {
         enableMultiplayer: {
             value: true,
             label: 'Enable Connection'
-        }
+        },
+        // How long a remote player can go without sending updates
+        playerTimeouts: folder({
+            staleAfter: {
+                value: DEFAULT_PLAYER_TIMEOUTS.staleAfterMs / 1000,
+                min: 1,
+                max: 30,
+                step: 1,
+                label: 'Fade Out After (s)'
+            },
+            removeAfter: {
+                value: DEFAULT_PLAYER_TIMEOUTS.removeAfterMs / 1000,
+                min: 1,
+                max: 60,
+                step: 1,
+                label: 'Remove After (s)'
+            }
+        }, { collapsed: true }),
+        // Simulated bad network, for reproducing netcode bugs against a local server
+        linkConditioner: folder({
+            linkPreset: {
+                value: 'off',
+                options: {
+                    ...Object.fromEntries(Object.entries(LINK_PRESET_NAMES).map(([preset, name]) => [name, preset])),
+                    Custom: 'custom'
+                },
+                label: 'Preset'
+            },
+            linkLatency: {
+                value: 50,
+                min: 0,
+                max: 1000,
+                step: 5,
+                label: 'Latency (ms)',
+                render: (get) => get('Multiplayer.linkConditioner.linkPreset') === 'custom'
+            },
+            linkJitter: {
+                value: 10,
+                min: 0,
+                max: 500,
+                step: 5,
+                label: 'Jitter (ms)',
+                render: (get) => get('Multiplayer.linkConditioner.linkPreset') === 'custom'
+            },
+            linkLoss: {
+                value: 0,
+                min: 0,
+                max: 50,
+                step: 0.5,
+                label: 'Loss (%)',
+                render: (get) => get('Multiplayer.linkConditioner.linkPreset') === 'custom'
+            },
+            linkDuplicate: {
+                value: 0,
+                min: 0,
+                max: 50,
+                step: 0.5,
+                label: 'Duplicate (%)',
+                render: (get) => get('Multiplayer.linkConditioner.linkPreset') === 'custom'
+            },
+            linkReorder: {
+                value: 0,
+                min: 0,
+                max: 50,
+                step: 0.5,
+                label: 'Reorder (%)',
+                render: (get) => get('Multiplayer.linkConditioner.linkPreset') === 'custom'
+            },
+            linkBandwidth: {
+                value: 0,
+                min: 0,
+                max: 10000,
+                step: 100,
+                label: 'Bandwidth (kbps, 0 = unlimited)',
+                render: (get) => get('Multiplayer.linkConditioner.linkPreset') === 'custom'
+            }
+        }, { collapsed: true, render: () => import.meta.env.DEV })
     }, {
         collapsed: false,
         order: 997
     });
+    
+    useEffect(() => {
+        connectionManager.setPlayerTimeouts({
+            staleAfterMs: staleAfter * 1000,
+            removeAfterMs: removeAfter * 1000
+        });
+    }, [connectionManager, staleAfter, removeAfter]);
+    
+    useEffect(() => {
+        if (linkPreset === 'custom') {
+            connectionManager.setLinkConditions({
+                enabled: true,
+                latencyMs: linkLatency,
+                jitterMs: linkJitter,
+                lossRate: linkLoss / 100,
+                duplicateRate: linkDuplicate / 100,
+                reorderRate: linkReorder / 100,
+                bandwidthKbps: linkBandwidth
+            });
+        } else {
+            connectionManager.setLinkPreset(linkPreset as LinkPreset);
+        }
+    }, [connectionManager, linkPreset, linkLatency, linkJitter, linkLoss, linkDuplicate, linkReorder, linkBandwidth]);
 
     // Set to false initially to hide the panel by default
     const [showMultiplayerTools, setShowMultiplayerTools] = useState(false);
     
+    const showLobby = enableMultiplayer && inLobby;
+    
+    const handleSessionJoined = useCallback((joined: SessionInfo) => {
+        setSession(joined);
+        setSpectating(connectionManager.isSpectating());
+        setInLobby(false);
+    }, [connectionManager]);
+    
+    const handleStopSpectating = useCallback(() => {
+        connectionManager.leaveSession();
+        setSpectating(false);
+        setSession(null);
+        setInLobby(true);
+    }, [connectionManager]);
+    
+    // A game hosted in this tab (see the lobby's BROWSER GAME), kept until we unmount
+    const hostedGameRef = useRef<{ host: GameHost, listener: PeerHostListener } | null>(null);
+    
+    const handleHostStarted = useCallback((host: GameHost, listener: PeerHostListener) => {
+        hostedGameRef.current = { host, listener };
+    }, []);
+    
+    useEffect(() => () => {
+        hostedGameRef.current?.listener.close();
+        hostedGameRef.current?.host.stop();
+        hostedGameRef.current = null;
+    }, []);
+    
+    const handlePlayOffline = useCallback(() => {
+        connectionManager.forceReady();
+        setIsOfflineMode(true);
+        setInLobby(false);
+    }, [connectionManager]);
+    
     // Use an effect to properly handle multiplayer enabling/disabling with proper cleanup timing
     useEffect(() => {
         let timeoutId: number | null = null;
         let forceReadyTimeoutId: number | null = null;
         
+        // The lobby handles connecting, and going offline if that fails
+        if (showLobby) return;
+        
         if (enableMultiplayer) {
             // When enabling, set immediately
             console.log('Multiplayer enabled');
@@ -1373,7 +1795,7 @@ export function App() {
                 }
             };
         }
-    }, [enableMultiplayer, connectionManager]);
+    }, [enableMultiplayer, connectionManager, showLobby]);
 
     const { 
         walkSpeed,
@@ -2050,6 +2472,21 @@ export function App() {
         }
     }, [connectionManager?.getPlayerIndex?.()]);
 
+    // Hunt mode swaps sides between rounds
+    useEffect(() => {
+        if (!connectionManager || !enableMultiplayer) return;
+
+        const handleRoleChanged = (characterInfo: { type: 'merc' | 'jackalope', thirdPerson: boolean }) => {
+            console.log('🎮 Round role assigned by server:', characterInfo);
+            setPlayerCharacterInfo(characterInfo);
+        };
+
+        connectionManager.on('role_changed', handleRoleChanged);
+        return () => {
+            connectionManager.off('role_changed', handleRoleChanged);
+        };
+    }, [connectionManager, enableMultiplayer]);
+
     // Add a separate effect to log when the character info changes
     useEffect(() => {
         console.log('Player character info updated:', playerCharacterInfo);
@@ -2386,6 +2823,36 @@ export function App() {
         };
     }, [enableMultiplayer, playerCharacterInfo.type, thirdPersonView]);
     
+    if (replayRecording) {
+        return (
+            <ReplayViewer
+                recording={replayRecording}
+                onExit={() => setReplayRecording(null)}
+            />
+        );
+    }
+    
+    if (spectating && !showLobby) {
+        return (
+            <SpectatorView
+                connectionManager={connectionManager}
+                onLeave={handleStopSpectating}
+            />
+        );
+    }
+    
+    if (showLobby) {
+        return (
+            <Lobby
+                connectionManager={connectionManager}
+                onJoined={handleSessionJoined}
+                onPlayOffline={handlePlayOffline}
+                onHostStarted={handleHostStarted}
+                onWatchReplay={setReplayRecording}
+            />
+        );
+    }
+    
     return (
         <>
             {/* Show model tester if enabled */}
@@ -2430,6 +2897,21 @@ export function App() {
                 </div>
             )}
             
+            {/* Health for jackalopes, hit markers for mercs */}
+            {enableMultiplayer && (
+                <HealthDisplay connectionManager={connectionManager} playerType={playerCharacterInfo.type} />
+            )}
+
+            {/* Hunt mode round timer, countdown and results */}
+            {enableMultiplayer && (
+                <RoundDisplay connectionManager={connectionManager} />
+            )}
+
+            {/* Text chat */}
+            {enableMultiplayer && (
+                <ChatOverlay connectionManager={connectionManager} />
+            )}
+            
             <Canvas>
                 {fogEnabled && <fog attach="fog" args={[forceDarkLevel ? '#050a14' : (darkMode ? '#111111' : fogColor), forceDarkLevel ? fogNear * 0.5 : fogNear, forceDarkLevel ? (fogFar * 0.3) : (darkMode ? (fogFar * 0.5) : fogFar)]} />}
                 <Environment
@@ -2593,14 +3075,25 @@ export function App() {
                                 (origin, direction) => {
                                     console.log('App: onShoot called with', { origin, direction });
                                     try {
-                                        connectionManager.sendShootEvent(origin, direction);
+                                        const shotId = connectionManager.sendShootEvent(origin, direction);
                                         console.log('App: successfully sent shoot event');
+                                        return shotId;
                                     } catch (error) {
                                         console.error('App: error sending shoot event:', error);
+                                        return null;
                                     }
                                 } 
                                 : undefined
                             }
+                            onHit={enableMultiplayer ?
+                                (hit) => {
+                                    const targetId = hit.target.isLocal ? connectionManager.getPlayerId() : hit.target.playerId;
+                                    if (targetId) {
+                                        connectionManager.sendHitEvent(hit.shotId, targetId, hit.point);
+                                    }
+                                }
+                                : undefined
+                            }
                             remoteShots={remoteShots}
                             thirdPersonView={enableMultiplayer ? playerCharacterInfo.thirdPerson : thirdPersonView}
                             playerPosition={enableMultiplayer ? 
@@ -2714,13 +3207,8 @@ export function App() {
                 />
             )}
 
-            {showMultiplayerTools && showDebug && connectionManager && 
-              // Check if snapshots exist on connectionManager before using them
-              'snapshots' in connectionManager && 'getSnapshotAtTime' in connectionManager && (
-                <SnapshotDebugOverlay 
-                    snapshots={(connectionManager as any).snapshots} 
-                    getSnapshotAtTime={(connectionManager as any).getSnapshotAtTime}
-                />
+            {showMultiplayerTools && showDebug && connectionManager && (
+                <SnapshotDebugOverlay connectionManager={connectionManager} />
             )}
 
             {/* Offline Mode Notification - tied to enableMultiplayer for functionality, showMultiplayerTools for visibility */}
@@ -2744,7 +3232,7 @@ export function App() {
                         Server connection failed. Running in offline mode.
                     </p>
                     <p style={{ margin: '5px 0 0', fontSize: '12px' }}>
-                        Cross-browser shots are enabled using localStorage
+                        Other tabs of this browser can still play with you
                     </p>
                 </div>
             )}
@@ -2808,6 +3296,9 @@ export function App() {
                     View: <strong>{playerCharacterInfo.thirdPerson ? '3rd Person' : '1st Person'}</strong><br />
                     Player ID: <strong>{connectionManager.getPlayerId?.() || 'None'}</strong><br />
                     Connection: <strong>{connectionManager.isOfflineMode() ? 'Offline' : 'Online'}</strong><br />
+                    {session && !connectionManager.isOfflineMode() && (
+                        <>Session: <strong>{session.name || session.key}</strong>{session.key && <> (code <strong>{session.key}</strong>)</>}<br /></>
+                    )}
                     Multiplayer: <strong>{enableMultiplayer ? 'Enabled' : 'Disabled'}</strong>
                 </div>
             )}
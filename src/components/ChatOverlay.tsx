@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ConnectionManager } from '../network/ConnectionManager';
+import { ChatChannel } from '../network/protocol';
+import { CHAT_HISTORY_SIZE, ChatLine, ChatRejectReason, MAX_CHAT_LENGTH } from '../network/chat';
+
+interface ChatOverlayProps {
+  connectionManager: ConnectionManager;
+}
+
+// Keys that open the chat box, and the channel each one opens
+const OPEN_KEYS: Record<string, ChatChannel> = {
+  Enter: 'all',
+  t: 'all',
+  T: 'all',
+  y: 'team',
+  Y: 'team'
+};
+
+// While the chat box is closed, lines fade out after this long
+const LINE_VISIBLE_MS = 10000;
+
+const CHANNEL_COLORS: Record<ChatChannel, string> = {
+  all: '#fff',
+  team: '#8cf'
+};
+
+const REJECT_MESSAGES: Record<ChatRejectReason, string> = {
+  empty: '',
+  too_long: `Messages can be at most ${MAX_CHAT_LENGTH} characters`,
+  rate_limited: 'Slow down',
+  not_connected: 'Not connected'
+};
+
+// Stop the game from seeing keys and clicks meant for the chat box (movement
+// and flashlight keys are read from window, shooting from window pointerdown)
+const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+// Text chat: T or Enter to talk to everyone, Y to talk to your team. Tab
+// switches channel while typing. Click a name to mute that player.
+export const ChatOverlay: React.FC<ChatOverlayProps> = ({ connectionManager }) => {
+  const [lines, setLines] = useState<ChatLine[]>([]);
+  const [channel, setChannel] = useState<ChatChannel | null>(null);
+  const [draft, setDraft] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [muted, setMuted] = useState<string[]>(() => connectionManager.getMutedPlayers());
+  const [now, setNow] = useState(Date.now());
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Names of everyone we've heard from, for the muted list
+  const namesRef = useRef<Record<string, string>>({});
+
+  const isOpen = channel !== null;
+
+  useEffect(() => {
+    const handleChatMessage = (line: ChatLine) => {
+      namesRef.current[line.playerId] = line.playerName;
+      setLines(current => [...current, line].slice(-CHAT_HISTORY_SIZE));
+      setNow(Date.now());
+    };
+
+    const handleChatRejected = ({ reason, retryAfterMs }: { reason: ChatRejectReason, retryAfterMs?: number }) => {
+      const message = REJECT_MESSAGES[reason];
+      setNotice(message && retryAfterMs ? `${message} - wait ${Math.ceil(retryAfterMs / 1000)}s` : message || null);
+    };
+
+    connectionManager.on('chat_message', handleChatMessage);
+    connectionManager.on('chat_rejected', handleChatRejected);
+    connectionManager.on('chat_mutes_changed', setMuted);
+
+    return () => {
+      connectionManager.off('chat_message', handleChatMessage);
+      connectionManager.off('chat_rejected', handleChatRejected);
+      connectionManager.off('chat_mutes_changed', setMuted);
+    };
+  }, [connectionManager]);
+
+  // Open on key press, unless something else already has the keyboard
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const openChannel = OPEN_KEYS[e.key];
+      if (!openChannel || isOpen) return;
+
+      const active = document.activeElement;
+      if (active instanceof HTMLInputElement || active instanceof HTMLTextAreaElement) return;
+
+      // Don't type the key that opened the box
+      e.preventDefault();
+      setChannel(openChannel);
+      setNotice(null);
+
+      // Free the mouse so the chat can be clicked
+      if (document.pointerLockElement) {
+        document.exitPointerLock();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen]);
+
+  // Re-render now and then so old lines fade out while the box is closed
+  useEffect(() => {
+    if (isOpen || lines.length === 0) return;
+
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isOpen, lines.length]);
+
+  const close = () => {
+    setChannel(null);
+    setDraft('');
+    inputRef.current?.blur();
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    e.stopPropagation();
+
+    if (e.key === 'Enter') {
+      if (!draft.trim() || connectionManager.sendChat(draft, channel ?? 'all')) {
+        close();
+      }
+    } else if (e.key === 'Escape') {
+      close();
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      setChannel(current => (current === 'team' ? 'all' : 'team'));
+    }
+  };
+
+  const toggleMute = (playerId: string) => {
+    if (connectionManager.isPlayerMuted(playerId)) {
+      connectionManager.unmutePlayer(playerId);
+    } else {
+      connectionManager.mutePlayer(playerId);
+    }
+  };
+
+  const localPlayerId = connectionManager.getPlayerId();
+  const visibleLines = lines
+    .filter(line => !muted.includes(line.playerId))
+    .filter(line => isOpen || now - line.timestamp < LINE_VISIBLE_MS);
+
+  if (!isOpen && visibleLines.length === 0) return null;
+
+  return (
+    <div
+      onClick={stopPropagation}
+      onPointerDown={stopPropagation}
+      style={{
+        position: 'fixed',
+        left: '10px',
+        bottom: '140px',
+        width: '360px',
+        color: 'white',
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        zIndex: 1000,
+        pointerEvents: isOpen ? 'auto' : 'none',
+        textShadow: '0 0 4px rgba(0, 0, 0, 0.8)'
+      }}
+    >
+      <div style={{
+        maxHeight: isOpen ? '240px' : undefined,
+        overflowY: isOpen ? 'auto' : 'hidden',
+        background: isOpen ? 'rgba(0, 0, 0, 0.6)' : 'transparent',
+        padding: '6px 8px',
+        borderRadius: '4px'
+      }}>
+        {visibleLines.map((line, i) => (
+          <div key={`${line.timestamp}-${i}`} style={{ color: CHANNEL_COLORS[line.channel], marginBottom: '2px' }}>
+            {line.channel === 'team' && '[TEAM] '}
+            <span
+              onClick={() => isOpen && line.playerId !== localPlayerId && toggleMute(line.playerId)}
+              title={isOpen && line.playerId !== localPlayerId ? 'Click to mute' : undefined}
+              style={{ fontWeight: 'bold', cursor: isOpen && line.playerId !== localPlayerId ? 'pointer' : undefined }}
+            >
+              {line.playerId === localPlayerId ? 'You' : line.playerName}:
+            </span>{' '}
+            {line.message}
+          </div>
+        ))}
+      </div>
+
+      {isOpen && (
+        <>
+          <div style={{ display: 'flex', alignItems: 'center', marginTop: '4px' }}>
+            <span style={{ color: CHANNEL_COLORS[channel], marginRight: '6px' }}>
+              {channel === 'team' ? 'TEAM' : 'ALL'}:
+            </span>
+            <input
+              ref={inputRef}
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              onKeyDown={handleInputKeyDown}
+              onKeyUp={stopPropagation}
+              maxLength={MAX_CHAT_LENGTH}
+              style={{
+                flex: 1,
+                background: 'rgba(0, 0, 0, 0.6)',
+                border: '1px solid rgba(255, 255, 255, 0.3)',
+                color: 'white',
+                padding: '4px 6px',
+                borderRadius: '3px',
+                fontFamily: 'monospace'
+              }}
+            />
+          </div>
+          {notice && <div style={{ color: '#f66', marginTop: '4px' }}>{notice}</div>}
+          {muted.length > 0 && (
+            <div style={{ marginTop: '4px', color: 'rgba(255, 255, 255, 0.6)' }}>
+              Muted:{' '}
+              {muted.map(id => (
+                <span key={id} onClick={() => toggleMute(id)} title="Click to unmute" style={{ cursor: 'pointer', marginRight: '6px' }}>
+                  {namesRef.current[id] || id} ✕
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -136,9 +136,9 @@ export const ConnectionTest: React.FC<ConnectionTestProps> = ({ sharedConnection
       connectionManager.off('message_received', handleMessageReceived);
       connectionManager.off('message_sent', handleMessageSent);
       
-      // Only disconnect if we created our own manager
+      // Only dispose of it if we created our own manager
       if (!sharedConnectionManager) {
-        connectionManager.disconnect();
+        connectionManager.dispose();
         connectionManagerRef.current = null;
       }
     };
@@ -150,7 +150,7 @@ export const ConnectionTest: React.FC<ConnectionTestProps> = ({ sharedConnection
       
       // Only create a new connection manager if we're not using a shared one
       if (!sharedConnectionManager) {
-        connectionManagerRef.current.disconnect();
+        connectionManagerRef.current.dispose();
         connectionManagerRef.current = new ConnectionManager(serverUrl);
       }
       
@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ConnectionManager } from '../network/ConnectionManager';
+import { MAX_HEALTH } from '../network/damage';
+
+interface HealthDisplayProps {
+  connectionManager: ConnectionManager;
+  playerType: 'merc' | 'jackalope';
+}
+
+type DamagedEvent = { id: string; attackerId: string; damage: number; health: number };
+type KilledEvent = { id: string; attackerId: string };
+type RespawnedEvent = { id: string; health: number };
+
+// HUD for the damage model: jackalopes see their own health, mercs get a hit
+// marker when one of their fireballs lands.
+export const HealthDisplay: React.FC<HealthDisplayProps> = ({ connectionManager, playerType }) => {
+  const [health, setHealth] = useState(MAX_HEALTH);
+  const [dead, setDead] = useState(false);
+  // Killed during a hunt mode round - no respawn until the next one
+  const [tagged, setTagged] = useState(false);
+  const [hitMarker, setHitMarker] = useState<string | null>(null);
+  const hitMarkerTimeout = useRef<number | null>(null);
+
+  useEffect(() => {
+    const isLocal = (id: string) => id === connectionManager.getPlayerId();
+
+    const showHitMarker = (text: string) => {
+      setHitMarker(text);
+      if (hitMarkerTimeout.current) clearTimeout(hitMarkerTimeout.current);
+      hitMarkerTimeout.current = window.setTimeout(() => setHitMarker(null), 1200);
+    };
+
+    const handleDamaged = (data: DamagedEvent) => {
+      if (isLocal(data.id)) {
+        setHealth(data.health);
+      } else if (isLocal(data.attackerId)) {
+        showHitMarker(`HIT ${data.id.split('-')[0]} (${data.health} HP)`);
+      }
+    };
+
+    const handleKilled = (data: KilledEvent) => {
+      if (isLocal(data.id)) {
+        setHealth(0);
+        setDead(true);
+        setTagged(connectionManager.getRoundState().phase === 'playing');
+      } else if (isLocal(data.attackerId)) {
+        showHitMarker(`KILLED ${data.id.split('-')[0]}`);
+      }
+    };
+
+    const handleRespawned = (data: RespawnedEvent) => {
+      if (isLocal(data.id)) {
+        setHealth(data.health);
+        setDead(false);
+        setTagged(false);
+      }
+    };
+
+    connectionManager.on('player_damaged', handleDamaged);
+    connectionManager.on('player_killed', handleKilled);
+    connectionManager.on('player_respawned', handleRespawned);
+
+    // Pick up any damage taken before we mounted
+    const playerId = connectionManager.getPlayerId();
+    if (playerId) {
+      setHealth(connectionManager.getPlayerHealth(playerId));
+    }
+
+    return () => {
+      connectionManager.off('player_damaged', handleDamaged);
+      connectionManager.off('player_killed', handleKilled);
+      connectionManager.off('player_respawned', handleRespawned);
+      if (hitMarkerTimeout.current) clearTimeout(hitMarkerTimeout.current);
+    };
+  }, [connectionManager]);
+
+  const healthColor = health > 50 ? '#8f8' : health > 25 ? '#fd6' : '#f66';
+
+  return (
+    <>
+      {playerType === 'jackalope' && (
+        <div style={{
+          position: 'absolute',
+          top: '10px',
+          right: '10px',
+          color: 'rgba(255, 255, 255, 0.75)',
+          fontSize: '14px',
+          fontFamily: 'monospace',
+          userSelect: 'none',
+          zIndex: 1000
+        }}>
+          HEALTH: <span style={{ color: healthColor }}>{health}/{MAX_HEALTH}</span>
+          <div style={{
+            marginTop: '4px',
+            width: '120px',
+            height: '6px',
+            background: 'rgba(255, 255, 255, 0.15)',
+            borderRadius: '3px',
+            overflow: 'hidden'
+          }}>
+            <div style={{
+              width: `${(health / MAX_HEALTH) * 100}%`,
+              height: '100%',
+              background: healthColor,
+              transition: 'width 0.2s'
+            }} />
+          </div>
+        </div>
+      )}
+
+      {dead && (
+        <div style={{
+          position: 'absolute',
+          top: '40%',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          color: '#f66',
+          fontSize: '24px',
+          fontFamily: 'monospace',
+          userSelect: 'none',
+          zIndex: 1000,
+          textShadow: '0 0 6px rgba(0, 0, 0, 0.8)'
+        }}>
+          {tagged ? 'YOU WERE ROASTED - OUT UNTIL NEXT ROUND' : 'YOU WERE ROASTED - RESPAWNING...'}
+        </div>
+      )}
+
+      {hitMarker && (
+        <div style={{
+          position: 'absolute',
+          top: '55%',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          color: '#ffab00',
+          fontSize: '13px',
+          fontFamily: 'monospace',
+          userSelect: 'none',
+          zIndex: 1000
+        }}>
+          {hitMarker}
+        </div>
+      )}
+    </>
+  );
+};
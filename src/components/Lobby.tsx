@@ -0,0 +1,428 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ConnectionManager } from '../network/ConnectionManager';
+import { DEFAULT_GAME_HOST_OPTIONS, GameHost } from '../network/GameHost';
+import { JoinFailureReason, SessionInfo, SessionSummary } from '../network/protocol';
+import { RECORDING_EXTENSION, RecordingError, SessionRecording, decodeRecording } from '../network/recording';
+import {
+  MAX_SESSION_NAME_LENGTH,
+  MAX_SESSION_PLAYERS,
+  MIN_SESSION_PLAYERS,
+  SESSION_CODE_LENGTH,
+  generateSessionCode,
+  getSessionCodeFromUrl,
+  normalizeSessionCode
+} from '../network/sessions';
+import { PeerHostListener, getPeerUrl } from '../network/transport';
+
+interface LobbyProps {
+  connectionManager: ConnectionManager;
+  onJoined: (session: SessionInfo) => void;
+  onPlayOffline: () => void;
+  // The game this tab hosts, to keep running once the lobby unmounts
+  onHostStarted: (host: GameHost, listener: PeerHostListener) => void;
+  onWatchReplay: (recording: SessionRecording) => void;
+}
+
+type LobbyStatus = 'connecting' | 'ready' | 'joining' | 'offline';
+
+const SESSION_LIST_REFRESH_MS = 3000;
+
+const PHASE_LABELS: Record<SessionSummary['phase'], string> = {
+  waiting: 'waiting for players',
+  countdown: 'starting',
+  playing: 'in progress',
+  results: 'between rounds'
+};
+
+const panelStyle: React.CSSProperties = {
+  position: 'fixed',
+  inset: 0,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  background: '#111',
+  color: 'white',
+  fontFamily: 'monospace',
+  zIndex: 1000
+};
+
+const sectionStyle: React.CSSProperties = {
+  marginBottom: '20px'
+};
+
+const headingStyle: React.CSSProperties = {
+  marginBottom: '8px',
+  fontWeight: 'bold',
+  color: 'rgba(255, 255, 255, 0.6)'
+};
+
+const inputStyle: React.CSSProperties = {
+  background: 'rgba(255, 255, 255, 0.1)',
+  border: '1px solid rgba(255, 255, 255, 0.3)',
+  color: 'white',
+  padding: '5px 8px',
+  margin: '0 5px 5px 0',
+  borderRadius: '3px',
+  fontFamily: 'monospace'
+};
+
+const buttonStyle = (backgroundColor: string): React.CSSProperties => ({
+  backgroundColor,
+  border: 'none',
+  color: 'white',
+  padding: '5px 10px',
+  margin: '0 5px 5px 0',
+  borderRadius: '3px',
+  cursor: 'pointer',
+  fontFamily: 'monospace'
+});
+
+// Shown before the game mounts: browse open sessions, join or watch one by
+// its share code, or create a new one. Opening a share link (?join=CODE) joins right away.
+export const Lobby: React.FC<LobbyProps> = ({ connectionManager, onJoined, onPlayOffline, onHostStarted, onWatchReplay }) => {
+  const [status, setStatus] = useState<LobbyStatus>('connecting');
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const [code, setCode] = useState(() => getSessionCodeFromUrl() || '');
+  const [password, setPassword] = useState('');
+
+  const [name, setName] = useState('');
+  const [maxPlayers, setMaxPlayers] = useState(8);
+  const [createPassword, setCreatePassword] = useState('');
+  const [isPrivate, setIsPrivate] = useState(false);
+
+  const [peerCode, setPeerCode] = useState('');
+  const [loadingReplay, setLoadingReplay] = useState(false);
+
+  const passwordInputRef = useRef<HTMLInputElement>(null);
+  // Only auto-join from a share link once
+  const linkCodeRef = useRef(getSessionCodeFromUrl());
+
+  useEffect(() => {
+    const handleReady = () => {
+      // initialized fires again on join_success, just before we unmount
+      if (connectionManager.getCurrentSession()) return;
+
+      if (connectionManager.isOfflineMode()) {
+        setStatus('offline');
+        return;
+      }
+
+      setStatus('ready');
+      connectionManager.listSessions();
+
+      if (linkCodeRef.current) {
+        setStatus('joining');
+        connectionManager.joinSessionByCode(linkCodeRef.current);
+        linkCodeRef.current = null;
+      }
+    };
+
+    const handleJoined = (session: SessionInfo) => {
+      onJoined(session);
+    };
+
+    const handleJoinFailed = ({ reason, message }: { reason: JoinFailureReason, message: string }) => {
+      setStatus('ready');
+      setError(message);
+      if (reason === 'wrong_password') {
+        passwordInputRef.current?.focus();
+      }
+    };
+
+    const handleServerUnreachable = () => {
+      setStatus('offline');
+    };
+
+    const handleDisconnected = () => {
+      setStatus(current => (current === 'offline' ? current : 'connecting'));
+    };
+
+    connectionManager.on('initialized', handleReady);
+    connectionManager.on('session_list', setSessions);
+    connectionManager.on('session_joined', handleJoined);
+    connectionManager.on('join_failed', handleJoinFailed);
+    connectionManager.on('server_unreachable', handleServerUnreachable);
+    connectionManager.on('disconnected', handleDisconnected);
+
+    if (connectionManager.isReadyToSend()) {
+      handleReady();
+    } else {
+      connectionManager.connect();
+    }
+
+    return () => {
+      connectionManager.off('initialized', handleReady);
+      connectionManager.off('session_list', setSessions);
+      connectionManager.off('session_joined', handleJoined);
+      connectionManager.off('join_failed', handleJoinFailed);
+      connectionManager.off('server_unreachable', handleServerUnreachable);
+      connectionManager.off('disconnected', handleDisconnected);
+    };
+  }, [connectionManager, onJoined]);
+
+  // Keep the session list fresh while browsing
+  useEffect(() => {
+    if (status !== 'ready') return;
+
+    const timer = window.setInterval(() => connectionManager.listSessions(), SESSION_LIST_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [connectionManager, status]);
+
+  const joinByCode = (joinCode: string, joinPassword?: string, spectate = false) => {
+    if (!joinCode.trim()) return;
+    setError(null);
+    setStatus('joining');
+    if (spectate) {
+      connectionManager.spectateSessionByCode(joinCode, joinPassword);
+    } else {
+      connectionManager.joinSessionByCode(joinCode, joinPassword);
+    }
+  };
+
+  const joinListedSession = (session: SessionSummary, spectate = false) => {
+    if (session.locked && !password) {
+      setCode(session.code);
+      setError(`${session.name} needs a password`);
+      passwordInputRef.current?.focus();
+      return;
+    }
+    joinByCode(session.code, password, spectate);
+  };
+
+  const createSession = () => {
+    setError(null);
+    setStatus('joining');
+    connectionManager.createSession({
+      name: name.trim(),
+      maxPlayers,
+      password: createPassword,
+      private: isPrivate
+    });
+  };
+
+  // Reconnect to a game hosted in a browser tab. handleReady joins it once
+  // we're in.
+  const connectToPeer = (joinCode: string) => {
+    setError(null);
+    setStatus('joining');
+    linkCodeRef.current = joinCode;
+    connectionManager.disconnect();
+    connectionManager.setServerUrl(getPeerUrl(joinCode));
+    connectionManager.connect();
+  };
+
+  const hostInBrowser = async () => {
+    setError(null);
+    setStatus('joining');
+    try {
+      const host = await GameHost.create({ code: generateSessionCode(), name: name.trim() || DEFAULT_GAME_HOST_OPTIONS.name });
+      const listener = new PeerHostListener(host.getCode());
+      listener.listen(transport => host.accept(transport));
+      onHostStarted(host, listener);
+      connectToPeer(host.getCode());
+    } catch (err) {
+      setStatus('ready');
+      setError(`Could not start a game here: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const watchReplay = async (file: File) => {
+    setError(null);
+    setLoadingReplay(true);
+    try {
+      onWatchReplay(await decodeRecording(file));
+    } catch (err) {
+      setError(err instanceof RecordingError ? `${file.name}: ${err.message}` : `Could not open ${file.name}`);
+    } finally {
+      setLoadingReplay(false);
+    }
+  };
+
+  const canJoin = status === 'ready';
+  // Browser games don't need the server
+  const canPeer = status === 'ready' || status === 'offline';
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ width: '640px', maxWidth: '95%' }}>
+        <div style={{ fontSize: '28px', fontWeight: 'bold', marginBottom: '4px' }}>JACKALOPES</div>
+        <div style={{ marginBottom: '20px', color: 'rgba(255, 255, 255, 0.6)' }}>
+          {status === 'connecting' && 'Connecting to server...'}
+          {status === 'ready' && `Connected to ${connectionManager.getServerUrl()}`}
+          {status === 'joining' && 'Joining session...'}
+          {status === 'offline' && 'Server unreachable - you can still play offline'}
+        </div>
+
+        {error && (
+          <div style={{ ...sectionStyle, color: '#f66' }}>{error}</div>
+        )}
+
+        <div style={sectionStyle}>
+          <div style={headingStyle}>OPEN SESSIONS</div>
+          {sessions.length === 0 ? (
+            <div style={{ color: 'rgba(255, 255, 255, 0.5)' }}>
+              {canJoin ? 'No open sessions - create one below' : '-'}
+            </div>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', textAlign: 'left' }}>
+              <thead>
+                <tr style={{ color: 'rgba(255, 255, 255, 0.5)' }}>
+                  <th>NAME</th>
+                  <th>PLAYERS</th>
+                  <th>STATUS</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {sessions.map(session => (
+                  <tr key={session.code}>
+                    <td>{session.locked ? '🔒 ' : ''}{session.name}</td>
+                    <td>{session.players}/{session.maxPlayers}</td>
+                    <td>{PHASE_LABELS[session.phase]}</td>
+                    <td style={{ textAlign: 'right' }}>
+                      <button
+                        onClick={() => joinListedSession(session)}
+                        disabled={!canJoin}
+                        style={buttonStyle('#4CAF50')}
+                      >
+                        JOIN
+                      </button>
+                      <button
+                        onClick={() => joinListedSession(session, true)}
+                        disabled={!canJoin}
+                        style={buttonStyle('#607D8B')}
+                      >
+                        WATCH
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div style={sectionStyle}>
+          <div style={headingStyle}>JOIN BY CODE</div>
+          <input
+            value={code}
+            onChange={e => setCode(e.target.value.toUpperCase())}
+            placeholder="CODE"
+            maxLength={32}
+            style={{ ...inputStyle, width: `${SESSION_CODE_LENGTH + 4}ch` }}
+          />
+          <input
+            ref={passwordInputRef}
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && canJoin && joinByCode(code, password)}
+            placeholder="password (if any)"
+            style={inputStyle}
+          />
+          <button
+            onClick={() => joinByCode(code, password)}
+            disabled={!canJoin || !code.trim()}
+            style={buttonStyle('#2196F3')}
+          >
+            JOIN
+          </button>
+          <button
+            onClick={() => joinByCode(code, password, true)}
+            disabled={!canJoin || !code.trim()}
+            style={buttonStyle('#607D8B')}
+          >
+            WATCH
+          </button>
+        </div>
+
+        <div style={sectionStyle}>
+          <div style={headingStyle}>CREATE SESSION</div>
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="name"
+            maxLength={MAX_SESSION_NAME_LENGTH}
+            style={inputStyle}
+          />
+          <label style={{ marginRight: '5px' }}>
+            max players{' '}
+            <input
+              type="number"
+              min={MIN_SESSION_PLAYERS}
+              max={MAX_SESSION_PLAYERS}
+              value={maxPlayers}
+              onChange={e => setMaxPlayers(Math.min(MAX_SESSION_PLAYERS, Math.max(MIN_SESSION_PLAYERS, Number(e.target.value) || MIN_SESSION_PLAYERS)))}
+              style={{ ...inputStyle, width: '5ch' }}
+            />
+          </label>
+          <br />
+          <input
+            type="password"
+            value={createPassword}
+            onChange={e => setCreatePassword(e.target.value)}
+            placeholder="password (optional)"
+            style={inputStyle}
+          />
+          <label style={{ marginRight: '10px' }}>
+            <input type="checkbox" checked={isPrivate} onChange={e => setIsPrivate(e.target.checked)} />
+            {' '}private (join by code only)
+          </label>
+          <button onClick={createSession} disabled={!canJoin} style={buttonStyle('#E91E63')}>
+            CREATE
+          </button>
+        </div>
+
+        <div style={sectionStyle}>
+          <div style={headingStyle}>BROWSER GAME</div>
+          <div style={{ marginBottom: '5px', color: 'rgba(255, 255, 255, 0.5)' }}>
+            Run the game in this tab and have other tabs of this browser join it by code
+          </div>
+          <button onClick={hostInBrowser} disabled={!canPeer} style={buttonStyle('#9C27B0')}>
+            HOST IN THIS BROWSER
+          </button>
+          <input
+            value={peerCode}
+            onChange={e => setPeerCode(e.target.value.toUpperCase())}
+            onKeyDown={e => e.key === 'Enter' && canPeer && peerCode.trim() && connectToPeer(normalizeSessionCode(peerCode))}
+            placeholder="CODE"
+            maxLength={SESSION_CODE_LENGTH}
+            style={{ ...inputStyle, width: `${SESSION_CODE_LENGTH + 4}ch` }}
+          />
+          <button
+            onClick={() => connectToPeer(normalizeSessionCode(peerCode))}
+            disabled={!canPeer || !peerCode.trim()}
+            style={buttonStyle('#673AB7')}
+          >
+            JOIN
+          </button>
+        </div>
+
+        <div style={sectionStyle}>
+          <div style={headingStyle}>REPLAY</div>
+          <div style={{ marginBottom: '5px', color: 'rgba(255, 255, 255, 0.5)' }}>
+            Watch a recording saved from the multiplayer tools
+          </div>
+          <input
+            type="file"
+            accept={`${RECORDING_EXTENSION},application/gzip,application/json`}
+            disabled={loadingReplay}
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) void watchReplay(file);
+            }}
+            style={inputStyle}
+          />
+          {loadingReplay && <span style={{ color: 'rgba(255, 255, 255, 0.5)' }}>Loading...</span>}
+        </div>
+
+        <button onClick={onPlayOffline} style={buttonStyle('#FF9800')}>
+          PLAY OFFLINE
+        </button>
+      </div>
+    </div>
+  );
+};
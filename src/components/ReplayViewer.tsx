@@ -0,0 +1,218 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Environment } from '@react-three/drei';
+import { Physics } from '@react-three/rapier';
+import { Canvas } from '../common/components/canvas';
+import { FreeCamera } from '../game/free-camera';
+import { Platforms } from '../game/platforms';
+import { Scene } from '../game/scene';
+import { SphereTool } from '../game/sphere-tool';
+import { ConnectionManager } from '../network/ConnectionManager';
+import { MultiplayerManager, useRemoteShots } from '../network/MultiplayerManager';
+import { RecordedInput, SessionRecording } from '../network/recording';
+import { REPLAY_SERVER_URL, REPLAY_SPEEDS, ReplayState, SessionReplay } from '../network/replay';
+import { formatRoundTime } from '../network/rounds';
+import { createLoopbackPair } from '../network/transport';
+import { RoundDisplay } from './RoundDisplay';
+
+interface ReplayViewerProps {
+  recording: SessionRecording;
+  onExit: () => void;
+}
+
+const STATE_POLL_MS = 100;
+
+const barStyle: React.CSSProperties = {
+  position: 'fixed',
+  left: '50%',
+  bottom: '20px',
+  transform: 'translateX(-50%)',
+  width: '720px',
+  maxWidth: '95%',
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  padding: '8px 10px',
+  background: 'rgba(0, 0, 0, 0.7)',
+  color: 'white',
+  fontFamily: 'monospace',
+  borderRadius: '5px',
+  zIndex: 1000
+};
+
+const infoStyle: React.CSSProperties = {
+  position: 'fixed',
+  top: '10px',
+  left: '10px',
+  padding: '8px 10px',
+  background: 'rgba(0, 0, 0, 0.7)',
+  color: 'white',
+  fontFamily: 'monospace',
+  fontSize: '12px',
+  borderRadius: '5px',
+  zIndex: 1000
+};
+
+const buttonStyle = (backgroundColor: string): React.CSSProperties => ({
+  backgroundColor,
+  border: 'none',
+  color: 'white',
+  padding: '5px 10px',
+  borderRadius: '3px',
+  cursor: 'pointer',
+  fontFamily: 'monospace'
+});
+
+// e.g. "W D SPRINT", or "-" standing still
+function describeInput(input: RecordedInput | null): string {
+  if (!input) return '-';
+  const keys = [
+    input.moveZ > 0 && 'W',
+    input.moveX < 0 && 'A',
+    input.moveZ < 0 && 'S',
+    input.moveX > 0 && 'D',
+    input.sprint && 'SPRINT',
+    input.jump && 'JUMP'
+  ].filter(Boolean);
+  return keys.length > 0 ? keys.join(' ') : '-';
+}
+
+// Watch a session recording (network/recording.ts) from any angle. The game
+// is the same one App renders, minus the local player, fed by a
+// ConnectionManager that's connected to the replay instead of a server.
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ recording, onExit }) => {
+  const [replay] = useState(() => new SessionReplay(recording));
+  const [state, setState] = useState<ReplayState>(() => replay.getState());
+
+  const createConnectionManager = useCallback(() => new ConnectionManager(
+    REPLAY_SERVER_URL,
+    { server: replay.createTransport, offline: () => createLoopbackPair()[0] },
+    replay.now
+  ), [replay]);
+  const [connectionManager, setConnectionManager] = useState(createConnectionManager);
+  // The one in use, to dispose of when it's replaced or we exit
+  const connectionManagerRef = useRef(connectionManager);
+  const generationRef = useRef(replay.getGeneration());
+
+  // Nobody's playing, but the game components expect somebody to be
+  const localPlayerRef = useRef(null);
+
+  const remoteShots = useRemoteShots(connectionManager, () => replay.getState().seeking);
+
+  useEffect(() => {
+    replay.play();
+
+    const timer = window.setInterval(() => {
+      setState(replay.getState());
+      // Seeking back needs a ConnectionManager that hasn't seen the future
+      if (replay.getGeneration() !== generationRef.current) {
+        generationRef.current = replay.getGeneration();
+        connectionManagerRef.current.dispose();
+        connectionManagerRef.current = createConnectionManager();
+        setConnectionManager(connectionManagerRef.current);
+      }
+    }, STATE_POLL_MS);
+
+    return () => {
+      clearInterval(timer);
+      replay.pause();
+    };
+  }, [replay, createConnectionManager]);
+
+  const exit = useCallback(() => {
+    connectionManagerRef.current.dispose();
+    onExit();
+  }, [onExit]);
+
+  const togglePlaying = useCallback(() => {
+    if (replay.getState().playing) {
+      replay.pause();
+    } else {
+      replay.play();
+    }
+    setState(replay.getState());
+  }, [replay]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || event.target instanceof HTMLInputElement) return;
+      event.preventDefault();
+      togglePlaying();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [togglePlaying]);
+
+  const seek = (position: number) => {
+    replay.seek(position);
+    setState(replay.getState());
+  };
+
+  const setSpeed = (speed: number) => {
+    replay.setSpeed(speed);
+    setState(replay.getState());
+  };
+
+  return (
+    <>
+      <div style={infoStyle}>
+        <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>REPLAY</div>
+        <div>Recorded {new Date(recording.startedAt).toLocaleString()}</div>
+        <div>on {recording.serverUrl}</div>
+        {recording.start.session && <div>session {recording.start.session.name}</div>}
+        <div>player {recording.start.playerName || state.recordedPlayerId || '?'}</div>
+        <div>pressing {describeInput(state.input)}</div>
+        {recording.truncated && <div style={{ color: '#ffab00' }}>recording was cut short</div>}
+        {state.seeking && <div style={{ color: '#8cf' }}>skipping ahead...</div>}
+        <div style={{ marginTop: '6px', color: 'rgba(255, 255, 255, 0.5)' }}>
+          WASD fly | Q/E down/up | SHIFT faster | drag to look | SPACE play/pause
+        </div>
+      </div>
+
+      <RoundDisplay connectionManager={connectionManager} />
+
+      <div style={barStyle}>
+        <button onClick={togglePlaying} style={buttonStyle('#2196F3')}>
+          {state.playing ? 'PAUSE' : 'PLAY'}
+        </button>
+        <span>{formatRoundTime(state.position)}</span>
+        <input
+          type="range"
+          min={0}
+          max={state.duration}
+          step={100}
+          value={state.position}
+          onChange={e => seek(Number(e.target.value))}
+          style={{ flex: 1 }}
+        />
+        <span>{formatRoundTime(state.duration)}</span>
+        <select
+          value={state.speed}
+          onChange={e => setSpeed(Number(e.target.value))}
+          style={{ fontFamily: 'monospace' }}
+        >
+          {REPLAY_SPEEDS.map(speed => (
+            <option key={speed} value={speed}>{speed}x</option>
+          ))}
+        </select>
+        <button onClick={exit} style={buttonStyle('#f44336')}>
+          EXIT
+        </button>
+      </div>
+
+      <Canvas>
+        <Environment preset="sunset" background blur={0.4} />
+        <ambientLight intensity={0.3} />
+        <directionalLight castShadow position={[30, 40, 30]} intensity={1} />
+
+        <Physics paused={!state.playing} timeStep={1/60} gravity={[0, -15, 0]}>
+          <Scene playerRef={localPlayerRef} />
+          <Platforms />
+          <MultiplayerManager localPlayerRef={localPlayerRef} connectionManager={connectionManager} />
+          <SphereTool remoteShots={remoteShots} canShoot={false} />
+        </Physics>
+
+        <FreeCamera />
+      </Canvas>
+    </>
+  );
+};
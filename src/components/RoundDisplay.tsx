@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { ConnectionManager } from '../network/ConnectionManager';
+import { PlayerType, RoundState } from '../network/protocol';
+import { formatRoundTime } from '../network/rounds';
+
+interface RoundDisplayProps {
+  connectionManager: ConnectionManager;
+}
+
+const SIDE_NAMES: Record<PlayerType, string> = {
+  merc: 'MERCS',
+  jackalope: 'JACKALOPES'
+};
+
+const SIDE_COLORS: Record<PlayerType, string> = {
+  merc: '#ffab00',
+  jackalope: '#8f8'
+};
+
+const bannerStyle: React.CSSProperties = {
+  position: 'absolute',
+  left: '50%',
+  transform: 'translateX(-50%)',
+  color: 'rgba(255, 255, 255, 0.85)',
+  fontFamily: 'monospace',
+  textAlign: 'center',
+  userSelect: 'none',
+  zIndex: 1000,
+  textShadow: '0 0 6px rgba(0, 0, 0, 0.8)'
+};
+
+// Hunt mode HUD: round timer while playing, a countdown banner before each
+// round and the results screen after it
+export const RoundDisplay: React.FC<RoundDisplayProps> = ({ connectionManager }) => {
+  const [round, setRound] = useState<RoundState>(connectionManager.getRoundState());
+  const [remaining, setRemaining] = useState(connectionManager.getRoundTimeRemaining());
+
+  useEffect(() => {
+    const handleRoundState = (state: RoundState) => {
+      setRound(state);
+      setRemaining(connectionManager.getRoundTimeRemaining());
+    };
+
+    connectionManager.on('round_state', handleRoundState);
+
+    // The server only sends the remaining time when the phase changes, so tick it down here
+    const timer = window.setInterval(() => {
+      setRemaining(connectionManager.getRoundTimeRemaining());
+    }, 250);
+
+    return () => {
+      connectionManager.off('round_state', handleRoundState);
+      clearInterval(timer);
+    };
+  }, [connectionManager]);
+
+  if (round.phase === 'waiting') return null;
+
+  const playerId = connectionManager.getPlayerId();
+  const myRole = playerId ? round.roles[playerId] : undefined;
+  const roles = Object.entries(round.roles);
+  const jackalopes = roles.filter(([, role]) => role === 'jackalope');
+  const jackalopesLeft = jackalopes.filter(([id]) => !round.tagged.includes(id)).length;
+
+  if (round.phase === 'countdown') {
+    return (
+      <div style={{ ...bannerStyle, top: '30%', fontSize: '22px' }}>
+        <div>ROUND {round.round} STARTS IN {formatRoundTime(remaining)}</div>
+        {myRole ? (
+          <div style={{ fontSize: '16px', marginTop: '8px', color: SIDE_COLORS[myRole] }}>
+            {myRole === 'merc' ? 'YOU ARE A MERC - TAG EVERY JACKALOPE' : 'YOU ARE A JACKALOPE - SURVIVE THE TIMER'}
+          </div>
+        ) : (
+          <div style={{ fontSize: '16px', marginTop: '8px' }}>YOU'LL JOIN NEXT ROUND</div>
+        )}
+      </div>
+    );
+  }
+
+  if (round.phase === 'playing') {
+    return (
+      <div style={{ ...bannerStyle, top: '10px', fontSize: '14px' }}>
+        ROUND {round.round} - {formatRoundTime(remaining)} - JACKALOPES LEFT: {jackalopesLeft}/{jackalopes.length}
+        {playerId && round.tagged.includes(playerId) && (
+          <div style={{ color: '#f66', marginTop: '4px' }}>TAGGED - WAIT FOR THE NEXT ROUND</div>
+        )}
+      </div>
+    );
+  }
+
+  // Results
+  const ranked = roles.sort(([a], [b]) => (round.wins[b] || 0) - (round.wins[a] || 0));
+
+  return (
+    <div style={{
+      ...bannerStyle,
+      top: '20%',
+      fontSize: '13px',
+      background: 'rgba(0, 0, 0, 0.7)',
+      padding: '16px 24px',
+      borderRadius: '6px',
+      minWidth: '320px'
+    }}>
+      {round.winner && (
+        <div style={{ fontSize: '22px', marginBottom: '12px', color: SIDE_COLORS[round.winner] }}>
+          {round.winner === 'merc' ? 'MERCS TAGGED EVERY JACKALOPE' : 'JACKALOPES SURVIVED'}
+        </div>
+      )}
+      <table style={{ width: '100%', borderCollapse: 'collapse', textAlign: 'left' }}>
+        <thead>
+          <tr style={{ color: 'rgba(255, 255, 255, 0.5)' }}>
+            <th>PLAYER</th>
+            <th>SIDE</th>
+            <th>TAGS</th>
+            <th>WINS</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ranked.map(([id, role]) => (
+            <tr key={id} style={{ color: id === playerId ? '#fff' : undefined }}>
+              <td>{id.split('-')[0]}{id === playerId ? ' (you)' : ''}</td>
+              <td style={{ color: SIDE_COLORS[role] }}>{SIDE_NAMES[role]}</td>
+              <td>{role === 'merc' ? round.tags[id] || 0 : round.tagged.includes(id) ? 'tagged' : 'survived'}</td>
+              <td>{round.wins[id] || 0}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ marginTop: '12px' }}>
+        SIDES SWAP - NEXT ROUND IN {formatRoundTime(remaining)}
+      </div>
+    </div>
+  );
+};
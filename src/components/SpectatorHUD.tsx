@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { SpectatorCameraMode } from '../game/spectator-camera';
+import { ConnectionManager } from '../network/ConnectionManager';
+import { PlayerType, RoundState } from '../network/protocol';
+
+interface SpectatorHUDProps {
+  connectionManager: ConnectionManager;
+  mode: SpectatorCameraMode;
+  targetId: string | null;
+  onModeChange: (mode: SpectatorCameraMode) => void;
+  onTargetChange: (targetId: string | null) => void;
+  onLeave: () => void;
+}
+
+interface ListedPlayer {
+  id: string;
+  name: string;
+  side: PlayerType;
+  health: number;
+}
+
+const PLAYER_LIST_POLL_MS = 250;
+
+const MODE_LABELS: Record<SpectatorCameraMode, string> = {
+  free: 'FREE',
+  first_person: 'FIRST PERSON',
+  third_person: 'THIRD PERSON'
+};
+
+const MODES = Object.keys(MODE_LABELS) as SpectatorCameraMode[];
+
+const SIDE_COLORS: Record<PlayerType, string> = {
+  merc: '#ffab00',
+  jackalope: '#8f8'
+};
+
+const panelStyle: React.CSSProperties = {
+  position: 'fixed',
+  top: '10px',
+  right: '10px',
+  width: '260px',
+  padding: '8px 10px',
+  background: 'rgba(0, 0, 0, 0.7)',
+  color: 'white',
+  fontFamily: 'monospace',
+  fontSize: '12px',
+  borderRadius: '5px',
+  zIndex: 1000
+};
+
+const buttonStyle = (active: boolean): React.CSSProperties => ({
+  backgroundColor: active ? '#3F51B5' : '#607D8B',
+  border: 'none',
+  color: 'white',
+  padding: '4px 6px',
+  margin: '0 4px 4px 0',
+  borderRadius: '3px',
+  cursor: 'pointer',
+  fontFamily: 'monospace',
+  fontSize: '11px'
+});
+
+// Everyone playing, by side this round and then by name
+function listPlayers(connectionManager: ConnectionManager, round: RoundState): ListedPlayer[] {
+  return Object.entries(connectionManager.getRemotePlayers())
+    .map(([id, state]) => ({
+      id,
+      name: state.name || id,
+      side: round.roles[id] ?? state.playerType,
+      health: connectionManager.getPlayerHealth(id)
+    }))
+    .sort((a, b) => a.side.localeCompare(b.side) || a.name.localeCompare(b.name));
+}
+
+// What a spectator sees over the game: who's playing, who the camera is on,
+// and how to switch. Left and right arrows go through the players, V changes
+// the camera, and clicking a player follows them.
+export const SpectatorHUD: React.FC<SpectatorHUDProps> = ({
+  connectionManager,
+  mode,
+  targetId,
+  onModeChange,
+  onTargetChange,
+  onLeave
+}) => {
+  const [round, setRound] = useState<RoundState>(() => connectionManager.getRoundState());
+  const [players, setPlayers] = useState<ListedPlayer[]>(() => listPlayers(connectionManager, round));
+
+  useEffect(() => {
+    const poll = () => {
+      const latest = connectionManager.getRoundState();
+      setRound(latest);
+      setPlayers(listPlayers(connectionManager, latest));
+    };
+    poll();
+    const timer = window.setInterval(poll, PLAYER_LIST_POLL_MS);
+    return () => clearInterval(timer);
+  }, [connectionManager]);
+
+  // Whoever we were following left; move on to someone else
+  useEffect(() => {
+    if (targetId && !players.some(player => player.id === targetId)) {
+      onTargetChange(players[0]?.id ?? null);
+    }
+  }, [players, targetId, onTargetChange]);
+
+  useEffect(() => {
+    const cycleTarget = (step: number) => {
+      if (players.length === 0) return;
+      const index = players.findIndex(player => player.id === targetId);
+      const next = players[(index + step + players.length) % players.length];
+      onTargetChange(next.id);
+      // Picking someone to watch means following them
+      if (mode === 'free') onModeChange('third_person');
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
+      switch (event.code) {
+        case 'ArrowRight':
+          cycleTarget(1);
+          break;
+        case 'ArrowLeft':
+          cycleTarget(-1);
+          break;
+        case 'KeyV':
+          onModeChange(MODES[(MODES.indexOf(mode) + 1) % MODES.length]);
+          if (!targetId && players.length > 0) onTargetChange(players[0].id);
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [players, mode, targetId, onModeChange, onTargetChange]);
+
+  const follow = (id: string) => {
+    onTargetChange(id);
+    if (mode === 'free') onModeChange('third_person');
+  };
+
+  const session = connectionManager.getCurrentSession();
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>
+        SPECTATING{session?.name ? ` ${session.name}` : ''}
+      </div>
+
+      <div style={{ marginBottom: '6px' }}>
+        {MODES.map(option => (
+          <button key={option} onClick={() => onModeChange(option)} style={buttonStyle(mode === option)}>
+            {MODE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {players.length === 0 ? (
+        <div style={{ color: 'rgba(255, 255, 255, 0.5)', marginBottom: '6px' }}>Nobody is playing yet</div>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '6px' }}>
+          <tbody>
+            {players.map(player => (
+              <tr
+                key={player.id}
+                onClick={() => follow(player.id)}
+                style={{
+                  cursor: 'pointer',
+                  background: player.id === targetId && mode !== 'free' ? 'rgba(255, 255, 255, 0.15)' : undefined,
+                  opacity: round.tagged.includes(player.id) ? 0.5 : 1
+                }}
+              >
+                <td style={{ color: SIDE_COLORS[player.side] }}>{player.side === 'merc' ? 'M' : 'J'}</td>
+                <td>{player.name}</td>
+                <td style={{ textAlign: 'right' }}>{player.health}hp</td>
+                <td style={{ textAlign: 'right' }}>{round.wins[player.id] ? `${round.wins[player.id]}W` : ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div style={{ color: 'rgba(255, 255, 255, 0.5)', marginBottom: '6px' }}>
+        {mode === 'free'
+          ? 'WASD fly | Q/E down/up | SHIFT faster | drag to look'
+          : 'drag to look around'}
+        <br />
+        ←/→ next player | V camera
+      </div>
+
+      <button onClick={onLeave} style={{ ...buttonStyle(false), backgroundColor: '#f44336' }}>
+        LEAVE
+      </button>
+    </div>
+  );
+};
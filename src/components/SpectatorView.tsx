@@ -0,0 +1,59 @@
+import React, { useRef, useState } from 'react';
+import { Environment } from '@react-three/drei';
+import { Physics } from '@react-three/rapier';
+import { Canvas } from '../common/components/canvas';
+import { Platforms } from '../game/platforms';
+import { Scene } from '../game/scene';
+import { SpectatorCamera, SpectatorCameraMode } from '../game/spectator-camera';
+import { SphereTool } from '../game/sphere-tool';
+import { ConnectionManager } from '../network/ConnectionManager';
+import { MultiplayerManager, useRemoteShots } from '../network/MultiplayerManager';
+import { RoundDisplay } from './RoundDisplay';
+import { SpectatorHUD } from './SpectatorHUD';
+
+interface SpectatorViewProps {
+  connectionManager: ConnectionManager;
+  onLeave: () => void;
+}
+
+// The game as a spectator sees it: everyone else, their shots and the
+// arena, with no player of our own to move or send updates for
+export const SpectatorView: React.FC<SpectatorViewProps> = ({ connectionManager, onLeave }) => {
+  const [mode, setMode] = useState<SpectatorCameraMode>('free');
+  const [targetId, setTargetId] = useState<string | null>(null);
+
+  // Nobody's playing here, but the game components expect somebody to be
+  const localPlayerRef = useRef(null);
+
+  const remoteShots = useRemoteShots(connectionManager);
+
+  return (
+    <>
+      <RoundDisplay connectionManager={connectionManager} />
+
+      <SpectatorHUD
+        connectionManager={connectionManager}
+        mode={mode}
+        targetId={targetId}
+        onModeChange={setMode}
+        onTargetChange={setTargetId}
+        onLeave={onLeave}
+      />
+
+      <Canvas>
+        <Environment preset="sunset" background blur={0.4} />
+        <ambientLight intensity={0.3} />
+        <directionalLight castShadow position={[30, 40, 30]} intensity={1} />
+
+        <Physics timeStep={1/60} gravity={[0, -15, 0]}>
+          <Scene playerRef={localPlayerRef} />
+          <Platforms />
+          <MultiplayerManager localPlayerRef={localPlayerRef} connectionManager={connectionManager} />
+          <SphereTool remoteShots={remoteShots} canShoot={false} />
+        </Physics>
+
+        <SpectatorCamera connectionManager={connectionManager} mode={mode} targetId={targetId} />
+      </Canvas>
+    </>
+  );
+};
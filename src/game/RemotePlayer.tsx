@@ -1,18 +1,32 @@
-import React, { useRef, useState, useEffect, useImperativeHandle, forwardRef, useMemo } from 'react';
+import React, { useRef, useState, useEffect, useImperativeHandle, forwardRef, useMemo, useCallback } from 'react';
 import * as THREE from 'three';
 import { Html } from '@react-three/drei';
 import { useFrame, RootState } from '@react-three/fiber';
+import { CapsuleCollider, RigidBody, RapierRigidBody, useRapier } from '@react-three/rapier';
 import { Points, BufferGeometry, NormalBufferAttributes, Material } from 'three';
 import { MercModel } from './MercModel'; // Import MercModel for remote players
 import { JackalopeModel } from './JackalopeModel'; // Import the new JackalopeModel
+import { PlayerHitboxData } from '../network/damage';
+import { ExtrapolationLimit, InterpolatedTransform } from '../network/JitterBuffer';
 
 // Define the RemotePlayerData interface locally to match MultiplayerManager
 interface RemotePlayerData {
   playerId: string;
   position: { x: number, y: number, z: number };
   rotation: number;
+  // World units per second, if the player sends it
+  velocity?: { x: number, y: number, z: number };
   playerType?: 'merc' | 'jackalope';
   isMoving?: boolean;
+  // When the player stopped sending updates, if they have
+  staleSince?: number;
+  // How long a stale player takes to fade out completely
+  fadeOutMs?: number;
+  // The clock staleSince is on, if not Date.now (replays have their own)
+  now?: () => number;
+  // Smoothed transform to draw this frame (see network/JitterBuffer.ts).
+  // Falls back to position/rotation when missing or null.
+  sampleTransform?: (playerId: string, limit?: ExtrapolationLimit) => InterpolatedTransform | null;
 }
 
 // Add a global debug level constant
@@ -129,12 +143,123 @@ const PilotLight = () => {
   );
 };
 
+// Fade every material under `object`. The original opacity is kept in the
+// material's userData so it can be put back once the player is active again.
+const setObjectOpacity = (object: THREE.Object3D, opacity: number) => {
+  object.traverse(child => {
+    const material = (child as THREE.Mesh).material;
+    if (!material) return;
+    
+    (Array.isArray(material) ? material : [material]).forEach(mat => {
+      if (mat.userData.baseOpacity === undefined) {
+        if (opacity === 1) return;
+        mat.userData.baseOpacity = mat.opacity;
+        mat.userData.baseTransparent = mat.transparent;
+      }
+      
+      const transparent = opacity < 1 || mat.userData.baseTransparent;
+      if (mat.transparent !== transparent) {
+        mat.transparent = transparent;
+        mat.needsUpdate = true;
+      }
+      mat.opacity = mat.userData.baseOpacity * opacity;
+      
+      if (opacity === 1) {
+        delete mat.userData.baseOpacity;
+        delete mat.userData.baseTransparent;
+      }
+    });
+  });
+};
+
+// Dead reckoned players stop this far short of a wall (about a capsule radius)
+const WALL_MARGIN = 0.5;
+
+const _sampledRotation = new THREE.Quaternion();
+const _sampledEuler = new THREE.Euler();
+
+// Yaw of a [x, y, z, w] quaternion, the same way MultiplayerManager reads rotations
+const quaternionToYaw = (quat: [number, number, number, number]): number => {
+  _sampledRotation.set(quat[0], quat[1], quat[2], quat[3]);
+  return _sampledEuler.setFromQuaternion(_sampledRotation).y;
+};
+
+// Kinematic capsule that follows a remote jackalope so fireballs can hit it.
+// Same shape and offset as the local Jackalope collider.
+const RemoteJackalopeHitbox = ({ playerId, position, followRef }: {
+  playerId: string,
+  position: { x: number, y: number, z: number },
+  // Follow this object (the drawn player) rather than the last update
+  followRef?: React.RefObject<THREE.Object3D>
+}) => {
+  const bodyRef = useRef<RapierRigidBody>(null);
+  const userData = useMemo<PlayerHitboxData>(() => ({
+    hitbox: 'player',
+    playerId,
+    playerType: 'jackalope',
+    isLocal: false
+  }), [playerId]);
+  
+  useFrame(() => {
+    if (!bodyRef.current) return;
+    
+    if (followRef?.current) {
+      bodyRef.current.setNextKinematicTranslation(followRef.current.position);
+    } else if (position) {
+      bodyRef.current.setNextKinematicTranslation(position);
+    }
+  });
+  
+  return (
+    <RigidBody
+      ref={bodyRef}
+      type="kinematicPosition"
+      colliders={false}
+      position={[position?.x || 0, position?.y || 0, position?.z || 0]}
+      userData={userData}
+    >
+      <CapsuleCollider args={[1.0, 0.5]} position={[0, -0.28, 0]} />
+    </RigidBody>
+  );
+};
+
 // Remote Player Component
-export const RemotePlayer = ({ playerId, position, rotation, playerType, isMoving }: RemotePlayerData) => {
+export const RemotePlayer = ({ playerId, position, rotation, velocity, playerType, isMoving, staleSince, fadeOutMs = 10000, sampleTransform, now = Date.now }: RemotePlayerData) => {
   // Add debug logging for player type
   console.log(`🎮 RemotePlayer ${playerId} rendering with playerType: ${playerType || 'undefined'}`);
   
   const meshRef = useRef<THREE.Mesh>(null);
+  // Positions and turns the model and name tag together
+  const rootRef = useRef<THREE.Group>(null);
+  
+  // Stop dead reckoning at the level geometry. Players and projectiles are
+  // kinematic or dynamic, so only fixed colliders block.
+  const { world, rapier } = useRapier();
+  const limitExtrapolation = useCallback<ExtrapolationLimit>((from, to) => {
+    const direction = { x: to[0] - from[0], y: to[1] - from[1], z: to[2] - from[2] };
+    const distance = Math.hypot(direction.x, direction.y, direction.z);
+    if (distance === 0) return to;
+    
+    direction.x /= distance;
+    direction.y /= distance;
+    direction.z /= distance;
+    
+    const ray = new rapier.Ray({ x: from[0], y: from[1], z: from[2] }, direction);
+    const hit = world.castRay(
+      ray,
+      distance + WALL_MARGIN,
+      true,
+      rapier.QueryFilterFlags.EXCLUDE_KINEMATIC | rapier.QueryFilterFlags.EXCLUDE_DYNAMIC | rapier.QueryFilterFlags.EXCLUDE_SENSORS
+    );
+    if (!hit) return to;
+    
+    const allowed = Math.max(0, hit.timeOfImpact - WALL_MARGIN);
+    return [
+      from[0] + direction.x * allowed,
+      from[1] + direction.y * allowed,
+      from[2] + direction.z * allowed
+    ];
+  }, [world, rapier]);
   const lastPosition = useRef<THREE.Vector3 | null>(null);
   const [localIsMoving, setLocalIsMoving] = useState(false);
   const currentAnimation = useRef("idle"); // Default to idle
@@ -144,6 +269,30 @@ export const RemotePlayer = ({ playerId, position, rotation, playerType, isMovin
   const pendingAnimationChange = useRef<string | null>(null);
   const MIN_ANIMATION_CHANGE_INTERVAL = 800; // minimum 800ms between animation changes
   
+  // Stale players fade out until they're removed
+  const fadeRef = useRef<THREE.Group>(null);
+  const nameTagRef = useRef<HTMLDivElement>(null);
+  const opacityRef = useRef(1);
+  
+  useFrame(() => {
+    const opacity = staleSince
+      ? THREE.MathUtils.clamp(1 - (now() - staleSince) / Math.max(fadeOutMs, 1), 0, 1)
+      : 1;
+    if (opacity === opacityRef.current) return;
+    
+    opacityRef.current = opacity;
+    if (fadeRef.current) setObjectOpacity(fadeRef.current, opacity);
+    if (nameTagRef.current) nameTagRef.current.style.opacity = String(opacity);
+  });
+  
+  // The models share their materials, so don't leave them faded
+  useEffect(() => {
+    const group = fadeRef.current;
+    return () => {
+      if (group) setObjectOpacity(group, 1);
+    };
+  }, []);
+  
   // Log a one-time warning if we get invalid data
   useEffect(() => {
     if (!position) {
@@ -193,7 +342,8 @@ export const RemotePlayer = ({ playerId, position, rotation, playerType, isMovin
       }
     }
     
-    if (!meshRef.current) return;
+    const object = rootRef.current ?? meshRef.current;
+    if (!object) return;
     
     // Safely update position with error checking
     if (position && typeof position.x === 'number' && 
@@ -210,7 +360,10 @@ export const RemotePlayer = ({ playerId, position, rotation, playerType, isMovin
       
       // Only check for movement when isMoving is undefined (fallback to local detection)
       if (lastPosition.current && isMoving === undefined) {
-        const distance = lastPosition.current.distanceTo(currentPos);
+        // Use the sent velocity when there is one (scaled to about a frame's travel)
+        const distance = velocity
+          ? Math.hypot(velocity.x, velocity.z) / 60
+          : lastPosition.current.distanceTo(currentPos);
         
         // If player moved more than a threshold, set state to moving
         // Using a higher threshold (0.03) to avoid micro-movements
@@ -234,28 +387,41 @@ export const RemotePlayer = ({ playerId, position, rotation, playerType, isMovin
       lastPosition.current.copy(currentPos);
       
       // Update mesh position
-      meshRef.current.position.set(position.x, position.y, position.z);
+      object.position.set(position.x, position.y, position.z);
     }
     
     // Safely update rotation with error checking
     if (rotation !== undefined && rotation !== null) {
-      meshRef.current.rotation.set(0, rotation, 0);
+      object.rotation.set(0, rotation, 0);
+    }
+    
+    // Prefer the jitter buffered transform over the latest update once there is one
+    const sampled = sampleTransform?.(playerId, limitExtrapolation);
+    if (sampled) {
+      object.position.set(sampled.position[0], sampled.position[1], sampled.position[2]);
+      object.rotation.set(0, quaternionToYaw(sampled.rotation), 0);
     }
   });
 
   // For merc type, use the MercModel
   if (playerType === 'merc') {
     return (
-      <>
-        <MercModel 
-          position={position ? [position.x, position.y - 1.6, position.z] : [0, -1.6, 0]} 
-          rotation={[0, rotation || 0, 0]}
-          animation={localIsMoving ? "walk" : "idle"}
-          scale={[5, 5, 5]}
-        />
+      <group
+        ref={rootRef}
+        position={position ? [position.x, position.y, position.z] : [0, 0, 0]}
+        rotation={[0, rotation || 0, 0]}
+      >
+        <group ref={fadeRef}>
+          <MercModel 
+            position={[0, -1.6, 0]} 
+            rotation={[0, 0, 0]}
+            animation={localIsMoving ? "walk" : "idle"}
+            scale={[5, 5, 5]}
+          />
+        </group>
         {/* Player ID tag - positioned higher for the taller merc model */}
-        <Html position={[position?.x || 0, (position?.y || 0) + 6, position?.z || 0]} center>
-          <div style={{ 
+        <Html position={[0, 6, 0]} center>
+          <div ref={nameTagRef} style={{ 
             background: 'rgba(0,0,0,0.5)', 
             padding: '2px 6px', 
             borderRadius: '4px', 
@@ -266,7 +432,7 @@ export const RemotePlayer = ({ playerId, position, rotation, playerType, isMovin
             {playerId?.split('-')[0]}
           </div>
         </Html>
-      </>
+      </group>
     );
   }
 
@@ -279,25 +445,34 @@ export const RemotePlayer = ({ playerId, position, rotation, playerType, isMovin
     
     return (
       <>
-        <JackalopeModel 
-          position={position ? [position.x, position.y + 0, position.z] : [0, 0, 0]} 
-          rotation={[0, (rotation || 0) + (Math.PI/2), 0]}
-          animation={localIsMoving ? "walk" : "idle"}
-          scale={[2, 2, 2]}
-        />
-        {/* Player ID tag */}
-        <Html position={[position?.x || 0, (position?.y || 0) + 2.5, position?.z || 0]} center>
-          <div style={{ 
-            background: 'rgba(0,0,0,0.5)', 
-            padding: '2px 6px', 
-            borderRadius: '4px', 
-            color: 'white',
-            fontSize: '10px',
-            fontFamily: 'Arial, sans-serif'
-          }}>
-            {playerId?.split('-')[0]}
-          </div>
-        </Html>
+        <group
+          ref={rootRef}
+          position={position ? [position.x, position.y, position.z] : [0, 0, 0]}
+          rotation={[0, rotation || 0, 0]}
+        >
+          <group ref={fadeRef}>
+            <JackalopeModel 
+              position={[0, 0, 0]} 
+              rotation={[0, Math.PI/2, 0]}
+              animation={localIsMoving ? "walk" : "idle"}
+              scale={[2, 2, 2]}
+            />
+          </group>
+          {/* Player ID tag */}
+          <Html position={[0, 2.5, 0]} center>
+            <div ref={nameTagRef} style={{ 
+              background: 'rgba(0,0,0,0.5)', 
+              padding: '2px 6px', 
+              borderRadius: '4px', 
+              color: 'white',
+              fontSize: '10px',
+              fontFamily: 'Arial, sans-serif'
+            }}>
+              {playerId?.split('-')[0]}
+            </div>
+          </Html>
+        </group>
+        <RemoteJackalopeHitbox playerId={playerId} position={position} followRef={rootRef} />
       </>
     );
   }
@@ -0,0 +1,41 @@
+import { useThree } from '@react-three/fiber'
+import { useEffect, useRef } from 'react'
+
+// Looking around by dragging the mouse over the canvas, shared by the free
+// and spectator cameras
+
+// Radians per pixel dragged
+export const LOOK_SENSITIVITY = 0.004
+export const MAX_PITCH = Math.PI / 2 - 0.01
+
+// Calls look() with how far the mouse moved, in pixels, while a button is
+// held down on the canvas
+export function useDragLook(enabled: boolean, look: (dx: number, dy: number) => void) {
+    const { gl } = useThree()
+    const lookRef = useRef(look)
+    lookRef.current = look
+
+    useEffect(() => {
+        if (!enabled) return
+
+        let dragging = false
+        const handlePointerDown = () => {
+            dragging = true
+        }
+        const handlePointerUp = () => {
+            dragging = false
+        }
+        const handlePointerMove = (event: PointerEvent) => {
+            if (dragging) lookRef.current(event.movementX, event.movementY)
+        }
+
+        gl.domElement.addEventListener('pointerdown', handlePointerDown)
+        window.addEventListener('pointerup', handlePointerUp)
+        window.addEventListener('pointermove', handlePointerMove)
+        return () => {
+            gl.domElement.removeEventListener('pointerdown', handlePointerDown)
+            window.removeEventListener('pointerup', handlePointerUp)
+            window.removeEventListener('pointermove', handlePointerMove)
+        }
+    }, [enabled, gl])
+}
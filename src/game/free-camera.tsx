@@ -0,0 +1,97 @@
+import { useFrame, useThree } from '@react-three/fiber'
+import { useEffect, useRef } from 'react'
+import * as THREE from 'three'
+import { LOOK_SENSITIVITY, MAX_PITCH, useDragLook } from './drag-look'
+
+// A camera that flies anywhere, for watching rather than playing. WASD moves
+// where you look, Q and E go straight down and up, Shift is faster, and
+// dragging with the mouse turns.
+
+type FreeCameraProps = {
+    position?: [number, number, number]
+    // Where to look from `position` to begin with
+    lookAt?: [number, number, number]
+    // Units per second, and with Shift held
+    speed?: number
+    fastSpeed?: number
+    // Off to leave the camera to something else without losing our place
+    enabled?: boolean
+}
+
+const MOVE_KEYS = ['KeyW', 'KeyA', 'KeyS', 'KeyD', 'KeyQ', 'KeyE', 'ShiftLeft', 'ShiftRight']
+
+export function FreeCamera({ position = [0, 15, 30], lookAt = [0, 0, 0], speed = 10, fastSpeed = 30, enabled = true }: FreeCameraProps) {
+    const { camera } = useThree()
+    const pressed = useRef(new Set<string>())
+    const place = useRef<{ position: THREE.Vector3, yaw: number, pitch: number } | null>(null)
+
+    if (!place.current) {
+        const from = new THREE.Vector3(...position)
+        const direction = new THREE.Vector3(...lookAt).sub(from).normalize()
+        place.current = {
+            position: from,
+            yaw: Math.atan2(-direction.x, -direction.z),
+            pitch: Math.asin(THREE.MathUtils.clamp(direction.y, -1, 1))
+        }
+    }
+
+    useDragLook(enabled, (dx, dy) => {
+        if (!place.current) return
+        place.current.yaw -= dx * LOOK_SENSITIVITY
+        place.current.pitch = THREE.MathUtils.clamp(place.current.pitch - dy * LOOK_SENSITIVITY, -MAX_PITCH, MAX_PITCH)
+    })
+
+    useEffect(() => {
+        if (!enabled) return
+
+        const keys = pressed.current
+        const isTyping = (event: KeyboardEvent) =>
+            event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (isTyping(event) || !MOVE_KEYS.includes(event.code)) return
+            keys.add(event.code)
+        }
+        const handleKeyUp = (event: KeyboardEvent) => {
+            keys.delete(event.code)
+        }
+        const handleBlur = () => keys.clear()
+
+        window.addEventListener('keydown', handleKeyDown)
+        window.addEventListener('keyup', handleKeyUp)
+        window.addEventListener('blur', handleBlur)
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown)
+            window.removeEventListener('keyup', handleKeyUp)
+            window.removeEventListener('blur', handleBlur)
+            keys.clear()
+        }
+    }, [enabled])
+
+    const forward = useRef(new THREE.Vector3())
+    const right = useRef(new THREE.Vector3())
+    const euler = useRef(new THREE.Euler(0, 0, 0, 'YXZ'))
+
+    useFrame((_, delta) => {
+        if (!enabled || !place.current) return
+        const { position: at, yaw, pitch } = place.current
+        const keys = pressed.current
+
+        forward.current.set(-Math.sin(yaw) * Math.cos(pitch), Math.sin(pitch), -Math.cos(yaw) * Math.cos(pitch))
+        right.current.set(Math.cos(yaw), 0, -Math.sin(yaw))
+
+        const step = (keys.has('ShiftLeft') || keys.has('ShiftRight') ? fastSpeed : speed) * Math.min(delta, 0.1)
+        if (keys.has('KeyW')) at.addScaledVector(forward.current, step)
+        if (keys.has('KeyS')) at.addScaledVector(forward.current, -step)
+        if (keys.has('KeyD')) at.addScaledVector(right.current, step)
+        if (keys.has('KeyA')) at.addScaledVector(right.current, -step)
+        if (keys.has('KeyE')) at.y += step
+        if (keys.has('KeyQ')) at.y -= step
+
+        camera.position.copy(at)
+        euler.current.set(pitch, yaw, 0)
+        camera.quaternion.setFromEuler(euler.current)
+    })
+
+    return null
+}
@@ -9,18 +9,19 @@ import { Component, Entity, EntityType } from './ecs'
 
 // Import ConnectionManager for multiplayer support
 import { ConnectionManager } from '../network/ConnectionManager'
+import { PlayerHitboxData } from '../network/damage'
 import { JackalopeModel } from './JackalopeModel' // Import the JackalopeModel component
+import { CollideFn, KeyControls, createMovementState, getMoveDirection, hasMoveInput, readMovementInput, stepJackalopeMovement } from './movement'
+import { InputPredictor } from '../network/prediction'
+import { InputAck } from '../network/protocol'
+
+const _moveDirection = new THREE.Vector3()
 
 // Animation system
 const ANIMATION_SMOOTHING = 0.08;
 
-// Direct movement constants
-const BASE_SPEED = 6.8; // Doubled from 3.4 to make jackalope 2x faster
-const RUN_MULTIPLIER = 1.8; // Keep this the same
-
-// Jump handling adjustments
-const JUMP_MULTIPLIER = 9.0; // Increased from 6.0 but not as extreme as 12.0
-const GRAVITY_REDUCTION = 0.9; // Adjusted from 0.7 to 0.9 for quicker falling
+// Lets fireballs know they hit us - our network ID is resolved when the hit is reported
+const LOCAL_HITBOX: PlayerHitboxData = { hitbox: 'player', playerId: null, playerType: 'jackalope', isLocal: true };
 
 // Props for the Jackalope component
 type JackalopeProps = RigidBodyProps & {
@@ -33,16 +34,6 @@ type JackalopeProps = RigidBodyProps & {
     thirdPersonView?: boolean
 }
 
-// Keyboard controls type
-type KeyControls = {
-    forward: boolean
-    backward: boolean
-    left: boolean
-    right: boolean
-    jump: boolean
-    sprint: boolean
-}
-
 export const Jackalope = forwardRef<EntityType, JackalopeProps>(({ 
     onMove, 
     walkSpeed = 0.12, 
@@ -62,9 +53,8 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
     const rapier = useRapier()
     const characterController = useRef<any>(null)
     
-    // For direct position control
-    const position = useRef(new THREE.Vector3())
-    const velocity = useRef(new THREE.Vector3())
+    // For direct position control - movement.ts steps this every frame
+    const movement = useRef(createMovementState())
     const rotation = useRef(0)
     const targetRotation = useRef(0)
     
@@ -79,6 +69,10 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
     // Track last server sync
     const lastStateTime = useRef(0)
     
+    // Inputs the server hasn't acked yet, and the newest ack to check them against
+    const predictor = useRef(new InputPredictor())
+    const pendingAck = useRef<InputAck | null>(null)
+    
     // Initialize position and physics controller
     useEffect(() => {
         // Create physics character controller
@@ -90,7 +84,7 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
         
         // Set initial position from props
         if (props.position && Array.isArray(props.position)) {
-            position.current.set(props.position[0], props.position[1], props.position[2])
+            movement.current.position = { x: props.position[0], y: props.position[1], z: props.position[2] }
         }
         
         return () => {
@@ -99,123 +93,68 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
     }, [])
     
     // Main update - directly updates both the visual model and physics
-    useFrame((state, delta) => {
+    useFrame((_, delta) => {
         // Early return if refs aren't ready
         if (!jackalopeRef.current?.rigidBody) return
         
-        // Get input state
-        const { forward, backward, left, right, jump, sprint } = getKeyboardControls() as any
-        
-        // Combine keyboard and gamepad
-        const moveForward = forward || (gamepadState?.leftStick?.y < 0)
-        const moveBackward = backward || (gamepadState?.leftStick?.y > 0)
-        const moveLeft = left || (gamepadState?.leftStick?.x < 0)
-        const moveRight = right || (gamepadState?.leftStick?.x > 0)
-        const isJumping = jump || gamepadState?.buttons?.jump
-        const isSprinting = sprint || gamepadState?.buttons?.leftStickPress
-        
-        // Get movement direction from input
-        const inputDir = new THREE.Vector3(
-            (moveRight ? 1 : 0) - (moveLeft ? 1 : 0),
-            0,
-            (moveForward ? 1 : 0) - (moveBackward ? 1 : 0)
-        ).normalize()
-        
-        // Convert to camera-relative direction
-        const cameraDirection = new THREE.Vector3(0, 0, -1).applyQuaternion(camera.quaternion)
-        cameraDirection.y = 0 // Keep movement horizontal
-        cameraDirection.normalize()
-        
-        const cameraSide = new THREE.Vector3(1, 0, 0).applyQuaternion(camera.quaternion)
-        cameraSide.y = 0
-        cameraSide.normalize()
-        
-        // Calculate movement in camera space
-        const moveDirection = new THREE.Vector3()
-        
-        if (inputDir.z !== 0 || inputDir.x !== 0) {
-            moveDirection
-                .addScaledVector(cameraDirection, inputDir.z)
-                .addScaledVector(cameraSide, inputDir.x)
-                .normalize()
-            
-            targetRotation.current = Math.atan2(moveDirection.x, moveDirection.z) + Math.PI
-        }
-        
-        // Apply movement if we have input
-        const hasMovementInput = Math.abs(inputDir.x) > 0.1 || Math.abs(inputDir.z) > 0.1
+        const rigidBody = jackalopeRef.current.rigidBody
+        const collider = rigidBody.collider(0)
+        const params = { jumpForce }
         
-        if (hasMovementInput) {
-            // Calculate speed
-            const speed = BASE_SPEED * (isSprinting ? RUN_MULTIPLIER : 1.0)
-            
-            // Apply horizontal movement
-            velocity.current.x = moveDirection.x * speed
-            velocity.current.z = moveDirection.z * speed
-            
-            // Set animation based on speed
-            setAnimation(isSprinting ? 'run' : 'walk')
-        } else {
-            // Slow down if no input
-            velocity.current.x *= 0.8
-            velocity.current.z *= 0.8
-            
-            // Clamp small velocities to 0
-            if (Math.abs(velocity.current.x) < 0.01) velocity.current.x = 0
-            if (Math.abs(velocity.current.z) < 0.01) velocity.current.z = 0
-            
-            // Switch to idle animation if basically stopped
-            if (Math.sqrt(velocity.current.x * velocity.current.x + velocity.current.z * velocity.current.z) < 0.1) {
-                setAnimation('idle')
+        const collide: CollideFn = (_from, desired) => {
+            characterController.current.computeColliderMovement(collider, desired)
+            return {
+                movement: characterController.current.computedMovement(),
+                grounded: characterController.current.computedGrounded()
             }
         }
         
-        // Jump handling
-        const groundCheck = characterController.current.computedGrounded()
-        if (isJumping && groundCheck) {
-            velocity.current.y = jumpForce * JUMP_MULTIPLIER
+        // Replayed inputs start from the replayed state, not from where the body is
+        const collideFrom: CollideFn = (from, desired) => {
+            rigidBody.setTranslation(from, false)
+            rapier.world.propagateModifiedBodyPositionsToColliders()
+            return collide(from, desired)
         }
         
-        // Apply gravity if not on ground
-        if (!groundCheck) {
-            // Apply gravity with smoothing and cap the fall speed
-            velocity.current.y -= 9.8 * delta * GRAVITY_REDUCTION
-            
-            // Cap falling speed to prevent too rapid descent
-            if (velocity.current.y < -25) {
-                velocity.current.y = -25
+        // If the server disagreed with our prediction, rewind to its state and
+        // replay the inputs it hasn't processed yet
+        const ack = pendingAck.current
+        pendingAck.current = null
+        if (ack) {
+            const correction = predictor.current.reconcile(ack, (state, input) => stepJackalopeMovement(state, input, input.dt, params, collideFrom))
+            if (correction) {
+                movement.current = correction.state
+                rigidBody.setTranslation(correction.state.position, false)
+                rapier.world.propagateModifiedBodyPositionsToColliders()
+                connectionManager?.recordCorrection(correction)
             }
-        } else if (velocity.current.y < 0) {
-            velocity.current.y = 0 // Stop falling if on ground
         }
         
-        // Create a target position including the desired movement
-        const targetPosition = position.current.clone().add(
-            velocity.current.clone().multiplyScalar(delta)
-        )
-        
-        // Handle collision with the character controller
-        const rigidBody = jackalopeRef.current.rigidBody
-        const collider = rigidBody.collider(0)
+        const input = readMovementInput(getKeyboardControls() as KeyControls, gamepadState, camera)
+        const state = movement.current
         
-        // Calculate the movement vector (target - current)
-        const movement = {
-            x: targetPosition.x - position.current.x,
-            y: targetPosition.y - position.current.y,
-            z: targetPosition.z - position.current.z
+        // Face the way we're moving
+        if (hasMoveInput(input)) {
+            const moveDirection = getMoveDirection(input, _moveDirection)
+            targetRotation.current = Math.atan2(moveDirection.x, moveDirection.z) + Math.PI
         }
         
-        // Check for valid collision movement
-        characterController.current.computeColliderMovement(collider, movement)
-        const safeMovement = characterController.current.computedMovement()
+        stepJackalopeMovement(state, input, delta, params, collide)
         
-        // Apply the safe movement to our position
-        position.current.x += safeMovement.x
-        position.current.y += safeMovement.y
-        position.current.z += safeMovement.z
+        if (connectionManager && connectionManager.isReadyToSend()) {
+            predictor.current.record(connectionManager.queueInput(input, delta), state)
+        }
+        
+        // Set animation based on speed
+        if (hasMoveInput(input)) {
+            setAnimation(input.sprint ? 'run' : 'walk')
+        } else if (Math.sqrt(state.velocity.x * state.velocity.x + state.velocity.z * state.velocity.z) < 0.1) {
+            setAnimation('idle')
+        }
         
         // Sync the physics body to our position
-        rigidBody.setNextKinematicTranslation(position.current)
+        const position = state.position
+        rigidBody.setNextKinematicTranslation(position)
         
         // Smoothly rotate the model to face the movement direction
         const rotDiff = Math.atan2(
@@ -230,9 +169,9 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
         if (jackalopeModelRef.current && thirdPersonView) {
             // Update model position directly
             jackalopeModelRef.current.position.set(
-                position.current.x,
-                position.current.y - 0.9, // Raise by 50% from previous -1.15 value
-                position.current.z
+                position.x,
+                position.y - 0.9, // Raise by 50% from previous -1.15 value
+                position.z
             )
             // Add PI rotation to make model face the correct direction
             jackalopeModelRef.current.rotation.y = rotation.current + Math.PI
@@ -241,16 +180,16 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
         // 2. First-person model
         if (fpModelRef.current && !thirdPersonView) {
             fpModelRef.current.position.set(
-                position.current.x,
-                position.current.y,
-                position.current.z
+                position.x,
+                position.y,
+                position.z
             )
             fpModelRef.current.rotation.y = rotation.current
         }
         
         // Inform parent of movement
         if (onMove) {
-            onMove(position.current.clone())
+            onMove(new THREE.Vector3(position.x, position.y, position.z))
         }
         
         // Send multiplayer updates at fixed intervals
@@ -265,17 +204,22 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
             )
             
             connectionManager.sendPlayerUpdate({
-                position: [position.current.x, position.current.y, position.current.z],
+                position: [position.x, position.y, position.z],
                 rotation: [rotationQuat.x, rotationQuat.y, rotationQuat.z, rotationQuat.w],
-                velocity: [velocity.current.x, velocity.current.y, velocity.current.z],
+                velocity: [state.velocity.x, state.velocity.y, state.velocity.z],
                 sequence: Date.now(),
                 playerType: 'jackalope'
             })
+            
+            connectionManager.sendInputs({
+                position: [position.x, position.y, position.z],
+                velocity: [state.velocity.x, state.velocity.y, state.velocity.z]
+            })
         }
         
         // Add debug log occasionally
         if (Math.random() < 0.01) {
-            console.log(`[JACKALOPE] Pos: (${position.current.x.toFixed(2)}, ${position.current.y.toFixed(2)}, ${position.current.z.toFixed(2)}) | Vel: (${velocity.current.x.toFixed(2)}, ${velocity.current.y.toFixed(2)}, ${velocity.current.z.toFixed(2)}) | Anim: ${animation}`)
+            console.log(`[JACKALOPE] Pos: (${position.x.toFixed(2)}, ${position.y.toFixed(2)}, ${position.z.toFixed(2)}) | Vel: (${state.velocity.x.toFixed(2)}, ${state.velocity.y.toFixed(2)}, ${state.velocity.z.toFixed(2)}) | Anim: ${animation}`)
         }
     })
     
@@ -283,7 +227,8 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
     useImperativeHandle(ref, () => ({
         ...jackalopeRef.current,
         getPosition: () => {
-            return position.current.clone()
+            const { x, y, z } = movement.current.position
+            return new THREE.Vector3(x, y, z)
         },
         getRotation: () => {
             return new THREE.Quaternion().setFromEuler(
@@ -292,6 +237,20 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
         }
     }))
     
+    // Input acks are reconciled at the start of the next frame
+    useEffect(() => {
+        if (!connectionManager) return
+        
+        const handleInputAck = (ack: InputAck) => {
+            pendingAck.current = ack
+        }
+        
+        connectionManager.on('input_ack', handleInputAck)
+        return () => {
+            connectionManager.off('input_ack', handleInputAck)
+        }
+    }, [connectionManager])
+    
     return (
         <>
             {/* Physics body - for collision only */}
@@ -303,6 +262,7 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
                         mass={1}
                         type="kinematicPosition"
                         enabledRotations={[false, false, false]}
+                        userData={LOCAL_HITBOX}
                     >
                         <object3D name="jackalope" />
                         <CapsuleCollider args={[1.0, 0.5]} position={[0, -0.28, 0]} />
@@ -0,0 +1,36 @@
+// The arena's static collision geometry: the ground, the walls around it and
+// the platform boxes. The scene (Ground in App.tsx, Platforms) builds its
+// colliders from these, and so does a peer-hosted game's physics world
+// (network/GameHost.ts), so both agree on where players can go.
+
+export type LevelBox = {
+    position: [number, number, number]
+    halfExtents: [number, number, number]
+}
+
+// Players walk on y = 0 inside +-ARENA_HALF_SIZE on x and z
+export const ARENA_HALF_SIZE = 25
+
+// Where players start (and where anyone found out of bounds is put back)
+export const SPAWN_POSITION: [number, number, number] = [0, 7, 10]
+
+export const GROUND_COLLIDERS: LevelBox[] = [
+    { position: [0, -0.1, 0], halfExtents: [ARENA_HALF_SIZE, 0.1, ARENA_HALF_SIZE] },
+    { position: [ARENA_HALF_SIZE, 2, 0], halfExtents: [1, 2, ARENA_HALF_SIZE] },
+    { position: [-ARENA_HALF_SIZE, 2, 0], halfExtents: [1, 2, ARENA_HALF_SIZE] },
+    { position: [0, 2, ARENA_HALF_SIZE], halfExtents: [ARENA_HALF_SIZE, 2, 1] },
+    { position: [0, 2, -ARENA_HALF_SIZE], halfExtents: [ARENA_HALF_SIZE, 2, 1] },
+]
+
+// 4x4x4 boxes resting half sunk into the ground
+export const PLATFORM_BOXES: LevelBox[] = [
+    { position: [5, 0, -5], halfExtents: [2, 2, 2] },
+    { position: [-5, 0, -5], halfExtents: [2, 2, 2] },
+    { position: [15, 0, 5], halfExtents: [2, 2, 2] },
+    { position: [-15, 0, 5], halfExtents: [2, 2, 2] },
+    { position: [0, 0, 15], halfExtents: [2, 2, 2] },
+    { position: [10, 0, -15], halfExtents: [2, 2, 2] },
+    { position: [-10, 0, -15], halfExtents: [2, 2, 2] },
+]
+
+export const LEVEL_COLLIDERS: LevelBox[] = [...GROUND_COLLIDERS, ...PLATFORM_BOXES]
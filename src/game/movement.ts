@@ -0,0 +1,220 @@
+import * as THREE from 'three'
+import { GamepadState } from '../common/hooks/use-gamepad'
+
+// Movement for the local Merc and Jackalope, written as plain functions of
+// (state, input) so the same code drives live play and the replay of
+// unacknowledged inputs after a server correction (see network/prediction.ts).
+
+// What the player asked for on one step
+export type MovementInput = {
+    // -1..1, right and forward
+    moveX: number
+    moveZ: number
+    jump: boolean
+    sprint: boolean
+    // Camera look direction: yaw is atan2(dir.x, dir.z), pitch is asin(dir.y)
+    yaw: number
+    pitch: number
+}
+
+export type MovementVector = { x: number; y: number; z: number }
+
+export type MovementState = {
+    position: MovementVector
+    // For the Merc x/z are the smoothed horizontal velocity and y the jump velocity
+    velocity: MovementVector
+    grounded: boolean
+    jumping: boolean
+    holdingJump: boolean
+}
+
+// Moves the character's collider from `from` by `desired` as far as the world
+// allows, i.e. KinematicCharacterController.computeColliderMovement
+export type CollideFn = (
+    from: MovementVector,
+    desired: MovementVector,
+) => { movement: MovementVector; grounded: boolean }
+
+export type KeyControls = {
+    forward: boolean
+    backward: boolean
+    left: boolean
+    right: boolean
+    sprint: boolean
+    jump: boolean
+}
+
+// Merc. Mercs move once per physics step, and App.tsx steps Rapier at 240 Hz.
+export const MERC_STEPS_PER_SECOND = 240
+const accelerationTimeAirborne = 0.5
+const accelerationTimeGrounded = 0.15
+const timeToJumpApex = 2.5
+const maxJumpHeight = 1.2
+const minJumpHeight = 0.7
+const velocityXZSmoothing = 0.25
+const velocityXZMin = 0.001
+const jumpGravity = -(2 * maxJumpHeight) / Math.pow(timeToJumpApex, 2)
+const maxJumpVelocity = Math.abs(jumpGravity) * timeToJumpApex
+const minJumpVelocity = Math.sqrt(2 * Math.abs(jumpGravity) * minJumpHeight)
+
+// Jackalope
+export const BASE_SPEED = 6.8 // Doubled from 3.4 to make jackalope 2x faster
+export const RUN_MULTIPLIER = 1.8
+const JUMP_MULTIPLIER = 9.0
+const GRAVITY_REDUCTION = 0.9 // Adjusted from 0.7 to 0.9 for quicker falling
+const MAX_FALL_SPEED = 25
+
+export type MercMovementParams = {
+    walkSpeed: number
+    runSpeed: number
+    jumpForce: number
+}
+
+export type JackalopeMovementParams = {
+    jumpForce: number
+}
+
+const _direction = new THREE.Vector3()
+const _cameraDirection = new THREE.Vector3()
+
+export const createMovementState = (position: MovementVector = { x: 0, y: 0, z: 0 }): MovementState => ({
+    position: { ...position },
+    velocity: { x: 0, y: 0, z: 0 },
+    grounded: false,
+    jumping: false,
+    holdingJump: false,
+})
+
+export const cloneMovementState = (state: MovementState): MovementState => ({
+    ...state,
+    position: { ...state.position },
+    velocity: { ...state.velocity },
+})
+
+// Combine keyboard, gamepad and camera into one step's input
+export const readMovementInput = (keys: KeyControls, gamepad: GamepadState, camera: THREE.Camera): MovementInput => {
+    const forward = keys.forward || gamepad.leftStick.y < 0
+    const backward = keys.backward || gamepad.leftStick.y > 0
+    const left = keys.left || gamepad.leftStick.x < 0
+    const right = keys.right || gamepad.leftStick.x > 0
+
+    const direction = camera.getWorldDirection(_cameraDirection)
+
+    return {
+        moveX: Number(right) - Number(left),
+        moveZ: Number(forward) - Number(backward),
+        jump: keys.jump || gamepad.buttons.jump,
+        sprint: keys.sprint || gamepad.buttons.leftStickPress,
+        yaw: Math.atan2(direction.x, direction.z),
+        pitch: Math.asin(THREE.MathUtils.clamp(direction.y, -1, 1)),
+    }
+}
+
+export const hasMoveInput = (input: MovementInput) => input.moveX !== 0 || input.moveZ !== 0
+
+// Unit length direction the input asks to move in, relative to the camera yaw
+export const getMoveDirection = (input: MovementInput, out: THREE.Vector3): THREE.Vector3 => {
+    const length = Math.hypot(input.moveX, input.moveZ)
+    if (length === 0) {
+        return out.set(0, 0, 0)
+    }
+
+    const x = input.moveX / length
+    const z = input.moveZ / length
+    const sin = Math.sin(input.yaw)
+    const cos = Math.cos(input.yaw)
+
+    return out.set(z * sin - x * cos, 0, z * cos + x * sin)
+}
+
+const applyCollision = (state: MovementState, desired: MovementVector, collide: CollideFn) => {
+    const { movement, grounded } = collide(state.position, desired)
+
+    state.position.x += movement.x
+    state.position.y += movement.y
+    state.position.z += movement.z
+    state.grounded = grounded
+}
+
+// One physics step of Merc movement. Velocities are per step, not per second.
+export const stepMercMovement = (state: MovementState, input: MovementInput, params: MercMovementParams, collide: CollideFn) => {
+    const speed = input.sprint ? params.runSpeed : params.walkSpeed
+    const direction = getMoveDirection(input, _direction).multiplyScalar(speed)
+
+    const horizontalVelocitySmoothing = velocityXZSmoothing * (state.grounded ? accelerationTimeGrounded : accelerationTimeAirborne)
+    const horizontalVelocityLerpFactor = 1 - Math.pow(horizontalVelocitySmoothing, 0.116)
+    state.velocity.x = THREE.MathUtils.lerp(state.velocity.x, direction.x, horizontalVelocityLerpFactor)
+    state.velocity.z = THREE.MathUtils.lerp(state.velocity.z, direction.z, horizontalVelocityLerpFactor)
+
+    if (Math.abs(state.velocity.x) < velocityXZMin) {
+        state.velocity.x = 0
+    }
+    if (Math.abs(state.velocity.z) < velocityXZMin) {
+        state.velocity.z = 0
+    }
+
+    // jumping and gravity
+    if (input.jump && state.grounded) {
+        state.jumping = true
+        state.holdingJump = true
+        state.velocity.y = maxJumpVelocity * (params.jumpForce / 0.5) // Scale jump velocity based on jumpForce
+    }
+
+    if (!input.jump && state.grounded) {
+        state.jumping = false
+    }
+
+    // Letting go of jump early cuts the jump short
+    if (state.jumping && state.holdingJump && !input.jump && state.velocity.y > minJumpVelocity) {
+        state.velocity.y = minJumpVelocity
+    }
+
+    if (state.grounded && !input.jump) {
+        state.velocity.y = 0
+    } else {
+        state.velocity.y += jumpGravity * 0.1
+
+        // Cap the downward velocity to prevent too rapid falling
+        if (state.velocity.y < -maxJumpVelocity * 0.8) {
+            state.velocity.y = -maxJumpVelocity * 0.8
+        }
+    }
+
+    state.holdingJump = input.jump
+
+    applyCollision(state, state.velocity, collide)
+}
+
+// One frame of Jackalope movement, `dt` seconds long
+export const stepJackalopeMovement = (state: MovementState, input: MovementInput, dt: number, params: JackalopeMovementParams, collide: CollideFn) => {
+    if (hasMoveInput(input)) {
+        const speed = BASE_SPEED * (input.sprint ? RUN_MULTIPLIER : 1.0)
+        const direction = getMoveDirection(input, _direction)
+
+        state.velocity.x = direction.x * speed
+        state.velocity.z = direction.z * speed
+    } else {
+        // Slow down if no input
+        state.velocity.x *= 0.8
+        state.velocity.z *= 0.8
+
+        if (Math.abs(state.velocity.x) < 0.01) state.velocity.x = 0
+        if (Math.abs(state.velocity.z) < 0.01) state.velocity.z = 0
+    }
+
+    if (input.jump && state.grounded) {
+        state.velocity.y = params.jumpForce * JUMP_MULTIPLIER
+    }
+
+    if (!state.grounded) {
+        state.velocity.y = Math.max(-MAX_FALL_SPEED, state.velocity.y - 9.8 * dt * GRAVITY_REDUCTION)
+    } else if (state.velocity.y < 0) {
+        state.velocity.y = 0 // Stop falling if on ground
+    }
+
+    applyCollision(state, {
+        x: state.velocity.x * dt,
+        y: state.velocity.y * dt,
+        z: state.velocity.z * dt,
+    }, collide)
+}
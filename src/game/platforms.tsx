@@ -1,18 +1,7 @@
 import { RigidBody } from '@react-three/rapier'
 import * as THREE from 'three'
 import { useTexture } from '@react-three/drei'
-
-type BoxDimensions = [width: number, height: number, depth: number]
-
-const boxes = [
-    { position: [5, 0, -5] as const, size: [4, 4, 4] as BoxDimensions },
-    { position: [-5, 0, -5] as const, size: [4, 4, 4] as BoxDimensions },
-    { position: [15, 0, 5] as const, size: [4, 4, 4] as BoxDimensions },
-    { position: [-15, 0, 5] as const, size: [4, 4, 4] as BoxDimensions },
-    { position: [0, 0, 15] as const, size: [4, 4, 4] as BoxDimensions },
-    { position: [10, 0, -15] as const, size: [4, 4, 4] as BoxDimensions },
-    { position: [-10, 0, -15] as const, size: [4, 4, 4] as BoxDimensions }
-]
+import { PLATFORM_BOXES } from './level'
 
 export function Platforms() {
     const texture = useTexture('/final-texture.png')
@@ -24,7 +13,7 @@ export function Platforms() {
 
     return (
         <group>
-            {boxes.map(({ position, size }, index) => (
+            {PLATFORM_BOXES.map(({ position, halfExtents }, index) => (
                 <RigidBody 
                     key={index}
                     type="fixed" 
@@ -34,7 +23,7 @@ export function Platforms() {
                     restitution={0}
                 >
                     <mesh castShadow receiveShadow>
-                        <boxGeometry args={size} />
+                        <boxGeometry args={[halfExtents[0] * 2, halfExtents[1] * 2, halfExtents[2] * 2]} />
                         <meshStandardMaterial 
                             map={platformTexture}
                             side={THREE.DoubleSide}
@@ -14,13 +14,11 @@ import { useMultiplayer } from '../network/MultiplayerManager'
 import { MercModel } from './MercModel' // Import our new MercModel component
 import { JackalopeModel } from './JackalopeModel' // Import the JackalopeModel
 import { FpsArmsModelPath } from '../assets' // Import FPS arms model path
+import { CollideFn, KeyControls, createMovementState, hasMoveInput, readMovementInput, stepMercMovement } from './movement'
+import { InputPredictor } from '../network/prediction'
+import { InputAck } from '../network/protocol'
 
-const _direction = new THREE.Vector3()
-const _frontVector = new THREE.Vector3()
-const _sideVector = new THREE.Vector3()
 const _characterLinvel = new THREE.Vector3()
-const _characterTranslation = new THREE.Vector3()
-const _cameraWorldDirection = new THREE.Vector3()
 const _cameraPosition = new THREE.Vector3()
 
 const normalFov = 90
@@ -29,18 +27,6 @@ const sprintFov = 100
 const characterShapeOffset = 0.1
 const autoStepMaxHeight = 2
 const autoStepMinWidth = 0.05
-const accelerationTimeAirborne = 0.5
-const accelerationTimeGrounded = 0.15
-const timeToJumpApex = 2.5
-const maxJumpHeight = 1.2
-const minJumpHeight = 0.7
-const velocityXZSmoothing = 0.25
-const velocityXZMin = 0.001
-const jumpGravity = -(2 * maxJumpHeight) / Math.pow(timeToJumpApex, 2)
-const maxJumpVelocity = Math.abs(jumpGravity) * timeToJumpApex
-const minJumpVelocity = Math.sqrt(2 * Math.abs(jumpGravity) * minJumpHeight)
-
-const up = new THREE.Vector3(0, 1, 0)
 
 // Add these outside the component for rotation calculation
 const _playerDirection = new THREE.Vector3();
@@ -73,7 +59,6 @@ export const Player = forwardRef<EntityType, PlayerProps>(({ onMove, walkSpeed =
     // Get required hooks early to avoid linter errors
     const rapier = useRapier()
     const camera = useThree((state) => state.camera)
-    const clock = useThree((state) => state.clock)
     
     // Debug log for FPS arms model loading
     useEffect(() => {
@@ -101,12 +86,11 @@ export const Player = forwardRef<EntityType, PlayerProps>(({ onMove, walkSpeed =
         }
     }, [gltf.scene, actions]);
     
-    // For client-side prediction
+    // For client-side prediction: inputs the server hasn't acked yet, and the
+    // newest ack, applied at the start of the next physics step
     const lastStateTime = useRef(0)
-    const pendingReconciliation = useRef(false)
-    const reconciliationStrength = useRef(0.3) // Default reconciliation strength
-    const serverPosition = useRef(new THREE.Vector3())
-    const movementIntent = useRef({ forward: false, backward: false, left: false, right: false, jump: false, sprint: false })
+    const predictor = useRef(new InputPredictor())
+    const pendingAck = useRef<InputAck | null>(null)
     
     // Add a ref for the player's rotation (for the third-person camera)
     const playerRotation = useRef(new THREE.Quaternion())
@@ -410,11 +394,7 @@ export const Player = forwardRef<EntityType, PlayerProps>(({ onMove, walkSpeed =
     const [, getKeyboardControls] = useKeyboardControls()
     const gamepadState = useGamepad()
 
-    const horizontalVelocity = useRef({ x: 0, z: 0 })
-    const jumpVelocity = useRef(0)
-    const holdingJump = useRef(false)
-    const jumpTime = useRef(0)
-    const jumping = useRef(false)
+    const movement = useRef(createMovementState())
 
     // Animation states
     const [isWalking, setIsWalking] = useState(false)
@@ -479,147 +459,76 @@ export const Player = forwardRef<EntityType, PlayerProps>(({ onMove, walkSpeed =
         return () => window.removeEventListener('pointerdown', handleShoot)
     }, [actions])
 
-    useBeforePhysicsStep(() => {
+    useBeforePhysicsStep((world) => {
         const characterRigidBody = playerRef.current.rigidBody
 
         if (!characterRigidBody) return
 
         const characterCollider = characterRigidBody.collider(0)
+        const params = { walkSpeed, runSpeed, jumpForce }
 
-        const { forward, backward, left, right, jump, sprint } = getKeyboardControls() as KeyControls
-        
-        // Combine keyboard and gamepad input
-        const moveForward = forward || (gamepadState.leftStick.y < 0)
-        const moveBackward = backward || (gamepadState.leftStick.y > 0)
-        const moveLeft = left || (gamepadState.leftStick.x < 0)
-        const moveRight = right || (gamepadState.leftStick.x > 0)
-        const isJumping = jump || gamepadState.buttons.jump
-        const isSprinting = sprint || gamepadState.buttons.leftStickPress
+        const collide: CollideFn = (_from, desired) => {
+            characterController.current.computeColliderMovement(characterCollider, desired)
+            return {
+                movement: characterController.current.computedMovement(),
+                grounded: characterController.current.computedGrounded(),
+            }
+        }
 
-        // Store movement intent for prediction/reconciliation
-        movementIntent.current = {
-            forward: moveForward,
-            backward: moveBackward,
-            left: moveLeft, 
-            right: moveRight,
-            jump: isJumping,
-            sprint: isSprinting
+        // Replayed inputs start from the replayed state, not from where the body is
+        const collideFrom: CollideFn = (from, desired) => {
+            characterRigidBody.setTranslation(from, false)
+            world.propagateModifiedBodyPositionsToColliders()
+            return collide(from, desired)
         }
 
-        const speed = walkSpeed * (isSprinting ? runSpeed / walkSpeed : 1)
-        
+        // If the server disagreed with our prediction, rewind to its state and
+        // replay the inputs it hasn't processed yet
+        const ack = pendingAck.current
+        pendingAck.current = null
+        if (ack) {
+            const correction = predictor.current.reconcile(ack, (state, input) => stepMercMovement(state, input, params, collideFrom))
+            if (correction) {
+                movement.current = correction.state
+                characterRigidBody.setTranslation(correction.state.position, false)
+                world.propagateModifiedBodyPositionsToColliders()
+                connectionManager?.recordCorrection(correction)
+            }
+        }
+
+        const input = readMovementInput(getKeyboardControls() as KeyControls, gamepadState, camera)
+        const state = movement.current
+
         // Update movement state for animations with velocity threshold
-        const isMoving = moveForward || moveBackward || moveLeft || moveRight
+        const isMoving = hasMoveInput(input)
         
         // Add a velocity-based check to make sure we're actually moving
         // This prevents animation flicker when keys are released
         const velocity = Math.sqrt(
-            Math.pow(horizontalVelocity.current.x, 2) + 
-            Math.pow(horizontalVelocity.current.z, 2)
+            Math.pow(state.velocity.x, 2) + 
+            Math.pow(state.velocity.z, 2)
         )
         
         // Simplified animation states based directly on input and velocity
         if (isMoving && velocity > 0.02) {
-            setIsWalking(true && !isSprinting)
-            setIsRunning(true && isSprinting)
+            setIsWalking(!input.sprint)
+            setIsRunning(input.sprint)
         } else if (velocity < 0.01) {
             // Reset to idle state when truly stopped
             setIsWalking(false) 
             setIsRunning(false)
         }
 
-        const grounded = characterController.current.computedGrounded()
-
-        // x and z movement - align calculation with Jackalope
-        _frontVector.set(0, 0, Number(moveForward) - Number(moveBackward))
-        _sideVector.set(Number(moveRight) - Number(moveLeft), 0, 0)
-
-        const cameraWorldDirection = camera.getWorldDirection(_cameraWorldDirection)
-        const cameraYaw = Math.atan2(cameraWorldDirection.x, cameraWorldDirection.z)
-
-        // Modified to match Jackalope implementation
-        _direction.subVectors(_frontVector, _sideVector).normalize().multiplyScalar(speed)
-        _direction.applyAxisAngle(up, cameraYaw)
-
-        const horizontalVelocitySmoothing = velocityXZSmoothing * (grounded ? accelerationTimeGrounded : accelerationTimeAirborne)
-        const horizontalVelocityLerpFactor = 1 - Math.pow(horizontalVelocitySmoothing, 0.116)
-        horizontalVelocity.current = {
-            x: THREE.MathUtils.lerp(horizontalVelocity.current.x, _direction.x, horizontalVelocityLerpFactor),
-            z: THREE.MathUtils.lerp(horizontalVelocity.current.z, _direction.z, horizontalVelocityLerpFactor),
-        }
-
-        if (Math.abs(horizontalVelocity.current.x) < velocityXZMin) {
-            horizontalVelocity.current.x = 0
-        }
-        if (Math.abs(horizontalVelocity.current.z) < velocityXZMin) {
-            horizontalVelocity.current.z = 0
-        }
-
-        // jumping and gravity
-        if (isJumping && grounded) {
-            jumping.current = true
-            holdingJump.current = true
-            jumpTime.current = clock.elapsedTime
-            jumpVelocity.current = maxJumpVelocity * (jumpForce / 0.5) // Scale jump velocity based on jumpForce
-        }
-
-        if (!isJumping && grounded) {
-            jumping.current = false
-        }
-
-        if (jumping.current && holdingJump.current && !isJumping) {
-            if (jumpVelocity.current > minJumpVelocity) {
-                jumpVelocity.current = minJumpVelocity
-            }
-        }
-
-        // Always apply gravity more consistently to prevent ceiling bouncing
-        if (grounded && !isJumping) {
-            jumpVelocity.current = 0
-        } else {
-            // Apply gravity with a smoother curve and cap the negative velocity
-            jumpVelocity.current += jumpGravity * 0.1
-            
-            // Cap the downward velocity to prevent too rapid falling
-            if (jumpVelocity.current < -maxJumpVelocity * 0.8) {
-                jumpVelocity.current = -maxJumpVelocity * 0.8;
-            }
-        }
-
-        holdingJump.current = isJumping
-
-        // compute movement direction
-        const movementDirection = {
-            x: horizontalVelocity.current.x,
-            y: jumpVelocity.current,
-            z: horizontalVelocity.current.z,
-        }
-
-        // compute collider movement and update rigid body
-        characterController.current.computeColliderMovement(characterCollider, movementDirection)
-
+        // Start from wherever the body actually is (spawns move it directly)
         const translation = characterRigidBody.translation()
-        const newPosition = _characterTranslation.copy(translation as THREE.Vector3)
-        const movement = characterController.current.computedMovement()
-        newPosition.add(movement)
+        state.position = { x: translation.x, y: translation.y, z: translation.z }
+        stepMercMovement(state, input, params, collide)
 
-        // If we need to reconcile with server position
-        if (pendingReconciliation.current) {
-            // Blend between our predicted position and server position with appropriate strength
-            newPosition.lerp(serverPosition.current, reconciliationStrength.current)
-            
-            // Debug output
-            if (reconciliationStrength.current > 0.1) {
-                console.log(`Applied reconciliation with strength ${reconciliationStrength.current.toFixed(2)}`);
-                console.log(`New position: (${newPosition.x.toFixed(2)}, ${newPosition.y.toFixed(2)}, ${newPosition.z.toFixed(2)})`);
-            }
-            
-            // Reset flags - reconciliation applied
-            pendingReconciliation.current = false;
-            reconciliationStrength.current = 0.3; // Reset to default
+        if (connectionManager && connectionManager.isReadyToSend()) {
+            predictor.current.record(connectionManager.queueInput(input, world.timestep), state)
         }
 
-        characterRigidBody.setNextKinematicTranslation(newPosition)
+        characterRigidBody.setNextKinematicTranslation(state.position)
     })
 
     // Call this in useFrame to ensure frequent checks
@@ -638,8 +547,8 @@ export const Player = forwardRef<EntityType, PlayerProps>(({ onMove, walkSpeed =
 
         // Calculate velocity magnitude for better animation state detection
         const velocityMagnitude = Math.sqrt(
-            Math.pow(horizontalVelocity.current.x, 2) + 
-            Math.pow(horizontalVelocity.current.z, 2)
+            Math.pow(movement.current.velocity.x, 2) + 
+            Math.pow(movement.current.velocity.z, 2)
         );
         
         // Log velocity occasionally for debugging
@@ -726,6 +635,12 @@ export const Player = forwardRef<EntityType, PlayerProps>(({ onMove, walkSpeed =
                 sequence: Date.now(),
                 playerType: playerType // Use the playerType prop when sending updates
             });
+
+            const { position: predicted, velocity: predictedVelocity } = movement.current
+            connectionManager.sendInputs({
+                position: [predicted.x, predicted.y, predicted.z],
+                velocity: [predictedVelocity.x, predictedVelocity.y, predictedVelocity.z],
+            });
         }
 
         // Update player model position with smoothing
@@ -810,64 +725,19 @@ export const Player = forwardRef<EntityType, PlayerProps>(({ onMove, walkSpeed =
         }
     }, [isWalking, isRunning, actions])
 
-    // Set up reconciliation handler if connection manager is provided
+    // Input acks are reconciled in the next physics step, not in the middle of one
     useEffect(() => {
-        if (connectionManager) {
-            // Listen for server state updates to reconcile
-            const handleServerState = (state: any) => {
-                // Check if we need to apply corrections
-                if (state.serverCorrection || (state.positionError && state.positionError > 0.25)) {
-                    console.log(`Applying server correction - Error: ${state.positionError?.toFixed(3) || 'unknown'}`);
-                
-                    // We got an authoritative update from server
-                    serverPosition.current.set(
-                        state.position[0],
-                        state.position[1],
-                        state.position[2]
-                    );
-                    
-                    // Calculate correction strength based on error magnitude
-                    const correctionStrength = Math.min(0.8, Math.max(0.1, 
-                        state.positionError ? state.positionError * 0.2 : 0.3
-                    ));
-                    
-                    console.log(`Correction strength: ${correctionStrength.toFixed(2)}`);
-                    
-                    // Apply with appropriate strength
-                    if (pendingReconciliation.current) {
-                        // Already waiting for a correction, make this one stronger
-                        pendingReconciliation.current = true;
-                        reconciliationStrength.current = Math.max(reconciliationStrength.current, correctionStrength);
-                    } else {
-                        // First correction for this update
-                        pendingReconciliation.current = true;
-                        reconciliationStrength.current = correctionStrength;
-                    }
-                } else if (state.position) {
-                    // No major correction needed, but store server position anyway
-                    // for smaller corrections
-                    serverPosition.current.set(
-                        state.position[0],
-                        state.position[1],
-                        state.position[2]
-                    );
-                    
-                    // Small correction (less than threshold)
-                    if (state.positionError && state.positionError > 0.05) {
-                        // Use a gentler correction for small errors
-                        pendingReconciliation.current = true;
-                        reconciliationStrength.current = 0.05;
-                    }
-                }
-            };
-            
-            connectionManager.on('server_state_update', handleServerState);
-            
-            return () => {
-                connectionManager.off('server_state_update', handleServerState);
-            };
+        if (!connectionManager) return
+
+        const handleInputAck = (ack: InputAck) => {
+            pendingAck.current = ack
         }
-    }, [connectionManager]);
+
+        connectionManager.on('input_ack', handleInputAck)
+        return () => {
+            connectionManager.off('input_ack', handleInputAck)
+        }
+    }, [connectionManager])
 
     // Add getRotationQuaternion method to the player's ref
     useImperativeHandle(ref, () => ({
@@ -1015,15 +885,6 @@ export const Player = forwardRef<EntityType, PlayerProps>(({ onMove, walkSpeed =
     )
 })
 
-type KeyControls = {
-    forward: boolean
-    backward: boolean
-    left: boolean
-    right: boolean
-    sprint: boolean
-    jump: boolean
-}
-
 const controls = [
     { name: 'forward', keys: ['ArrowUp', 'w', 'W'] },
     { name: 'backward', keys: ['ArrowDown', 's', 'S'] },
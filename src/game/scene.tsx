@@ -0,0 +1,65 @@
+import { CuboidCollider, RigidBody } from '@react-three/rapier'
+import { MeshReflectorMaterial, useTexture } from '@react-three/drei'
+import * as THREE from 'three'
+import { GROUND_COLLIDERS } from './level'
+
+// The arena: ground and border walls, with the colliders from level.ts
+export const Scene = ({ playerRef }: { playerRef: React.RefObject<any> }) => {
+    const texture = useTexture('/final-texture.png')
+    texture.wrapS = texture.wrapT = THREE.RepeatWrapping
+    
+    // Ground texture (50x50)
+    const groundTexture = texture.clone()
+    groundTexture.wrapS = groundTexture.wrapT = THREE.RepeatWrapping
+    groundTexture.repeat.set(12, 12) // 12 repeats to match ground size
+    
+    // Side walls texture (2x4)
+    const sideWallTexture = texture.clone()
+    sideWallTexture.wrapS = sideWallTexture.wrapT = THREE.RepeatWrapping
+    sideWallTexture.repeat.set(12, 1) // 12 repeats horizontally to match wall length
+    
+    // Front/back walls texture (50x4)
+    const frontWallTexture = texture.clone()
+    frontWallTexture.wrapS = frontWallTexture.wrapT = THREE.RepeatWrapping
+    frontWallTexture.repeat.set(12, 1) // 12 repeats horizontally to match wall width
+
+    return (
+        <RigidBody type="fixed" position={[0, 0, 0]} colliders={false}>
+            {/* Ground and wall colliders */}
+            {GROUND_COLLIDERS.map(({ position, halfExtents }, index) => (
+                <CuboidCollider key={index} position={position} args={halfExtents} />
+            ))}
+            
+            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, 0]} receiveShadow>
+                <planeGeometry args={[50, 50]} />
+                <MeshReflectorMaterial
+                    map={groundTexture}
+                    mirror={0}
+                    roughness={1}
+                    depthScale={0}
+                    minDepthThreshold={0.9}
+                    maxDepthThreshold={1}
+                    metalness={0}
+                />
+            </mesh>
+            
+            {/* Border walls */}
+            <mesh position={[25, 2, 0]} castShadow receiveShadow>
+                <boxGeometry args={[2, 4, 50]} />
+                <meshStandardMaterial map={sideWallTexture} side={THREE.DoubleSide} />
+            </mesh>
+            <mesh position={[-25, 2, 0]} castShadow receiveShadow>
+                <boxGeometry args={[2, 4, 50]} />
+                <meshStandardMaterial map={sideWallTexture} side={THREE.DoubleSide} />
+            </mesh>
+            <mesh position={[0, 2, 25]} castShadow receiveShadow>
+                <boxGeometry args={[50, 4, 2]} />
+                <meshStandardMaterial map={frontWallTexture} side={THREE.DoubleSide} />
+            </mesh>
+            <mesh position={[0, 2, -25]} castShadow receiveShadow>
+                <boxGeometry args={[50, 4, 2]} />
+                <meshStandardMaterial map={frontWallTexture} side={THREE.DoubleSide} />
+            </mesh>
+        </RigidBody>
+    )
+}
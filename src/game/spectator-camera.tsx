@@ -0,0 +1,133 @@
+import { useFrame, useThree } from '@react-three/fiber'
+import { useEffect, useRef } from 'react'
+import * as THREE from 'three'
+import { ConnectionManager } from '../network/ConnectionManager'
+import { yawFromQuat } from '../network/interest'
+import { LOOK_SENSITIVITY, MAX_PITCH, useDragLook } from './drag-look'
+import { FreeCamera } from './free-camera'
+
+// Cameras for spectators: fly about freely, or follow one player, either
+// through their eyes or from behind the way ThirdPersonCameraControls follows
+// the local player. Dragging looks around in every mode.
+
+export type SpectatorCameraMode = 'free' | 'first_person' | 'third_person'
+
+type SpectatorCameraProps = {
+    connectionManager: ConnectionManager
+    mode: SpectatorCameraMode
+    // Who to follow; the free camera ignores it
+    targetId: string | null
+    // How far behind and above the player the third person camera sits
+    distance?: number
+    height?: number
+}
+
+// Above a player's position, where Player puts its camera. The jackalope
+// only has a third person camera, so that's a guess from its model.
+const EYE_HEIGHT = { merc: 1, jackalope: 0.3 }
+
+// Mercs' bodies never turn, so we go by which way they move, once they move
+// faster than this (units per second)
+const MIN_HEADING_SPEED = 0.5
+
+const _position = new THREE.Vector3()
+const _cameraPosition = new THREE.Vector3()
+
+export function SpectatorCamera({ connectionManager, mode, targetId, distance = 5, height = 2.5 }: SpectatorCameraProps) {
+    const following = mode !== 'free' && targetId !== null
+
+    return (
+        <>
+            <FreeCamera enabled={!following} />
+            {following && (
+                <FollowCamera
+                    connectionManager={connectionManager}
+                    targetId={targetId}
+                    firstPerson={mode === 'first_person'}
+                    distance={distance}
+                    height={height}
+                />
+            )}
+        </>
+    )
+}
+
+function FollowCamera({ connectionManager, targetId, firstPerson, distance, height }: {
+    connectionManager: ConnectionManager
+    targetId: string
+    firstPerson: boolean
+    distance: number
+    height: number
+}) {
+    const { camera } = useThree()
+    const target = useRef(new THREE.Vector3())
+    const lastPosition = useRef<THREE.Vector3 | null>(null)
+    // Which way the player faces, and that eased so the camera doesn't snap round
+    const heading = useRef(0)
+    const easedHeading = useRef<number | null>(null)
+    // Dragged away from the player's view
+    const look = useRef({ yaw: 0, pitch: 0 })
+    const euler = useRef(new THREE.Euler(0, 0, 0, 'YXZ'))
+
+    // Someone new: cut to them, looking their way
+    useEffect(() => {
+        lastPosition.current = null
+        easedHeading.current = null
+        look.current = { yaw: 0, pitch: 0 }
+    }, [targetId])
+
+    useDragLook(true, (dx, dy) => {
+        look.current.yaw -= dx * LOOK_SENSITIVITY
+        look.current.pitch = THREE.MathUtils.clamp(look.current.pitch - dy * LOOK_SENSITIVITY, -MAX_PITCH, MAX_PITCH)
+    })
+
+    useFrame((_, delta) => {
+        const sample = connectionManager.sampleRemotePlayer(targetId)
+        if (!sample) return
+        const position = _position.set(...sample.position)
+
+        const turned = 1 - Math.abs(sample.rotation[3]) > 1e-4
+        if (turned) {
+            heading.current = yawFromQuat(sample.rotation)
+        } else if (lastPosition.current && delta > 0) {
+            const dx = position.x - lastPosition.current.x
+            const dz = position.z - lastPosition.current.z
+            if (Math.hypot(dx, dz) / delta > MIN_HEADING_SPEED) {
+                heading.current = Math.atan2(-dx, -dz)
+            }
+        }
+
+        const cut = lastPosition.current === null
+        if (cut) {
+            lastPosition.current = new THREE.Vector3()
+            target.current.copy(position)
+        }
+        lastPosition.current!.copy(position)
+
+        let eased = easedHeading.current ?? heading.current
+        const turn = heading.current - eased
+        eased += Math.atan2(Math.sin(turn), Math.cos(turn)) * Math.min(1, delta * 5)
+        easedHeading.current = eased
+        const yaw = eased + look.current.yaw
+
+        if (firstPerson) {
+            const playerType = connectionManager.getRemotePlayers()[targetId]?.playerType ?? 'merc'
+            camera.position.set(position.x, position.y + EYE_HEIGHT[playerType], position.z)
+            euler.current.set(look.current.pitch, yaw, 0)
+            camera.quaternion.setFromEuler(euler.current)
+            return
+        }
+
+        // Behind the player, raised by looking down
+        target.current.lerp(position, cut ? 1 : Math.min(delta * 8, 0.5))
+        _cameraPosition.set(
+            Math.sin(yaw) * distance,
+            height - Math.sin(look.current.pitch) * distance,
+            Math.cos(yaw) * distance
+        ).add(target.current)
+        camera.position.lerp(_cameraPosition, cut ? 1 : Math.min(delta * 8, 0.4))
+        camera.lookAt(target.current)
+    })
+
+    return null
+}
@@ -6,6 +6,8 @@ import * as THREE from 'three'
 import { useFrame } from '@react-three/fiber'
 import { Points, BufferGeometry, NormalBufferAttributes, Material } from 'three'
 import { Sphere as DreiSphere } from '@react-three/drei'
+import { PlayerHitboxData, isPlayerHitbox } from '../network/damage'
+import { FIRE_INTERVAL_MS, MAX_AMMO, RELOAD_MS } from './weapon'
 
 // Fire color palette
 const FIRE_COLORS = [
@@ -70,6 +72,14 @@ type SphereProps = {
     timestamp: number        // When the sphere was created
     isStuck?: boolean        // Added to track if the sphere is stuck to a surface
     physicsDisabled?: boolean // Flag to indicate if physics is disabled for optimization
+    shotId?: string          // Network shot ID - only set for our own shots, which are the ones we report hits for
+}
+
+// A fireball hitting a player hitbox
+export type FireballHit = {
+    shotId: string
+    target: PlayerHitboxData
+    point: [number, number, number]
 }
 
 // Type for remote player shots
@@ -386,7 +396,7 @@ const PooledLights = () => {
   );
 };
 
-const Sphere = ({ id, position, direction, color, radius, isStuck: initialIsStuck }: SphereProps) => {
+const Sphere = ({ id, position, direction, color, radius, isStuck: initialIsStuck, shotId, onHit }: SphereProps & { onHit?: (hit: FireballHit) => void }) => {
     const [stuck, setStuck] = useState(initialIsStuck || false)
     const [finalPosition, setFinalPosition] = useState<[number, number, number]>(position)
     const rigidBodyRef = useRef<RapierRigidBody>(null)
@@ -612,6 +622,12 @@ const Sphere = ({ id, position, direction, color, radius, isStuck: initialIsStuc
         const position = rigidBodyRef.current.translation()
         setFinalPosition([position.x, position.y, position.z])
         
+        // Report player hits - the server decides what they're worth
+        const userData = payload.other.rigidBody.userData
+        if (onHit && shotId && isPlayerHitbox(userData)) {
+            onHit({ shotId, target: userData, point: [position.x, position.y, position.z] })
+        }
+        
         // Stick to the surface by making it fixed
         rigidBodyRef.current.setBodyType(1, true) // 1 for Fixed, true to wake the body
         
@@ -779,17 +795,21 @@ const Flashlight = ({
 
 export const SphereTool = ({ 
     onShoot,
+    onHit,
     remoteShots = [],
     thirdPersonView = false,
-    playerPosition = null // Add optional player position for third-person shooting
+    playerPosition = null, // Add optional player position for third-person shooting
+    canShoot = true
 }: { 
-    onShoot?: (origin: [number, number, number], direction: [number, number, number]) => void,
+    onShoot?: (origin: [number, number, number], direction: [number, number, number]) => string | null | void,
+    onHit?: (hit: FireballHit) => void,
     remoteShots?: RemoteShot[],
     thirdPersonView?: boolean,
-    playerPosition?: THREE.Vector3 | null
+    playerPosition?: THREE.Vector3 | null,
+    // False to only show remote shots, e.g. in the replay viewer
+    canShoot?: boolean
 }) => {
     const sphereRadius = 0.15 // Slightly larger size for fireballs
-    const MAX_AMMO = 50
 
     const camera = useThree((s) => s.camera)
     const [spheres, setSpheres] = useState<SphereProps[]>([])
@@ -804,51 +824,26 @@ export const SphereTool = ({
     const lastCameraPosition = useRef<[number, number, number]>([0, 0, 0])
     const lastCameraDirection = useRef<[number, number, number]>([0, 0, 0])
     
-    // Keep track of processed remote shots to avoid duplicates
-    const processedRemoteShots = useRef<Set<string>>(new Set());
+    // How many of remoteShots we've turned into spheres. The list only grows,
+    // and each shot arrives in it exactly once.
+    const handledRemoteShots = useRef(0);
     
     // Process remote shots - ensure we use the exact direction from the shot data
     useEffect(() => {
-        if (!remoteShots || remoteShots.length === 0) return;
-        
-        // IMPORTANT: Create a Map to track shots by their ID before processing
-        // This ensures we only process each unique shot once
-        const shotMap = new Map<string, RemoteShot>();
-        
-        // First pass: organize shots by their unique ID
-        remoteShots.forEach(shot => {
-            // Use the player ID and original shotId if available, otherwise generate one
-            // This is more reliable than using position for deduplication
-            const shotId = shot.id && (shot as any).shotId 
-                ? `${shot.id}--${(shot as any).shotId}`
-                : `${shot.id}--${shot.origin.join(',')}-${Date.now()}`;
-            
-            // Check if this shot has already been processed
-            const isProcessed = processedRemoteShots.current.has(shotId);
-            console.log(`Shot ${shotId} already processed: ${isProcessed}`);
-            
-            // Only add unprocessed shots to our map (and avoid duplicates within the current batch)
-            if (!isProcessed && !shotMap.has(shotId)) {
-                shotMap.set(shotId, shot);
-                // Mark as processed immediately to prevent duplicates
-                processedRemoteShots.current.add(shotId);
-            }
-        });
-        
-        // No new shots to process
-        if (shotMap.size === 0) {
-            console.log('No new shots to process');
-            return;
+        if (!remoteShots || remoteShots.length < handledRemoteShots.current) {
+            handledRemoteShots.current = 0;
         }
+        if (!remoteShots || remoteShots.length === handledRemoteShots.current) return;
+        
+        const newShots = remoteShots.slice(handledRemoteShots.current);
+        handledRemoteShots.current = remoteShots.length;
         
-        console.log(`Processing ${shotMap.size} new remote shots`);
+        console.log(`Processing ${newShots.length} new remote shots`);
         
-        // Second pass: create spheres from the unique shots
         setSpheres(prev => {
             let newSpheres = [...prev];
             
-            // Process each unique shot
-            for (const [shotId, shot] of shotMap.entries()) {
+            for (const shot of newShots) {
                 console.log('Processing shot from player:', shot.id);
                 
                 // Add remote player's shot with fire color
@@ -882,15 +877,6 @@ export const SphereTool = ({
             console.log(`Updated spheres array, new length: ${newSpheres.length}`);
             return newSpheres;
         });
-        
-        // Limit the size of our processed shots set to avoid memory leaks - more aggressive cleanup
-        if (processedRemoteShots.current.size > 100) { // Increased from 50 for better tracking
-            const oldSize = processedRemoteShots.current.size;
-            processedRemoteShots.current = new Set(
-                Array.from(processedRemoteShots.current).slice(-50) // Keep the 50 most recent
-            );
-            console.log(`Trimmed processed shots set from ${oldSize} to ${processedRemoteShots.current.size}`);
-        }
     }, [remoteShots, sphereRadius]);
 
     // Helper function to remove old spheres if we exceed the limit for a player
@@ -950,7 +936,7 @@ export const SphereTool = ({
         setTimeout(() => {
             setAmmoCount(MAX_AMMO)
             setIsReloading(false)
-        }, 1000)
+        }, RELOAD_MS)
     }
 
     // Generate a local player ID if needed
@@ -1077,6 +1063,24 @@ export const SphereTool = ({
                 updatePlayerPositionForCulling(camera.position);
             }
             
+            // Notify multiplayer system of the shot first so the sphere knows its network shot ID
+            let shotId: string | undefined;
+            if (onShoot) {
+                console.log('Sending shot to multiplayer with onShoot handler:', {
+                    position: originArray,
+                    direction: directionArray
+                });
+                
+                try {
+                    shotId = onShoot(originArray, directionArray) || undefined;
+                    console.log('Shot successfully sent to multiplayer');
+                } catch (error) {
+                    console.error('Error sending shot to multiplayer:', error);
+                }
+            } else {
+                console.log('No onShoot handler available, shot will only be local');
+            }
+            
             // Always add the local sphere immediately
             setSpheres(prev => {
                 // Create the new sphere
@@ -1089,7 +1093,8 @@ export const SphereTool = ({
                     playerId: localPlayerId,
                     timestamp: Date.now(),
                     isStuck: false,
-                    physicsDisabled: false // Start with physics enabled
+                    physicsDisabled: false, // Start with physics enabled
+                    shotId
                 };
                 
                 // Add the new sphere
@@ -1100,23 +1105,6 @@ export const SphereTool = ({
                 
                 return newSpheres;
             });
-            
-            // Notify multiplayer system of the shot
-            if (onShoot) {
-                console.log('Sending shot to multiplayer with onShoot handler:', {
-                    position: originArray,
-                    direction: directionArray
-                });
-                
-                try {
-                    onShoot(originArray, directionArray);
-                    console.log('Shot successfully sent to multiplayer');
-                } catch (error) {
-                    console.error('Error sending shot to multiplayer:', error);
-                }
-            } else {
-                console.log('No onShoot handler available, shot will only be local');
-            }
         } catch (error) {
             console.error("Error in shootSphere:", error);
         }
@@ -1194,10 +1182,10 @@ export const SphereTool = ({
         shootCooldownRef.current = true;
         setTimeout(() => {
             shootCooldownRef.current = false;
-        }, 300);
+        }, FIRE_INTERVAL_MS);
         
         // Increase interval between shots significantly
-        shootingInterval.current = window.setInterval(shootSphere, 300) // Increased from 150 to 300ms
+        shootingInterval.current = window.setInterval(shootSphere, FIRE_INTERVAL_MS)
     }
 
     // Stop shooting handler
@@ -1212,6 +1200,8 @@ export const SphereTool = ({
     const shootCooldownRef = useRef(false);
 
     useEffect(() => {
+        if (!canShoot) return
+        
         window.addEventListener('pointerdown', startShooting)
         window.addEventListener('pointerup', stopShooting)
         
@@ -1228,7 +1218,7 @@ export const SphereTool = ({
             window.removeEventListener('pointerdown', startShooting)
             window.removeEventListener('pointerup', stopShooting)
         }
-    }, [camera, gamepadState.buttons.shoot])
+    }, [camera, gamepadState.buttons.shoot, canShoot])
 
     // Show ammo counter
     useEffect(() => {
@@ -1277,15 +1267,6 @@ export const SphereTool = ({
                 
                 return filteredSpheres;
             });
-            
-            // Also clean up processed shots to keep memory usage low
-            if (processedRemoteShots.current.size > 150) {
-                console.log(`Cleaning up processed shots. Before: ${processedRemoteShots.current.size}`);
-                processedRemoteShots.current = new Set(
-                    Array.from(processedRemoteShots.current).slice(-100) // Keep more recent shots
-                );
-                console.log(`After cleanup: ${processedRemoteShots.current.size}`);
-            }
         }, 1000); // Clean up every second
         
         return () => clearInterval(cleanup);
@@ -1396,7 +1377,7 @@ export const SphereTool = ({
             
             {/* Render all spheres */}
             {spheres.map((props) => (
-                <Sphere key={props.id} {...props} />
+                <Sphere key={props.id} {...props} onHit={onHit} />
             ))}
             
             {/* Light pool for projectiles */}
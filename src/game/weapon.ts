@@ -0,0 +1,11 @@
+// How the fireball weapon fires (sphere-tool.tsx). An authoritative host
+// holds players' shots to the same numbers (network/validation.ts).
+
+// Shots in a full magazine
+export const MAX_AMMO = 50
+
+// Time between shots while the trigger is held
+export const FIRE_INTERVAL_MS = 300
+
+// How long a reload takes
+export const RELOAD_MS = 1000
@@ -0,0 +1,166 @@
+// NTP-style estimate of the server clock, owned by ConnectionManager.
+//
+// Every ping carries our send time and the pong adds the server's time. With
+// the receive time that gives a round trip and an offset, assuming the trip
+// took as long each way. Slow round trips are the ones most likely to be
+// lopsided, so samples well above the typical round trip are thrown out and
+// the offset is taken from the fastest samples that are left, then smoothed.
+
+export interface ClockSyncOptions {
+  // How many recent samples to keep
+  windowSize: number;
+  // Samples needed before the estimate is trusted at all
+  minSamples: number;
+  // Round trips more than this many times the median are outliers...
+  outlierFactor: number;
+  // ...as long as they're also this much slower (so a 4ms -> 9ms wobble on LAN isn't)
+  outlierMinMs: number;
+  // How far the smoothed offset moves towards each new estimate (0-1)
+  smoothing: number;
+}
+
+export const DEFAULT_CLOCK_SYNC_OPTIONS: ClockSyncOptions = {
+  windowSize: 16,
+  minSamples: 4,
+  outlierFactor: 2,
+  outlierMinMs: 20,
+  smoothing: 0.2
+};
+
+// Uncertainty at which confidence drops to zero
+const MAX_UNCERTAINTY_MS = 250;
+
+interface ClockSample {
+  rtt: number;
+  offset: number;
+}
+
+export interface ClockSyncState {
+  // Add to local time to get server time
+  offset: number;
+  // Smoothed round trip time in ms
+  rtt: number;
+  // Roughly how far off the offset could be, in ms
+  uncertainty: number;
+  // 0 (no idea) to 1 (offset is good to a few ms)
+  confidence: number;
+  samples: number;
+  rejected: number;
+}
+
+export class ClockSync {
+  private samples: ClockSample[] = [];
+  private offset = 0;
+  private rtt = 0;
+  private uncertainty = MAX_UNCERTAINTY_MS;
+  private rejected = 0;
+  private outliersInARow = 0;
+  private options: ClockSyncOptions;
+
+  constructor(options: Partial<ClockSyncOptions> = {}) {
+    this.options = { ...DEFAULT_CLOCK_SYNC_OPTIONS, ...options };
+  }
+
+  // Record a ping/pong exchange. Returns false if it was rejected as an outlier.
+  addSample(sentAt: number, serverTime: number, receivedAt: number = Date.now()): boolean {
+    const rtt = receivedAt - sentAt;
+    if (!Number.isFinite(rtt) || rtt < 0 || !Number.isFinite(serverTime)) {
+      this.rejected++;
+      return false;
+    }
+
+    if (this.isOutlier(rtt)) {
+      this.outliersInARow++;
+      if (this.outliersInARow <= this.options.minSamples) {
+        this.rejected++;
+        return false;
+      }
+
+      // A run of slow samples means the network got slower, not that they're
+      // all outliers - start over from here
+      this.samples = [];
+    }
+    this.outliersInARow = 0;
+
+    const sample = { rtt, offset: serverTime - (sentAt + receivedAt) / 2 };
+    const first = this.samples.length === 0;
+    this.samples.push(sample);
+    if (this.samples.length > this.options.windowSize) {
+      this.samples.shift();
+    }
+
+    // The fastest quarter of the window has the least room for asymmetry
+    const best = [...this.samples]
+      .sort((a, b) => a.rtt - b.rtt)
+      .slice(0, Math.max(1, Math.floor(this.samples.length / 4)));
+    const estimate = best.reduce((sum, s) => sum + s.offset, 0) / best.length;
+    const spread = Math.max(...best.map(s => Math.abs(s.offset - estimate)));
+
+    if (first) {
+      this.offset = estimate;
+      this.rtt = rtt;
+    } else {
+      this.offset += (estimate - this.offset) * this.options.smoothing;
+      this.rtt += (rtt - this.rtt) * this.options.smoothing;
+    }
+    this.uncertainty = best[0].rtt / 2 + spread;
+
+    return true;
+  }
+
+  // Forget everything, e.g. after connecting to a different server
+  reset(): void {
+    this.samples = [];
+    this.offset = 0;
+    this.rtt = 0;
+    this.uncertainty = MAX_UNCERTAINTY_MS;
+    this.rejected = 0;
+    this.outliersInARow = 0;
+  }
+
+  getOffset(): number {
+    return this.offset;
+  }
+
+  getRtt(): number {
+    return this.rtt;
+  }
+
+  getConfidence(): number {
+    const filled = Math.min(1, this.samples.length / this.options.minSamples);
+    const precision = Math.max(0, 1 - this.uncertainty / MAX_UNCERTAINTY_MS);
+    return filled * precision;
+  }
+
+  // True once there are enough samples to go on
+  isSynced(): boolean {
+    return this.samples.length >= this.options.minSamples;
+  }
+
+  getServerTime(now: number = Date.now()): number {
+    return now + this.offset;
+  }
+
+  toLocalTime(serverTime: number): number {
+    return serverTime - this.offset;
+  }
+
+  getState(): ClockSyncState {
+    return {
+      offset: this.offset,
+      rtt: this.rtt,
+      uncertainty: this.uncertainty,
+      confidence: this.getConfidence(),
+      samples: this.samples.length,
+      rejected: this.rejected
+    };
+  }
+
+  private isOutlier(rtt: number): boolean {
+    if (this.samples.length < this.options.minSamples) return false;
+
+    const rtts = this.samples.map(s => s.rtt).sort((a, b) => a - b);
+    const median = rtts[Math.floor(rtts.length / 2)];
+    return rtt > median * this.options.outlierFactor && rtt - median > this.options.outlierMinMs;
+  }
+}
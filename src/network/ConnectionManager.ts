@@ -1,7 +1,47 @@
 import { EventEmitter } from 'events';
+import {
+  ChatChannel,
+  ClientMessage,
+  GameEventPayload,
+  GameSnapshot,
+  GameState,
+  HealthEvent,
+  InputCommand,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  PlayerState,
+  PlayerType,
+  ProtocolError,
+  RoundState,
+  ServerMessage,
+  SessionInfo,
+  TeamAssignment,
+  Quat,
+  Vec3,
+  decodeHealthEvent,
+  negotiateProtocolVersion,
+  parseServerMessage
+} from './protocol';
+import { BINARY_PLAYER_UPDATE_CAPABILITY, JsonEncoder, MessageEncoder, createEncoder } from './codec';
+import { MAX_HEALTH, RESPAWN_DELAY_MS, applyDamage, canBeDamaged } from './damage';
+import { SnapshotBuffer, SnapshotRetention } from './SnapshotBuffer';
+import { INITIAL_ROUND_STATE } from './rounds';
+import { CreateSessionOptions, DEFAULT_SESSION_KEY, RESUME_GRACE_MS, SessionRequest, normalizeSessionCode } from './sessions';
+import { ChatLine, ChatRateLimiter, ChatRejectReason, MAX_CHAT_LENGTH, normalizeChatMessage } from './chat';
+import { PlayerTimeouts, PresenceTracker } from './presence';
+import { ClockSync, ClockSyncState } from './ClockSync';
+import { Correction, ReconciliationMetrics, compressInputs } from './prediction';
+import { ExtrapolationLimit, InterpolatedTransform, JitterBuffer, JitterBufferStats } from './JitterBuffer';
+import { INTERPOLATION_DELAY_MS } from './lagCompensation';
+import { LINK_PRESETS, LinkConditioner, LinkConditions, LinkPreset, LinkStats } from './LinkConditioner';
+import { DEFAULT_TRANSPORTS, Transport, TransportFactories } from './transport';
+import { RELIABLE_EVENTS_CAPABILITY, ReliableReceiver, ReliableSender, ReliableStats } from './reliable';
+import { SendQueue, SendQueueStats } from './SendQueue';
+import { RecorderOptions, SessionRecorder, SessionRecording } from './recording';
+import { MovementInput } from '../game/movement';
 
 // Debug level enum
-enum LogLevel {
+export enum LogLevel {
   NONE = 0,
   ERROR = 1,
   WARN = 2,
@@ -10,34 +50,27 @@ enum LogLevel {
   VERBOSE = 5
 }
 
-type GameState = {
-  players: Record<string, {
-    position: [number, number, number];
-    rotation: [number, number, number, number];
-    health: number;
-    playerType: 'merc' | 'jackalope';
-  }>;
-};
+// Pings sent right after connecting, before settling into one every 2 seconds
+const CLOCK_SYNC_BURST = 4;
 
-// Game snapshot interface for state synchronization
-interface GameSnapshot {
-  timestamp: number;
-  sequence: number;
-  players: Record<string, PlayerSnapshot>;
-  events: any[];
-}
+// About four seconds of Merc physics steps
+const MAX_PENDING_INPUTS = 1024;
 
-interface PlayerSnapshot {
-  id: string;
-  position: [number, number, number];
-  rotation: [number, number, number, number];
-  velocity?: [number, number, number];
-  health: number;
-  playerType: 'merc' | 'jackalope';
-}
+// How long to listen for other offline tabs before settling on a team
+const PEER_DISCOVERY_MS = 300;
+
+// How often to look for unacked game events to resend, and how long to
+// collect received ones before acking them all at once
+const EVENT_RESEND_CHECK_MS = 50;
+const EVENT_ACK_DELAY_MS = 50;
 
 export class ConnectionManager extends EventEmitter {
-  private socket: WebSocket | null = null;
+  // Connection to the server, and offline the channel to our other tabs
+  private transport: Transport | null = null;
+  private offlineChannel: Transport | null = null;
+  // Offline tabs that were already playing when we opened the channel
+  private earlierPeers = new Set<string>();
+  private transports: TransportFactories;
   private playerId: string | null = null;
   private isConnected = false;
   private reconnectInterval: number = 1000;
@@ -45,77 +78,150 @@ export class ConnectionManager extends EventEmitter {
   private maxReconnectAttempts: number = 10;
   private gameState: GameState = { players: {} };
   private reconnectTimeout: number | null = null;
-  private keepAliveInterval: number | null = null;
+  private keepAliveInterval: ReturnType<typeof setInterval> | null = null;
   
   // Add latency tracking properties
-  private pingInterval: number | null = null;
+  private pingInterval: ReturnType<typeof setInterval> | null = null;
   private pingStartTime: number = 0;
   private latency: number = 100; // Start with a reasonable default
-  private useServerPong: boolean = false; // Start with client-side estimation for compatibility
+  private useServerPong: boolean = true; // Falls back to client-side estimation if the server never answers
   private pongReceived: boolean = false;
+  // Offset to the server's clock, from the timestamps in ping/pong
+  private clock = new ClockSync();
   private offlineMode: boolean = false; // Track if we're in offline mode
   private connectionFailed: boolean = false; // Track if connection failed after attempts
   
-  // Add test player properties
-  private _testPlayers: Record<string, number> = {};
+  // Wire protocol version agreed with the server (v1 until the server says otherwise)
+  private protocolVersion: number = MIN_PROTOCOL_VERSION;
+  
+  // Encoder used for outgoing messages. Starts as JSON and switches to binary
+  // player updates only if the server agrees to it during auth.
+  private encoder: MessageEncoder = new JsonEncoder();
+  private binaryEncodingEnabled: boolean = true;
   
-  // Reconciliation metrics for debugging
-  private _reconciliationMetrics = {
+  // Game events are numbered, acked and resent when the server supports it.
+  // Kept across a resumed connection, so nothing sent around a drop is lost.
+  private reliableEvents = false;
+  private eventSender = new ReliableSender<GameEventPayload>();
+  private eventReceiver = new ReliableReceiver<GameEventPayload>();
+  private eventResendInterval: ReturnType<typeof setInterval> | null = null;
+  private eventAckTimeout: ReturnType<typeof setTimeout> | null = null;
+  
+  // Movement inputs not sent yet, and the sequence number for the next one.
+  // Sequence numbers carry on across reconnects so acks are never ambiguous.
+  private pendingInputs: InputCommand[] = [];
+  private nextInputSeq = 1;
+  
+  // Corrections the player components have made after input acks
+  private reconciliationMetrics: ReconciliationMetrics = {
     totalCorrections: 0,
     averageError: 0,
     lastError: 0,
     lastCorrection: 0,
-    active: true
+    lastReplayed: 0
   };
 
   // Logging level control
   private logLevel: LogLevel = LogLevel.INFO; // Default to INFO level
   
-  // Add playerCount to track connection order - initialize to -1 to make first player index 0
-  private static playerCount = -1;
   private playerIndex = -1;
+  // Team and slot from the server. While we have one, playerIndex comes from it
+  // rather than our own balancing.
+  private teamAssignment: TeamAssignment | null = null;
   
   // For shot event tracking
   private lastShotEvents: Record<string, number> = {};
   
-  // For testing with simulated players
-  private testPlayerIntervals: Record<string, number> = {};
+  // Health of every known player (including us), kept in sync from server health events
+  private health: Record<string, number> = {};
+  // Hits we've already resolved while acting as the offline authority
+  private resolvedHits = new Set<string>();
+  // Shot, hit and damage events that arrived unnumbered, so we can drop them
+  // if the link or another tab delivers them twice
+  private seenShotEvents = new Set<string>();
+  
+  // Every snapshot we've sent or received, oldest first
+  private snapshots = new SnapshotBuffer();
+  
+  // Hunt mode match state from the server, and when its current phase ends on our clock
+  private roundState: RoundState = INITIAL_ROUND_STATE;
+  private roundPhaseEndsAt = 0;
+  
+  // Which session to join once authenticated. Null keeps us in the lobby.
+  private sessionRequest: SessionRequest | null = { kind: 'key', sessionKey: DEFAULT_SESSION_KEY };
+  private currentSession: SessionInfo | null = null;
+  // Watching the current session rather than playing in it
+  private spectating = false;
+  
+  // Lets us take our player back if the connection drops, as long as we're
+  // back within RESUME_GRACE_MS of droppedAt
+  private resumeToken: string | null = null;
+  private droppedAt: number | null = null;
+  // Auth already went out on this connection, so a late `welcome` doesn't
+  // send another and get us a second player
+  private authSent = false;
+  // The server has taken us on this connection. playerId outlives a drop so
+  // we can resume, so it can't tell us this.
+  private authenticated = false;
+  // Kept across reconnects so we come back under the same name
+  private playerName = `player-${Math.floor(Math.random() * 10000)}`;
+  
+  private chatLimiter = new ChatRateLimiter();
+  // Players whose chat we don't show
+  private mutedPlayers = new Set<string>();
+  
+  // When we last heard from each remote player, to time out frozen or crashed clients
+  private presence = new PresenceTracker();
+  private presenceInterval: ReturnType<typeof setInterval> | null = null;
+  
+  // Remote player transforms, buffered so they can be drawn smoothly despite jitter
+  private jitterBuffers = new Map<string, JitterBuffer>();
+  
+  // Simulated network conditions in each direction (development builds only)
+  private outgoingLink = new LinkConditioner<string | ArrayBuffer>(payload => this.transmit(payload));
+  private incomingLink = new LinkConditioner<string>(data => this.receive(data));
+  
+  // Outgoing messages wait here, by priority, while the link is backed up
+  private sendQueue = new SendQueue(
+    message => this.writeMessage(message),
+    () => (this.transport?.getBufferedAmount() ?? 0) + this.outgoingLink.getBacklogBytes()
+  );
   
   // Store player character type
-  private playerType: 'merc' | 'jackalope' = 'merc';
+  private playerType: PlayerType = 'merc';
+  
+  // Where the time comes from: the wall clock, or a replay's (see replay.ts)
+  private readonly timeSource: () => number;
   
-  constructor(private serverUrl: string = 'ws://localhost:8082') {
+  // Everything sent and received while a recording is running
+  private recorder: SessionRecorder | null = null;
+  
+  // Page lifecycle listeners, kept so dispose() can take them off again
+  private readonly leaveOnUnload = () => this.disconnect();
+  private readonly rejoinOnPageShow = (event: PageTransitionEvent) => {
+    // Back from the back/forward cache: the socket is gone, so rejoin
+    if (event.persisted && this.sessionRequest) {
+      this.connect();
+    }
+  };
+  
+  constructor(
+    private serverUrl: string = 'ws://localhost:8082',
+    transports: Partial<TransportFactories> = {},
+    timeSource: () => number = Date.now
+  ) {
     super();
+    this.transports = { ...DEFAULT_TRANSPORTS, ...transports };
+    this.timeSource = timeSource;
     
-    // Don't reset the static player count here - we'll use localStorage instead
-    // for cross-browser coordination
-    
-    // Set up a storage event listener to detect changes from other tabs
-    window.addEventListener('storage', (event) => {
-      if (event.key === 'jackalopes_player_count') {
-        console.error(`⭐ Detected player count change in another tab: ${event.oldValue} -> ${event.newValue}`);
-        
-        // Reset our playerIndex so we get a new assignment on next connection
-        if (this.playerIndex !== -1) {
-          this.playerIndex = -1;
-          console.error(`⭐ Reset local player index due to change in another tab`);
-        }
-      }
-    });
-    
-    // Listen for the custom reset event (fires in this tab)
-    window.addEventListener('jackalopes_playercount_reset', (e: any) => {
-      console.error('⭐ Detected player count reset in this tab');
-      
-      // Reset our player index
-      this.playerIndex = -1;
-      ConnectionManager.playerCount = -1;
-      
-      // Force refresh to get the new player type
-      if (confirm('Player count has been reset. Reload now to get your new character assignment?')) {
-        window.location.reload();
-      }
-    });
+    // Leave properly when the tab closes or navigates away, rather than leaving
+    // everyone else looking at a frozen player until our socket times out.
+    // Bots running under Node (see bots.ts) have no page.
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.leaveOnUnload);
+      window.addEventListener('beforeunload', this.leaveOnUnload);
+      window.addEventListener('pageshow', this.rejoinOnPageShow);
+    }
     
     // If the serverUrl contains staging.games.bonsai.so but doesn't have /websocket/ path, add it
     if (this.serverUrl.includes('staging.games.bonsai.so') && !this.serverUrl.includes('/websocket/')) {
@@ -159,14 +265,20 @@ export class ConnectionManager extends EventEmitter {
   
   connect(): void {
     try {
-      this.log(LogLevel.INFO, 'Connecting to WebSocket server at', this.serverUrl);
-      
-      // Cleanup any existing socket first
-      if (this.socket) {
-        this.disconnect();
+      // The lobby connects before the game mounts; keep that connection and its session
+      if (this.transport && this.transport.getState() !== 'closed') {
+        this.log(LogLevel.INFO, 'Already connected to', this.serverUrl);
+        return;
       }
       
+      this.log(LogLevel.INFO, 'Connecting to server at', this.serverUrl);
+      
+      // Cleanup any existing connection first. Not through disconnect(), which
+      // would throw away our resume token.
+      this.closeTransport();
+      
       // Reset offline mode flag for new connection attempt
+      this.closeOfflineChannel();
       this.offlineMode = false;
       this.connectionFailed = false;
       
@@ -176,7 +288,7 @@ export class ConnectionManager extends EventEmitter {
         this.checkServerAvailability();
       } else {
         // For other servers, proceed with normal connection
-        this.createWebSocketConnection();
+        this.createServerConnection();
       }
     } catch (error) {
       this.log(LogLevel.ERROR, 'Error connecting to WebSocket server:', error);
@@ -206,7 +318,7 @@ export class ConnectionManager extends EventEmitter {
     .then(() => {
       // If we can reach the domain, try the WebSocket connection
       this.log(LogLevel.INFO, `Domain ${domain} is reachable, attempting WebSocket connection...`);
-      this.createWebSocketConnection();
+      this.createServerConnection();
     })
     .catch((error) => {
       // If we can't reach the domain, go to offline mode immediately
@@ -221,66 +333,91 @@ export class ConnectionManager extends EventEmitter {
     setTimeout(() => {
       if (!this.isConnected && !this.offlineMode) {
         this.log(LogLevel.INFO, 'Server availability check timed out, creating WebSocket connection anyway...');
-        this.createWebSocketConnection();
+        this.createServerConnection();
       }
     }, 3000);
   }
   
-  private createWebSocketConnection(): void {
-    // Try to create the WebSocket with a timeout to handle hanging connections
-    this.socket = new WebSocket(this.serverUrl);
+  private createServerConnection(): void {
+    const transport = this.transports.server(this.serverUrl);
+    this.transport = transport;
+    
+    // New connection, new negotiation - speak plain JSON until the server agrees otherwise
+    this.encoder = new JsonEncoder();
+    this.authSent = false;
+    this.authenticated = false;
     
     // Set a timeout to handle cases where the connection hangs
     const connectionTimeout = setTimeout(() => {
-      if (this.socket && this.socket.readyState !== WebSocket.OPEN) {
-        this.log(LogLevel.INFO, 'Connection timeout after 5 seconds, closing socket');
-        // Force close the socket
-        if (this.socket.readyState === WebSocket.CONNECTING) {
-          this.socket.close();
-          this.handleDisconnect();
-        }
+      if (this.transport === transport && transport.getState() === 'connecting') {
+        this.log(LogLevel.INFO, `Connection timeout after 5 seconds, closing ${transport.kind} transport`);
+        this.closeTransport();
+        this.handleDisconnect();
       }
     }, 5000);
     
-    this.socket.onopen = () => {
-      clearTimeout(connectionTimeout);
-      this.log(LogLevel.INFO, 'Connected to server');
-      this.isConnected = true;
-      this.reconnectAttempts = 0; // Reset reconnect counter on successful connection
-      this.emit('connected');
-      
-      // Start keep-alive interval after connection
-      this.startKeepAliveInterval();
-      
-      // Attempt to initialize session after connection
-      this.initializeSession();
-      
-      // Start ping interval after connection
-      this.startPingInterval();
-    };
-    
-    this.socket.onclose = (event) => {
-      clearTimeout(connectionTimeout);
-      // Log close code and reason
-      this.log(LogLevel.INFO, `WebSocket closed with code ${event.code}, reason: ${event.reason || 'No reason given'}`);
-      
-      // Use our improved handleDisconnect method
-      this.handleDisconnect();
-    };
-    
-    this.socket.onerror = (error) => {
-      clearTimeout(connectionTimeout);
-      this.handleError(error);
-    };
+    transport.open({
+      onOpen: () => {
+        clearTimeout(connectionTimeout);
+        this.log(LogLevel.INFO, `Connected to server over ${transport.kind}`);
+        this.isConnected = true;
+        this.reconnectAttempts = 0; // Reset reconnect counter on successful connection
+        this.emit('connected');
+        
+        // Start keep-alive interval after connection
+        this.startKeepAliveInterval();
+        
+        // Attempt to initialize session after connection
+        this.initializeSession();
+        
+        // Start ping interval after connection
+        this.startPingInterval();
+      },
+      onClose: (reason) => {
+        clearTimeout(connectionTimeout);
+        this.log(LogLevel.INFO, `Connection closed (${reason})`);
+        
+        // Use our improved handleDisconnect method
+        this.handleDisconnect();
+      },
+      onError: (error) => {
+        clearTimeout(connectionTimeout);
+        this.handleError(error);
+      },
+      onMessage: (data) => {
+        // The server only sends text frames
+        if (typeof data === 'string') {
+          this.incomingLink.send(data, data.length);
+        }
+      }
+    });
+  }
+  
+  private closeTransport(): void {
+    this.sendQueue.clear();
+    if (this.transport) {
+      this.transport.close();
+      this.transport = null;
+    }
+  }
+  
+  private receive(data: string): void {
+    this.recorder?.recordIncoming(data, this.now());
     
-    this.socket.onmessage = (event) => {
-      try {
-        const message = JSON.parse(event.data);
-        this.handleMessage(message);
-      } catch (error) {
+    let message: ServerMessage;
+    try {
+      message = parseServerMessage(data);
+    } catch (error) {
+      if (error instanceof ProtocolError) {
+        // Bad or unknown messages are dropped rather than crashing the handler
+        this.log(LogLevel.WARN, `Dropping server message (${error.code}): ${error.message}`, error.raw);
+        this.emit('protocol_error', error);
+      } else {
         this.log(LogLevel.ERROR, 'Error parsing message:', error);
       }
-    };
+      return;
+    }
+    this.handleMessage(message);
   }
   
   disconnect(): void {
@@ -293,39 +430,56 @@ export class ConnectionManager extends EventEmitter {
     // Stop keep-alive interval
     this.stopKeepAliveInterval();
     
-    if (this.socket) {
-      // Remove event listeners to prevent any callbacks after disconnect
-      this.socket.onopen = null;
-      this.socket.onclose = null;
-      this.socket.onerror = null;
-      this.socket.onmessage = null;
-      
-      // Only close if socket is not already closing or closed
-      if (this.socket.readyState === WebSocket.OPEN || this.socket.readyState === WebSocket.CONNECTING) {
-        this.socket.close();
-      }
-      this.socket = null;
-    }
+    // Say goodbye so the server drops us right away
+    this.sendLeaveSession(true);
+    
+    this.stopPresenceInterval();
+    this.presence.clear();
+    this.jitterBuffers.clear();
+    this.outgoingLink.clear();
+    this.incomingLink.clear();
+    this.stopEventTimers();
+    
+    this.resumeToken = null;
+    this.droppedAt = null;
+    this.resetReliableEvents();
+    
+    this.closeTransport();
+    this.closeOfflineChannel();
     
     // Reset player index when disconnected - this ensures new character assignment on reconnect
     this.playerIndex = -1;
+    this.teamAssignment = null;
+    this.currentSession = null;
     
     this.isConnected = false;
+    this.authenticated = false;
     this.emit('disconnected');
     this.log(LogLevel.INFO, 'Disconnected from server');
   }
   
+  // Disconnect for good and stop listening to the page. For managers that are
+  // being thrown away; one that's only disconnected can connect again.
+  dispose(): void {
+    this.disconnect();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.leaveOnUnload);
+      window.removeEventListener('beforeunload', this.leaveOnUnload);
+      window.removeEventListener('pageshow', this.rejoinOnPageShow);
+    }
+  }
+  
   // Starts a keep-alive interval to maintain the connection
   private startKeepAliveInterval(): void {
     this.stopKeepAliveInterval();
     
     // Send a small packet every 30 seconds to keep the connection alive
-    this.keepAliveInterval = window.setInterval(() => {
-      if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+    this.keepAliveInterval = setInterval(() => {
+      if (this.transport?.getState() === 'open') {
         // Send a minimal message that won't trigger errors
         this.send({
           type: 'keepalive',
-          timestamp: Date.now()
+          timestamp: this.now()
         });
       }
     }, 30000); // 30 seconds
@@ -343,7 +497,14 @@ export class ConnectionManager extends EventEmitter {
   private startPingInterval(): void {
     this.stopPingInterval();
     
-    this.pingInterval = window.setInterval(() => {
+    // A quick burst first so the clock is synced within a second of connecting
+    for (let i = 0; i < CLOCK_SYNC_BURST; i++) {
+      setTimeout(() => {
+        if (this.isConnected && this.useServerPong) this.sendPing();
+      }, i * 250);
+    }
+    
+    this.pingInterval = setInterval(() => {
       if (this.isConnected) {
         this.sendPing();
         
@@ -368,16 +529,15 @@ export class ConnectionManager extends EventEmitter {
   
   // Send a ping message to measure latency
   private sendPing(): void {
-    this.pingStartTime = Date.now();
+    this.pingStartTime = this.now();
     
     if (this.useServerPong) {
-      // Use a message that won't cause errors or side effects
-      // and that the server definitely can handle
+      // The pong echoes our timestamp and adds the server's clock
       this.send({
-        type: 'game_event',
-        event: 'ping',
+        type: 'ping',
         timestamp: this.pingStartTime,
-        data: { type: 'ping' } // Include in a data field to avoid affecting game state
+        rtt: this.clock.getRtt() > 0 ? Math.round(this.clock.getRtt()) : undefined,
+        interpolationDelay: Math.round(this.getInterpolationDelay())
       });
     } else {
       // For client-side estimation, just measure time to next server message
@@ -397,10 +557,24 @@ export class ConnectionManager extends EventEmitter {
   }
   
   // Handle a pong message from server
-  private handlePong(message: any): void {
-    const now = Date.now();
+  private handlePong(message: { timestamp: number, serverTime?: number }): void {
+    const now = this.now();
     const roundTripTime = now - message.timestamp;
     
+    if (message.serverTime !== undefined) {
+      if (!this.clock.addSample(message.timestamp, message.serverTime, now)) {
+        this.log(LogLevel.DEBUG, `Ignoring outlier ping (${roundTripTime}ms round trip)`);
+      }
+      this.pongReceived = true;
+      
+      if (this.clock.getRtt() > 0) {
+        this.latency = Math.round(this.clock.getRtt() / 2);
+        this.emit('latency_update', this.latency);
+      }
+      this.emit('clock_sync', this.clock.getState());
+      return;
+    }
+    
     // Calculate latency (half of round trip)
     this.latency = Math.round(roundTripTime / 2);
     this.pongReceived = true;
@@ -420,53 +594,38 @@ export class ConnectionManager extends EventEmitter {
     return this.latency;
   }
   
+  // Now on the server's clock. Until we've heard a few pongs this is just our own clock.
+  getServerTime(): number {
+    return this.clock.getServerTime(this.now());
+  }
+  
+  // A server timestamp on our own clock
+  toLocalTime(serverTime: number): number {
+    return this.clock.toLocalTime(serverTime);
+  }
+  
+  // Smoothed offset and round trip, and how far to trust them
+  getClockSync(): ClockSyncState {
+    return this.clock.getState();
+  }
+  
   // Check if ready to send messages
   isReadyToSend(): boolean {
     // Can send if we're in offline mode or connected
     return this.offlineMode || 
-      (this.isConnected && this.playerId !== null && 
-       this.socket?.readyState === WebSocket.OPEN);
+      (this.isConnected && this.authenticated && 
+       this.transport?.getState() === 'open');
   }
 
   // Add a method to force the connection ready state (for testing)
   forceReady(): void {
-    this.log(LogLevel.INFO, '⚠️ Forcing offline mode for cross-browser communication');
+    this.log(LogLevel.INFO, '⚠️ Forcing offline mode for cross-tab communication');
     this.offlineMode = true;
     
-    // Generate a player index if not already assigned
+    // Offline there's no server to pick a team, so pick one ourselves. We
+    // rebalance once the other tabs have answered, see openOfflineChannel.
     if (this.playerIndex === -1) {
-      try {
-        // Check if we need to reset the player count
-        const shouldReset = this.shouldResetPlayerCount();
-        
-        if (shouldReset) {
-          localStorage.setItem('jackalopes_player_count', '-1');
-          console.error('⭐ Reset player count due to inactivity');
-        }
-        
-        // Get the current highest player index from localStorage
-        let globalPlayerCount = parseInt(localStorage.getItem('jackalopes_player_count') || '-1');
-        
-        // Increment the count for this player
-        globalPlayerCount++;
-        
-        // Store the updated count back in localStorage
-        localStorage.setItem('jackalopes_player_count', globalPlayerCount.toString());
-        localStorage.setItem('jackalopes_last_activity', Date.now().toString());
-        
-        // Assign this player's index
-        this.playerIndex = globalPlayerCount;
-        
-        // Also update the static count to match (for in-tab consistency)
-        ConnectionManager.playerCount = globalPlayerCount;
-        
-        console.error(`⭐ FORCE READY: Assigned player index ${this.playerIndex} using localStorage coordination (assigned as ${this.playerIndex % 2 === 0 ? 'JACKALOPE' : 'MERC'})`);
-      } catch (e) {
-        // Fallback to static count if localStorage fails
-        ConnectionManager.playerCount++;
-        this.playerIndex = ConnectionManager.playerCount - 1;
-        console.error(`⭐ FORCE READY: Assigned player index ${this.playerIndex} using static count (localStorage failed)`);
-      }
+      this.assignLocalPlayerIndex();
     }
     
     if (!this.playerId) {
@@ -481,6 +640,8 @@ export class ConnectionManager extends EventEmitter {
       this.emit('connected');
     }
     
+    this.openOfflineChannel();
+    
     // Emit initialized event to set up the game state
     this.emit('initialized', { 
       id: this.playerId, 
@@ -488,20 +649,83 @@ export class ConnectionManager extends EventEmitter {
     });
   }
   
+  // Offline, the tabs of this browser reach each other over the offline
+  // transport and send each other what the server would have relayed
+  private openOfflineChannel(): void {
+    if (this.offlineChannel) return;
+    
+    const channel = this.transports.offline();
+    this.offlineChannel = channel;
+    this.earlierPeers.clear();
+    channel.open({
+      onOpen: () => {
+        this.log(LogLevel.INFO, `Looking for other offline players over ${channel.kind}`);
+        this.postToPeers({ type: 'player_joined', player: this.playerId, initialState: this.getOfflineState() });
+        // Balance against the tabs that answered, not ones that turned up
+        // since and are still picking a team themselves
+        setTimeout(() => this.switchToSmallerTeam(Array.from(this.earlierPeers)), PEER_DISCOVERY_MS);
+      },
+      onClose: (reason) => {
+        this.log(LogLevel.INFO, `Offline channel closed (${reason})`);
+        if (this.offlineChannel === channel) {
+          this.offlineChannel = null;
+        }
+      },
+      onError: (error) => this.log(LogLevel.WARN, 'Offline channel error:', error),
+      onMessage: (data) => {
+        if (typeof data === 'string') {
+          this.receive(data);
+        }
+      }
+    });
+  }
+  
+  private closeOfflineChannel(): void {
+    if (!this.offlineChannel) return;
+    
+    this.postToPeers({ type: 'player_left', player: this.playerId });
+    this.offlineChannel.close();
+    this.offlineChannel = null;
+  }
+  
+  // Send other offline tabs a message shaped like the server's
+  private postToPeers(message: object): void {
+    if (this.offlineChannel?.getState() !== 'open') return;
+    
+    try {
+      this.offlineChannel.send(JSON.stringify(message));
+    } catch (error) {
+      this.log(LogLevel.WARN, 'Error sending to offline peers:', error);
+    }
+  }
+  
+  // How the other tabs should see us
+  private getOfflineState(): PlayerState {
+    const self = this.playerId ? this.gameState.players[this.playerId] : undefined;
+    return {
+      position: self?.position ?? [0, 1, 0],
+      rotation: self?.rotation ?? [0, 0, 0, 1],
+      health: this.playerId ? this.getPlayerHealth(this.playerId) : MAX_HEALTH,
+      playerType: this.getAssignedPlayerType()
+    };
+  }
+  
   // Method to set player type
-  setPlayerType(type: 'merc' | 'jackalope'): void {
+  setPlayerType(type: PlayerType): void {
     this.log(LogLevel.INFO, `Setting player type to ${type}`);
     this.playerType = type;
   }
   
   // New version of sendPlayerUpdate that accepts a single updateData object
   sendPlayerUpdate(updateData: {
-    position: [number, number, number],
-    rotation: [number, number, number, number],
-    velocity?: [number, number, number],
+    position: Vec3,
+    rotation: Quat,
+    velocity?: Vec3,
     sequence?: number,
-    playerType?: 'merc' | 'jackalope' // Add optional playerType parameter
+    playerType?: PlayerType // Add optional playerType parameter
   }): void {
+    if (this.spectating) return;
+    
     if (!this.isReadyToSend()) {
       this.log(LogLevel.INFO, 'Cannot send player update: not connected to server or not authenticated yet');
       return;
@@ -509,19 +733,17 @@ export class ConnectionManager extends EventEmitter {
     
     // Use explicitly provided playerType or default to this.playerType
     const typeToSend = updateData.playerType || this.playerType;
+    const state = {
+      position: updateData.position,
+      rotation: updateData.rotation,
+      velocity: updateData.velocity || [0, 0, 0] as Vec3,
+      sequence: updateData.sequence || this.now(),
+      playerType: typeToSend // Use explicit or default playerType
+    };
     
     if (!this.offlineMode) { 
       // For online mode, send to server
-      this.send({
-        type: 'player_update',
-        state: {
-          position: updateData.position,
-          rotation: updateData.rotation,
-          velocity: updateData.velocity || [0, 0, 0],
-          sequence: updateData.sequence || Date.now(),
-          playerType: typeToSend // Use explicit or default playerType
-        }
-      });
+      this.send({ type: 'player_update', state });
     } else {
       // In offline mode, immediately update local game state and emit event
       if (this.playerId) {
@@ -538,39 +760,68 @@ export class ConnectionManager extends EventEmitter {
           this.gameState.players[this.playerId].rotation = updateData.rotation;
           this.gameState.players[this.playerId].playerType = typeToSend; // Use explicit or default playerType
         }
+        
+        this.postToPeers({ type: 'player_update', player: this.playerId, state, timestamp: this.now() });
       }
     }
   }
   
-  // Update sendShootEvent to use a compatible message format with the staging server
-  sendShootEvent(origin: [number, number, number], direction: [number, number, number]): void {
+  // Number a movement input and hold it for the next sendInputs(). The
+  // returned command is what the caller should record for replay.
+  queueInput(input: MovementInput, dt: number): InputCommand {
+    const command: InputCommand = { ...input, seq: this.nextInputSeq++, dt };
+    this.pendingInputs.push(command);
+    this.recorder?.recordInput(input, dt, this.now());
+    
+    // Nothing drains the queue while we can't send, so don't let it grow forever
+    if (this.pendingInputs.length > MAX_PENDING_INPUTS) {
+      this.pendingInputs.shift();
+    }
+    return command;
+  }
+  
+  // Send the inputs queued since the last call, along with the state we
+  // predicted after the last of them. The server answers with input_ack.
+  sendInputs(state: { position: Vec3, velocity: Vec3 }): void {
+    if (this.pendingInputs.length === 0) return;
+    
+    const inputs = compressInputs(this.pendingInputs);
+    this.pendingInputs = [];
+    
+    // Offline there's no server to disagree with us
+    if (!this.isReadyToSend() || this.offlineMode || this.spectating) return;
+    
+    this.send({ type: 'player_input', inputs, state });
+  }
+  
+  // Called by the player components whenever an input ack made them rewind and replay
+  recordCorrection(correction: Correction): void {
+    const metrics = this.reconciliationMetrics;
+    const totalCorrections = metrics.totalCorrections + 1;
+    
+    this.reconciliationMetrics = {
+      totalCorrections,
+      averageError: (metrics.averageError * metrics.totalCorrections + correction.error) / totalCorrections,
+      lastError: correction.error,
+      lastCorrection: this.now(),
+      lastReplayed: correction.replayed
+    };
+    this.log(LogLevel.DEBUG, `Corrected prediction by ${correction.error.toFixed(3)}, replayed ${correction.replayed} inputs`);
+    this.emit('reconciliation_metrics', { ...this.reconciliationMetrics });
+  }
+  
+  getReconciliationMetrics(): ReconciliationMetrics {
+    return { ...this.reconciliationMetrics };
+  }
+  
+  // Update sendShootEvent to use a compatible message format with the staging server.
+  // Returns the shot ID so hits can be reported against it, or null if nothing was sent.
+  sendShootEvent(origin: Vec3, direction: Vec3): string | null {
+    if (this.spectating) return null;
+    
     if (!this.isReadyToSend()) {
-      // First try localStorage fallback for cross-browser testing
-      try {
-        const shotId = `local-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-        const shotData = {
-          id: this.playerId || 'local-player',
-          shotId: shotId,
-          origin,
-          direction,
-          timestamp: Date.now()
-        };
-        
-        // Store in localStorage for cross-browser communication
-        localStorage.setItem('jackalopes_shot_events', JSON.stringify(shotData));
-        this.log(LogLevel.INFO, 'Shot saved to localStorage as fallback:', shotData);
-        
-        // Broadcast the event locally
-        this.emit('player_shoot', shotData);
-        
-        // No need to error here since we have a fallback mechanism
-        return;
-      } catch (e) {
-        // Continue with normal error handling if localStorage fails
-      }
-      
       this.log(LogLevel.INFO, 'Cannot send shoot event: not connected to server or not authenticated yet');
-      return;
+      return null;
     }
     
     // Generate a unique ID for this shot
@@ -585,29 +836,210 @@ export class ConnectionManager extends EventEmitter {
     
     // The staging server doesn't support the 'shoot' message type
     // So we'll use 'game_event' instead, which is more likely to be supported
-    this.send({
-      type: 'game_event',  // Use 'game_event' instead of 'shoot'
-      event: {             // Wrap in 'event' instead of event_type/data to match server expectations
-        event_type: 'player_shoot',
-        shotId: shotId,
-        origin,
-        direction,
-        player_id: this.playerId,
-        timestamp: Date.now()
-      }
+    this.sendGameEvent({
+      event_type: 'player_shoot',
+      shotId: shotId,
+      origin,
+      direction,
+      player_id: this.playerId ?? undefined,
+      timestamp: this.now()
     });
     
+    // Offline there's no server to relay it, so tell the other tabs ourselves
+    if (this.offlineMode) {
+      this.postToPeers({
+        type: 'game_event',
+        event: { event_type: 'player_shoot', shotId, origin, direction, player: this.playerId, timestamp: this.now() }
+      });
+    }
+    
     // Also emit the event locally to ensure it works even if the server doesn't process it
     this.emit('player_shoot', {
       id: this.playerId,
       shotId: shotId,
       origin,
       direction,
-      timestamp: Date.now()
+      timestamp: this.now()
+    });
+    
+    return shotId;
+  }
+  
+  // Report that one of our fireballs hit a player. The server decides whether the
+  // hit counts and how much damage it does; in offline mode we resolve it ourselves.
+  sendHitEvent(shotId: string, targetId: string, point: Vec3): void {
+    if (this.offlineMode) {
+      this.resolveHitLocally(shotId, this.playerId || 'local-player', targetId);
+      return;
+    }
+    
+    if (!this.isReadyToSend()) {
+      this.log(LogLevel.INFO, 'Cannot send hit event: not connected to server or not authenticated yet');
+      return;
+    }
+    
+    this.log(LogLevel.INFO, `🔥 Reporting hit on ${targetId} by shot ${shotId}`);
+    this.sendGameEvent({
+      event_type: 'player_hit',
+      shotId,
+      target: targetId,
+      point,
+      player_id: this.playerId ?? undefined,
+      timestamp: this.now()
+    });
+  }
+  
+  // Send a game event, numbered for reliable delivery if the server takes them
+  private sendGameEvent(event: GameEventPayload): void {
+    if (!this.reliableEvents) {
+      this.send({ type: 'game_event', event });
+      return;
+    }
+    
+    const seq = this.eventSender.send(event);
+    if (seq === null) {
+      this.log(LogLevel.WARN, `Not sending ${event.event_type}: the server hasn't acked our last events`);
+      return;
+    }
+    this.send({ type: 'game_event', event, seq });
+    this.startEventResends();
+  }
+  
+  private startEventResends(): void {
+    if (this.eventResendInterval !== null) return;
+    
+    this.eventResendInterval = setInterval(() => {
+      // Whatever is pending goes out again once we've reconnected
+      if (this.transport?.getState() !== 'open') return;
+      
+      this.eventSender.takeDue(this.now(), this.latency * 2).forEach(({ seq, payload }) => {
+        this.log(LogLevel.DEBUG, `Resending game event #${seq} (${payload.event_type})`);
+        this.send({ type: 'game_event', event: payload, seq });
+      });
+      if (!this.eventSender.hasPending()) {
+        this.stopEventResends();
+      }
+    }, EVENT_RESEND_CHECK_MS);
+  }
+  
+  private stopEventResends(): void {
+    if (this.eventResendInterval !== null) {
+      clearInterval(this.eventResendInterval);
+      this.eventResendInterval = null;
+    }
+  }
+  
+  // Ack everything received in order so far, shortly, so a burst of events gets one ack
+  private scheduleEventAck(): void {
+    if (this.eventAckTimeout !== null) return;
+    
+    this.eventAckTimeout = setTimeout(() => {
+      this.eventAckTimeout = null;
+      this.send({ type: 'event_ack', seq: this.eventReceiver.getAck() });
+    }, EVENT_ACK_DELAY_MS);
+  }
+  
+  private stopEventTimers(): void {
+    this.stopEventResends();
+    if (this.eventAckTimeout !== null) {
+      clearTimeout(this.eventAckTimeout);
+      this.eventAckTimeout = null;
+    }
+  }
+  
+  // A new player starts numbering from scratch, in both directions
+  private resetReliableEvents(): void {
+    this.eventSender.reset();
+    this.eventReceiver.reset();
+  }
+  
+  getEventStats(): ReliableStats {
+    return { ...this.eventSender.getStats(), ...this.eventReceiver.getStats() };
+  }
+  
+  // Get a player's current health (players we haven't heard about are at full health)
+  getPlayerHealth(id: string): number {
+    return this.health[id] ?? MAX_HEALTH;
+  }
+  
+  // Offline stand-in for the server's hit registration - same rules as server.js
+  private resolveHitLocally(shotId: string, attackerId: string, targetId: string): void {
+    const hitKey = `${shotId}:${targetId}`;
+    if (this.resolvedHits.has(hitKey) || attackerId === targetId) return;
+    if (!canBeDamaged(this.gameState.players[targetId]?.playerType)) return;
+    
+    const currentHealth = this.getPlayerHealth(targetId);
+    if (currentHealth <= 0) return;
+    
+    this.resolvedHits.add(hitKey);
+    if (this.resolvedHits.size > 200) {
+      this.resolvedHits = new Set(Array.from(this.resolvedHits).slice(-100));
+    }
+    
+    const result = applyDamage(currentHealth);
+    this.applyOfflineHealthEvent({
+      event_type: 'player_damaged',
+      target: targetId,
+      attacker: attackerId,
+      damage: result.damage,
+      health: result.health,
+      shotId
     });
+    
+    if (result.killed) {
+      this.applyOfflineHealthEvent({ event_type: 'player_killed', target: targetId, attacker: attackerId });
+      setTimeout(() => {
+        this.applyOfflineHealthEvent({ event_type: 'player_respawned', target: targetId, health: MAX_HEALTH });
+      }, RESPAWN_DELAY_MS);
+    }
+  }
+  
+  // Apply a health event we decided as the offline authority, and pass it on
+  // to the other tabs
+  private applyOfflineHealthEvent(event: HealthEvent): void {
+    this.applyHealthEvent(event);
+    this.postToPeers({ type: 'game_event', event });
+  }
+  
+  // Apply a health event from the server (or the offline authority) and let the game know
+  private applyHealthEvent(event: HealthEvent): void {
+    const target = event.target;
+    
+    switch (event.event_type) {
+      case 'player_damaged':
+        this.setHealth(target, event.health);
+        this.log(LogLevel.INFO, `💥 ${target} took ${event.damage} damage from ${event.attacker} (${event.health} HP left)`);
+        this.emit('player_damaged', {
+          id: target,
+          attackerId: event.attacker,
+          damage: event.damage,
+          health: event.health,
+          shotId: event.shotId
+        });
+        break;
+        
+      case 'player_killed':
+        this.setHealth(target, 0);
+        this.log(LogLevel.INFO, `☠️ ${target} was killed by ${event.attacker}`);
+        this.emit('player_killed', { id: target, attackerId: event.attacker });
+        break;
+        
+      case 'player_respawned':
+        this.setHealth(target, event.health);
+        this.log(LogLevel.INFO, `✨ ${target} respawned with ${event.health} HP`);
+        this.emit('player_respawned', { id: target, health: event.health });
+        break;
+    }
+  }
+  
+  private setHealth(id: string, health: number): void {
+    this.health[id] = health;
+    if (this.gameState.players[id]) {
+      this.gameState.players[id].health = health;
+    }
   }
   
-  private send(data: any): void {
+  private send(data: ClientMessage): void {
     // Check if we're in offline mode
     if (this.offlineMode) {
       // Just emit the message locally without sending to server
@@ -615,42 +1047,65 @@ export class ConnectionManager extends EventEmitter {
       return;
     }
     
-    // Check if socket exists and is in OPEN state
-    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
-      try {
-        const jsonData = JSON.stringify(data);
-        this.log(LogLevel.INFO, `Sending data to server (${data.type}):`, data);
-        this.socket.send(jsonData);
-        this.emit('message_sent', data);
-      } catch (error) {
-        this.log(LogLevel.ERROR, 'Error sending data to server:', error);
-        
-        // If send failed, check if socket is still open
-        if (this.socket.readyState !== WebSocket.OPEN) {
-          this.log(LogLevel.INFO, 'Socket state changed during send, reconnecting...');
-          this.handleDisconnect();
-        }
-      }
+    // Check if the transport exists and is open
+    if (this.transport?.getState() === 'open') {
+      this.sendQueue.push(data);
     } else {
-      const state = this.socket ? 
-        ['CONNECTING', 'OPEN', 'CLOSING', 'CLOSED'][this.socket.readyState] : 
-        'NO_SOCKET';
+      const state = this.getSocketState();
       
-      this.log(LogLevel.WARN, `Cannot send data: socket not available or not in OPEN state (${state})`, {
-        socketExists: !!this.socket,
-        socketState: state,
+      this.log(LogLevel.WARN, `Cannot send data: transport not available or not open (${state})`, {
+        transportExists: !!this.transport,
+        transportState: state,
         isConnected: this.isConnected
       });
       
-      // If socket is closed but we think we're connected, try to reconnect
-      if (this.socket && this.socket.readyState === WebSocket.CLOSED && this.isConnected) {
-        this.log(LogLevel.INFO, 'Socket is closed but connection flag is true, reconnecting...');
+      // If the transport is closed but we think we're connected, try to reconnect
+      if (this.transport?.getState() === 'closed' && this.isConnected) {
+        this.log(LogLevel.INFO, 'Transport is closed but connection flag is true, reconnecting...');
+        this.handleDisconnect();
+      }
+    }
+  }
+  
+  // Encode a message the send queue has let through
+  private writeMessage(data: ClientMessage): void {
+    this.recorder?.recordOutgoing(data, this.now());
+    
+    try {
+      const payload = this.encoder.encode(data);
+      if (typeof payload === 'string') {
+        this.log(LogLevel.INFO, `Sending data to server (${data.type}):`, data);
+      } else {
+        this.log(LogLevel.DEBUG, `Sending binary ${data.type} (${payload.byteLength} bytes)`);
+      }
+      this.outgoingLink.send(payload, typeof payload === 'string' ? payload.length : payload.byteLength);
+      this.emit('message_sent', data);
+    } catch (error) {
+      this.log(LogLevel.ERROR, 'Error encoding message for server:', error);
+    }
+  }
+  
+  // Put a payload on the wire once the link conditioner lets it through
+  private transmit(payload: string | ArrayBuffer): void {
+    if (this.transport?.getState() !== 'open') {
+      this.log(LogLevel.DEBUG, 'Transport closed before a delayed message could be sent');
+      return;
+    }
+    
+    try {
+      this.transport.send(payload);
+    } catch (error) {
+      this.log(LogLevel.ERROR, 'Error sending data to server:', error);
+      
+      // If send failed, check if the transport is still open
+      if (this.transport.getState() !== 'open') {
+        this.log(LogLevel.INFO, 'Transport state changed during send, reconnecting...');
         this.handleDisconnect();
       }
     }
   }
   
-  private handleMessage(message: any): void {
+  private handleMessage(message: ServerMessage): void {
     this.log(LogLevel.INFO, `Received message from server (${message.type}):`, message);
     this.emit('message_received', message);
     
@@ -664,7 +1119,7 @@ export class ConnectionManager extends EventEmitter {
     
     // Use any server response for latency calculation if we're waiting for one
     // and we haven't already processed a pong recently
-    if (this.pingStartTime > 0 && !this.pongReceived) {
+    if (!this.useServerPong && this.pingStartTime > 0 && !this.pongReceived) {
       this.handlePong({ timestamp: this.pingStartTime });
       this.pingStartTime = 0;
     }
@@ -672,295 +1127,456 @@ export class ConnectionManager extends EventEmitter {
     switch (message.type) {
       case 'connection':
         this.playerId = message.id;
+        this.authenticated = true;
         this.gameState = message.gameState;
         this.log(LogLevel.INFO, '📣 CONNECTION: Set player ID to', this.playerId);
         this.emit('initialized', { id: this.playerId, gameState: this.gameState });
         break;
         
       case 'welcome':
-        this.log(LogLevel.INFO, 'Received welcome message from server');
+        this.log(LogLevel.INFO, 'Received welcome message from server', {
+          server: message.server,
+          protocolVersion: message.protocolVersion ?? 'unversioned'
+        });
         // Server is up, but we still need to authenticate
-        if (!this.playerId) {
+        if (!this.authenticated && !this.authSent) {
           this.initializeSession();
         }
         break;
         
       case 'auth_success':
-      case 'join_success':
+      case 'join_success': {
         this.log(LogLevel.INFO, 'Authentication/join successful');
-        if (message.player && message.player.id) {
-          this.playerId = message.player.id;
-          this.log(LogLevel.INFO, '📣 AUTH_SUCCESS: Set player ID to', this.playerId);
-          if (message.session) {
-            this.log(LogLevel.INFO, 'Joined session:', message.session.id);
-            // Add more detailed session diagnostics
-            this.log(LogLevel.INFO, '📊 Session diagnostics:', {
-              requestedSession: 'JACKALOPES-TEST-SESSION',
-              assignedSession: message.session.id,
-              sessionKey: message.session.key,
-              playerCount: message.playerCount || 'unknown'
-            });
-          }
-          // Explicitly set connected state to true on successful auth
-          this.isConnected = true;
-          this.emit('initialized', { id: this.playerId, gameState: this.gameState });
+        
+        try {
+          this.protocolVersion = negotiateProtocolVersion(message.protocolVersion);
+        } catch (error) {
+          this.log(LogLevel.ERROR, 'Protocol version mismatch, disconnecting:', error);
+          this.emit('protocol_error', error);
+          this.disconnect();
+          break;
+        }
+        
+        // join_success doesn't repeat the capabilities, so only renegotiate on auth
+        if (message.type === 'auth_success') {
+          this.encoder = createEncoder(this.binaryEncodingEnabled ? message.capabilities : []);
+          
+          // Resuming, the server still has our place in both event streams:
+          // resend whatever it hadn't acked. Otherwise we're a new player.
+          this.reliableEvents = message.capabilities.includes(RELIABLE_EVENTS_CAPABILITY);
+          if (!message.resumed || !this.reliableEvents) {
+            this.resetReliableEvents();
+          } else if (this.eventSender.hasPending()) {
+            this.eventSender.takeAll().forEach(({ seq, payload }) => this.send({ type: 'game_event', event: payload, seq }));
+            this.startEventResends();
+          }
+          // The server will send the match state for whichever session we join
+          this.applyRoundState(INITIAL_ROUND_STATE);
+        }
+        this.log(LogLevel.INFO, `Using wire protocol v${this.protocolVersion} with ${this.encoder.name} player updates`);
+        
+        this.playerId = message.player.id;
+        this.authenticated = true;
+        this.log(LogLevel.INFO, '📣 AUTH_SUCCESS: Set player ID to', this.playerId);
+        
+        if (message.resumeToken) {
+          this.resumeToken = message.resumeToken;
+          this.droppedAt = null;
+        }
+        if (message.health !== undefined) {
+          this.setHealth(this.playerId, message.health);
+        }
+        
+        if (message.type === 'join_success') {
+          const request = this.sessionRequest;
+          const askedToSpectate = request !== null && request.kind !== 'create' && request.spectate === true;
+          this.spectating = message.spectator === true;
           
-          // After initialization, immediately log connection state for debugging
-          this.log(LogLevel.INFO, '📣 Connection state after auth success:', this.isReadyToSend(), {
-            isConnected: this.isConnected,
-            playerId: this.playerId,
-            socketReady: this.socket?.readyState === WebSocket.OPEN
+          // An older server let us in as a player that nobody would be controlling
+          if (askedToSpectate && !this.spectating) {
+            this.log(LogLevel.WARN, 'Server does not support spectators, leaving the session');
+            this.currentSession = message.session ?? null;
+            this.leaveSession();
+            this.emit('join_failed', { reason: 'spectating_unsupported', message: 'This server does not support spectators' });
+            break;
+          }
+        }
+        
+        if (message.assignment) {
+          this.applyTeamAssignment(message.assignment);
+        } else if (message.type === 'join_success' && this.playerIndex === -1 && !this.spectating) {
+          // Server predates team assignment
+          this.log(LogLevel.WARN, 'Server did not assign a team, falling back to local player counting');
+          this.assignLocalPlayerIndex();
+        }
+        if (message.session) {
+          this.log(LogLevel.INFO, 'Joined session:', message.session.id);
+          // Add more detailed session diagnostics
+          this.log(LogLevel.INFO, '📊 Session diagnostics:', {
+            requestedSession: this.sessionRequest,
+            assignedSession: message.session.id,
+            sessionKey: message.session.key,
+            playerCount: message.playerCount || 'unknown'
           });
           
-          // If we received auth_success but not join_success, send join_session
-          if (message.type === 'auth_success') {
+          this.currentSession = message.session;
+          // Rejoin the same session if the connection drops
+          if (message.session.key) {
+            const password = this.sessionRequest?.kind === 'create'
+              ? this.sessionRequest.options.password
+              : this.sessionRequest?.password;
+            this.sessionRequest = { kind: 'key', sessionKey: message.session.key, password, spectate: this.spectating || undefined };
+          }
+          this.emit('session_joined', message.session);
+          if (message.resumed) {
+            this.emit('session_resumed', message.session);
+          }
+        }
+        // Explicitly set connected state to true on successful auth
+        this.isConnected = true;
+        this.emit('initialized', { id: this.playerId, gameState: this.gameState });
+        
+        // After initialization, immediately log connection state for debugging
+        this.log(LogLevel.INFO, '📣 Connection state after auth success:', this.isReadyToSend(), {
+          isConnected: this.isConnected,
+          playerId: this.playerId,
+          transportReady: this.transport?.getState() === 'open'
+        });
+        
+        // If we received auth_success but not join_success, join (or create) the requested session
+        if (message.type === 'auth_success') {
+          if (message.resumed) {
+            this.log(LogLevel.INFO, 'Auth successful, resumed our player - the server is putting us back in our session');
+          } else if (this.sessionRequest) {
             this.log(LogLevel.INFO, 'Auth successful, joining session...');
-            this.send({
-              type: 'join_session',
-              playerName: message.player.id, // Use player ID as name
-              sessionKey: 'JACKALOPES-TEST-SESSION' // Fixed session key for all players
-            });
+            this.requestSession(message.player.id); // Use player ID as name
+          } else {
+            this.log(LogLevel.INFO, 'Auth successful, waiting in the lobby');
           }
         }
         
         // Use any message response for latency measurement
-        if (this.pingStartTime > 0) {
+        if (!this.useServerPong && this.pingStartTime > 0) {
           this.handlePong({ timestamp: this.pingStartTime });
         }
         break;
+      }
         
-      case 'player_joined':
+      case 'player_joined': {
         this.log(LogLevel.INFO, '👤 Player joined event received:', message);
-        // Handle both formats the server might send
-        const playerId = message.id || message.player_id;
-        const playerType = (message.playerType || message.state?.playerType || 'merc') as 'merc' | 'jackalope';
-        const playerState = message.initialState || {
-          position: message.position || [0, 1, 0],
-          rotation: message.rotation || [0, 0, 0, 1],
-          health: 100,
-          playerType
-        };
         
         // Skip if this is our own player ID
-        if (playerId === this.playerId) {
+        if (message.id === this.playerId) {
           this.log(LogLevel.INFO, 'Ignoring player_joined for our own player ID');
           break;
         }
         
         // Add to the game state
-        this.gameState.players[playerId] = playerState;
+        this.gameState.players[message.id] = message.state;
+        this.markPlayerHeard(message.id);
         
         // Emit the event so the UI can update
-        this.emit('player_joined', { id: playerId, state: playerState });
+        this.emit('player_joined', { id: message.id, state: message.state });
         this.log(LogLevel.INFO, '🎮 Updated player list - current players:', Object.keys(this.gameState.players));
+        
+        // Offline, answer a newcomer so it knows we're here too
+        if (this.offlineMode && this.playerId) {
+          this.postToPeers({ type: 'player_list', players: { [this.playerId]: this.getOfflineState() } });
+        }
         break;
+      }
         
       case 'player_list':
         // Some servers might send a complete player list instead of individual join/leave events
         this.log(LogLevel.INFO, 'Received player list from server:', message.players);
-        if (message.players && typeof message.players === 'object') {
-          // Update our game state with all players
-          Object.entries(message.players).forEach(([id, playerData]: [string, any]) => {
-            // Skip if this is our own player
-            if (id === this.playerId) return;
-            
-            // Add or update this player in our game state
-            this.gameState.players[id] = playerData;
-            
-            // Emit player_joined for any new players we didn't know about
-            this.emit('player_joined', { id, state: playerData });
-          });
+        Object.entries(message.players).forEach(([id, playerData]) => {
+          // Skip if this is our own player
+          if (id === this.playerId) return;
           
-          this.log(LogLevel.INFO, '🎮 Updated player list from server - current players:', Object.keys(this.gameState.players));
-        }
+          // Add or update this player in our game state
+          this.gameState.players[id] = playerData;
+          this.markPlayerHeard(id);
+          if (this.offlineMode) {
+            this.earlierPeers.add(id);
+          }
+          
+          // Emit player_joined for any new players we didn't know about
+          this.emit('player_joined', { id, state: playerData });
+        });
+        
+        this.log(LogLevel.INFO, '🎮 Updated player list from server - current players:', Object.keys(this.gameState.players));
         break;
         
       case 'player_left':
         delete this.gameState.players[message.id];
+        this.presence.forget(message.id);
+        this.jitterBuffers.delete(message.id);
         this.emit('player_left', { id: message.id });
         break;
         
-      case 'player_update':
+      case 'player_update': {
         // Handle both our own updates and updates from other players
-        const updatePlayerId = message.id || message.player_id || message.player;
+        const updatePlayerId = message.id;
+        const { position, rotation, velocity } = message.state;
+        
+        // The server corrects our own position through input_ack, not echoes
+        if (updatePlayerId === this.playerId) {
+          break;
+        }
         
-        // Skip processing updates from ourselves
-        if (updatePlayerId !== this.playerId) {
-          // Extract position and rotation, handling different server formats
-          const position = message.position || (message.state && message.state.position);
-          const rotation = message.rotation || (message.state && message.state.rotation);
+        this.markPlayerHeard(updatePlayerId);
+        this.bufferRemoteTransform(updatePlayerId, message.timestamp ?? this.getServerTime(), position, rotation, velocity);
+        
+        // Debug potential rotation issues
+        if (Math.random() < 0.01) {
+          this.log(LogLevel.INFO, `ROTATION DATA FROM SERVER: ${JSON.stringify(rotation)}`);
+        }
+        
+        // Check if this is a player we don't know about yet
+        if (!this.gameState.players[updatePlayerId]) {
+          this.log(LogLevel.INFO, `New player detected from player_update: ${updatePlayerId}`);
+          // Create a player joined event for this new player
+          const newPlayerState = {
+            position: position,
+            rotation: rotation,
+            health: 100,
+            playerType: message.state.playerType || 'merc'
+          };
           
-          // Debug potential rotation issues
-          if (rotation && Math.random() < 0.01) {
-            this.log(LogLevel.INFO, `ROTATION DATA FROM SERVER: ${JSON.stringify(rotation)}`);
-          }
+          // Add to our game state
+          this.gameState.players[updatePlayerId] = newPlayerState;
           
-          // Only proceed if we have valid position data
-          if (position) {
-            // Check if this is a player we don't know about yet
-            if (!this.gameState.players[updatePlayerId]) {
-              this.log(LogLevel.INFO, `New player detected from player_update: ${updatePlayerId}`);
-              // Create a player joined event for this new player
-              const newPlayerState = {
-                position: position,
-                rotation: rotation || [0, 0, 0, 1], // Default quaternion if missing
-                health: 100,
-                playerType: (message.state?.playerType || 'merc') as 'merc' | 'jackalope'
-              };
-              
-              // Add to our game state
-              this.gameState.players[updatePlayerId] = newPlayerState;
-              
-              // Emit a player_joined event
-              this.emit('player_joined', { 
-                id: updatePlayerId, 
-                state: newPlayerState
-              });
-            }
-            
-            // Get existing position/rotation
-            const existingPlayer = this.gameState.players[updatePlayerId];
-            const existingPos = existingPlayer.position;
-            const existingRot = existingPlayer.rotation;
-            
-            // Calculate position change
-            const positionChanged = !existingPos ||
-              Math.abs(existingPos[0] - position[0]) > 0.001 ||
-              Math.abs(existingPos[1] - position[1]) > 0.001 ||
-              Math.abs(existingPos[2] - position[2]) > 0.001;
-            
-            // Calculate rotation change - looser check for testing
-            const rotationChanged = !existingRot || !rotation || 
-              Math.abs(existingRot[0] - rotation[0]) > 0.0001 ||
-              Math.abs(existingRot[1] - rotation[1]) > 0.0001 ||
-              Math.abs(existingRot[2] - rotation[2]) > 0.0001 ||
-              Math.abs(existingRot[3] - rotation[3]) > 0.0001;
-            
-            // Update the player in our game state (always)
-            this.gameState.players[updatePlayerId].position = position;
-            if (rotation) {
-              this.gameState.players[updatePlayerId].rotation = rotation;
-              
-              // Debug rotation updates periodically
-              if (Math.random() < 0.01) {
-                this.log(LogLevel.INFO, `Setting player rotation to: ${JSON.stringify(rotation)}`);
-              }
-            }
-            
-            // Only emit player_update if actual changes occurred
-            if (positionChanged || rotationChanged) {
-              // Extract playerType from the message or use existing playerType from gameState
-              const playerType = message.state?.playerType || this.gameState.players[updatePlayerId].playerType;
-              
-              // If there's a playerType in the state, update it in gameState
-              if (message.state?.playerType) {
-                this.gameState.players[updatePlayerId].playerType = message.state.playerType;
-              }
-              
-              this.emit('player_update', { 
-                id: updatePlayerId, 
-                position: position, 
-                rotation: rotation || this.gameState.players[updatePlayerId].rotation,
-                playerType: playerType // Include the playerType in the update
-              });
-            }
-          } else {
-            this.log(LogLevel.WARN, 'Received player_update without position data:', message);
-          }
+          // Emit a player_joined event
+          this.emit('player_joined', { 
+            id: updatePlayerId, 
+            state: newPlayerState
+          });
         }
         
-        // If message is for local player, emit server_state_update for reconciliation
-        if (updatePlayerId === this.playerId) {
-          this.emit('server_state_update', {
-            position: message.position || (message.state && message.state.position),
-            rotation: message.rotation || (message.state && message.state.rotation),
-            timestamp: message.timestamp || Date.now(),
-            sequence: message.sequence || (message.state && message.state.sequence),
-            positionError: message.positionError,
-            serverCorrection: message.serverCorrection
+        // Get existing position/rotation
+        const existingPlayer = this.gameState.players[updatePlayerId];
+        const existingPos = existingPlayer.position;
+        const existingRot = existingPlayer.rotation;
+        
+        // Calculate position change
+        const positionChanged = !existingPos ||
+          Math.abs(existingPos[0] - position[0]) > 0.001 ||
+          Math.abs(existingPos[1] - position[1]) > 0.001 ||
+          Math.abs(existingPos[2] - position[2]) > 0.001;
+        
+        // Calculate rotation change - looser check for testing
+        const rotationChanged = !existingRot ||
+          Math.abs(existingRot[0] - rotation[0]) > 0.0001 ||
+          Math.abs(existingRot[1] - rotation[1]) > 0.0001 ||
+          Math.abs(existingRot[2] - rotation[2]) > 0.0001 ||
+          Math.abs(existingRot[3] - rotation[3]) > 0.0001;
+        
+        // Starting or stopping in place changes only the velocity
+        const existingVel = existingPlayer.velocity;
+        const velocityChanged = !!velocity && (!existingVel ||
+          Math.abs(existingVel[0] - velocity[0]) > 0.01 ||
+          Math.abs(existingVel[1] - velocity[1]) > 0.01 ||
+          Math.abs(existingVel[2] - velocity[2]) > 0.01);
+        
+        // Update the player in our game state (always)
+        existingPlayer.position = position;
+        existingPlayer.rotation = rotation;
+        if (velocity) {
+          existingPlayer.velocity = velocity;
+        }
+        
+        // Only emit player_update if actual changes occurred
+        if (positionChanged || rotationChanged || velocityChanged) {
+          // If there's a playerType in the state, update it in gameState
+          if (message.state.playerType) {
+            existingPlayer.playerType = message.state.playerType;
+          }
+          
+          this.emit('player_update', { 
+            id: updatePlayerId, 
+            position: position, 
+            rotation: rotation,
+            velocity: existingPlayer.velocity,
+            playerType: existingPlayer.playerType // Include the playerType in the update
           });
         }
         break;
+      }
         
-      default:
-        this.log(LogLevel.WARN, 'Unknown message type:', message.type);
+      case 'game_event':
+        if (message.seq === undefined) {
+          if (this.isFirstDelivery(message.event)) {
+            this.handleGameEvent(message.event);
+          }
+          break;
+        }
+        
+        // Reliable events come out in order and once each, whatever the link did to them
+        this.eventReceiver.receive(message.seq, message.event).forEach(event => this.handleGameEvent(event));
+        this.scheduleEventAck();
         break;
-    }
-  }
-  
-  // Initialize session with the server
-  private initializeSession(): void {
-    this.log(LogLevel.INFO, 'Initializing session...');
-    
-    // Generate a random player name if none exists
-    const playerName = `player-${Math.floor(Math.random() * 10000)}`;
-    
-    // Use localStorage to assign player indices across browser tabs
-    try {
-      // Only assign a new player index if one hasn't been assigned yet
-      if (this.playerIndex === -1) {
-        // Check if we need to reset the player count
-        const shouldReset = this.shouldResetPlayerCount();
         
-        if (shouldReset) {
-          localStorage.setItem('jackalopes_player_count', '-1');
-          console.error('⭐ Reset player count due to inactivity');
+      case 'event_ack':
+        this.eventSender.ack(message.seq);
+        if (!this.eventSender.hasPending()) {
+          this.stopEventResends();
         }
+        break;
         
-        // Get the current highest player index from localStorage
-        let globalPlayerCount = parseInt(localStorage.getItem('jackalopes_player_count') || '-1');
+      case 'player_update_ack':
+        this.encoder.acknowledge(message.frame);
+        break;
         
-        // Increment the count for this player
-        globalPlayerCount++;
+      case 'input_ack':
+        this.emit('input_ack', { seq: message.seq, position: message.position, velocity: message.velocity });
+        break;
         
-        // Store the updated count back in localStorage
-        localStorage.setItem('jackalopes_player_count', globalPlayerCount.toString());
-        localStorage.setItem('jackalopes_last_activity', Date.now().toString());
+      case 'pong':
+        this.useServerPong = true;
+        this.handlePong(message);
+        break;
         
-        // Assign this player's index
-        this.playerIndex = globalPlayerCount;
+      case 'game_snapshot':
+        this.recordSnapshot(message.snapshot);
+        this.emit('server_snapshot', message.snapshot);
+        break;
         
-        // Also update the static count to match (for in-tab consistency)
-        ConnectionManager.playerCount = globalPlayerCount;
+      case 'round_state':
+        this.applyRoundState(message.round);
+        break;
         
-        console.error(`⭐ Assigned player index ${this.playerIndex} using localStorage coordination (assigned as ${this.playerIndex % 2 === 0 ? 'JACKALOPE' : 'MERC'})`);
-      } else {
-        console.error(`⭐ Using existing player index ${this.playerIndex} (already assigned)`);
-      }
-    } catch (e) {
-      // Fallback to static count if localStorage fails
-      if (this.playerIndex === -1) {
-        ConnectionManager.playerCount++;
-        this.playerIndex = ConnectionManager.playerCount - 1;
-        console.error(`⭐ Assigned player index ${this.playerIndex} using static count (localStorage failed)`);
-      }
+      case 'team_assignment':
+        this.applyTeamAssignment(message.assignment);
+        break;
+        
+      case 'role_swap':
+        this.log(LogLevel.INFO, `Role swap ${message.status}${message.reason ? `: ${message.reason}` : ''}`);
+        this.emit('role_swap', { status: message.status, reason: message.reason });
+        break;
+        
+      case 'session_list':
+        this.emit('session_list', message.sessions);
+        break;
+        
+      case 'join_failed':
+        this.log(LogLevel.WARN, `Could not join session (${message.reason}): ${message.message}`);
+        // Back to the lobby
+        this.sessionRequest = null;
+        this.emit('join_failed', { reason: message.reason, message: message.message });
+        break;
+        
+      case 'chat':
+        // Offline tabs hear every message, so leave out the other team's
+        if (this.offlineMode && message.channel === 'team' &&
+            this.gameState.players[message.playerId]?.playerType !== this.getAssignedPlayerType()) {
+          break;
+        }
+        this.receiveChat({
+          playerId: message.playerId,
+          playerName: message.playerName,
+          message: message.message,
+          channel: message.channel,
+          timestamp: message.timestamp
+        });
+        break;
+        
+      case 'chat_rejected':
+        this.rejectChat(message.reason, message.retryAfterMs);
+        break;
+        
+      case 'error':
+        this.log(LogLevel.WARN, 'Server reported an error:', message.message);
+        this.emit('server_error', { message: message.message });
+        break;
+    }
+  }
+  
+  // Whether an unnumbered event is new to us. Only events about a shot can be
+  // told apart, so the rest always count as new.
+  private isFirstDelivery(event: GameEventPayload): boolean {
+    if (event.shotId === undefined) return true;
+    
+    const key = `${event.event_type}:${String(event.shotId)}:${String(event.target ?? '')}`;
+    if (this.seenShotEvents.has(key)) return false;
+    
+    this.seenShotEvents.add(key);
+    if (this.seenShotEvents.size > 256) {
+      this.seenShotEvents = new Set(Array.from(this.seenShotEvents).slice(-128));
+    }
+    return true;
+  }
+  
+  // Handle one game event from the server, once (reliable ones in order)
+  private handleGameEvent(event: GameEventPayload): void {
+    const sourceId = event.player || event.player_id;
+    
+    // Ping events only matter for latency, which handleMessage already measured
+    if (event.event_type === 'ping') {
+      return;
+    }
+    
+    this.emit('game_event', event);
+    
+    const healthEvent = decodeHealthEvent(event);
+    if (healthEvent) {
+      this.applyHealthEvent(healthEvent);
+      return;
     }
     
-    this.log(LogLevel.INFO, `Player joining as index #${this.playerIndex} (${this.getPlayerCharacterType().type})`);
+    // The server echoes our own shots back to us; we've already emitted those locally
+    if (event.event_type === 'player_shoot' && sourceId !== this.playerId) {
+      this.emit('player_shoot', {
+        id: sourceId,
+        shotId: event.shotId,
+        origin: event.origin,
+        direction: event.direction,
+        timestamp: event.timestamp || this.now()
+      });
+    }
+  }
+  
+  // Initialize session with the server
+  private initializeSession(): void {
+    this.log(LogLevel.INFO, 'Initializing session...');
+    
+    const playerName = this.playerName;
+    
+    // Coming back from a dropped connection: ask for our old player (same id,
+    // team and health) rather than joining as someone new
+    const resumeToken = this.resumeToken && this.droppedAt !== null && this.now() - this.droppedAt < RESUME_GRACE_MS
+      ? this.resumeToken
+      : undefined;
+    
+    // The server assigns our team when we join the session
+    this.log(LogLevel.INFO, resumeToken
+      ? `Reconnecting as ${playerName}, asking to resume our player`
+      : `Joining as ${playerName}, waiting for team assignment`);
     
     // Try auth first (most common WebSocket server pattern)
+    this.authSent = true;
     this.send({
       type: 'auth',
-      playerName: playerName
+      playerName: playerName,
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: this.binaryEncodingEnabled
+        ? [RELIABLE_EVENTS_CAPABILITY, BINARY_PLAYER_UPDATE_CAPABILITY]
+        : [RELIABLE_EVENTS_CAPABILITY],
+      resumeToken
     });
     
     // As a fallback, also try join_session
     setTimeout(() => {
       // Only send if we're still connected but not authenticated
-      if (this.socket && this.socket.readyState === WebSocket.OPEN && !this.playerId) {
+      if (this.transport?.getState() === 'open' && !this.authenticated && this.sessionRequest) {
         this.log(LogLevel.INFO, 'Auth not successful, trying join_session as fallback...');
-        this.send({
-          type: 'join_session',
-          playerName: playerName,
-          sessionKey: 'JACKALOPES-TEST-SESSION' // Fixed session key for all players
-        });
+        this.requestSession(playerName);
       }
     }, 1000);
     
     // Check connection state after a delay
     setTimeout(() => {
-      if (this.socket && this.socket.readyState === WebSocket.OPEN && !this.playerId) {
-        this.log(LogLevel.INFO, 'Still no player ID after auth attempts, connection may be partially broken');
+      if (this.transport?.getState() === 'open' && !this.authenticated) {
+        this.log(LogLevel.INFO, 'Still not authenticated after auth attempts, connection may be partially broken');
         // Try to reset connection
         this.disconnect();
         setTimeout(() => this.connect(), 1000);
@@ -968,25 +1584,253 @@ export class ConnectionManager extends EventEmitter {
     }, 5000);
   }
 
+  // Send the join/create message for the requested session
+  private requestSession(playerName: string): void {
+    const request = this.sessionRequest;
+    if (!request) return;
+    
+    switch (request.kind) {
+      case 'key':
+        this.send({
+          type: 'join_session',
+          playerName,
+          sessionKey: request.sessionKey,
+          password: request.password,
+          protocolVersion: this.protocolVersion,
+          spectate: request.spectate
+        });
+        break;
+        
+      case 'code':
+        this.send({
+          type: 'join_session',
+          playerName,
+          code: request.code,
+          password: request.password,
+          protocolVersion: this.protocolVersion,
+          spectate: request.spectate
+        });
+        break;
+        
+      case 'create':
+        this.send({ type: 'create_session', ...request.options });
+        break;
+    }
+  }
+  
+  // Stay in the lobby after authenticating instead of joining the default
+  // session. Call before connect().
+  waitInLobby(): void {
+    this.sessionRequest = null;
+  }
+  
+  // Ask for the open sessions. The answer arrives as a `session_list` event.
+  listSessions(): void {
+    if (!this.isReadyToSend() || this.offlineMode) {
+      this.log(LogLevel.INFO, 'Cannot list sessions: not connected to server');
+      return;
+    }
+    
+    this.send({ type: 'list_sessions' });
+  }
+  
+  // Join a session by its share code. Success is reported with `session_joined`,
+  // failure with `join_failed` ({ reason, message }).
+  joinSessionByCode(code: string, password?: string): void {
+    this.sessionRequest = { kind: 'code', code: normalizeSessionCode(code), password: password || undefined };
+    this.sendSessionRequest();
+  }
+  
+  // Watch a session by its share code: we see the players but aren't one, so
+  // nothing we'd send as a player goes out. Reported like joinSessionByCode.
+  spectateSessionByCode(code: string, password?: string): void {
+    this.sessionRequest = { kind: 'code', code: normalizeSessionCode(code), password: password || undefined, spectate: true };
+    this.sendSessionRequest();
+  }
+  
+  isSpectating(): boolean {
+    return this.spectating;
+  }
+  
+  // Create a session and join it
+  createSession(options: CreateSessionOptions): void {
+    this.sessionRequest = { kind: 'create', options: { ...options, password: options.password || undefined } };
+    this.sendSessionRequest();
+  }
+  
+  getCurrentSession(): SessionInfo | null {
+    return this.currentSession;
+  }
+  
+  // Leave the session but stay connected, e.g. to go back to the lobby.
+  // Unlike disconnect(), we won't rejoin it on reconnect.
+  leaveSession(): void {
+    if (!this.currentSession) return;
+    
+    this.sendLeaveSession();
+    this.log(LogLevel.INFO, 'Left session:', this.currentSession.id);
+    this.currentSession = null;
+    this.sessionRequest = null;
+    this.spectating = false;
+    this.stopPresenceInterval();
+    this.presence.clear();
+    this.jitterBuffers.clear();
+    this.emit('session_left');
+  }
+  
+  // When we're about to close the connection, the leave skips the send queue
+  // and the link conditioner: whatever they're holding is about to be dropped.
+  private sendLeaveSession(closing = false): void {
+    if (!this.currentSession || this.offlineMode || this.transport?.getState() !== 'open') return;
+    
+    const message: ClientMessage = { type: 'leave_session' };
+    if (!closing) {
+      this.send(message);
+      return;
+    }
+    this.recorder?.recordOutgoing(message, this.now());
+    this.transmit(this.encoder.encode(message));
+    this.emit('message_sent', message);
+  }
+  
+  // Send a chat message to everyone in the session, or just our team. Returns
+  // false and emits `chat_rejected` ({ reason, retryAfterMs }) if it can't go out.
+  // Messages arrive (including our own) as `chat_message` events.
+  sendChat(message: string, channel: ChatChannel = 'all'): boolean {
+    const text = normalizeChatMessage(message);
+    if (!text) return this.rejectChat('empty');
+    if (text.length > MAX_CHAT_LENGTH) return this.rejectChat('too_long');
+    if (!this.isReadyToSend()) return this.rejectChat('not_connected');
+    
+    const retryAfterMs = this.chatLimiter.take();
+    if (retryAfterMs > 0) return this.rejectChat('rate_limited', retryAfterMs);
+    
+    if (this.offlineMode) {
+      // No server to relay it, so echo it back and pass it to the other tabs
+      const line: ChatLine = {
+        playerId: this.playerId!,
+        playerName: this.playerId!,
+        message: text,
+        channel,
+        timestamp: this.now()
+      };
+      this.receiveChat(line);
+      this.postToPeers({ type: 'chat', player: line.playerId, playerName: line.playerName, message: text, channel, timestamp: line.timestamp });
+      return true;
+    }
+    
+    this.send({ type: 'chat', message: text, channel });
+    return true;
+  }
+  
+  mutePlayer(id: string): void {
+    this.mutedPlayers.add(id);
+    this.emit('chat_mutes_changed', this.getMutedPlayers());
+  }
+  
+  unmutePlayer(id: string): void {
+    this.mutedPlayers.delete(id);
+    this.emit('chat_mutes_changed', this.getMutedPlayers());
+  }
+  
+  isPlayerMuted(id: string): boolean {
+    return this.mutedPlayers.has(id);
+  }
+  
+  getMutedPlayers(): string[] {
+    return Array.from(this.mutedPlayers);
+  }
+  
+  private receiveChat(line: ChatLine): void {
+    if (this.mutedPlayers.has(line.playerId)) return;
+    this.emit('chat_message', line);
+  }
+  
+  private rejectChat(reason: ChatRejectReason, retryAfterMs?: number): false {
+    this.log(LogLevel.INFO, `Chat message not sent (${reason})`);
+    this.emit('chat_rejected', { reason, retryAfterMs });
+    return false;
+  }
+  
+  // Send the request now if we're authenticated; otherwise it goes out after auth
+  private sendSessionRequest(): void {
+    if (this.isReadyToSend() && !this.offlineMode) {
+      this.requestSession(this.playerId!);
+    } else if (!this.transport) {
+      this.connect();
+    }
+  }
+  
+  // Without a server to assign teams (offline, or a server that predates team
+  // assignment), join whichever side has fewer of the given players (by
+  // default everyone we know about). Ties go to the jackalopes, as on the server.
+  private assignLocalPlayerIndex(ids: string[] = Object.keys(this.gameState.players)): void {
+    const others = ids
+      .filter(id => id !== this.playerId && this.gameState.players[id])
+      .map(id => this.gameState.players[id]);
+    const jackalopes = others.filter(player => player.playerType === 'jackalope').length;
+    const mercs = others.length - jackalopes;
+    
+    // Even indexes are jackalopes, odd ones mercs
+    const index = others.length;
+    const wantJackalope = jackalopes <= mercs;
+    this.playerIndex = wantJackalope === (index % 2 === 0) ? index : index + 1;
+    
+    console.error(`⭐ Assigned player index ${this.playerIndex} against ${jackalopes} jackalope(s) and ${mercs} merc(s) (assigned as ${wantJackalope ? 'JACKALOPE' : 'MERC'})`);
+  }
+  
+  // Take the team the server gave us
+  private applyTeamAssignment(assignment: TeamAssignment): void {
+    const previousType = this.playerIndex >= 0 ? this.getPlayerCharacterType().type : null;
+    
+    this.teamAssignment = assignment;
+    this.playerIndex = assignment.index;
+    this.log(LogLevel.INFO, `Server assigned team ${assignment.team} (index #${assignment.index})`);
+    
+    const characterInfo = this.getPlayerCharacterType();
+    if (characterInfo.type !== previousType) {
+      this.playerType = characterInfo.type;
+      this.emit('role_changed', characterInfo);
+    }
+  }
+  
+  getTeamAssignment(): TeamAssignment | null {
+    return this.teamAssignment;
+  }
+  
+  // Ask to play on the other team. The answer arrives as a `role_swap` event
+  // ({ status, reason }). Offline we just switch.
+  requestRoleSwap(): void {
+    if (this.offlineMode) {
+      const characterInfo = this.forceCharacterType(this.getAssignedPlayerType() === 'merc' ? 'jackalope' : 'merc');
+      this.playerType = characterInfo.type;
+      this.emit('role_changed', characterInfo);
+      this.emit('role_swap', { status: 'granted' });
+      return;
+    }
+    
+    if (!this.isReadyToSend()) {
+      this.log(LogLevel.INFO, 'Cannot request role swap: not connected to server');
+      return;
+    }
+    
+    this.send({ type: 'role_swap_request' });
+  }
+  
   // Add a public method to get player character type based on connection order
   getPlayerCharacterType(): { type: 'merc' | 'jackalope', thirdPerson: boolean } {
+    // During a hunt mode match the server decides the sides
+    const roundRole = this.getRoundRole();
+    if (roundRole) {
+      return { type: roundRole, thirdPerson: roundRole === 'jackalope' };
+    }
+    
     // Log with high visibility
     console.error(`⭐ Getting character type for player index ${this.playerIndex}`);
     
     // Fallback to a valid index if somehow playerIndex is still -1
     const index = this.playerIndex >= 0 ? this.playerIndex : 0;
     
-    // First force the local storage to be set for cross-tab coordination
-    // This will ensure player assignments are consistent across tabs/browsers
-    try {
-      const storedCount = localStorage.getItem('jackalopes_player_count');
-      if (!storedCount || parseInt(storedCount) < index) {
-        localStorage.setItem('jackalopes_player_count', index.toString());
-      }
-    } catch (e) {
-      // Ignore localStorage errors
-    }
-    
     // Even indexes (0, 2, 4...) = Jackalope in third-person
     // Odd indexes (1, 3, 5...) = Merc in first-person
     if (index % 2 === 0) {
@@ -1016,51 +1860,65 @@ export class ConnectionManager extends EventEmitter {
 
   // Add a method to get just the player type (for MultiplayerManager)
   getAssignedPlayerType(): 'merc' | 'jackalope' {
+    const roundRole = this.getRoundRole();
+    if (roundRole) return roundRole;
+    
     const index = this.playerIndex >= 0 ? this.playerIndex : 0;
     return index % 2 === 0 ? 'jackalope' : 'merc';
   }
 
-  // Add a method to reset the localStorage player count (for testing)
-  resetPlayerCount(): void {
-    try {
-      // Save the old value for logging
-      const oldValue = localStorage.getItem('jackalopes_player_count');
-      
-      // Clear all localStorage keys related to player counts
-      localStorage.removeItem('jackalopes_player_count');
-      localStorage.removeItem('jackalopes_last_activity');
-      
-      // Force active sessions to use index 0 next time
-      localStorage.setItem('jackalopes_player_count', '-1');
-      
-      // Reset internal counters
-      ConnectionManager.playerCount = -1;
-      this.playerIndex = -1;
-      
-      console.error('⭐ Reset player count in localStorage and static variable');
-      console.error('⭐ Next player to join will be index 0 (JACKALOPE)');
-      
-      // Dispatch a custom event to trigger listeners in this tab
-      // The 'storage' event only fires in other tabs, not the current one
-      try {
-        window.dispatchEvent(new CustomEvent('jackalopes_playercount_reset', {
-          detail: { oldValue, newValue: '-1' }
-        }));
-      } catch (e) {
-        console.error('Failed to dispatch custom event:', e);
-      }
-    } catch (e) {
-      console.error('⭐ Failed to reset player count in localStorage:', e);
+  getRoundState(): RoundState {
+    return this.roundState;
+  }
+  
+  // Milliseconds left in the current round phase, counted down locally
+  getRoundTimeRemaining(): number {
+    if (this.roundState.phase === 'waiting') return 0;
+    return Math.max(0, this.roundPhaseEndsAt - this.now());
+  }
+  
+  // Our side in the current round, if we're playing in it
+  private getRoundRole(): PlayerType | null {
+    return (this.playerId && this.roundState.roles[this.playerId]) || null;
+  }
+  
+  private applyRoundState(round: RoundState): void {
+    const previousRole = this.getRoundRole();
+    
+    this.roundState = round;
+    // With synced clocks every client's timer runs out together, whatever the
+    // message's trip took
+    this.roundPhaseEndsAt = round.endsAt !== undefined && this.clock.isSynced()
+      ? this.clock.toLocalTime(round.endsAt)
+      : this.now() + round.remainingMs;
+    this.emit('round_state', round);
+    
+    // Sides swap between rounds - tell the game to switch character
+    const role = this.getRoundRole();
+    if (role && role !== previousRole) {
+      this.log(LogLevel.INFO, `Round ${round.round}: playing as ${role}`);
+      this.playerType = role;
+      this.emit('role_changed', this.getPlayerCharacterType());
     }
   }
-
-  // Add a method to check if we need to reset the player count
-  private shouldResetPlayerCount(): boolean {
-    const now = Date.now();
-    const lastActivity = parseInt(localStorage.getItem('jackalopes_last_activity') || '0');
-    const inactivityDuration = now - lastActivity;
-    const resetDuration = 5 * 60 * 1000; // 5 minutes in milliseconds
-    return inactivityDuration > resetDuration;
+  
+  // Offline, switch to the smaller team if we aren't on it already, e.g.
+  // after other tabs have come and gone. Online the server decides.
+  rebalanceOfflineTeam(): void {
+    this.switchToSmallerTeam(Object.keys(this.gameState.players));
+  }
+  
+  private switchToSmallerTeam(ids: string[]): void {
+    if (!this.offlineMode || this.teamAssignment) return;
+    
+    const previousType = this.getAssignedPlayerType();
+    this.assignLocalPlayerIndex(ids);
+    
+    const characterInfo = this.getPlayerCharacterType();
+    if (characterInfo.type !== previousType) {
+      this.playerType = characterInfo.type;
+      this.emit('role_changed', characterInfo);
+    }
   }
 
   // Add after the getLatency method
@@ -1072,9 +1930,21 @@ export class ConnectionManager extends EventEmitter {
 
   private handleDisconnect(): void {
     this.isConnected = false;
+    this.authenticated = false;
+    this.currentSession = null;
+    // The server holds our place for a while, see initializeSession
+    if (this.droppedAt === null) {
+      this.droppedAt = this.now();
+    }
     this.emit('disconnected');
     this.log(LogLevel.INFO, 'Disconnected from server');
     
+    // Anything still delayed belongs to the old socket
+    this.sendQueue.clear();
+    this.outgoingLink.clear();
+    this.incomingLink.clear();
+    this.stopEventTimers();
+    
     // Stop ping interval
     this.stopPingInterval();
     
@@ -1091,13 +1961,13 @@ export class ConnectionManager extends EventEmitter {
     }
   }
 
-  private handleError(error: Event): void {
-    this.log(LogLevel.ERROR, 'WebSocket error:', error);
+  private handleError(error: unknown): void {
+    this.log(LogLevel.ERROR, 'Transport error:', error);
     // Don't emit error if we're not connected yet - this is expected if server isn't running
     if (this.isConnected) {
       this.emit('error', error);
     } else {
-      this.log(LogLevel.INFO, 'WebSocket connection failed - server might not be running');
+      this.log(LogLevel.INFO, 'Connection failed - server might not be running');
     }
   }
 
@@ -1113,30 +1983,58 @@ export class ConnectionManager extends EventEmitter {
     return this.serverUrl;
   }
 
+  // Point at another server, e.g. a game hosted in a browser tab
+  // (peer://CODE). Used from the next connect(); disconnect() first.
+  setServerUrl(url: string): void {
+    this.serverUrl = url;
+  }
+
+  // Name to join under. Call before connect().
+  setPlayerName(name: string): void {
+    this.playerName = name;
+  }
+  
   // Get the player ID
   getPlayerId(): string | null {
     return this.playerId;
   }
 
+  // Get the wire protocol version agreed with the server
+  getProtocolVersion(): number {
+    return this.protocolVersion;
+  }
+
+  // Get the encoding currently used for player updates ('json' or 'binary')
+  getEncoding(): MessageEncoder['name'] {
+    return this.encoder.name;
+  }
+
+  // Allow or forbid binary player updates. Takes effect on the next auth.
+  setBinaryEncodingEnabled(enabled: boolean): void {
+    this.binaryEncodingEnabled = enabled;
+  }
+
   // Check if the player is connected
   isPlayerConnected(): boolean {
     return this.isConnected;
   }
 
-  // Get socket state string
+  // Get the transport's state as a string, e.g. for debug panels
   getSocketState(): string {
-    if (!this.socket) return 'NO_SOCKET';
-    const stateMap = ['CONNECTING', 'OPEN', 'CLOSING', 'CLOSED'];
-    return stateMap[this.socket.readyState] || 'UNKNOWN';
+    if (!this.transport) return 'NO_SOCKET';
+    return this.transport.getState().toUpperCase();
   }
 
   // Public wrapper for send method
-  sendMessage(data: any): void {
+  sendMessage(data: ClientMessage): void {
     this.send(data);
   }
 
   // Send a game snapshot
   sendGameSnapshot(snapshot: GameSnapshot): void {
+    // Keep it even if we can't send it, so offline play still has a history
+    this.recordSnapshot(snapshot);
+    
     if (!this.isReadyToSend()) {
       this.log(LogLevel.INFO, 'Cannot send game snapshot: not connected to server');
       return;
@@ -1148,11 +2046,201 @@ export class ConnectionManager extends EventEmitter {
     });
   }
 
-  // Get snapshot at time (stub for compatibility)
+  // Add a snapshot to the history without sending it
+  recordSnapshot(snapshot: GameSnapshot): void {
+    this.snapshots.add(snapshot);
+    this.emit('snapshot_recorded', snapshot);
+  }
+
+  // The world at `timestamp`, interpolated from the snapshot history.
+  // Clamps to the oldest/newest snapshot; null only if there's no history yet.
   getSnapshotAtTime(timestamp: number): GameSnapshot | null {
-    return null;
+    return this.snapshots.getSnapshotAtTime(timestamp);
+  }
+
+  // All retained snapshots, oldest first
+  getSnapshots(): GameSnapshot[] {
+    return this.snapshots.toArray();
+  }
+
+  getSnapshotRetention(): SnapshotRetention {
+    return this.snapshots.getRetention();
+  }
+
+  setSnapshotRetention(retention: Partial<SnapshotRetention>): void {
+    this.snapshots.setRetention(retention);
   }
 
+  // How long a remote player can go quiet before they're marked stale, and
+  // before they're removed
+  getPlayerTimeouts(): PlayerTimeouts {
+    return this.presence.getTimeouts();
+  }
+  
+  setPlayerTimeouts(timeouts: Partial<PlayerTimeouts>): void {
+    this.presence.setTimeouts(timeouts);
+  }
+  
+  // When a remote player went stale (no updates for a while), or null if they're active
+  getPlayerStaleSince(id: string): number | null {
+    return this.presence.getStaleSince(id);
+  }
+  
+  private markPlayerHeard(id: string): void {
+    if (this.presence.heard(id, this.now())) {
+      this.log(LogLevel.INFO, `Player ${id} is sending updates again`);
+      this.emit('player_active', { id });
+    }
+    
+    if (this.presenceInterval === null) {
+      this.presenceInterval = setInterval(() => this.checkPlayerPresence(), 500);
+    }
+  }
+  
+  // Mark quiet players stale, and drop the ones that have been quiet too long
+  private checkPlayerPresence(): void {
+    const { stale, timedOut } = this.presence.sweep(this.now());
+    
+    stale.forEach(id => {
+      this.log(LogLevel.INFO, `Player ${id} has gone quiet, marking stale`);
+      this.emit('player_stale', { id, since: this.presence.getStaleSince(id) });
+    });
+    
+    timedOut.forEach(id => {
+      this.log(LogLevel.INFO, `Player ${id} timed out`);
+      delete this.gameState.players[id];
+      this.jitterBuffers.delete(id);
+      this.emit('player_left', { id, reason: 'timeout' });
+    });
+  }
+  
+  // Make the connection behave like a worse network, for testing netcode
+  // locally. Applies to both directions, so latency is added twice to the
+  // round trip. Ignored outside development builds.
+  setLinkConditions(conditions: Partial<LinkConditions>): void {
+    if (!import.meta.env.DEV) return;
+    
+    this.outgoingLink.setConditions(conditions);
+    this.incomingLink.setConditions(conditions);
+    this.emit('link_conditions', this.getLinkConditions());
+  }
+  
+  setLinkPreset(preset: LinkPreset): void {
+    this.setLinkConditions(LINK_PRESETS[preset]);
+  }
+  
+  getLinkConditions(): LinkConditions {
+    return this.outgoingLink.getConditions();
+  }
+  
+  getLinkStats(): { outgoing: LinkStats, incoming: LinkStats } {
+    return {
+      outgoing: this.outgoingLink.getStats(),
+      incoming: this.incomingLink.getStats()
+    };
+  }
+  
+  // Outgoing queue depth, backlog and what was coalesced or dropped
+  getSendQueueStats(): SendQueueStats {
+    return this.sendQueue.getStats();
+  }
+  
+  // The time as this connection sees it: the wall clock, or a replay's
+  now(): number {
+    return this.timeSource();
+  }
+  
+  // Record everything sent and received from now on, for a bug report (see
+  // recording.ts). Starting again throws away what was recorded so far.
+  startRecording(options: Partial<RecorderOptions> = {}): void {
+    const players = { ...this.gameState.players };
+    if (this.playerId) delete players[this.playerId];
+    
+    this.recorder = new SessionRecorder(this.now(), this.serverUrl, {
+      playerId: this.playerId,
+      playerName: this.playerName,
+      session: this.currentSession,
+      players
+    }, options);
+    this.log(LogLevel.INFO, 'Recording the session');
+    this.emit('recording_started');
+  }
+  
+  // Stop recording and hand back what was recorded, or null if we weren't
+  stopRecording(): SessionRecording | null {
+    if (!this.recorder) return null;
+    
+    const recording = this.recorder.finish(this.now());
+    this.recorder = null;
+    this.log(LogLevel.INFO, `Recorded ${recording.entries.length} entries over ${Math.round(recording.duration / 1000)}s`);
+    this.emit('recording_stopped', recording);
+    return recording;
+  }
+  
+  // How far a recording in progress has got, or null if we're not recording
+  getRecordingProgress(): { entries: number, duration: number, truncated: boolean } | null {
+    if (!this.recorder) return null;
+    
+    return {
+      entries: this.recorder.getEntryCount(),
+      duration: this.recorder.getDuration(this.now()),
+      truncated: this.recorder.isTruncated()
+    };
+  }
+  
+  private bufferRemoteTransform(id: string, sentAt: number, position: Vec3, rotation: Quat, velocity?: Vec3): void {
+    let buffer = this.jitterBuffers.get(id);
+    if (!buffer) {
+      buffer = new JitterBuffer();
+      this.jitterBuffers.set(id, buffer);
+    }
+    buffer.push(sentAt, position, rotation, velocity, this.now());
+  }
+  
+  // Where to draw a remote player at local time `now`, interpolated a little
+  // in the past to hide jitter. Null if we haven't had an update from them.
+  sampleRemotePlayer(id: string, now: number = this.now(), limit?: ExtrapolationLimit): InterpolatedTransform | null {
+    return this.jitterBuffers.get(id)?.sample(now, limit) ?? null;
+  }
+  
+  // Everyone else in the session, as last heard from
+  getRemotePlayers(): Record<string, PlayerState> {
+    const players = { ...this.gameState.players };
+    if (this.playerId) delete players[this.playerId];
+    return players;
+  }
+  
+  // Remote players we have updates for, i.e. the ones sampleRemotePlayer can place
+  getRemotePlayerIds(): string[] {
+    return Array.from(this.jitterBuffers.keys());
+  }
+  
+  getJitterBufferStats(): Record<string, JitterBufferStats> {
+    const stats: Record<string, JitterBufferStats> = {};
+    this.jitterBuffers.forEach((buffer, id) => {
+      stats[id] = buffer.getStats();
+    });
+    return stats;
+  }
+  
+  // How far behind remote players are drawn on average, for lag compensation
+  getInterpolationDelay(): number {
+    if (this.jitterBuffers.size === 0) return INTERPOLATION_DELAY_MS;
+    
+    let total = 0;
+    this.jitterBuffers.forEach(buffer => {
+      total += buffer.getDelay();
+    });
+    return total / this.jitterBuffers.size;
+  }
+  
+  private stopPresenceInterval(): void {
+    if (this.presenceInterval !== null) {
+      clearInterval(this.presenceInterval);
+      this.presenceInterval = null;
+    }
+  }
+  
   // Get player index for client-side logic
   getPlayerIndex(): number {
     return this.playerIndex;
@@ -0,0 +1,1129 @@
+// Authoritative game host that runs in a player's browser tab.
+//
+// The relay server (jackalopes-server/server.js) takes clients' word for
+// where they are. For small private or LAN games with no server at all, one
+// player's tab runs a GameHost next to their own game, and everyone -
+// including that player - connects to it as if it were the server. It speaks
+// the same protocol, so ConnectionManager only needs a transport to reach it,
+// but it keeps its own Rapier world of the level (game/level.ts) and decides
+// for itself:
+//
+// - Movement: player_input is replayed through the same movement code the
+//   clients predict with (game/movement.ts), and input_ack carries where the
+//   host put the player. Clients that only send player_update (bots) are held
+//   to a top speed and kept inside the arena.
+// - Shots have to start where the shooter is and come no faster than the
+//   weapon fires. Reported hits are checked against the host's own history of
+//   where everyone was (lagCompensation.ts) and against the level, and only
+//   then turned into damage.
+// - Each tick, players' authoritative states go out to the others as
+//   player_update, which is how clients already hear about each other. Who
+//   gets whose, and how often, is up to interest management (interest.ts).
+//
+// A host runs one session, keyed by its share code, with fixed teams and no
+// hunt mode rounds. Spectators can join it to watch. Connections arrive as
+// Transports: PeerHostListener brings in other tabs of this browser, and
+// anything else that can carry the protocol (a WebRTC data channel, a
+// loopback in tests) can be accept()ed.
+
+import RAPIER from '@dimforge/rapier3d-compat';
+import {
+  CollideFn,
+  JackalopeMovementParams,
+  MercMovementParams,
+  MovementInput,
+  MovementState,
+  createMovementState,
+  stepJackalopeMovement,
+  stepMercMovement
+} from '../game/movement';
+import { ARENA_HALF_SIZE, LEVEL_COLLIDERS, SPAWN_POSITION } from '../game/level';
+import { ChatRateLimiter, MAX_CHAT_LENGTH, normalizeChatMessage } from './chat';
+import { HIT_REPORT_WINDOW_MS, MAX_HEALTH, RESPAWN_DELAY_MS, applyDamage, canBeDamaged } from './damage';
+import { DEFAULT_INTEREST_OPTIONS, InterestManager, InterestOptions, InterestSubject, yawFromQuat } from './interest';
+import { DEFAULT_JITTER_BUFFER_OPTIONS } from './JitterBuffer';
+import { LagCompensatedHit, fireballPositionAt, validateShot } from './lagCompensation';
+import {
+  ClientMessage,
+  GameEventPayload,
+  InputCommand,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  PlayerSnapshot,
+  PlayerType,
+  PlayerUpdateState,
+  ProtocolError,
+  Quat,
+  ServerMessageType,
+  Vec3,
+  isQuat,
+  isVec3,
+  parseClientMessage
+} from './protocol';
+import { RELIABLE_EVENTS_CAPABILITY, ReliableReceiver, ReliableSender } from './reliable';
+import { MAX_SESSION_NAME_LENGTH, MAX_SESSION_PLAYERS, MAX_SESSION_SPECTATORS, normalizeSessionCode } from './sessions';
+import { SnapshotBuffer } from './SnapshotBuffer';
+import { Transport, TransportPayload } from './transport';
+import { ClientValidator, DEFAULT_VALIDATION_OPTIONS, ValidationOptions, ValidationStats, Violation } from './validation';
+
+export interface GameHostOptions {
+  // Share code players join with, also the session's key
+  code: string;
+  name: string;
+  maxPlayers: number;
+  // How often players' states go out, in ms
+  tickMs: number;
+  // What the clients move with - App.tsx gives Player and Jackalope the same
+  merc: MercMovementParams;
+  jackalope: JackalopeMovementParams;
+  // Seconds of movement a player may bank, e.g. inputs held up by a stall.
+  // Past that, inputs arriving faster than real time are dropped.
+  maxInputBurstS: number;
+  // What reported positions and shots are held to, and what happens to
+  // players who break the rules. The merc's movement comes from `merc`.
+  validation: ValidationOptions;
+  // Longest round trip to the host that reported hits are rewound for.
+  // Players' own round trips, as their pings report them, are capped at this.
+  maxRewindMs: number;
+  // Connections that send nothing for this long are dropped. Clients send a
+  // keepalive every 30 seconds even in the lobby.
+  idleTimeoutMs: number;
+  // How player updates are rationed between receivers
+  interest: InterestOptions;
+}
+
+export const DEFAULT_GAME_HOST_OPTIONS: GameHostOptions = {
+  code: '',
+  name: 'Browser game',
+  maxPlayers: MAX_SESSION_PLAYERS,
+  tickMs: 50,
+  merc: { walkSpeed: 0.02, runSpeed: 0.025, jumpForce: 0.6 },
+  jackalope: { jumpForce: 0.75 },
+  maxInputBurstS: 1,
+  validation: DEFAULT_VALIDATION_OPTIONS,
+  maxRewindMs: 300,
+  idleTimeoutMs: 35000,
+  interest: DEFAULT_INTEREST_OPTIONS
+};
+
+export interface GameHostStats {
+  connections: number;
+  players: number;
+  messagesIn: number;
+  messagesOut: number;
+  // Input steps dropped for running ahead of real time
+  droppedInputs: number;
+  // Reported positions pulled back to what the player could have reached
+  clampedUpdates: number;
+  rejectedShots: number;
+  // Players disconnected for breaking the validation rules
+  kicks: number;
+  rejectedHits: number;
+  hits: number;
+  // player_update messages sent, out of the ones a plain relay would have sent
+  playerUpdates: number;
+  relayUpdates: number;
+}
+
+// Messages go out in the shapes server.js sends, which is what the client's
+// decoders read; ServerMessage in protocol.ts is the shape after decoding
+type WireMessage = { type: ServerMessageType; [key: string]: unknown };
+
+// Shortest and longest steps a client takes: a physics step at 240 Hz, and a
+// long frame. Every step costs at least the first, and can't claim more than
+// the second.
+const MIN_INPUT_DT = 1 / 240;
+const MAX_INPUT_DT = 0.1;
+
+// Players are kept this far inside the arena walls, and below this height
+const ARENA_LIMIT = ARENA_HALF_SIZE - 1;
+const MAX_HEIGHT = 50;
+
+// Players' states are re-sent at least this often even if nothing changed,
+// so clients don't take them for gone (see presence.ts)
+const IDLE_UPDATE_MS = 1000;
+
+// Hits are tried at the shooter's round trip give or take this, in steps of
+// REWIND_STEP_MS, for the round trip having changed since they measured it
+const REWIND_WINDOW_MS = 50;
+const REWIND_STEP_MS = 25;
+
+// Fireball flight is checked against the level in steps this long
+const OCCLUSION_STEP_S = 1 / 60;
+
+// Rewind history: more than the longest flight plus the longest rewind
+const HISTORY_RETENTION = { maxSnapshots: 120, maxAgeMs: 5000 };
+
+// Character controllers, matching the components in game/player.tsx and game/jackalope.tsx
+const CHARACTER_OFFSET = 0.1;
+const MERC_AUTOSTEP = { maxHeight: 2, minWidth: 0.05, snapToGround: 0.1 };
+const JACKALOPE_AUTOSTEP = { maxHeight: 0.5, minWidth: 0.05, snapToGround: 0.5 };
+const CAPSULE_HALF_HEIGHT = 1;
+const CAPSULE_RADIUS = 0.5;
+const JACKALOPE_CAPSULE_OFFSET_Y = -0.28;
+
+interface HostedShot {
+  attacker: string;
+  time: number;
+  origin: Vec3;
+  direction: Vec3;
+  targets: Set<string>;
+}
+
+// One connection, and the player on it once it has authenticated
+interface HostedPlayer {
+  transport: Transport;
+  id: string | null;
+  name: string;
+  capabilities: string[];
+  protocolVersion: number;
+  joined: boolean;
+  // Joined to watch: no body, team or health, and nothing they send as a
+  // player counts
+  spectator: boolean;
+  team: PlayerType;
+  index: number;
+  health: number;
+  lastHeard: number;
+  // What they last reported in a ping, for rewinding their hits
+  rtt: number;
+  interpolationDelay: number | undefined;
+
+  // Where the host has the player
+  body: RAPIER.RigidBody | null;
+  collider: RAPIER.Collider | null;
+  movement: MovementState;
+  rotation: Quat;
+  // Until the first input or update, we don't know where the player is
+  placed: boolean;
+
+  // Highest input applied, the movement time they have left to spend, and
+  // when it was last topped up
+  inputSeq: number;
+  inputBudget: number;
+  inputClock: number;
+  ackInput: boolean;
+
+  // Where they look, from their inputs, for interest management
+  lookYaw: number | null;
+
+  // The newest state for the others, bumping updateVersion when it changes
+  sentPosition: Vec3 | null;
+  sentRotation: Quat | null;
+  sentAt: number;
+  update: WireMessage | null;
+  updateVersion: number;
+
+  eventSender: ReliableSender<GameEventPayload>;
+  eventReceiver: ReliableReceiver<GameEventPayload>;
+  ackEvents: boolean;
+  chatLimiter: ChatRateLimiter;
+}
+
+const distance = (a: Vec3, b: Vec3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Only the level blocks movement and fireballs on the host. Level colliders
+// have no body, players' are on kinematic bodies. (Not QueryFilterFlags: in
+// rapier3d-compat 0.11 the flags don't exclude what their names say.)
+const isLevel = (collider: RAPIER.Collider) => collider.parent() === null;
+
+const toVec3 = (v: { x: number, y: number, z: number }): Vec3 => [v.x, v.y, v.z];
+
+const clampToArena = (position: Vec3): Vec3 => [
+  clamp(position[0], -ARENA_LIMIT, ARENA_LIMIT),
+  clamp(position[1], 0, MAX_HEIGHT),
+  clamp(position[2], -ARENA_LIMIT, ARENA_LIMIT)
+];
+
+export class GameHost {
+  private options: GameHostOptions;
+  private world: RAPIER.World;
+  private mercController: RAPIER.KinematicCharacterController;
+  private jackalopeController: RAPIER.KinematicCharacterController;
+  private players = new Set<HostedPlayer>();
+  private shots = new Map<string, HostedShot>();
+  private interest: InterestManager;
+  private validator: ClientValidator;
+  private history = new SnapshotBuffer(HISTORY_RETENTION);
+  private respawnTimers = new Set<ReturnType<typeof setTimeout>>();
+  private tickInterval: ReturnType<typeof setInterval> | null = null;
+  private lastTickAt = 0;
+  private snapshotSequence = 0;
+  private sessionId = `host_${Math.random().toString(36).substring(2, 11)}`;
+  private stats: GameHostStats = {
+    connections: 0,
+    players: 0,
+    messagesIn: 0,
+    messagesOut: 0,
+    droppedInputs: 0,
+    clampedUpdates: 0,
+    rejectedShots: 0,
+    kicks: 0,
+    rejectedHits: 0,
+    hits: 0,
+    playerUpdates: 0,
+    relayUpdates: 0
+  };
+
+  // Rapier has to load before there's a world to build, hence the factory
+  static async create(options: Partial<GameHostOptions> = {}): Promise<GameHost> {
+    await RAPIER.init();
+    return new GameHost(options);
+  }
+
+  private constructor(options: Partial<GameHostOptions>) {
+    this.options = { ...DEFAULT_GAME_HOST_OPTIONS, ...options };
+    this.options.code = normalizeSessionCode(this.options.code);
+    this.options.name = this.options.name.slice(0, MAX_SESSION_NAME_LENGTH);
+    this.interest = new InterestManager(this.options.interest);
+    this.validator = new ClientValidator({
+      ...this.options.validation,
+      merc: this.options.merc,
+      onViolation: violation => this.reportViolation(violation)
+    });
+
+    // Nothing is ever stepped: the level is static and players are moved by
+    // their character controllers, so gravity only lives in movement.ts
+    this.world = new RAPIER.World({ x: 0, y: 0, z: 0 });
+    LEVEL_COLLIDERS.forEach(({ position, halfExtents }) => {
+      this.world.createCollider(
+        RAPIER.ColliderDesc.cuboid(...halfExtents).setTranslation(...position)
+      );
+    });
+    this.world.updateSceneQueries();
+
+    this.mercController = this.createController(MERC_AUTOSTEP);
+    this.jackalopeController = this.createController(JACKALOPE_AUTOSTEP);
+
+    this.lastTickAt = Date.now();
+    this.tickInterval = setInterval(() => this.tick(), this.options.tickMs);
+  }
+
+  getCode(): string {
+    return this.options.code;
+  }
+
+  getValidationStats(): ValidationStats {
+    return this.validator.getStats();
+  }
+
+  getStats(): GameHostStats {
+    return {
+      ...this.stats,
+      connections: this.players.size,
+      players: this.getJoined().length
+    };
+  }
+
+  // Take a new connection. The host opens it and greets the client like the
+  // server does; the client authenticates and joins from there.
+  accept(transport: Transport): void {
+    const now = Date.now();
+    const player: HostedPlayer = {
+      transport,
+      id: null,
+      name: '',
+      capabilities: [],
+      protocolVersion: PROTOCOL_VERSION,
+      joined: false,
+      spectator: false,
+      team: 'jackalope',
+      index: -1,
+      health: MAX_HEALTH,
+      lastHeard: now,
+      body: null,
+      collider: null,
+      movement: createMovementState(),
+      rotation: [0, 0, 0, 1],
+      placed: false,
+      rtt: 0,
+      interpolationDelay: undefined,
+      inputSeq: 0,
+      inputBudget: this.options.maxInputBurstS,
+      inputClock: now,
+      ackInput: false,
+      lookYaw: null,
+      sentPosition: null,
+      sentRotation: null,
+      sentAt: 0,
+      update: null,
+      updateVersion: 0,
+      eventSender: new ReliableSender(),
+      eventReceiver: new ReliableReceiver(),
+      ackEvents: false,
+      chatLimiter: new ChatRateLimiter()
+    };
+    this.players.add(player);
+
+    transport.open({
+      onOpen: () => this.send(player, {
+        type: 'welcome',
+        server: 'Jackalopes browser host',
+        timestamp: Date.now(),
+        protocolVersion: PROTOCOL_VERSION
+      }),
+      onClose: () => this.drop(player),
+      onError: (error) => console.warn(`Game host: connection error for ${player.id ?? 'new player'}`, error),
+      onMessage: (data) => this.receive(player, data)
+    });
+  }
+
+  // Close every connection and free the physics world
+  stop(): void {
+    if (this.tickInterval !== null) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+    this.respawnTimers.forEach(timer => clearTimeout(timer));
+    this.respawnTimers.clear();
+
+    this.players.forEach(player => player.transport.close());
+    this.players.clear();
+    this.shots.clear();
+    this.history.clear();
+    this.world.free();
+  }
+
+  private createController(settings: { maxHeight: number, minWidth: number, snapToGround: number }): RAPIER.KinematicCharacterController {
+    const controller = this.world.createCharacterController(CHARACTER_OFFSET);
+    controller.enableAutostep(settings.maxHeight, settings.minWidth, true);
+    controller.setSlideEnabled(true);
+    controller.enableSnapToGround(settings.snapToGround);
+    return controller;
+  }
+
+  private receive(player: HostedPlayer, data: TransportPayload): void {
+    player.lastHeard = Date.now();
+    this.stats.messagesIn++;
+
+    // We never offer binary player updates
+    if (typeof data !== 'string') return;
+
+    let message: ClientMessage;
+    try {
+      message = parseClientMessage(data);
+    } catch (error) {
+      if (error instanceof ProtocolError) {
+        this.send(player, { type: 'error', message: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    this.handleMessage(player, message);
+  }
+
+  private handleMessage(player: HostedPlayer, message: ClientMessage): void {
+    const now = Date.now();
+
+    switch (message.type) {
+      case 'auth':
+        this.authenticate(player, message.playerName, message.protocolVersion, message.capabilities ?? []);
+        break;
+
+      case 'join_session': {
+        const code = normalizeSessionCode(message.code ?? message.sessionKey ?? '');
+        if (code !== this.options.code) {
+          this.send(player, { type: 'join_failed', reason: 'not_found', message: `No game with code ${code} here` });
+          break;
+        }
+        this.join(player, message.spectate === true);
+        break;
+      }
+
+      case 'create_session':
+        this.send(player, {
+          type: 'join_failed',
+          reason: 'not_found',
+          message: `This browser hosts a single game - join it with code ${this.options.code}`
+        });
+        break;
+
+      case 'list_sessions':
+        this.send(player, {
+          type: 'session_list',
+          sessions: [{
+            code: this.options.code,
+            name: this.options.name,
+            players: this.getJoined().length,
+            maxPlayers: this.options.maxPlayers,
+            locked: false,
+            phase: 'waiting'
+          }]
+        });
+        break;
+
+      case 'player_update':
+        if (player.joined && !player.spectator) this.applyUpdate(player, message.state, now);
+        break;
+
+      case 'player_input':
+        if (player.joined && !player.spectator) this.applyInputs(player, message.inputs, message.state.position, now);
+        break;
+
+      case 'game_event':
+        if (!player.joined || player.spectator) break;
+        if (message.seq !== undefined && player.capabilities.includes(RELIABLE_EVENTS_CAPABILITY)) {
+          player.eventReceiver.receive(message.seq, message.event).forEach(event => this.applyEvent(player, event));
+          // Duplicates are acked too, in case it was our ack that went missing
+          player.ackEvents = true;
+          break;
+        }
+        this.applyEvent(player, message.event);
+        break;
+
+      case 'event_ack':
+        player.eventSender.ack(message.seq);
+        break;
+
+      case 'ping':
+        this.send(player, { type: 'pong', timestamp: message.timestamp, serverTime: now });
+        if (message.rtt !== undefined) {
+          player.rtt = clamp(message.rtt, 0, this.options.maxRewindMs);
+        }
+        if (message.interpolationDelay !== undefined) {
+          const { minDelayMs, maxDelayMs } = DEFAULT_JITTER_BUFFER_OPTIONS;
+          player.interpolationDelay = clamp(message.interpolationDelay, minDelayMs, maxDelayMs);
+        }
+        break;
+
+      case 'request_player_list':
+        if (player.joined) this.sendPlayerList(player);
+        break;
+
+      case 'role_swap_request':
+        this.send(player, { type: 'role_swap', status: 'denied', reason: 'Teams are fixed in browser-hosted games' });
+        break;
+
+      case 'leave_session':
+        this.leave(player);
+        break;
+
+      case 'chat':
+        if (player.joined && !player.spectator) this.relayChat(player, message.message, message.channel, now);
+        break;
+
+      case 'keepalive':
+      case 'game_snapshot':
+        // Clients keep their own snapshot history; the host has its own
+        break;
+    }
+  }
+
+  private authenticate(player: HostedPlayer, playerName: string, protocolVersion: number, capabilities: string[]): void {
+    if (player.id) return;
+
+    const agreed = Math.min(PROTOCOL_VERSION, protocolVersion);
+    if (agreed < MIN_PROTOCOL_VERSION) {
+      this.send(player, {
+        type: 'error',
+        message: `Unsupported protocol version ${protocolVersion} (host supports ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION})`
+      });
+      return;
+    }
+
+    player.id = `player_${Math.random().toString(36).substring(2, 11)}`;
+    player.name = playerName.replace(/[^\w\s]/g, '') || player.id;
+    player.protocolVersion = agreed;
+    player.capabilities = capabilities.filter(capability => capability === RELIABLE_EVENTS_CAPABILITY);
+
+    this.send(player, {
+      type: 'auth_success',
+      player: { id: player.id, name: player.name },
+      protocolVersion: agreed,
+      capabilities: player.capabilities
+    });
+  }
+
+  private join(player: HostedPlayer, spectate: boolean): void {
+    if (!player.id) {
+      this.send(player, { type: 'error', message: 'You must authenticate before joining a session' });
+      return;
+    }
+    if (player.joined) {
+      this.send(player, { type: 'join_failed', reason: 'already_joined', message: 'You are already in this session' });
+      return;
+    }
+    if (spectate) {
+      this.watch(player);
+      return;
+    }
+
+    const others = this.getJoined();
+    if (others.length >= this.options.maxPlayers) {
+      this.send(player, { type: 'join_failed', reason: 'full', message: `Session is full (${this.options.maxPlayers} players)` });
+      return;
+    }
+
+    // Whichever team is short, ties to the jackalopes; even slots are jackalopes
+    const jackalopes = others.filter(other => other.team === 'jackalope').length;
+    player.team = jackalopes <= others.length - jackalopes ? 'jackalope' : 'merc';
+    const taken = new Set(others.map(other => other.index));
+    player.index = player.team === 'jackalope' ? 0 : 1;
+    while (taken.has(player.index)) player.index += 2;
+
+    player.joined = true;
+    player.health = MAX_HEALTH;
+    player.placed = false;
+    player.inputSeq = 0;
+    player.lookYaw = null;
+    player.sentPosition = null;
+    player.sentRotation = null;
+    player.update = null;
+    this.createBody(player);
+
+    this.send(player, {
+      type: 'join_success',
+      session: this.getSessionInfo(),
+      player: { id: player.id, name: player.name },
+      playerCount: others.length + 1,
+      protocolVersion: player.protocolVersion,
+      assignment: { team: player.team, index: player.index },
+      health: player.health,
+      resumed: false,
+      spectator: false
+    });
+
+    const state = this.getPlayerState(player);
+    this.getAudience().filter(other => other !== player).forEach(other => this.send(other, {
+      type: 'player_joined',
+      id: player.id,
+      playerType: player.team,
+      initialState: state
+    }));
+    if (others.length > 0) this.sendPlayerList(player);
+  }
+
+  // Spectators get what players get except chat. They don't count toward
+  // maxPlayers, and the players never hear about them.
+  private watch(player: HostedPlayer): void {
+    const spectators = this.getAudience().filter(other => other.spectator).length;
+    if (spectators >= MAX_SESSION_SPECTATORS) {
+      this.send(player, { type: 'join_failed', reason: 'full', message: `Game has all the spectators it can take (${MAX_SESSION_SPECTATORS})` });
+      return;
+    }
+
+    player.joined = true;
+    player.spectator = true;
+    // Nowhere, so interest management sends them everyone
+    player.placed = false;
+    this.send(player, {
+      type: 'join_success',
+      session: this.getSessionInfo(),
+      player: { id: player.id, name: player.name },
+      playerCount: this.getJoined().length,
+      protocolVersion: player.protocolVersion,
+      resumed: false,
+      spectator: true
+    });
+    this.sendPlayerList(player);
+  }
+
+  private leave(player: HostedPlayer): void {
+    if (!player.joined) return;
+
+    player.joined = false;
+    this.interest.forget(player.id!);
+    player.eventSender.reset();
+    player.eventReceiver.reset();
+    if (player.spectator) {
+      player.spectator = false;
+      return;
+    }
+
+    this.removeBody(player);
+    this.validator.forget(player.id!);
+    this.getAudience().forEach(other => this.send(other, { type: 'player_left', id: player.id }));
+  }
+
+  private drop(player: HostedPlayer): void {
+    this.leave(player);
+    this.players.delete(player);
+  }
+
+  // Tell a player which rules they broke, then disconnect them
+  private kick(player: HostedPlayer, violations: Violation[]): void {
+    const kinds = Array.from(new Set(violations.map(violation => violation.kind))).join(', ');
+    this.stats.kicks++;
+    this.send(player, { type: 'error', message: `Removed from the game for breaking the rules (${kinds})` });
+    player.transport.close();
+    this.drop(player);
+  }
+
+  private reportViolation(violation: Violation): void {
+    console.warn(`Game host: ${violation.kind} by ${violation.player} (${violation.detail}), action: ${violation.action}`);
+    this.options.validation.onViolation?.(violation);
+  }
+
+  private createBody(player: HostedPlayer): void {
+    this.removeBody(player);
+
+    const [x, y, z] = SPAWN_POSITION;
+    player.movement = createMovementState({ x, y, z });
+    player.body = this.world.createRigidBody(RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(x, y, z));
+    const shape = RAPIER.ColliderDesc.capsule(CAPSULE_HALF_HEIGHT, CAPSULE_RADIUS);
+    if (player.team === 'jackalope') {
+      shape.setTranslation(0, JACKALOPE_CAPSULE_OFFSET_Y, 0);
+    }
+    player.collider = this.world.createCollider(shape, player.body);
+  }
+
+  private removeBody(player: HostedPlayer): void {
+    if (player.body) {
+      this.world.removeRigidBody(player.body);
+    }
+    player.body = null;
+    player.collider = null;
+  }
+
+  // Back to the spawn point, as if they'd just joined but already placed.
+  // Players who send inputs are told with an input_ack, which their
+  // prediction snaps to; the others find out from their next player_update.
+  private respawn(player: HostedPlayer): void {
+    const [x, y, z] = SPAWN_POSITION;
+    player.movement = createMovementState({ x, y, z });
+    player.body?.setTranslation(player.movement.position, false);
+    player.placed = true;
+    this.validator.resetMovement(player.id!);
+    if (player.inputSeq > 0) {
+      player.ackInput = true;
+    }
+  }
+
+  private place(player: HostedPlayer, position: Vec3): void {
+    player.placed = true;
+    player.movement.position = { x: position[0], y: position[1], z: position[2] };
+    player.body?.setTranslation(player.movement.position, false);
+  }
+
+  // Replay a batch of inputs through the movement code, as the client did
+  private applyInputs(player: HostedPlayer, inputs: InputCommand[], reported: Vec3, now: number): void {
+    const last = inputs[inputs.length - 1];
+    const lastSeq = last.seq + (last.steps ?? 1) - 1;
+    if (lastSeq <= player.inputSeq) return;
+    player.lookYaw = last.yaw;
+
+    // The first batch only tells us where the player starts. We can't check
+    // that, but the arena bounds it, as it does a rejoining player.
+    if (!player.placed) {
+      this.place(player, clampToArena(reported));
+      player.inputSeq = lastSeq;
+      player.inputClock = now;
+      player.ackInput = true;
+      return;
+    }
+
+    player.inputBudget = Math.min(
+      this.options.maxInputBurstS,
+      player.inputBudget + (now - player.inputClock) / 1000
+    );
+    player.inputClock = now;
+
+    const collide = this.getCollide(player);
+    inputs.forEach(command => {
+      const input: MovementInput = {
+        moveX: clamp(command.moveX, -1, 1),
+        moveZ: clamp(command.moveZ, -1, 1),
+        jump: command.jump,
+        sprint: command.sprint,
+        yaw: command.yaw,
+        pitch: command.pitch
+      };
+      const dt = clamp(command.dt, MIN_INPUT_DT, MAX_INPUT_DT);
+      const end = command.seq + (command.steps ?? 1) - 1;
+
+      for (let seq = Math.max(command.seq, player.inputSeq + 1); seq <= end; seq++) {
+        if (dt > player.inputBudget) {
+          this.stats.droppedInputs++;
+          continue;
+        }
+        player.inputBudget -= dt;
+
+        if (player.team === 'merc') {
+          stepMercMovement(player.movement, input, this.options.merc, collide);
+        } else {
+          stepJackalopeMovement(player.movement, input, dt, this.options.jackalope, collide);
+        }
+      }
+    });
+
+    // Whatever didn't fit the budget is skipped, and the ack pulls the client back
+    player.inputSeq = lastSeq;
+    player.body?.setTranslation(player.movement.position, false);
+    player.ackInput = true;
+  }
+
+  // Character controller collisions for this player. Players don't block
+  // each other here, though they do on the clients.
+  private getCollide(player: HostedPlayer): CollideFn {
+    const controller = player.team === 'merc' ? this.mercController : this.jackalopeController;
+    const { body, collider } = player;
+
+    return (from, desired) => {
+      if (!body || !collider) return { movement: desired, grounded: false };
+
+      body.setTranslation(from, false);
+      this.world.propagateModifiedBodyPositionsToColliders();
+      controller.computeColliderMovement(collider, desired, undefined, undefined, isLevel);
+      return {
+        movement: controller.computedMovement(),
+        grounded: controller.computedGrounded()
+      };
+    };
+  }
+
+  // Take a reported position from a player who doesn't send inputs, as far
+  // as the validator says they could have got since the last one
+  private applyUpdate(player: HostedPlayer, state: PlayerUpdateState, now: number): void {
+    if (isQuat(state.rotation)) {
+      player.rotation = state.rotation;
+    }
+
+    // Players who send inputs are moved by them, not by what they report
+    if (player.inputSeq > 0) return;
+
+    const target = clampToArena(state.position);
+    const verdict = this.validator.checkMovement(player.id!, player.team, {
+      position: target,
+      velocity: isVec3(state.velocity) ? state.velocity : undefined,
+      time: now
+    });
+    if (verdict.action === 'kick') {
+      this.kick(player, verdict.violations);
+      return;
+    }
+
+    if (verdict.position !== target) this.stats.clampedUpdates++;
+    this.place(player, verdict.position);
+  }
+
+  private applyEvent(player: HostedPlayer, event: GameEventPayload): void {
+    const now = Date.now();
+    const stamped: GameEventPayload = { ...event, player: player.id!, timestamp: now };
+
+    switch (event.event_type) {
+      case 'player_shoot':
+        if (this.acceptShot(player, stamped, now)) {
+          this.broadcastEvent(stamped);
+        } else {
+          this.stats.rejectedShots++;
+        }
+        break;
+
+      case 'player_hit':
+        if (!this.resolveHit(player, stamped, now)) {
+          this.stats.rejectedHits++;
+        }
+        break;
+
+      // Health is the host's to change
+      case 'player_damaged':
+      case 'player_killed':
+      case 'player_respawned':
+        break;
+
+      default:
+        this.broadcastEvent(stamped);
+        break;
+    }
+  }
+
+  // Remember a shot if it's one the player could have fired
+  private acceptShot(player: HostedPlayer, event: GameEventPayload, now: number): boolean {
+    const { origin, direction } = event;
+    const shotId = typeof event.shotId === 'string' ? event.shotId : '';
+    if (!shotId || this.shots.has(shotId) || !isVec3(origin) || !isVec3(direction)) return false;
+
+    const length = Math.hypot(...direction);
+    if (length < 1e-6 || player.health <= 0) return false;
+
+    const verdict = this.validator.checkShot(player.id!, { origin, shooter: toVec3(player.movement.position), time: now });
+    if (verdict.action === 'kick') {
+      this.kick(player, verdict.violations);
+      return false;
+    }
+    if (verdict.action === 'correct') return false;
+
+    this.shots.set(shotId, {
+      attacker: player.id!,
+      time: now,
+      origin,
+      direction: [direction[0] / length, direction[1] / length, direction[2] / length],
+      targets: new Set()
+    });
+
+    const cutoff = now - HIT_REPORT_WINDOW_MS;
+    this.shots.forEach((shot, id) => {
+      if (shot.time < cutoff) this.shots.delete(id);
+    });
+    return true;
+  }
+
+  // Check a reported hit against where the host had everyone, and apply it
+  private resolveHit(player: HostedPlayer, event: GameEventPayload, now: number): boolean {
+    const shotId = typeof event.shotId === 'string' ? event.shotId : '';
+    const shot = this.shots.get(shotId);
+    if (!shot || shot.attacker !== player.id || now - shot.time > HIT_REPORT_WINDOW_MS) return false;
+
+    const target = this.getJoined().find(other => other.id === event.target);
+    if (!target || target === player || shot.targets.has(target.id!)) return false;
+    if (!canBeDamaged(target.team) || target.health <= 0) return false;
+    if (!this.traceShot(player, shot, target.id!)) return false;
+
+    shot.targets.add(target.id!);
+    this.stats.hits++;
+
+    const result = applyDamage(target.health);
+    target.health = result.health;
+    this.broadcastEvent({
+      event_type: 'player_damaged',
+      target: target.id!,
+      attacker: player.id!,
+      damage: result.damage,
+      health: result.health,
+      shotId,
+      timestamp: now
+    });
+
+    if (result.killed) {
+      this.broadcastEvent({ event_type: 'player_killed', target: target.id!, attacker: player.id!, timestamp: now });
+
+      const timer = setTimeout(() => {
+        this.respawnTimers.delete(timer);
+        // They may have left in the meantime
+        if (!target.joined || target.spectator) return;
+        target.health = MAX_HEALTH;
+        this.respawn(target);
+        this.broadcastEvent({ event_type: 'player_respawned', target: target.id!, health: MAX_HEALTH, timestamp: Date.now() });
+      }, RESPAWN_DELAY_MS);
+      this.respawnTimers.add(timer);
+    }
+    return true;
+  }
+
+  // Rewind to what the shooter saw: their round trip and interpolation delay
+  // before the shot got here, as their pings report them. The hit stands if
+  // the target was in the fireball's way, with no level geometry in between.
+  private traceShot(shooter: HostedPlayer, shot: HostedShot, targetId: string): LagCompensatedHit | null {
+    const from = Math.max(0, shooter.rtt - REWIND_WINDOW_MS);
+    const to = shooter.rtt + REWIND_WINDOW_MS;
+    for (let rewind = from; rewind <= to; rewind += REWIND_STEP_MS) {
+      const hit = validateShot(this.history, {
+        shooterId: shot.attacker,
+        origin: shot.origin,
+        direction: shot.direction,
+        shotTime: shot.time,
+        latency: rewind,
+        interpolationDelay: shooter.interpolationDelay
+      });
+      if (hit?.playerId === targetId && !this.isBlocked(shot, hit.flightTime)) {
+        return hit;
+      }
+    }
+    return null;
+  }
+
+  // Does the level stop the fireball in its first `flightTime` seconds?
+  private isBlocked(shot: HostedShot, flightTime: number): boolean {
+    let from = shot.origin;
+    for (let t = OCCLUSION_STEP_S; t < flightTime + OCCLUSION_STEP_S; t += OCCLUSION_STEP_S) {
+      const to = fireballPositionAt(shot.origin, shot.direction, Math.min(t, flightTime));
+      const length = distance(from, to);
+      if (length > 0) {
+        const ray = new RAPIER.Ray(
+          { x: from[0], y: from[1], z: from[2] },
+          { x: (to[0] - from[0]) / length, y: (to[1] - from[1]) / length, z: (to[2] - from[2]) / length }
+        );
+        if (this.world.castRay(ray, length, true, undefined, undefined, undefined, undefined, isLevel)) {
+          return true;
+        }
+      }
+      from = to;
+    }
+    return false;
+  }
+
+  private relayChat(player: HostedPlayer, text: string, channel: 'all' | 'team', now: number): void {
+    const message = normalizeChatMessage(text);
+    if (!message) return;
+    if (message.length > MAX_CHAT_LENGTH) {
+      this.send(player, { type: 'chat_rejected', reason: 'too_long' });
+      return;
+    }
+
+    const retryAfterMs = player.chatLimiter.take(now);
+    if (retryAfterMs > 0) {
+      this.send(player, { type: 'chat_rejected', reason: 'rate_limited', retryAfterMs });
+      return;
+    }
+
+    this.getJoined()
+      .filter(other => channel === 'all' || other.team === player.team)
+      .forEach(other => this.send(other, {
+        type: 'chat',
+        player: player.id,
+        playerName: player.name,
+        message,
+        channel,
+        timestamp: now
+      }));
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const elapsed = Math.max(1, now - this.lastTickAt) / 1000;
+    this.lastTickAt = now;
+
+    this.players.forEach(player => {
+      if (now - player.lastHeard > this.options.idleTimeoutMs) {
+        player.transport.close();
+        this.drop(player);
+      }
+    });
+
+    const joined = this.getJoined();
+    this.history.add({
+      timestamp: now,
+      sequence: this.snapshotSequence++,
+      players: Object.fromEntries(joined
+        .filter(player => player.placed)
+        .map(player => [player.id!, this.getSnapshot(player)])),
+      events: []
+    });
+
+    const audience = this.getAudience();
+    audience.forEach(player => this.flushAcks(player, now));
+
+    joined.forEach(player => {
+      if (!player.placed) return;
+      const position = toVec3(player.movement.position);
+      const moved = !player.sentPosition || distance(position, player.sentPosition) > 0.001;
+      const turned = !player.sentRotation || player.rotation.some((value, i) => Math.abs(value - player.sentRotation![i]) > 0.0001);
+      if (!moved && !turned && now - player.sentAt < IDLE_UPDATE_MS) return;
+
+      // Velocity for dead reckoning, in units per second, from how far they went this tick
+      const velocity: Vec3 = player.sentPosition
+        ? [0, 1, 2].map(i => (position[i] - player.sentPosition![i]) / elapsed) as Vec3
+        : [0, 0, 0];
+      player.sentPosition = position;
+      player.sentRotation = [...player.rotation];
+      player.sentAt = now;
+      player.update = {
+        type: 'player_update',
+        id: player.id,
+        state: { position, rotation: player.rotation, velocity, playerType: player.team, sequence: this.snapshotSequence },
+        timestamp: now
+      };
+      player.updateVersion++;
+      this.stats.relayUpdates += audience.length - 1;
+    });
+
+    const subjects: InterestSubject[] = joined
+      .filter(player => player.placed && player.update)
+      .map(player => ({ id: player.id!, position: player.sentPosition!, version: player.updateVersion }));
+    const byId = new Map(joined.map(player => [player.id!, player]));
+    audience.forEach(receiver => {
+      const viewer = receiver.placed
+        ? { position: toVec3(receiver.movement.position), yaw: receiver.lookYaw ?? yawFromQuat(receiver.rotation) }
+        : null;
+      this.interest.select(receiver.id!, viewer, subjects).forEach(id => {
+        this.send(receiver, byId.get(id)!.update!);
+        this.stats.playerUpdates++;
+      });
+    });
+  }
+
+  // Input and event acks, and overdue reliable events
+  private flushAcks(player: HostedPlayer, now: number): void {
+    if (player.ackInput) {
+      player.ackInput = false;
+      this.send(player, {
+        type: 'input_ack',
+        seq: player.inputSeq,
+        position: toVec3(player.movement.position),
+        velocity: toVec3(player.movement.velocity)
+      });
+    }
+
+    if (player.ackEvents) {
+      player.ackEvents = false;
+      this.send(player, { type: 'event_ack', seq: player.eventReceiver.getAck() });
+    }
+
+    player.eventSender.takeDue(now, 0).forEach(({ seq, payload }) => {
+      this.send(player, { type: 'game_event', event: payload, seq });
+    });
+  }
+
+  private broadcastEvent(event: GameEventPayload): void {
+    this.getAudience().forEach(player => {
+      if (!player.capabilities.includes(RELIABLE_EVENTS_CAPABILITY)) {
+        this.send(player, { type: 'game_event', event });
+        return;
+      }
+      // Null when they've stopped acking; they miss this one rather than
+      // waiting forever at a gap
+      const seq = player.eventSender.send(event);
+      if (seq !== null) {
+        this.send(player, { type: 'game_event', event, seq });
+      }
+    });
+  }
+
+  private sendPlayerList(player: HostedPlayer): void {
+    const players = Object.fromEntries(
+      this.getJoined()
+        .filter(other => other !== player && other.placed)
+        .map(other => [other.id!, this.getPlayerState(other)])
+    );
+    this.send(player, { type: 'player_list', players });
+  }
+
+  private getPlayerState(player: HostedPlayer) {
+    return {
+      position: toVec3(player.movement.position),
+      rotation: player.rotation,
+      health: player.health,
+      playerType: player.team,
+      name: player.name
+    };
+  }
+
+  private getSnapshot(player: HostedPlayer): PlayerSnapshot {
+    return { id: player.id!, ...this.getPlayerState(player) };
+  }
+
+  private getSessionInfo() {
+    return {
+      id: this.sessionId,
+      key: this.options.code,
+      name: this.options.name,
+      maxPlayers: this.options.maxPlayers,
+      locked: false,
+      private: true
+    };
+  }
+
+  // The players, not counting spectators
+  private getJoined(): HostedPlayer[] {
+    return Array.from(this.players).filter(player => player.joined && !player.spectator);
+  }
+
+  // Everyone in the session, spectators included
+  private getAudience(): HostedPlayer[] {
+    return Array.from(this.players).filter(player => player.joined);
+  }
+
+  private send(player: HostedPlayer, message: WireMessage): void {
+    if (player.transport.getState() !== 'open') return;
+
+    try {
+      player.transport.send(JSON.stringify(message));
+      this.stats.messagesOut++;
+    } catch (error) {
+      console.warn(`Game host: could not send ${message.type} to ${player.id ?? 'new player'}`, error);
+    }
+  }
+}
@@ -0,0 +1,305 @@
+// Playout buffer for one remote player's transforms, owned by ConnectionManager.
+//
+// Updates don't arrive as evenly as they were sent. Drawing each one as it
+// comes in turns that unevenness into stutter, so instead we draw the player a
+// little in the past and interpolate between the updates either side of that
+// moment. How far in the past adapts to the connection: the buffer measures
+// how much arrival times wobble and keeps enough delay to ride that out, but
+// no more. If the updates run out anyway we dead reckon: keep the player
+// moving at the velocity they last sent for a short while, then hold still.
+// When the next update disagrees with where we guessed, the difference is
+// blended out over a few frames instead of snapping.
+
+import { Quat, Vec3 } from './protocol';
+import { lerpVec3, slerpQuat } from './SnapshotBuffer';
+
+export interface JitterBufferOptions {
+  // Bounds for the interpolation delay
+  minDelayMs: number;
+  maxDelayMs: number;
+  // Delay kept on top of one update interval, in multiples of the measured jitter
+  jitterMultiplier: number;
+  // How quickly the delay follows its target, in ms of delay per ms of time.
+  // Growing is quicker than shrinking: running out of updates looks worse
+  // than being drawn a few ms further behind.
+  growRate: number;
+  shrinkRate: number;
+  // How long and how far to dead reckon a player once updates run out
+  maxExtrapolationMs: number;
+  maxExtrapolationDistance: number;
+  // Time constant for blending out the error when an update disagrees with
+  // the dead reckoned position, in ms
+  correctionMs: number;
+  // Errors bigger than this (respawns, teleports) are snapped rather than blended
+  snapDistance: number;
+  // Most updates kept
+  capacity: number;
+}
+
+export const DEFAULT_JITTER_BUFFER_OPTIONS: JitterBufferOptions = {
+  minDelayMs: 50,
+  maxDelayMs: 500,
+  jitterMultiplier: 3,
+  growRate: 0.1,
+  shrinkRate: 0.02,
+  maxExtrapolationMs: 250,
+  maxExtrapolationDistance: 2,
+  correctionMs: 100,
+  snapDistance: 4,
+  capacity: 32
+};
+
+// Updates are expected this far apart until we've seen a few
+const INITIAL_INTERVAL_MS = 50;
+// Weight of each new measurement in the running averages (RFC 3550 uses 1/16 for jitter)
+const JITTER_GAIN = 1 / 16;
+const INTERVAL_GAIN = 1 / 8;
+
+interface TransformSample {
+  // When the update was sent, on the sender's (or server's) clock
+  time: number;
+  receivedAt: number;
+  position: Vec3;
+  rotation: Quat;
+  // World units per second, if the sender included it
+  velocity?: Vec3;
+}
+
+export interface InterpolatedTransform {
+  position: Vec3;
+  rotation: Quat;
+  // True if we ran past the newest update and are guessing
+  extrapolated: boolean;
+}
+
+// Shortens a dead reckoned move from `from` to `to` so it doesn't pass
+// through walls, e.g. with a ray cast. Returns where the move should stop.
+export type ExtrapolationLimit = (from: Vec3, to: Vec3) => Vec3;
+
+interface PathPoint extends InterpolatedTransform {
+  // Time of the update we're dead reckoning from, null while interpolating.
+  // The path we draw only jumps when this changes.
+  basis: number | null;
+}
+
+export interface JitterBufferStats {
+  // Current interpolation delay in ms
+  delay: number;
+  // Mean variation in transit time between consecutive updates, in ms
+  jitter: number;
+  // Mean time between updates, in ms
+  interval: number;
+  // Updates waiting ahead of the moment we're drawing
+  buffered: number;
+  // Updates that arrived after we'd already drawn past them
+  late: number;
+  // Times we ran out of updates and had to extrapolate
+  underruns: number;
+  extrapolating: boolean;
+  // Distance between where the player is drawn and where the updates put
+  // them, while a dead reckoning error is being blended out
+  correction: number;
+}
+
+export class JitterBuffer {
+  private samples: TransformSample[] = [];
+  private options: JitterBufferOptions;
+
+  // Smoothed receivedAt - time. Maps our clock onto the sender's, however far apart they are.
+  private transit = 0;
+  private jitter = 0;
+  private interval = INITIAL_INTERVAL_MS;
+  private delay: number;
+
+  private lastSampledAt: number | null = null;
+  private renderTime = -Infinity;
+  private late = 0;
+  private underruns = 0;
+  private extrapolating = false;
+  
+  // Last drawn point, and the error still being blended out of it
+  private drawn: PathPoint | null = null;
+  private offset: Vec3 = [0, 0, 0];
+
+  constructor(options: Partial<JitterBufferOptions> = {}) {
+    this.options = { ...DEFAULT_JITTER_BUFFER_OPTIONS, ...options };
+    this.delay = this.getTargetDelay();
+  }
+
+  // Add an update. `time` is when it was sent, on any clock that's steady for this sender.
+  push(time: number, position: Vec3, rotation: Quat, velocity?: Vec3, receivedAt: number = Date.now()): void {
+    const newest = this.samples[this.samples.length - 1];
+
+    // Duplicates and stragglers overtaken by a newer update are no use
+    if (newest && time <= newest.time) {
+      this.late++;
+      return;
+    }
+
+    const transit = receivedAt - time;
+    if (newest) {
+      // How much longer or shorter this update took than the previous one
+      const variation = Math.abs(transit - (newest.receivedAt - newest.time));
+      this.jitter += (variation - this.jitter) * JITTER_GAIN;
+      this.interval += (time - newest.time - this.interval) * INTERVAL_GAIN;
+      this.transit += (transit - this.transit) * JITTER_GAIN;
+    } else {
+      this.transit = transit;
+    }
+
+    if (time < this.renderTime) {
+      this.late++;
+    }
+
+    this.samples.push({ time, receivedAt, position, rotation, velocity });
+    if (this.samples.length > this.options.capacity) {
+      this.samples.shift();
+    }
+  }
+
+  // Where to draw the player at local time `now`, or null before the first update.
+  // `limit` keeps dead reckoning out of walls.
+  sample(now: number = Date.now(), limit?: ExtrapolationLimit): InterpolatedTransform | null {
+    if (this.samples.length === 0) return null;
+
+    const elapsed = this.lastSampledAt === null ? 0 : Math.max(0, now - this.lastSampledAt);
+    this.lastSampledAt = now;
+    this.adaptDelay(elapsed);
+
+    const previousRenderTime = this.renderTime;
+    this.renderTime = now - this.transit - this.delay;
+
+    // Keep one update at or before the render time to interpolate from
+    while (this.samples.length > 2 && this.samples[1].time <= this.renderTime) {
+      this.samples.shift();
+    }
+
+    const target = this.evaluate(this.renderTime, limit);
+    if (target.extrapolated && !this.extrapolating) {
+      this.underruns++;
+    }
+    this.extrapolating = target.extrapolated;
+
+    // Let the last error fade, then pick up any new one: if the path we were
+    // dead reckoning along has moved, carry the difference as an offset
+    const fade = Math.exp(-elapsed / Math.max(this.options.correctionMs, 1));
+    this.offset = this.offset.map(value => value * fade) as Vec3;
+    if (this.drawn?.extrapolated && this.drawn.basis !== target.basis && Number.isFinite(previousRenderTime)) {
+      const before = this.evaluate(previousRenderTime, limit).position;
+      this.offset = [
+        this.drawn.position[0] - before[0],
+        this.drawn.position[1] - before[1],
+        this.drawn.position[2] - before[2]
+      ];
+    }
+    if (length(this.offset) > this.options.snapDistance) {
+      this.offset = [0, 0, 0];
+    }
+
+    const position: Vec3 = [
+      target.position[0] + this.offset[0],
+      target.position[1] + this.offset[1],
+      target.position[2] + this.offset[2]
+    ];
+    this.drawn = { ...target, position };
+    return { position, rotation: target.rotation, extrapolated: target.extrapolated };
+  }
+
+  getDelay(): number {
+    return this.delay;
+  }
+
+  getStats(): JitterBufferStats {
+    return {
+      delay: this.delay,
+      jitter: this.jitter,
+      interval: this.interval,
+      buffered: this.samples.filter(sample => sample.time > this.renderTime).length,
+      late: this.late,
+      underruns: this.underruns,
+      extrapolating: this.extrapolating,
+      correction: length(this.offset)
+    };
+  }
+
+  getOptions(): JitterBufferOptions {
+    return { ...this.options };
+  }
+
+  setOptions(options: Partial<JitterBufferOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  private getTargetDelay(): number {
+    const { minDelayMs, maxDelayMs, jitterMultiplier } = this.options;
+    const target = this.interval + this.jitter * jitterMultiplier;
+    return Math.min(maxDelayMs, Math.max(minDelayMs, target));
+  }
+
+  // Ease the delay towards its target slowly enough that time never runs
+  // backwards for the player being drawn
+  private adaptDelay(elapsed: number): void {
+    const change = this.getTargetDelay() - this.delay;
+    const rate = change > 0 ? this.options.growRate : this.options.shrinkRate;
+    const step = Math.min(Math.abs(change), elapsed * rate);
+    this.delay += Math.sign(change) * step;
+  }
+
+  // The buffered path at `renderTime`, without any error offset
+  private evaluate(renderTime: number, limit?: ExtrapolationLimit): PathPoint {
+    const first = this.samples[0];
+    if (renderTime <= first.time) {
+      return { position: first.position, rotation: first.rotation, extrapolated: false, basis: null };
+    }
+
+    const next = this.samples[1];
+    if (next && renderTime <= next.time) {
+      const t = (renderTime - first.time) / (next.time - first.time);
+      return {
+        position: lerpVec3(first.position, next.position, t),
+        rotation: slerpQuat(first.rotation, next.rotation, t),
+        extrapolated: false,
+        basis: null
+      };
+    }
+
+    // Past the newest update, so dead reckon from it
+    const newest = this.samples[this.samples.length - 1];
+    const velocity = newest.velocity ?? this.estimateVelocity();
+    const ahead = Math.min(renderTime - newest.time, this.options.maxExtrapolationMs) / 1000;
+
+    let displacement: Vec3 = [velocity[0] * ahead, velocity[1] * ahead, velocity[2] * ahead];
+    const distance = length(displacement);
+    if (distance > this.options.maxExtrapolationDistance) {
+      const scale = this.options.maxExtrapolationDistance / distance;
+      displacement = displacement.map(value => value * scale) as Vec3;
+    }
+
+    let position: Vec3 = [
+      newest.position[0] + displacement[0],
+      newest.position[1] + displacement[1],
+      newest.position[2] + displacement[2]
+    ];
+    if (limit && distance > 0) {
+      position = limit(newest.position, position);
+    }
+
+    return { position, rotation: newest.rotation, extrapolated: true, basis: newest.time };
+  }
+
+  // Velocity between the last two updates, for senders that don't include one
+  private estimateVelocity(): Vec3 {
+    const newest = this.samples[this.samples.length - 1];
+    const previous = this.samples[this.samples.length - 2];
+    if (!previous) return [0, 0, 0];
+
+    const seconds = (newest.time - previous.time) / 1000;
+    return [
+      (newest.position[0] - previous.position[0]) / seconds,
+      (newest.position[1] - previous.position[1]) / seconds,
+      (newest.position[2] - previous.position[2]) / seconds
+    ];
+  }
+}
+
+const length = (v: Vec3) => Math.hypot(v[0], v[1], v[2]);
@@ -0,0 +1,170 @@
+// Development-only network condition simulator, owned by ConnectionManager.
+//
+// Sits between ConnectionManager and the socket in each direction and makes a
+// local server behave like a bad connection: packets are held back by a
+// latency plus jitter, squeezed through a bandwidth cap, and randomly dropped,
+// duplicated or let overtake each other. WebSockets can't actually lose or
+// reorder messages, but the netcode shouldn't rely on that, and this is how
+// reconciliation bugs seen on real networks get reproduced on localhost.
+
+export interface LinkConditions {
+  enabled: boolean;
+  // Added one-way delay, in ms
+  latencyMs: number;
+  // Each packet's delay varies by up to this much either way, in ms
+  jitterMs: number;
+  // Chances (0-1) of a packet being dropped, sent twice, or allowed to fall
+  // behind the packets sent after it
+  lossRate: number;
+  duplicateRate: number;
+  reorderRate: number;
+  // Link speed in kilobits per second, 0 for unlimited
+  bandwidthKbps: number;
+}
+
+export type LinkPreset = 'off' | 'lan' | '4g' | 'bad_wifi';
+
+export const LINK_PRESETS: Record<LinkPreset, LinkConditions> = {
+  off: {
+    enabled: false,
+    latencyMs: 0,
+    jitterMs: 0,
+    lossRate: 0,
+    duplicateRate: 0,
+    reorderRate: 0,
+    bandwidthKbps: 0
+  },
+  lan: {
+    enabled: true,
+    latencyMs: 2,
+    jitterMs: 1,
+    lossRate: 0,
+    duplicateRate: 0,
+    reorderRate: 0,
+    bandwidthKbps: 0
+  },
+  '4g': {
+    enabled: true,
+    latencyMs: 40,
+    jitterMs: 15,
+    lossRate: 0.005,
+    duplicateRate: 0,
+    reorderRate: 0.01,
+    bandwidthKbps: 8000
+  },
+  bad_wifi: {
+    enabled: true,
+    latencyMs: 80,
+    jitterMs: 60,
+    lossRate: 0.05,
+    duplicateRate: 0.02,
+    reorderRate: 0.05,
+    bandwidthKbps: 1000
+  }
+};
+
+export const LINK_PRESET_NAMES: Record<LinkPreset, string> = {
+  off: 'Off',
+  lan: 'LAN',
+  '4g': '4G',
+  bad_wifi: 'Bad Wi-Fi'
+};
+
+export interface LinkStats {
+  // Packets handed to the conditioner
+  packets: number;
+  dropped: number;
+  duplicated: number;
+  reordered: number;
+  // Packets waiting to be delivered
+  inFlight: number;
+}
+
+export class LinkConditioner<T> {
+  private deliver: (packet: T) => void;
+  private conditions: LinkConditions;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  // When the simulated link finishes sending what's already queued
+  private linkFreeAt = 0;
+  // Latest delivery time handed out, so jitter alone doesn't reorder
+  private lastDeliveryAt = 0;
+  private stats: LinkStats = { packets: 0, dropped: 0, duplicated: 0, reordered: 0, inFlight: 0 };
+
+  constructor(deliver: (packet: T) => void, conditions: Partial<LinkConditions> = {}) {
+    this.deliver = deliver;
+    this.conditions = { ...LINK_PRESETS.off, ...conditions };
+  }
+
+  getConditions(): LinkConditions {
+    return { ...this.conditions };
+  }
+
+  setConditions(conditions: Partial<LinkConditions>): void {
+    this.conditions = { ...this.conditions, ...conditions };
+  }
+
+  getStats(): LinkStats {
+    return { ...this.stats, inFlight: this.timers.size };
+  }
+
+  // Bytes the simulated link hasn't finished sending, as a socket's
+  // bufferedAmount would count them
+  getBacklogBytes(now: number = Date.now()): number {
+    const { enabled, bandwidthKbps } = this.conditions;
+    if (!enabled || bandwidthKbps <= 0) return 0;
+    return (Math.max(0, this.linkFreeAt - now) * bandwidthKbps) / 8;
+  }
+
+  // Pass a packet of `size` bytes through the link. Delivered straight away when disabled.
+  send(packet: T, size: number, now: number = Date.now()): void {
+    if (!this.conditions.enabled) {
+      this.deliver(packet);
+      return;
+    }
+
+    this.stats.packets++;
+    if (Math.random() < this.conditions.lossRate) {
+      this.stats.dropped++;
+      return;
+    }
+
+    // The link is busy until everything ahead of this packet has gone out
+    const { bandwidthKbps } = this.conditions;
+    const sendTime = bandwidthKbps > 0 ? (size * 8) / bandwidthKbps : 0;
+    this.linkFreeAt = Math.max(now, this.linkFreeAt) + sendTime;
+
+    this.schedule(packet, now);
+    if (Math.random() < this.conditions.duplicateRate) {
+      this.stats.duplicated++;
+      this.schedule(packet, now);
+    }
+  }
+
+  // Drop everything still in flight, e.g. when the socket closes
+  clear(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.linkFreeAt = 0;
+    this.lastDeliveryAt = 0;
+  }
+
+  private schedule(packet: T, now: number): void {
+    const { latencyMs, jitterMs, reorderRate } = this.conditions;
+    let deliverAt = this.linkFreeAt + Math.max(0, latencyMs + (Math.random() * 2 - 1) * jitterMs);
+
+    if (Math.random() < reorderRate) {
+      // Held back long enough for the next few packets to overtake it
+      deliverAt = Math.max(deliverAt, this.lastDeliveryAt) + jitterMs + latencyMs / 2;
+      this.stats.reordered++;
+    } else {
+      deliverAt = Math.max(deliverAt, this.lastDeliveryAt);
+      this.lastDeliveryAt = deliverAt;
+    }
+
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      this.deliver(packet);
+    }, deliverAt - now);
+    this.timers.add(timer);
+  }
+}
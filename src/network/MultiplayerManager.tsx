@@ -2,16 +2,19 @@
 declare global {
   interface Window { 
     __shotBroadcast?: (shot: any) => any;
-    __processedShots?: Set<string>;
     __sendTestShot?: () => void;
   }
 }
 
-import React, { useState, useEffect, useRef, useImperativeHandle, useMemo } from 'react';
-import { useThree, useFrame } from '@react-three/fiber';
+import React, { useState, useEffect, useRef, useImperativeHandle, useMemo, useCallback } from 'react';
+import { useThree } from '@react-three/fiber';
 import { ConnectionManager } from './ConnectionManager';
 import { RemotePlayer, RemotePlayerMethods } from '../game/RemotePlayer';
 import { RemoteShot } from '../game/sphere-tool';
+import { GameSnapshot, PlayerSnapshot } from './protocol';
+import { ReconciliationMetrics } from './prediction';
+import { ExtrapolationLimit, InterpolatedTransform } from './JitterBuffer';
+import { validateShot, LagCompensatedHit } from './lagCompensation';
 import * as THREE from 'three';
 import { Html } from '@react-three/drei';
 
@@ -24,9 +27,12 @@ type RemotePlayerData = {
   playerId: string;
   position: { x: number, y: number, z: number };
   rotation: number;
+  // World units per second, if the player sends it
+  velocity?: { x: number, y: number, z: number };
   lastUpdate?: number;
   playerType?: 'merc' | 'jackalope';
   isMoving?: boolean; // Add isMoving flag to indicate if player is moving
+  staleSince?: number; // Set while the player has stopped sending updates
 };
 
 // Interface for RemotePlayer props
@@ -51,43 +57,6 @@ interface InitializedData {
   };
 }
 
-// Types for prediction and reconciliation
-interface PredictedState {
-  timestamp: number;
-  position: THREE.Vector3;
-  velocity: THREE.Vector3;
-  sequence: number;
-  processed: boolean;
-}
-
-// Snapshot system interfaces
-interface GameSnapshot {
-  timestamp: number;
-  sequence: number;
-  players: Record<string, PlayerSnapshot>;
-  events: GameEvent[];
-}
-
-interface PlayerSnapshot {
-  id: string;
-  position: [number, number, number];
-  rotation: [number, number, number, number];
-  velocity?: [number, number, number];
-  health: number;
-}
-
-interface GameEvent {
-  type: string;
-  timestamp: number;
-  data: any;
-}
-
-interface ServerState {
-  position: [number, number, number];
-  timestamp: number;
-  sequence: number;
-}
-
 type PlayerData = {
   position: [number, number, number];
   rotation: [number, number, number, number];
@@ -102,14 +71,57 @@ interface PlayerUpdateData {
   sequence?: number;
 }
 
+// Snapshot of the world as this client currently sees it: our own body plus
+// the last known state of every remote player
+const buildGameSnapshot = (
+  connectionManager: ConnectionManager,
+  localPlayerId: string,
+  localPlayer: any,
+  localRotation: THREE.Quaternion,
+  remotePlayers: Record<string, RemotePlayerData>,
+  timestamp: number,
+  sequence: number
+): GameSnapshot => {
+  const players: Record<string, PlayerSnapshot> = {};
+  
+  // Add local player
+  const body = localPlayer?.rigidBody || localPlayer?.body;
+  if (body && typeof body.translation === 'function') {
+    const position = body.translation();
+    
+    players[localPlayerId] = {
+      id: localPlayerId,
+      position: [position.x, position.y, position.z],
+      rotation: localRotation.toArray() as [number, number, number, number],
+      health: connectionManager.getPlayerHealth(localPlayerId),
+      playerType: connectionManager.getAssignedPlayerType(),
+    };
+  }
+  
+  // Add remote players
+  Object.entries(remotePlayers).forEach(([id, data]) => {
+    if (data && data.position) {
+      // Remote players only carry a yaw, so rebuild the quaternion around Y
+      players[id] = {
+        id,
+        position: [data.position.x, data.position.y, data.position.z],
+        rotation: [0, Math.sin(data.rotation / 2), 0, Math.cos(data.rotation / 2)],
+        health: connectionManager.getPlayerHealth(id),
+        playerType: data.playerType || 'merc',
+      };
+    }
+  });
+  
+  return {
+    timestamp,
+    sequence,
+    players,
+    events: [] // No events in this basic snapshot
+  };
+};
+
 // ReconciliationDebugOverlay component to show reconciliation metrics
-const ReconciliationDebugOverlay = ({ metrics }: { metrics: {
-  totalCorrections: number,
-  averageError: number,
-  lastError: number,
-  lastCorrection: number,
-  active: boolean
-} }) => {
+const ReconciliationDebugOverlay = ({ metrics }: { metrics: ReconciliationMetrics }) => {
   return (
     <div style={{
       position: 'absolute',
@@ -129,6 +141,7 @@ const ReconciliationDebugOverlay = ({ metrics }: { metrics: {
       <div>Avg Error: {metrics.averageError.toFixed(3)}</div>
       <div>Last Error: {metrics.lastError.toFixed(3)}</div>
       <div>Last Correction: {metrics.lastCorrection > 0 ? `${((Date.now() - metrics.lastCorrection) / 1000).toFixed(1)}s ago` : 'None'}</div>
+      <div>Inputs Replayed: {metrics.lastReplayed}</div>
     </div>
   );
 };
@@ -139,32 +152,15 @@ export const useMultiplayer = (
   connectionManager: ConnectionManager
 ) => {
   const [remotePlayers, setRemotePlayers] = useState<Record<string, RemotePlayerData>>({});
-  const [isConnected, setIsConnected] = useState(false);
-  const [playerId, setPlayerId] = useState<string | null>(null);
+  // The lobby may already have joined a session before we mount
+  const [isConnected, setIsConnected] = useState(() => connectionManager.getCurrentSession() !== null);
+  const [playerId, setPlayerId] = useState<string | null>(() => connectionManager.getPlayerId());
   const [debugMode, setDebugMode] = useState(false);
   
-  // Add state prediction buffer
-  const stateBuffer = useRef<PredictedState[]>([]);
-  const lastServerUpdateTime = useRef<number>(0);
-  const serverTimeOffset = useRef<number>(0);
   const sequenceNumber = useRef<number>(0);
   
-  // Add reconciliation tracking variables
-  const accumulatedError = useRef<number>(0);
-  const errorCount = useRef<number>(0);
-  const lastCorrectionTime = useRef<number>(0);
-  const pendingCorrection = useRef<boolean>(false);
-  const correctionData = useRef<{
-    position: THREE.Vector3;
-    smoothingFactor: number;
-    timestamp: number;
-  } | null>(null);
-
-  // New snapshot system state
-  const snapshots = useRef<GameSnapshot[]>([]);
+  // Snapshot history lives in ConnectionManager; we just decide how often to take one
   const snapshotInterval = useRef<number>(100); // ms between snapshots
-  const lastSnapshotTime = useRef<number>(0);
-  const maxSnapshots = useRef<number>(60); // Keep at most 60 snapshots (6 seconds at 10 per second)
 
   const remotePlayerRefs = useRef<Record<string, RemotePlayerData>>({});
   const updateMethodsRef = useRef<Record<string, RemotePlayerMethods>>({});
@@ -174,256 +170,36 @@ export const useMultiplayer = (
   const lastSentPosition = useRef<[number, number, number] | null>(null);
   const nextSequence = useRef<number>(0);
   
-  // Get server time with offset
+  // Snapshots and shots are stamped with the server's clock
   const getServerTime = () => {
-    return Date.now() + serverTimeOffset.current;
+    return connectionManager.getServerTime();
   };
   
   // Create a new game snapshot
   const createGameSnapshot = () => {
     if (!isConnected || !localPlayerRef.current || !playerId) return null;
     
-    // Get current player states
-    const players: Record<string, PlayerSnapshot> = {};
-    
-    // Add local player
-    if (localPlayerRef.current.rigidBody) {
-      const position = localPlayerRef.current.rigidBody.translation();
-      const positionArray: [number, number, number] = [position.x, position.y, position.z];
-      const rotationArray: [number, number, number, number] = camera.quaternion.toArray() as [number, number, number, number];
-      
-      players[playerId] = {
-        id: playerId,
-        position: positionArray,
-        rotation: rotationArray,
-        health: 100, // Assuming default health
-      };
-    }
-    
-    // Add remote players
-    Object.entries(remotePlayerRefs.current).forEach(([id, data]) => {
-      if (data && data.position) {
-        players[id] = {
-          id,
-          position: data.position,
-          rotation: data.rotation,
-          health: 100, // Assuming default health
-        };
-      }
-    });
-    
-    // Create the snapshot
-    const snapshot: GameSnapshot = {
-      timestamp: getServerTime(),
-      sequence: sequenceNumber.current,
-      players,
-      events: [] // No events in this basic snapshot
-    };
-    
-    // Add to snapshot buffer
-    snapshots.current.push(snapshot);
-    
-    // Limit buffer size
-    if (snapshots.current.length > maxSnapshots.current) {
-      snapshots.current.shift();
-    }
-    
-    lastSnapshotTime.current = Date.now();
-    
-    return snapshot;
-  };
-  
-  // Add function to send player position with prediction
-  const sendPlayerPosition = (position: THREE.Vector3, rotation: THREE.Quaternion) => {
-    if (!isConnected || !localPlayerRef.current) return;
-    
-    // Convert to arrays for network transmission
-    const positionArray: [number, number, number] = [position.x, position.y, position.z];
-    const rotationArray: [number, number, number, number] = [
-      rotation.x, rotation.y, rotation.z, rotation.w
-    ];
-
-    // Store predicted state in buffer with sequence number
-    const currentState: PredictedState = {
-      position: new THREE.Vector3(position.x, position.y, position.z),
-      velocity: new THREE.Vector3(0, 0, 0), // We'll track velocity later
-      sequence: sequenceNumber.current,
-      timestamp: getServerTime(),
-      processed: false
-    };
-    
-    // Add to prediction buffer
-    stateBuffer.current.push(currentState);
-    
-    // Limit buffer size to prevent memory issues
-    if (stateBuffer.current.length > 100) {
-      stateBuffer.current = stateBuffer.current.slice(-100);
-    }
-
-    // Send to server with sequence number for reconciliation
-    connectionManager.sendPlayerUpdate(
-      positionArray, 
-      rotationArray,
+    return buildGameSnapshot(
+      connectionManager,
+      playerId,
+      localPlayerRef.current,
+      camera.quaternion,
+      remotePlayerRefs.current,
+      getServerTime(),
       sequenceNumber.current
     );
-    
-    // Increment sequence number for next update
-    sequenceNumber.current++;
-  };
-
-  // Handle server reconciliation when we receive updates
-  const handleServerReconciliation = (serverState: ServerState) => {
-    // Find the matching prediction in our buffer
-    const matchingPrediction = stateBuffer.current.find(
-      state => state.sequence === serverState.sequence
-    );
-    
-    if (matchingPrediction) {
-      // Mark as processed
-      matchingPrediction.processed = true;
-      
-      // Calculate position error between our prediction and server state
-      const serverPosition = new THREE.Vector3(
-        serverState.position[0],
-        serverState.position[1],
-        serverState.position[2]
-      );
-      
-      const positionError = serverPosition.distanceTo(matchingPrediction.position);
-      
-      // Calculate error ratios for logging and adaptive correction
-      const errorRatio = positionError / 0.1; // Based on threshold
-      const shouldCorrect = positionError > 0.1;
-      
-      // Update error tracking for metrics
-      accumulatedError.current += positionError;
-      errorCount.current++;
-      updateReconciliationMetrics(positionError);
-      
-      if (shouldCorrect && localPlayerRef.current?.rigidBody) {
-        console.log(`Correcting position error: ${positionError.toFixed(3)} (${errorRatio.toFixed(1)}x threshold)`);
-        
-        // Choose a smoothing factor based on error size
-        // Larger errors use stronger correction
-        let smoothingFactor = 0.3; // Default
-        
-        if (errorRatio > 5) {
-          // Very large error - snap immediately
-          smoothingFactor = 1.0;
-        } else if (errorRatio > 2) {
-          // Large error - correct more strongly
-          smoothingFactor = 0.7;
-        } else if (errorRatio < 0.5) {
-          // Minor error - gentle correction
-          smoothingFactor = 0.1;
-        }
-        
-        // Don't apply corrections too frequently (prevent jitter)
-        const correctionTimeDiff = Date.now() - lastCorrectionTime.current;
-        if (correctionTimeDiff > 50) { // At least 50ms between corrections
-          // For Y-axis, we want to be careful not to interfere with jumps
-          // Only correct Y if we're significantly off
-          const yError = Math.abs(serverPosition.y - matchingPrediction.position.y);
-          if (yError > 0.5) {
-            // Major Y difference - include in correction
-            correctPlayerPosition(serverPosition, smoothingFactor);
-          } else {
-            // Minor Y difference - only correct XZ
-            const currentPosition = localPlayerRef.current.rigidBody.translation();
-            const correctedPosition = new THREE.Vector3(
-              serverPosition.x,
-              currentPosition.y, // Keep current Y
-              serverPosition.z
-            );
-            correctPlayerPosition(correctedPosition, smoothingFactor);
-          }
-          
-          lastCorrectionTime.current = Date.now();
-        }
-      } else if (shouldCorrect) {
-        console.warn("Cannot correct position: no rigidBody reference");
-      } else {
-        console.log(`Position accurate within threshold: ${positionError.toFixed(3)}`);
-      }
-    } else {
-      console.log(`No matching prediction found for sequence ${serverState.sequence}`);
-      
-      // Handle orphaned server updates (no matching prediction)
-      // This can happen due to packet loss or out-of-order delivery
-      if (localPlayerRef.current?.rigidBody && serverState.position) {
-        const serverPosition = new THREE.Vector3(
-          serverState.position[0],
-          serverState.position[1],
-          serverState.position[2]
-        );
-        
-        // Use a higher smoothing factor for orphaned updates
-        correctPlayerPosition(serverPosition, 0.5);
-      }
-    }
-    
-    // Clean up old entries that have been processed
-    stateBuffer.current = stateBuffer.current.filter(
-      state => !state.processed || state.sequence > serverState.sequence - 30
-    );
   };
   
-  // Function to correct player position with proper error handling
-  const correctPlayerPosition = (serverPosition: THREE.Vector3, smoothingFactor: number) => {
-    try {
-      // Store the correction for application in the physics step
-      correctionData.current = {
-        position: serverPosition.clone(),
-        smoothingFactor,
-        timestamp: Date.now()
-      };
-      
-      // Schedule correction to be applied in next physics step
-      pendingCorrection.current = true;
-      
-      // Update timestamp for synchronization
-      lastServerUpdateTime.current = Date.now();
-    } catch (error) {
-      console.error("Error during position correction:", error);
-    }
-  };
-  
-  // Apply correction with proper physics integration
-  const applyCorrection = () => {
-    if (!correctionData.current || !localPlayerRef.current?.rigidBody) {
-      pendingCorrection.current = false;
-      return false;
-    }
-    
-    try {
-      const { position, smoothingFactor } = correctionData.current;
-      const currentPosition = localPlayerRef.current.rigidBody.translation();
-      
-      // Calculate interpolated position
-      const newX = currentPosition.x + (position.x - currentPosition.x) * smoothingFactor;
-      const newY = currentPosition.y + (position.y - currentPosition.y) * smoothingFactor;
-      const newZ = currentPosition.z + (position.z - currentPosition.z) * smoothingFactor;
-      
-      // Apply the correction to the physics body
-      localPlayerRef.current.rigidBody.setTranslation(
-        { x: newX, y: newY, z: newZ },
-        true
-      );
-      
-      // Log the correction
-      console.log(`Applied position correction with factor ${smoothingFactor}`);
-      
-      // Clear the correction data
-      correctionData.current = null;
-      pendingCorrection.current = false;
-      
-      return true;
-    } catch (error) {
-      console.error("Error applying correction:", error);
-      pendingCorrection.current = false;
-    }
+  // Prediction and reconciliation live in the player components (see
+  // network/prediction.ts); this only reports where we are
+  const sendPlayerPosition = (position: THREE.Vector3, rotation: THREE.Quaternion) => {
+    if (!isConnected || !localPlayerRef.current) return;
     
-    return false;
+    connectionManager.sendPlayerUpdate({
+      position: [position.x, position.y, position.z],
+      rotation: [rotation.x, rotation.y, rotation.z, rotation.w],
+      sequence: sequenceNumber.current++
+    });
   };
   
   // Track remote players
@@ -499,11 +275,6 @@ export const useMultiplayer = (
     const handlePlayerLeft = (data: any) => {
       console.log("➖ Player left:", data);
       
-      // Also clean up rate limiting data for this player
-      if (playerUpdateThrottleRef.current[data.id]) {
-        delete playerUpdateThrottleRef.current[data.id];
-      }
-      
       setRemotePlayers(prev => {
         if (!prev[data.id]) {
           return prev;
@@ -544,6 +315,10 @@ export const useMultiplayer = (
         const rotation = data.rotation 
           ? quaternionToAngle(data.rotation) 
           : 0;
+        
+        const velocity = data.velocity 
+          ? arrayToObjectPosition(data.velocity) 
+          : undefined;
 
         // Detect movement by calculating position change
         let isMoving = false;
@@ -559,12 +334,18 @@ export const useMultiplayer = (
           // Get the current moving state
           const wasMoving = prev[data.id].isMoving || false;
           
+          // The sent velocity doesn't depend on how far apart updates arrive,
+          // so prefer it when we have it
+          const speed = velocity ? Math.hypot(velocity.x, velocity.z) : null;
+          const startedMoving = speed !== null ? speed > 0.5 : distance > 0.05;
+          const stoppedMoving = speed !== null ? speed < 0.2 : distance < 0.02;
+          
           // Apply hysteresis - use different thresholds for starting vs stopping movement
           // This prevents rapid toggling between states
-          if (!wasMoving && distance > 0.05) {
+          if (!wasMoving && startedMoving) {
             // Need more movement to start walking
             isMoving = true;
-          } else if (wasMoving && distance < 0.02) {
+          } else if (wasMoving && stoppedMoving) {
             // Need more stillness to stop walking
             isMoving = false;
           } else {
@@ -587,6 +368,7 @@ export const useMultiplayer = (
               playerId: data.id,
               position,
               rotation,
+              velocity,
               lastUpdate: now,
               playerType: data.state?.playerType || data.playerType || 'merc',
               isMoving: false // Start as idle
@@ -601,6 +383,7 @@ export const useMultiplayer = (
             ...prev[data.id],
             position,
             rotation,
+            velocity,
             lastUpdate: now,
             isMoving,
             // Extract playerType from state if available, otherwise keep existing or default to merc
@@ -610,10 +393,29 @@ export const useMultiplayer = (
       });
     };
     
+    // Players who stop sending updates fade out until ConnectionManager
+    // times them out (which arrives as player_left)
+    const setPlayerStaleSince = (id: string, staleSince: number | undefined) => {
+      setRemotePlayers(prev => {
+        if (!prev[id]) return prev;
+        return { ...prev, [id]: { ...prev[id], staleSince } };
+      });
+    };
+    
+    const handlePlayerStale = ({ id, since }: { id: string, since: number }) => {
+      setPlayerStaleSince(id, since);
+    };
+    
+    const handlePlayerActive = ({ id }: { id: string }) => {
+      setPlayerStaleSince(id, undefined);
+    };
+    
     // Register event handlers
     connectionManager.on('player_joined', handlePlayerJoined);
     connectionManager.on('player_left', handlePlayerLeft);
     connectionManager.on('player_update', handlePlayerUpdate);
+    connectionManager.on('player_stale', handlePlayerStale);
+    connectionManager.on('player_active', handlePlayerActive);
     
     // When connected, request the player list to make sure we have everyone
     const handleConnected = () => {
@@ -675,6 +477,8 @@ export const useMultiplayer = (
       connectionManager.off('player_joined', handlePlayerJoined);
       connectionManager.off('player_left', handlePlayerLeft);
       connectionManager.off('player_update', handlePlayerUpdate);
+      connectionManager.off('player_stale', handlePlayerStale);
+      connectionManager.off('player_active', handlePlayerActive);
       connectionManager.off('connected', handleConnected);
       connectionManager.off('initialized', handleInitialized);
     };
@@ -687,7 +491,7 @@ export const useMultiplayer = (
     const snapshotTimer = setInterval(() => {
       const snapshot = createGameSnapshot();
       if (snapshot) {
-        // Send snapshot to server if needed
+        // Records it in the snapshot history, then sends it to the server
         connectionManager.sendGameSnapshot(snapshot);
       }
     }, snapshotInterval.current);
@@ -880,135 +684,41 @@ export const useMultiplayer = (
     updateMethodsRef.current[id] = methods;
   };
   
-  // Apply correction during each frame and handle snapshot interpolation
-  useFrame(() => {
-    // Apply any pending corrections
-    if (pendingCorrection.current) {
-      applyCorrection();
-    }
-    
-    // Snapshot management - check for stale data
-    if (snapshots.current.length > 0) {
-      const now = Date.now();
-      // Clean up snapshots older than 10 seconds
-      const oldestValidTime = now - 10000;
-      snapshots.current = snapshots.current.filter(s => s.timestamp > oldestValidTime);
-    }
-  });
+  // Corrections are counted by ConnectionManager as the player components make them
+  const [reconciliationMetrics, setReconciliationMetrics] = useState<ReconciliationMetrics>(
+    () => connectionManager.getReconciliationMetrics()
+  );
   
-  // For reconciliation metrics
-  const [reconciliationMetrics, setReconciliationMetrics] = useState({
-    totalCorrections: 0,
-    averageError: 0,
-    lastError: 0,
-    lastCorrection: 0,
-    active: debugMode
-  });
+  useEffect(() => {
+    connectionManager.on('reconciliation_metrics', setReconciliationMetrics);
+    return () => {
+      connectionManager.off('reconciliation_metrics', setReconciliationMetrics);
+    };
+  }, [connectionManager]);
   
-  // Update metrics when corrections happen
-  const updateReconciliationMetrics = (error: number) => {
-    setReconciliationMetrics(prev => {
-      const totalCorrections = prev.totalCorrections + 1;
-      const totalError = prev.averageError * prev.totalCorrections + error;
-      const averageError = totalError / totalCorrections;
-      
-      return {
-        totalCorrections,
-        averageError,
-        lastError: error,
-        lastCorrection: Date.now(),
-        active: debugMode
-      };
+  // Sweep the fireball's path against remote players as we're drawing them.
+  // Our snapshots record what's on screen, already a latency and an
+  // interpolation delay behind, so there's nothing to rewind here; the
+  // authority does that against its own positions.
+  const checkLagCompensatedHit = (
+    shooterId: string,
+    origin: [number, number, number],
+    direction: [number, number, number]
+  ): LagCompensatedHit | null => {
+    const hit = validateShot(connectionManager, {
+      shooterId,
+      origin,
+      direction,
+      shotTime: getServerTime(),
+      latency: 0,
+      interpolationDelay: 0
     });
-  };
-  
-  // Function to get a snapshot at a specific time
-  const getSnapshotAtTime = (timestamp: number) => {
-    if (snapshots.current.length === 0) {
-      return null;
-    }
-    
-    // Find the closest snapshots
-    let before = snapshots.current[0];
-    let after = snapshots.current[snapshots.current.length - 1];
     
-    for (const snapshot of snapshots.current) {
-      if (snapshot.timestamp <= timestamp && snapshot.timestamp > before.timestamp) {
-        before = snapshot;
-      }
-      
-      if (snapshot.timestamp >= timestamp && snapshot.timestamp < after.timestamp) {
-        after = snapshot;
-      }
+    if (hit && DEBUG_LEVEL >= 2) {
+      console.log(`Lag-compensated hit on ${hit.playerId} (rewound to ${hit.rewindTime}, flight ${hit.flightTime.toFixed(2)}s)`);
     }
     
-    // If we found exact match
-    if (before.timestamp === timestamp) {
-      return before;
-    }
-    
-    // If the timestamp is out of range
-    if (timestamp < before.timestamp) {
-      return before;
-    }
-    
-    if (timestamp > after.timestamp) {
-      return after;
-    }
-    
-    // Otherwise we need to interpolate
-    return interpolateSnapshots(before, after, timestamp);
-  };
-  
-  // Helper to interpolate between two snapshots
-  const interpolateSnapshots = (before: GameSnapshot, after: GameSnapshot, timestamp: number) => {
-    const t = (timestamp - before.timestamp) / (after.timestamp - before.timestamp);
-    
-    // Create a new interpolated snapshot
-    const interpolated: GameSnapshot = {
-      timestamp,
-      sequence: Math.floor(before.sequence + (after.sequence - before.sequence) * t),
-      players: {},
-      events: [] // We don't interpolate events
-    };
-    
-    // Interpolate player positions
-    const playerIds = new Set([
-      ...Object.keys(before.players),
-      ...Object.keys(after.players)
-    ]);
-    
-    playerIds.forEach(id => {
-      const beforePlayer = before.players[id];
-      const afterPlayer = after.players[id];
-      
-      if (beforePlayer && afterPlayer) {
-        // Both snapshots have the player - interpolate
-        const position: [number, number, number] = [
-          beforePlayer.position[0] + (afterPlayer.position[0] - beforePlayer.position[0]) * t,
-          beforePlayer.position[1] + (afterPlayer.position[1] - beforePlayer.position[1]) * t,
-          beforePlayer.position[2] + (afterPlayer.position[2] - beforePlayer.position[2]) * t
-        ];
-        
-        // Note: We should properly interpolate quaternions, but this is simplified
-        const rotation = beforePlayer.rotation;
-        
-        interpolated.players[id] = {
-          id,
-          position,
-          rotation,
-          health: Math.floor(beforePlayer.health + (afterPlayer.health - beforePlayer.health) * t)
-        };
-      } else if (beforePlayer) {
-        // Only in before snapshot - assume player was removed
-        interpolated.players[id] = { ...beforePlayer };
-      } else if (afterPlayer) {
-        // Only in after snapshot - assume player was added
-        interpolated.players[id] = { ...afterPlayer };
-      }
-    });
-    
-    return interpolated;
+    return hit;
   };
   
   // Set up connection and event handlers
@@ -1050,10 +760,10 @@ export const useMultiplayer = (
       console.log("- PlayerId:", playerId);
       console.log("- Remote players:", Object.keys(remotePlayers).length);
       console.log("- Server URL:", connectionManager.getServerUrl());
-      console.log("- Socket state:", connectionManager.socket?.readyState || "NO_SOCKET");
+      console.log("- Socket state:", connectionManager.getSocketState());
       
       // Try to reestablish connection if needed
-      if (!isConnected && connectionManager.socket?.readyState !== WebSocket.OPEN) {
+      if (!isConnected && connectionManager.getSocketState() !== 'OPEN') {
         console.log("Attempting to reconnect...");
         connectionManager.connect();
       }
@@ -1081,7 +791,13 @@ export const useMultiplayer = (
           direction,
           isConnected 
         });
-        connectionManager.sendShootEvent(origin, direction);
+        const shotId = connectionManager.sendShootEvent(origin, direction);
+        
+        // Check the shot against where targets were on our screen, not where they are now
+        const hit = shotId && playerId ? checkLagCompensatedHit(playerId, origin, direction) : null;
+        if (shotId && hit) {
+          connectionManager.sendHitEvent(shotId, hit.playerId, hit.point);
+        }
       } else {
         console.log('Cannot send shoot event - not connected to server');
       }
@@ -1091,15 +807,15 @@ export const useMultiplayer = (
     playerId,
     sendPlayerPosition,
     // Add reconciliation controls
+    debugMode,
     setDebugMode,
-    applyCorrection,
-    pendingReconciliation: pendingCorrection,
     reconciliationMetrics,
     ReconciliationDebugOverlay,
     // Add snapshot system exports
-    getSnapshotAtTime,
+    getSnapshotAtTime: (timestamp: number) => connectionManager.getSnapshotAtTime(timestamp),
     createGameSnapshot,
-    snapshots: snapshots.current,
+    checkLagCompensatedHit,
+    getSnapshots: () => connectionManager.getSnapshots(),
     setSnapshotInterval: (interval: number) => {
       snapshotInterval.current = Math.max(50, interval); // Min 50ms
     }
@@ -1108,9 +824,15 @@ export const useMultiplayer = (
 
 // Render remote players - use React.memo to prevent unnecessary re-renders
 export const RemotePlayers = React.memo(({ 
-  players 
+  players,
+  fadeOutMs,
+  sampleTransform,
+  now
 }: { 
-  players: Record<string, RemotePlayerData> 
+  players: Record<string, RemotePlayerData>,
+  fadeOutMs?: number,
+  sampleTransform?: (playerId: string, limit?: ExtrapolationLimit) => InterpolatedTransform | null,
+  now?: () => number
 }) => {
   // Reduce debug logging frequency
   const renderCount = useRef(0);
@@ -1127,8 +849,13 @@ export const RemotePlayers = React.memo(({
           playerId={id}
           position={playerData.position}
           rotation={playerData.rotation}
+          velocity={playerData.velocity}
           playerType={playerData.playerType || 'merc'}
           isMoving={playerData.isMoving}
+          staleSince={playerData.staleSince}
+          fadeOutMs={fadeOutMs}
+          sampleTransform={sampleTransform}
+          now={now}
         />
       ))}
     </>
@@ -1140,18 +867,20 @@ export const MultiplayerManager: React.FC<{
   localPlayerRef: React.RefObject<any>,
   connectionManager: ConnectionManager
 }> = ({ localPlayerRef, connectionManager }) => {
-  const [isConnected, setIsConnected] = useState(false);
-  const [playerId, setPlayerId] = useState<string | null>(null);
+  // The lobby may already have joined a session before we mount
+  const [isConnected, setIsConnected] = useState(() => connectionManager.getCurrentSession() !== null);
+  const [playerId, setPlayerId] = useState<string | null>(() => connectionManager.getPlayerId());
   const [remotePlayers, setRemotePlayers] = useState<Record<string, RemotePlayerData>>({});
   
-  // For rate limiting player updates
-  const playerUpdateThrottleRef = useRef<Record<string, { lastTime: number, minInterval: number }>>({});
-  
   // Track last position/update time
   const lastSentPosition = useRef<[number, number, number] | null>(null);
   const lastUpdateTime = useRef<number>(0);
   const nextSequence = useRef<number>(0);
   
+  // Latest remote player state for the snapshot timer, which outlives renders
+  const remotePlayersRef = useRef(remotePlayers);
+  remotePlayersRef.current = remotePlayers;
+  
   const { camera } = useThree(); // Get the camera from useThree hook outside of the effect
   
   // Set up connection and event handlers
@@ -1193,10 +922,10 @@ export const MultiplayerManager: React.FC<{
       console.log("- PlayerId:", playerId);
       console.log("- Remote players:", Object.keys(remotePlayers).length);
       console.log("- Server URL:", connectionManager.getServerUrl());
-      console.log("- Socket state:", connectionManager.socket?.readyState || "NO_SOCKET");
+      console.log("- Socket state:", connectionManager.getSocketState());
       
       // Try to reestablish connection if needed
-      if (!isConnected && connectionManager.socket?.readyState !== WebSocket.OPEN) {
+      if (!isConnected && connectionManager.getSocketState() !== 'OPEN') {
         console.log("Attempting to reconnect...");
         connectionManager.connect();
       }
@@ -1288,11 +1017,6 @@ export const MultiplayerManager: React.FC<{
     const handlePlayerLeft = (data: any) => {
       console.log("➖ Player left:", data);
       
-      // Also clean up rate limiting data for this player
-      if (playerUpdateThrottleRef.current[data.id]) {
-        delete playerUpdateThrottleRef.current[data.id];
-      }
-      
       setRemotePlayers(prev => {
         if (!prev[data.id]) {
           return prev;
@@ -1333,6 +1057,10 @@ export const MultiplayerManager: React.FC<{
         const rotation = data.rotation 
           ? quaternionToAngle(data.rotation) 
           : 0;
+        
+        const velocity = data.velocity 
+          ? arrayToObjectPosition(data.velocity) 
+          : undefined;
 
         // Detect movement by calculating position change
         let isMoving = false;
@@ -1348,12 +1076,18 @@ export const MultiplayerManager: React.FC<{
           // Get the current moving state
           const wasMoving = prev[data.id].isMoving || false;
           
+          // The sent velocity doesn't depend on how far apart updates arrive,
+          // so prefer it when we have it
+          const speed = velocity ? Math.hypot(velocity.x, velocity.z) : null;
+          const startedMoving = speed !== null ? speed > 0.5 : distance > 0.05;
+          const stoppedMoving = speed !== null ? speed < 0.2 : distance < 0.02;
+          
           // Apply hysteresis - use different thresholds for starting vs stopping movement
           // This prevents rapid toggling between states
-          if (!wasMoving && distance > 0.05) {
+          if (!wasMoving && startedMoving) {
             // Need more movement to start walking
             isMoving = true;
-          } else if (wasMoving && distance < 0.02) {
+          } else if (wasMoving && stoppedMoving) {
             // Need more stillness to stop walking
             isMoving = false;
           } else {
@@ -1376,6 +1110,7 @@ export const MultiplayerManager: React.FC<{
               playerId: data.id,
               position,
               rotation,
+              velocity,
               lastUpdate: now,
               playerType: data.state?.playerType || data.playerType || 'merc',
               isMoving: false // Start as idle
@@ -1390,6 +1125,7 @@ export const MultiplayerManager: React.FC<{
             ...prev[data.id],
             position,
             rotation,
+            velocity,
             lastUpdate: now,
             isMoving,
             // Extract playerType from state if available, otherwise keep existing or default to merc
@@ -1399,10 +1135,29 @@ export const MultiplayerManager: React.FC<{
       });
     };
     
+    // Players who stop sending updates fade out until ConnectionManager
+    // times them out (which arrives as player_left)
+    const setPlayerStaleSince = (id: string, staleSince: number | undefined) => {
+      setRemotePlayers(prev => {
+        if (!prev[id]) return prev;
+        return { ...prev, [id]: { ...prev[id], staleSince } };
+      });
+    };
+    
+    const handlePlayerStale = ({ id, since }: { id: string, since: number }) => {
+      setPlayerStaleSince(id, since);
+    };
+    
+    const handlePlayerActive = ({ id }: { id: string }) => {
+      setPlayerStaleSince(id, undefined);
+    };
+    
     // Register event handlers
     connectionManager.on('player_joined', handlePlayerJoined);
     connectionManager.on('player_left', handlePlayerLeft);
     connectionManager.on('player_update', handlePlayerUpdate);
+    connectionManager.on('player_stale', handlePlayerStale);
+    connectionManager.on('player_active', handlePlayerActive);
     
     // When connected, request the player list to make sure we have everyone
     const handleConnected = () => {
@@ -1454,11 +1209,39 @@ export const MultiplayerManager: React.FC<{
       connectionManager.off('player_joined', handlePlayerJoined);
       connectionManager.off('player_left', handlePlayerLeft);
       connectionManager.off('player_update', handlePlayerUpdate);
+      connectionManager.off('player_stale', handlePlayerStale);
+      connectionManager.off('player_active', handlePlayerActive);
       connectionManager.off('connected', handleConnected);
       connectionManager.off('initialized', handleInitialized);
     };
   }, [connectionManager]);
   
+  // Record what we see into the shared snapshot history (lag compensation,
+  // debug overlay and replays read it back from connectionManager)
+  useEffect(() => {
+    if (!connectionManager) return;
+    
+    let sequence = 0;
+    const snapshotTimer = setInterval(() => {
+      const id = connectionManager.getPlayerId();
+      if (!id || !localPlayerRef.current) return;
+      
+      connectionManager.recordSnapshot(buildGameSnapshot(
+        connectionManager,
+        id,
+        localPlayerRef.current,
+        camera.quaternion,
+        remotePlayersRef.current,
+        connectionManager.getServerTime(),
+        sequence++
+      ));
+    }, 100);
+    
+    return () => {
+      clearInterval(snapshotTimer);
+    };
+  }, [connectionManager, localPlayerRef, camera]);
+  
   // Set up position update interval
   useEffect(() => {
     if (!connectionManager || !localPlayerRef.current || connectionManager.isOfflineMode()) {
@@ -1622,93 +1405,69 @@ export const MultiplayerManager: React.FC<{
     };
   }, [connectionManager, localPlayerRef, camera]);
 
+  // Stale players fade out over the time until they're removed
+  const { staleAfterMs, removeAfterMs } = connectionManager.getPlayerTimeouts();
+  const fadeOutMs = removeAfterMs - staleAfterMs;
+  
+  // Draw remote players from their jitter buffers rather than the latest
+  // update, on the connection's clock (a replay's runs at its own pace)
+  const sampleTransform = useCallback(
+    (id: string, limit?: ExtrapolationLimit) => connectionManager.sampleRemotePlayer(id, connectionManager.now(), limit),
+    [connectionManager]
+  );
+  const now = useCallback(() => connectionManager.now(), [connectionManager]);
+  
   // Render remote players
   return (
     <>
-      <RemotePlayers players={remotePlayers} />
+      <RemotePlayers players={remotePlayers} fadeOutMs={fadeOutMs} sampleTransform={sampleTransform} now={now} />
     </>
   );
 };
 
 // Remote shots hook for use in the sphere tool component
-export const useRemoteShots = (connectionManager: ConnectionManager) => {
+export const useRemoteShots = (connectionManager: ConnectionManager, ignoreShots?: () => boolean) => {
   const [shots, setShots] = useState<RemoteShot[]>([]);
-  const processedShots = useRef<Set<string>>(new Set());
+  
+  // Shots that arrive while this says so are dropped, e.g. while a replay skips ahead
+  const ignoreShotsRef = useRef(ignoreShots);
+  ignoreShotsRef.current = ignoreShots;
   
   useEffect(() => {
     if (!connectionManager) return;
     
     console.log('Setting up remote shots listener on connection manager:', connectionManager);
     
-    // Create a handler for shots from other players
+    // Create a handler for shots from other players. The connection manager
+    // hands us each shot once, so there's nothing to de-duplicate here.
     const handleShot = (shotData: any) => {
+      if (ignoreShotsRef.current?.()) return;
       console.log('Remote shot received:', shotData);
       
       // Create a consistent shotId if one doesn't exist
       const shotId = shotData.shotId || 
         `${shotData.id}-${shotData.origin?.join(',') || '0,0,0'}-${shotData.timestamp || Date.now()}`;
       
-      // Skip if we've already processed this shot
-      if (processedShots.current.has(shotId)) {
-        console.log('Shot already processed, skipping:', shotId);
-        return;
-      }
-      
-      // Add to processed shots to prevent duplicates
-      processedShots.current.add(shotId);
-      console.log('Adding shot to processed shots, new size:', processedShots.current.size);
-      
-      // Save the original shotId to the shot data for consistent tracking
       const remoteShot: RemoteShot & { shotId?: string } = {
         id: shotData.id || 'unknown',
         origin: shotData.origin || shotData.position || [0, 0, 0],
         direction: shotData.direction || [0, 1, 0],
-        shotId: shotId // Add the shotId to help with deduplication
+        shotId: shotId
       };
       
       // Add the shot to our state
       setShots(prev => [...prev, remoteShot]);
     };
     
-    // Setup cross-browser communication for shots
-    const handleStorageEvent = (e: StorageEvent) => {
-      if (e.key === 'jackalopes_shot_events' && e.newValue) {
-        try {
-          const shotData = JSON.parse(e.newValue);
-          console.log('Shot received from localStorage:', shotData);
-          handleShot(shotData);
-        } catch (error) {
-          console.error('Error processing shot from localStorage:', error);
-        }
-      }
-    };
-    
-    // Initialize or reuse the global processed shots set
-    if (!window.__processedShots) {
-      window.__processedShots = new Set<string>();
-    }
-    
-    // Sync our local set with the global one
-    processedShots.current = window.__processedShots;
-    
-    // Listen for shots from the connection manager
+    // Listen for shots from the connection manager. Offline, that includes
+    // shots from the other tabs of this browser.
     connectionManager.on('player_shoot', handleShot);
     
-    // Also listen for shots from localStorage (cross-browser testing)
-    window.addEventListener('storage', handleStorageEvent);
-    
-    // Make the localStorage broadcast function available globally
+    // Fire a shot through the connection manager, which shows it here and
+    // sends it to the server or, offline, to the other tabs
     window.__shotBroadcast = (shotData: any) => {
-      // Ensure the shot has a consistent ID
-      if (!shotData.shotId) {
-        shotData.shotId = `${shotData.id}-${shotData.origin?.join(',') || '0,0,0'}-${Date.now()}`;
-      }
-      
-      console.log('Shot broadcasted to localStorage:', shotData);
-      localStorage.setItem('jackalopes_shot_events', JSON.stringify(shotData));
-      
-      // Also process it locally for the current window
-      handleShot(shotData);
+      console.log('Broadcasting shot:', shotData);
+      return connectionManager.sendShootEvent(shotData.origin || [0, 0, 0], shotData.direction || [0, 1, 0]);
     };
     
     // Set up a function for sending test shots directly
@@ -1733,9 +1492,8 @@ export const useRemoteShots = (connectionManager: ConnectionManager) => {
     return () => {
       console.log('Cleaning up remote shots listener');
       connectionManager.off('player_shoot', handleShot);
-      window.removeEventListener('storage', handleStorageEvent);
       
-      // Clean up global functions but preserve processed shots
+      // Clean up global functions
       delete window.__shotBroadcast;
       delete window.__sendTestShot;
     };
@@ -1,5 +1,41 @@
 import React, { useState, useEffect } from 'react';
 import { ConnectionManager } from './ConnectionManager';
+import { ClockSyncState } from './ClockSync';
+import { JitterBufferStats } from './JitterBuffer';
+import { ReliableStats } from './reliable';
+import { SendQueueStats } from './SendQueue';
+
+// How often the jitter buffer figures are refreshed while the panel is open
+const BUFFER_POLL_MS = 500;
+
+type BufferHealth = {
+  players: number;
+  // Averages across remote players
+  delay: number;
+  jitter: number;
+  buffered: number;
+  // Totals across remote players
+  late: number;
+  underruns: number;
+  extrapolating: number;
+};
+
+const summarizeBuffers = (stats: Record<string, JitterBufferStats>): BufferHealth => {
+  const buffers = Object.values(stats);
+  const players = buffers.length;
+  const average = (pick: (s: JitterBufferStats) => number) =>
+    players > 0 ? buffers.reduce((sum, s) => sum + pick(s), 0) / players : 0;
+  
+  return {
+    players,
+    delay: average(s => s.delay),
+    jitter: average(s => s.jitter),
+    buffered: average(s => s.buffered),
+    late: buffers.reduce((sum, s) => sum + s.late, 0),
+    underruns: buffers.reduce((sum, s) => sum + s.underruns, 0),
+    extrapolating: buffers.filter(s => s.extrapolating).length
+  };
+};
 
 type NetworkStatsProps = {
   connectionManager: ConnectionManager;
@@ -16,7 +52,12 @@ export const NetworkStats: React.FC<NetworkStatsProps> = ({
   const [messagesSent, setMessagesSent] = useState(0);
   const [messagesReceived, setMessagesReceived] = useState(0);
   const [latency, setLatency] = useState(0);
+  const [encoding, setEncoding] = useState('json');
+  const [clock, setClock] = useState<ClockSyncState>(() => connectionManager.getClockSync());
   const [showStats, setShowStats] = useState(visible);
+  const [buffers, setBuffers] = useState<BufferHealth>(() => summarizeBuffers(connectionManager.getJitterBufferStats()));
+  const [events, setEvents] = useState<ReliableStats>(() => connectionManager.getEventStats());
+  const [sendQueue, setSendQueue] = useState<SendQueueStats>(() => connectionManager.getSendQueueStats());
 
   useEffect(() => {
     setShowStats(visible);
@@ -36,6 +77,7 @@ export const NetworkStats: React.FC<NetworkStatsProps> = ({
     
     const handleInitialized = (data: { id: string }) => {
       setPlayerId(data.id);
+      setEncoding(connectionManager.getEncoding());
     };
     
     const handlePlayerJoined = () => {
@@ -67,11 +109,13 @@ export const NetworkStats: React.FC<NetworkStatsProps> = ({
     connectionManager.on('message_sent', handleMessageSent);
     connectionManager.on('message_received', handleMessageReceived);
     connectionManager.on('latency_update', handleLatencyUpdate);
+    connectionManager.on('clock_sync', setClock);
     
     // Set initial state
     setIsConnected(connectionManager.isPlayerConnected());
     setPlayerId(connectionManager.getPlayerId());
     setLatency(connectionManager.getLatency());
+    setEncoding(connectionManager.getEncoding());
     
     // Clean up
     return () => {
@@ -83,9 +127,24 @@ export const NetworkStats: React.FC<NetworkStatsProps> = ({
       connectionManager.off('message_sent', handleMessageSent);
       connectionManager.off('message_received', handleMessageReceived);
       connectionManager.off('latency_update', handleLatencyUpdate);
+      connectionManager.off('clock_sync', setClock);
     };
   }, [connectionManager]);
   
+  // Buffer figures change every frame, so poll them rather than listen
+  useEffect(() => {
+    if (!showStats) return;
+    
+    const poll = () => {
+      setBuffers(summarizeBuffers(connectionManager.getJitterBufferStats()));
+      setEvents(connectionManager.getEventStats());
+      setSendQueue(connectionManager.getSendQueueStats());
+    };
+    poll();
+    const interval = setInterval(poll, BUFFER_POLL_MS);
+    return () => clearInterval(interval);
+  }, [connectionManager, showStats]);
+  
   // Toggle stats display
   const toggleStats = () => {
     setShowStats(prev => !prev);
@@ -153,10 +212,68 @@ export const NetworkStats: React.FC<NetworkStatsProps> = ({
             <span>{messagesReceived}</span>
           </div>
           
-          <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
             <span>Latency:</span>
             <span>{latency}ms</span>
           </div>
+          
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
+            <span>Clock Offset:</span>
+            <span>{clock.samples > 0 ? `${clock.offset > 0 ? '+' : ''}${Math.round(clock.offset)}ms ±${Math.round(clock.uncertainty)}` : 'N/A'}</span>
+          </div>
+          
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
+            <span>Clock Confidence:</span>
+            <span>{Math.round(clock.confidence * 100)}%</span>
+          </div>
+          
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
+            <span>Interp Delay:</span>
+            <span>{buffers.players > 0 ? `${Math.round(buffers.delay)}ms` : 'N/A'}</span>
+          </div>
+          
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
+            <span>Arrival Jitter:</span>
+            <span>{buffers.players > 0 ? `${Math.round(buffers.jitter)}ms` : 'N/A'}</span>
+          </div>
+          
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
+            <span>Buffered:</span>
+            <span>{buffers.buffered.toFixed(1)}</span>
+          </div>
+          
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
+            <span>Late / Underruns:</span>
+            <span style={{ color: buffers.extrapolating > 0 ? '#f88' : undefined }}>
+              {buffers.late} / {buffers.underruns}
+            </span>
+          </div>
+          
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
+            <span>Events Unacked / Resent:</span>
+            <span style={{ color: events.unacked > 0 ? '#ff8' : undefined }}>
+              {events.unacked} / {events.resent}
+            </span>
+          </div>
+          
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
+            <span>Send Queue:</span>
+            <span style={{ color: sendQueue.queued > 0 ? '#ff8' : undefined }}>
+              {sendQueue.queued} ({(sendQueue.backlogBytes / 1024).toFixed(1)} KB)
+            </span>
+          </div>
+          
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
+            <span>Coalesced / Dropped:</span>
+            <span style={{ color: sendQueue.dropped > 0 ? '#f88' : undefined }}>
+              {sendQueue.coalesced} / {sendQueue.dropped}
+            </span>
+          </div>
+          
+          <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+            <span>Encoding:</span>
+            <span>{encoding.toUpperCase()}</span>
+          </div>
         </div>
       )}
     </>
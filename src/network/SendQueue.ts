@@ -0,0 +1,211 @@
+// Outgoing message queue, owned by ConnectionManager.
+//
+// Writing every message straight to the socket lets a slow link fill the
+// socket's buffer with positions that are stale by the time they leave, and
+// shots and acks queue up behind them. Instead, messages wait here and go out
+// in priority order, and only while the transport's backlog
+// (WebSocket.bufferedAmount, plus the link conditioner's in development) is
+// under a high-water mark. Each message type has a policy (SEND_POLICIES):
+//
+// - a priority. Critical messages (auth, session changes, acks, pings) skip
+//   the backlog check, so a congested link can't stall the connection itself
+//   or skew clock sync.
+// - a drop policy: never, superseded by a newer message of the same type still
+//   waiting (player updates, acks), or the oldest once too many are waiting.
+// - a cap on how many go out per second. Over the cap, messages wait.
+//
+// Messages are encoded as they leave, not as they're queued, so a binary
+// player_update is delta'd against whatever the server acked last.
+
+import { ClientMessage, ClientMessageType } from './protocol';
+
+export type SendPriority = 'critical' | 'high' | 'normal' | 'low';
+
+export type DropPolicy = 'never' | 'superseded' | 'oldest';
+
+export interface SendPolicy {
+  priority: SendPriority;
+  drop: DropPolicy;
+  // Most waiting at once before the oldest is dropped, for drop: 'oldest'
+  maxQueued: number;
+  // Most sent per second, 0 for no cap
+  maxPerSecond: number;
+}
+
+const SEND_ORDER: SendPriority[] = ['critical', 'high', 'normal', 'low'];
+
+export const SEND_POLICIES: Record<ClientMessageType, SendPolicy> = {
+  auth: { priority: 'critical', drop: 'never', maxQueued: 0, maxPerSecond: 0 },
+  join_session: { priority: 'critical', drop: 'never', maxQueued: 0, maxPerSecond: 0 },
+  create_session: { priority: 'critical', drop: 'never', maxQueued: 0, maxPerSecond: 0 },
+  leave_session: { priority: 'critical', drop: 'never', maxQueued: 0, maxPerSecond: 0 },
+  // Acks are cumulative, so only the newest matters
+  event_ack: { priority: 'critical', drop: 'superseded', maxQueued: 0, maxPerSecond: 0 },
+  game_event: { priority: 'high', drop: 'never', maxQueued: 0, maxPerSecond: 0 },
+  // Each batch carries inputs the others don't. Losing one costs a
+  // correction, which beats sending ever older inputs.
+  player_input: { priority: 'high', drop: 'oldest', maxQueued: 20, maxPerSecond: 0 },
+  chat: { priority: 'normal', drop: 'oldest', maxQueued: 20, maxPerSecond: 0 },
+  role_swap_request: { priority: 'normal', drop: 'superseded', maxQueued: 0, maxPerSecond: 0 },
+  list_sessions: { priority: 'normal', drop: 'superseded', maxQueued: 0, maxPerSecond: 0 },
+  request_player_list: { priority: 'normal', drop: 'superseded', maxQueued: 0, maxPerSecond: 1 },
+  // A ping that waited would measure the queue rather than the link, and its
+  // timestamp is taken when it's queued, so it goes out straight away
+  ping: { priority: 'critical', drop: 'superseded', maxQueued: 0, maxPerSecond: 0 },
+  player_update: { priority: 'low', drop: 'superseded', maxQueued: 0, maxPerSecond: 30 },
+  game_snapshot: { priority: 'low', drop: 'superseded', maxQueued: 0, maxPerSecond: 20 },
+  keepalive: { priority: 'low', drop: 'superseded', maxQueued: 0, maxPerSecond: 0 }
+};
+
+export interface SendQueueOptions {
+  // Bytes waiting to go out above which only critical messages are sent
+  highWaterBytes: number;
+  // How soon to try again while messages are waiting, in ms
+  retryMs: number;
+}
+
+export const DEFAULT_SEND_QUEUE_OPTIONS: SendQueueOptions = {
+  highWaterBytes: 2 * 1024,
+  retryMs: 10
+};
+
+export interface SendQueueStats {
+  // Messages waiting now, and the transport's backlog in bytes
+  queued: number;
+  backlogBytes: number;
+  sent: number;
+  // Replaced by a newer message before they went out
+  coalesced: number;
+  // Dropped for too many waiting
+  dropped: number;
+  // Coalesced and dropped messages by type
+  droppedByType: Partial<Record<ClientMessageType, number>>;
+}
+
+export class SendQueue {
+  private write: (message: ClientMessage) => void;
+  private getBacklog: () => number;
+  private options: SendQueueOptions;
+  private policies: Record<ClientMessageType, SendPolicy>;
+  private queues: Record<SendPriority, ClientMessage[]> = { critical: [], high: [], normal: [], low: [] };
+  private lastSentAt = new Map<ClientMessageType, number>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private stats: SendQueueStats = {
+    queued: 0,
+    backlogBytes: 0,
+    sent: 0,
+    coalesced: 0,
+    dropped: 0,
+    droppedByType: {}
+  };
+
+  constructor(
+    write: (message: ClientMessage) => void,
+    getBacklog: () => number,
+    options: Partial<SendQueueOptions> = {},
+    policies: Partial<Record<ClientMessageType, SendPolicy>> = {}
+  ) {
+    this.write = write;
+    this.getBacklog = getBacklog;
+    this.options = { ...DEFAULT_SEND_QUEUE_OPTIONS, ...options };
+    this.policies = { ...SEND_POLICIES, ...policies };
+  }
+
+  getStats(): SendQueueStats {
+    return {
+      ...this.stats,
+      queued: SEND_ORDER.reduce((sum, priority) => sum + this.queues[priority].length, 0),
+      backlogBytes: this.getBacklog(),
+      droppedByType: { ...this.stats.droppedByType }
+    };
+  }
+
+  // Queue a message and send whatever the link has room for
+  push(message: ClientMessage, now: number = Date.now()): void {
+    const policy = this.policies[message.type];
+    const queue = this.queues[policy.priority];
+
+    if (policy.drop === 'superseded') {
+      // The newer one takes the older one's place in line
+      const index = queue.findIndex(queued => queued.type === message.type);
+      if (index >= 0) {
+        queue[index] = message;
+        this.stats.coalesced++;
+        this.countDrop(message.type);
+        this.flush(now);
+        return;
+      }
+    }
+
+    queue.push(message);
+
+    if (policy.drop === 'oldest' && policy.maxQueued > 0) {
+      const waiting = queue.filter(queued => queued.type === message.type).length;
+      if (waiting > policy.maxQueued) {
+        queue.splice(queue.findIndex(queued => queued.type === message.type), 1);
+        this.stats.dropped++;
+        this.countDrop(message.type);
+      }
+    }
+
+    this.flush(now);
+  }
+
+  // Send waiting messages, most important first, until the backlog is full
+  flush(now: number = Date.now()): void {
+    for (const priority of SEND_ORDER) {
+      const queue = this.queues[priority];
+      let index = 0;
+
+      while (index < queue.length) {
+        if (priority !== 'critical' && this.getBacklog() >= this.options.highWaterBytes) {
+          this.scheduleRetry();
+          return;
+        }
+
+        const message = queue[index];
+        const { maxPerSecond } = this.policies[message.type];
+        const lastSentAt = this.lastSentAt.get(message.type);
+        if (maxPerSecond > 0 && lastSentAt !== undefined && now - lastSentAt < 1000 / maxPerSecond) {
+          // Later messages of other types can still go
+          index++;
+          continue;
+        }
+
+        queue.splice(index, 1);
+        this.lastSentAt.set(message.type, now);
+        this.stats.sent++;
+        this.write(message);
+      }
+    }
+
+    if (SEND_ORDER.some(priority => this.queues[priority].length > 0)) {
+      this.scheduleRetry();
+    }
+  }
+
+  // Forget everything waiting, e.g. when the connection closes
+  clear(): void {
+    SEND_ORDER.forEach(priority => {
+      this.queues[priority] = [];
+    });
+    this.lastSentAt.clear();
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer !== null) return;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, this.options.retryMs);
+  }
+
+  private countDrop(type: ClientMessageType): void {
+    this.stats.droppedByType[type] = (this.stats.droppedByType[type] ?? 0) + 1;
+  }
+}
@@ -0,0 +1,248 @@
+// Time-indexed history of GameSnapshots, owned by ConnectionManager.
+//
+// Snapshots are kept in a fixed-size ring ordered by timestamp. Lookups binary
+// search for the pair of snapshots around the requested time and interpolate
+// between them, so lag compensation, the debug overlay and replay tooling all
+// see the same history.
+
+import { GameSnapshot, PlayerSnapshot, Quat, Vec3 } from './protocol';
+import { SnapshotSource } from './lagCompensation';
+
+export interface SnapshotRetention {
+  // Hard cap on how many snapshots are kept
+  maxSnapshots: number;
+  // Snapshots older than this (relative to the newest one) are dropped
+  maxAgeMs: number;
+}
+
+// 10 seconds of history at the default 10 snapshots per second
+export const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetention = {
+  maxSnapshots: 100,
+  maxAgeMs: 10000
+};
+
+export class SnapshotBuffer implements SnapshotSource {
+  private ring: (GameSnapshot | undefined)[];
+  private start = 0; // index of the oldest snapshot
+  private count = 0;
+  private retention: SnapshotRetention;
+
+  constructor(retention: Partial<SnapshotRetention> = {}) {
+    this.retention = { ...DEFAULT_SNAPSHOT_RETENTION, ...retention };
+    this.ring = new Array(this.retention.maxSnapshots);
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  getRetention(): SnapshotRetention {
+    return { ...this.retention };
+  }
+
+  // Change how much history is kept. Shrinking drops the oldest snapshots.
+  setRetention(retention: Partial<SnapshotRetention>): void {
+    const snapshots = this.toArray();
+    this.retention = {
+      maxSnapshots: Math.max(2, Math.floor(retention.maxSnapshots ?? this.retention.maxSnapshots)),
+      maxAgeMs: Math.max(0, retention.maxAgeMs ?? this.retention.maxAgeMs)
+    };
+
+    this.ring = new Array(this.retention.maxSnapshots);
+    this.start = 0;
+    this.count = 0;
+    snapshots.slice(-this.retention.maxSnapshots).forEach(snapshot => this.append(snapshot));
+    this.prune();
+  }
+
+  // Add a snapshot. Snapshots normally arrive in order; a late one is slotted
+  // into place, and one with the same timestamp as an existing entry replaces it.
+  add(snapshot: GameSnapshot): void {
+    const newest = this.at(this.count - 1);
+
+    if (!newest || snapshot.timestamp > newest.timestamp) {
+      this.append(snapshot);
+    } else {
+      const index = this.lowerBound(snapshot.timestamp);
+      const existing = this.at(index);
+
+      if (existing && existing.timestamp === snapshot.timestamp) {
+        this.ring[this.physicalIndex(index)] = snapshot;
+      } else {
+        // Older than everything we're allowed to keep - drop it
+        if (index === 0 && this.count === this.retention.maxSnapshots) return;
+
+        const snapshots = this.toArray();
+        snapshots.splice(index, 0, snapshot);
+        this.clear();
+        snapshots.forEach(s => this.append(s));
+      }
+    }
+
+    this.prune();
+  }
+
+  clear(): void {
+    this.ring = new Array(this.retention.maxSnapshots);
+    this.start = 0;
+    this.count = 0;
+  }
+
+  // Oldest first
+  toArray(): GameSnapshot[] {
+    const snapshots: GameSnapshot[] = [];
+    for (let i = 0; i < this.count; i++) {
+      snapshots.push(this.at(i)!);
+    }
+    return snapshots;
+  }
+
+  getLatest(): GameSnapshot | null {
+    return this.at(this.count - 1) ?? null;
+  }
+
+  getOldest(): GameSnapshot | null {
+    return this.at(0) ?? null;
+  }
+
+  // The world as it was at `timestamp`. Times outside the buffered range clamp
+  // to the oldest/newest snapshot; returns null only when the buffer is empty.
+  getSnapshotAtTime(timestamp: number): GameSnapshot | null {
+    if (this.count === 0) return null;
+
+    const index = this.lowerBound(timestamp);
+    if (index === 0) return this.at(0)!;
+    if (index === this.count) return this.at(this.count - 1)!;
+
+    const after = this.at(index)!;
+    if (after.timestamp === timestamp) return after;
+
+    return interpolateSnapshots(this.at(index - 1)!, after, timestamp);
+  }
+
+  private append(snapshot: GameSnapshot): void {
+    if (this.count < this.retention.maxSnapshots) {
+      this.ring[this.physicalIndex(this.count)] = snapshot;
+      this.count++;
+    } else {
+      // Full - overwrite the oldest
+      this.ring[this.start] = snapshot;
+      this.start = (this.start + 1) % this.retention.maxSnapshots;
+    }
+  }
+
+  // Drop snapshots that have aged out relative to the newest one
+  private prune(): void {
+    const newest = this.at(this.count - 1);
+    if (!newest) return;
+
+    const oldestAllowed = newest.timestamp - this.retention.maxAgeMs;
+    while (this.count > 1 && this.at(0)!.timestamp < oldestAllowed) {
+      this.ring[this.start] = undefined;
+      this.start = (this.start + 1) % this.retention.maxSnapshots;
+      this.count--;
+    }
+  }
+
+  // Index of the first snapshot at or after `timestamp` (count if none)
+  private lowerBound(timestamp: number): number {
+    let low = 0;
+    let high = this.count;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.at(mid)!.timestamp < timestamp) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  private at(index: number): GameSnapshot | undefined {
+    if (index < 0 || index >= this.count) return undefined;
+    return this.ring[this.physicalIndex(index)];
+  }
+
+  private physicalIndex(index: number): number {
+    return (this.start + index) % this.retention.maxSnapshots;
+  }
+}
+
+// Blend two snapshots. Players only present in one of them are carried over
+// as-is; events aren't interpolated.
+export function interpolateSnapshots(before: GameSnapshot, after: GameSnapshot, timestamp: number): GameSnapshot {
+  const range = after.timestamp - before.timestamp;
+  const t = range > 0 ? Math.max(0, Math.min(1, (timestamp - before.timestamp) / range)) : 1;
+
+  const players: Record<string, PlayerSnapshot> = {};
+  const playerIds = new Set([...Object.keys(before.players), ...Object.keys(after.players)]);
+
+  playerIds.forEach(id => {
+    const from = before.players[id];
+    const to = after.players[id];
+
+    if (from && to) {
+      players[id] = {
+        id,
+        position: lerpVec3(from.position, to.position, t),
+        rotation: slerpQuat(from.rotation, to.rotation, t),
+        velocity: from.velocity && to.velocity ? lerpVec3(from.velocity, to.velocity, t) : to.velocity,
+        // Health changes in steps, so don't blend it
+        health: t < 1 ? from.health : to.health,
+        playerType: to.playerType
+      };
+    } else {
+      players[id] = { ...(from || to)! };
+    }
+  });
+
+  return {
+    timestamp,
+    sequence: Math.floor(before.sequence + (after.sequence - before.sequence) * t),
+    players,
+    events: []
+  };
+}
+
+export function lerpVec3(a: Vec3, b: Vec3, t: number): Vec3 {
+  return [
+    a[0] + (b[0] - a[0]) * t,
+    a[1] + (b[1] - a[1]) * t,
+    a[2] + (b[2] - a[2]) * t
+  ];
+}
+
+export function slerpQuat(a: Quat, b: Quat, t: number): Quat {
+  let cos = a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+  let target = b;
+
+  // Take the short way round
+  if (cos < 0) {
+    cos = -cos;
+    target = [-b[0], -b[1], -b[2], -b[3]];
+  }
+
+  // Nearly identical - plain lerp avoids dividing by ~0
+  if (cos > 0.9995) {
+    const q: Quat = [
+      a[0] + (target[0] - a[0]) * t,
+      a[1] + (target[1] - a[1]) * t,
+      a[2] + (target[2] - a[2]) * t,
+      a[3] + (target[3] - a[3]) * t
+    ];
+    const length = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+    return [q[0] / length, q[1] / length, q[2] / length, q[3] / length];
+  }
+
+  const angle = Math.acos(cos);
+  const sin = Math.sin(angle);
+  const wa = Math.sin((1 - t) * angle) / sin;
+  const wb = Math.sin(t * angle) / sin;
+  return [
+    a[0] * wa + target[0] * wb,
+    a[1] * wa + target[1] * wb,
+    a[2] * wa + target[2] * wb,
+    a[3] * wa + target[3] * wb
+  ];
+}
@@ -125,7 +125,7 @@ export const TestConnection: React.FC = () => {
 
     return () => {
       clearInterval(intervalId);
-      connectionManager.disconnect();
+      connectionManager.dispose();
     };
   }, []);
 
@@ -0,0 +1,453 @@
+// Headless bot clients for load and gameplay testing.
+//
+// Each bot is a full ConnectionManager speaking the real protocol to a
+// server, so a session can be filled without opening a tab per player. Bots
+// walk about (at random, or along a scripted patrol), fire now and then, and
+// can be made to leave and rejoin to churn the session. BotHarness runs a
+// group of them: the MultiplayerDebugPanel drives one in the browser, and
+// scripts/bots.js runs one headless under Node against a local server.
+//
+// Every bot meters its own connection, which answers what we run them for:
+// how many updates the server fans out to each client, and how long a client
+// spends per frame on the network side of things. That's handling incoming
+// messages plus sampling every remote player's jitter buffer, as
+// RemotePlayer does each frame.
+
+import { ConnectionManager, LogLevel } from './ConnectionManager';
+import { Quat, Vec3 } from './protocol';
+import { DEFAULT_TRANSPORTS, Transport, TransportFactories, TransportHandlers, TransportPayload } from './transport';
+
+export type BotMovement = 'random' | 'patrol' | 'idle';
+
+export interface BotOptions {
+  serverUrl: string;
+  // Share code of the session to join, null for the default session
+  sessionCode: string | null;
+  movement: BotMovement;
+  // Points patrolling bots walk between, in order, looping
+  waypoints: Vec3[];
+  // Random walkers stay within this distance of the origin
+  arenaRadius: number;
+  // World units per second
+  speed: number;
+  // How often each bot moves, sends an update and samples remote players, in ms
+  tickMs: number;
+  // Average time between one bot's shots, in ms. 0 to never fire.
+  fireIntervalMs: number;
+  // Average time a bot stays before leaving, in ms, 0 to never leave, and
+  // how long it's gone before rejoining as a new player
+  churnIntervalMs: number;
+  rejoinDelayMs: number;
+  namePrefix: string;
+  // Transports for each bot's connection, e.g. a loopback to an in-process server
+  transports: Partial<TransportFactories>;
+}
+
+export const DEFAULT_BOT_OPTIONS: BotOptions = {
+  serverUrl: 'ws://localhost:8082',
+  sessionCode: null,
+  movement: 'random',
+  waypoints: [[-10, 1, -10], [10, 1, -10], [10, 1, 10], [-10, 1, 10]],
+  arenaRadius: 20,
+  speed: 5,
+  tickMs: 50,
+  fireIntervalMs: 3000,
+  churnIntervalMs: 0,
+  rejoinDelayMs: 2000,
+  namePrefix: 'bot',
+  transports: {}
+};
+
+export interface BotHarnessStats {
+  bots: number;
+  // Bots currently in a session
+  active: number;
+  joins: number;
+  leaves: number;
+  shots: number;
+  // Averages per active bot over the last second. "Updates" are other
+  // players' moves; "messages" is everything on the wire.
+  updatesSent: number;
+  updatesReceived: number;
+  messagesReceived: number;
+  bytesReceived: number;
+  // Client-side network work per tick, in ms
+  frameMs: number;
+  maxFrameMs: number;
+}
+
+// How often the per-second figures are worked out
+const STATS_WINDOW_MS = 1000;
+
+// Counted over one stats window, across all bots
+interface WindowCounters {
+  updatesSent: number;
+  updatesReceived: number;
+  messagesReceived: number;
+  bytesReceived: number;
+  frames: number;
+  frameMs: number;
+  maxFrameMs: number;
+}
+
+const emptyWindow = (): WindowCounters => ({
+  updatesSent: 0,
+  updatesReceived: 0,
+  messagesReceived: 0,
+  bytesReceived: 0,
+  frames: 0,
+  frameMs: 0,
+  maxFrameMs: 0
+});
+
+const payloadSize = (payload: TransportPayload) =>
+  typeof payload === 'string' ? payload.length : payload.byteLength;
+
+// Passes everything through to the real transport, timing how long the
+// connection takes to handle each incoming message
+class MeteredTransport implements Transport {
+  readonly kind: string;
+  private inner: Transport;
+  private onReceived: (size: number, handleMs: number) => void;
+
+  constructor(inner: Transport, onReceived: (size: number, handleMs: number) => void) {
+    this.kind = inner.kind;
+    this.inner = inner;
+    this.onReceived = onReceived;
+  }
+
+  getState() {
+    return this.inner.getState();
+  }
+
+  getBufferedAmount() {
+    return this.inner.getBufferedAmount();
+  }
+
+  open(handlers: TransportHandlers): void {
+    this.inner.open({
+      ...handlers,
+      onMessage: (data) => {
+        const started = performance.now();
+        handlers.onMessage(data);
+        this.onReceived(payloadSize(data), performance.now() - started);
+      }
+    });
+  }
+
+  send(payload: TransportPayload): void {
+    this.inner.send(payload);
+  }
+
+  close(): void {
+    this.inner.close();
+  }
+}
+
+class Bot {
+  readonly connection: ConnectionManager;
+  private getOptions: () => BotOptions;
+  private counters: () => WindowCounters;
+  private totals: { joins: number, leaves: number, shots: number };
+
+  private inSession = false;
+  private rejoinAt: number | null = null;
+  private position: Vec3;
+  private yaw = 0;
+  private target: Vec3;
+  private waypoint: number;
+  // Time spent handling messages since the last tick
+  private handleMs = 0;
+
+  constructor(
+    index: number,
+    getOptions: () => BotOptions,
+    counters: () => WindowCounters,
+    totals: { joins: number, leaves: number, shots: number }
+  ) {
+    this.getOptions = getOptions;
+    this.counters = counters;
+    this.totals = totals;
+
+    const options = getOptions();
+    const transports = { ...DEFAULT_TRANSPORTS, ...options.transports };
+    this.connection = new ConnectionManager(options.serverUrl, {
+      ...transports,
+      server: (url) => new MeteredTransport(transports.server(url), (size, handleMs) => {
+        const counts = this.counters();
+        counts.messagesReceived++;
+        counts.bytesReceived += size;
+        this.handleMs += handleMs;
+      })
+    });
+    this.connection.setLogLevel(LogLevel.ERROR);
+    this.connection.setPlayerName(`${options.namePrefix}-${index}`);
+    if (options.sessionCode) {
+      this.connection.joinSessionByCode(options.sessionCode);
+    }
+
+    this.connection.on('session_joined', () => {
+      this.inSession = true;
+      this.totals.joins++;
+    });
+    this.connection.on('disconnected', () => {
+      this.inSession = false;
+    });
+    this.connection.on('player_update', () => {
+      this.counters().updatesReceived++;
+    });
+
+    // Spread out along the patrol so they don't walk in a clump
+    this.waypoint = index % options.waypoints.length;
+    this.position = [...options.waypoints[this.waypoint]];
+    this.target = this.position;
+  }
+
+  isInSession(): boolean {
+    return this.inSession;
+  }
+
+  start(): void {
+    this.connection.connect();
+  }
+
+  stop(): void {
+    this.connection.disconnect();
+    this.connection.removeAllListeners();
+  }
+
+  tick(now: number, dt: number): void {
+    const options = this.getOptions();
+
+    if (this.rejoinAt !== null) {
+      if (now >= this.rejoinAt) {
+        this.rejoinAt = null;
+        this.connection.connect();
+      }
+      return;
+    }
+    if (!this.inSession) return;
+
+    if (options.churnIntervalMs > 0 && Math.random() < dt / options.churnIntervalMs) {
+      this.totals.leaves++;
+      this.rejoinAt = now + options.rejoinDelayMs;
+      this.connection.disconnect();
+      return;
+    }
+
+    const started = performance.now();
+
+    // What a client does each frame for every player it draws
+    const others: Vec3[] = [];
+    this.connection.getRemotePlayerIds().forEach(id => {
+      const transform = this.connection.sampleRemotePlayer(id, now);
+      if (transform) others.push(transform.position);
+    });
+
+    const velocity = this.move(options, dt);
+    const rotation: Quat = [0, Math.sin(this.yaw / 2), 0, Math.cos(this.yaw / 2)];
+    this.connection.sendPlayerUpdate({
+      position: this.position,
+      rotation,
+      velocity,
+      playerType: this.connection.getAssignedPlayerType()
+    });
+    this.counters().updatesSent++;
+
+    if (options.fireIntervalMs > 0 && Math.random() < dt / options.fireIntervalMs) {
+      this.fire(others);
+    }
+
+    const frameMs = performance.now() - started + this.handleMs;
+    this.handleMs = 0;
+    const counts = this.counters();
+    counts.frames++;
+    counts.frameMs += frameMs;
+    counts.maxFrameMs = Math.max(counts.maxFrameMs, frameMs);
+  }
+
+  // Step towards the current target and return the velocity we moved at
+  private move(options: BotOptions, dt: number): Vec3 {
+    if (options.movement === 'idle') return [0, 0, 0];
+
+    const dx = this.target[0] - this.position[0];
+    const dz = this.target[2] - this.position[2];
+    const distance = Math.hypot(dx, dz);
+    const step = options.speed * dt / 1000;
+
+    if (distance <= step) {
+      this.position = [this.target[0], this.position[1], this.target[2]];
+      this.target = this.nextTarget(options);
+      return [0, 0, 0];
+    }
+
+    this.yaw = Math.atan2(dx, dz);
+    this.position = [this.position[0] + dx / distance * step, this.position[1], this.position[2] + dz / distance * step];
+    return [dx / distance * options.speed, 0, dz / distance * options.speed];
+  }
+
+  private nextTarget(options: BotOptions): Vec3 {
+    if (options.movement === 'patrol') {
+      this.waypoint = (this.waypoint + 1) % options.waypoints.length;
+      return options.waypoints[this.waypoint];
+    }
+
+    const angle = Math.random() * Math.PI * 2;
+    const radius = Math.sqrt(Math.random()) * options.arenaRadius;
+    return [Math.cos(angle) * radius, this.position[1], Math.sin(angle) * radius];
+  }
+
+  // Fire at the nearest player we can see, or straight ahead if there's nobody
+  private fire(others: Vec3[]): void {
+    const origin: Vec3 = [this.position[0], this.position[1] + 0.5, this.position[2]];
+    let direction: Vec3 = [Math.sin(this.yaw), 0, Math.cos(this.yaw)];
+
+    let nearest = Infinity;
+    others.forEach(other => {
+      const offset: Vec3 = [other[0] - origin[0], other[1] - origin[1], other[2] - origin[2]];
+      const distance = Math.hypot(...offset);
+      if (distance > 0 && distance < nearest) {
+        nearest = distance;
+        direction = [offset[0] / distance, offset[1] / distance, offset[2] / distance];
+      }
+    });
+
+    if (this.connection.sendShootEvent(origin, direction)) {
+      this.totals.shots++;
+    }
+  }
+}
+
+export class BotHarness {
+  private bots: Bot[] = [];
+  private options: BotOptions;
+  private nextIndex = 1;
+  private tickInterval: ReturnType<typeof setInterval> | null = null;
+  private statsInterval: ReturnType<typeof setInterval> | null = null;
+  private lastTickAt = 0;
+
+  private counts = emptyWindow();
+  private windowStartedAt = 0;
+  private totals = { joins: 0, leaves: 0, shots: 0 };
+  private stats: BotHarnessStats = {
+    bots: 0,
+    active: 0,
+    joins: 0,
+    leaves: 0,
+    shots: 0,
+    updatesSent: 0,
+    updatesReceived: 0,
+    messagesReceived: 0,
+    bytesReceived: 0,
+    frameMs: 0,
+    maxFrameMs: 0
+  };
+
+  constructor(options: Partial<BotOptions> = {}) {
+    this.options = { ...DEFAULT_BOT_OPTIONS, ...options };
+  }
+
+  getOptions(): BotOptions {
+    return { ...this.options };
+  }
+
+  // Movement, firing and churn changes apply to running bots straight away
+  setOptions(options: Partial<BotOptions>): void {
+    const tickChanged = options.tickMs !== undefined && options.tickMs !== this.options.tickMs;
+    this.options = { ...this.options, ...options };
+    if (tickChanged && this.tickInterval !== null) {
+      this.stopTimers();
+      this.startTimers();
+    }
+  }
+
+  getCount(): number {
+    return this.bots.length;
+  }
+
+  spawn(count = 1): void {
+    for (let i = 0; i < count; i++) {
+      const bot = new Bot(this.nextIndex++, () => this.options, () => this.counts, this.totals);
+      this.bots.push(bot);
+      bot.start();
+    }
+    this.startTimers();
+  }
+
+  // Disconnect the most recently spawned bots
+  remove(count = 1): void {
+    this.bots.splice(Math.max(0, this.bots.length - count)).forEach(bot => bot.stop());
+    if (this.bots.length === 0) {
+      this.stopTimers();
+    }
+  }
+
+  setCount(count: number): void {
+    if (count > this.bots.length) {
+      this.spawn(count - this.bots.length);
+    } else {
+      this.remove(this.bots.length - count);
+    }
+  }
+
+  stop(): void {
+    this.remove(this.bots.length);
+  }
+
+  getStats(): BotHarnessStats {
+    return {
+      ...this.stats,
+      bots: this.bots.length,
+      active: this.bots.filter(bot => bot.isInSession()).length,
+      ...this.totals
+    };
+  }
+
+  private startTimers(): void {
+    if (this.tickInterval !== null) return;
+
+    this.lastTickAt = Date.now();
+    this.tickInterval = setInterval(() => {
+      const now = Date.now();
+      const dt = now - this.lastTickAt;
+      this.lastTickAt = now;
+      this.bots.forEach(bot => bot.tick(now, dt));
+    }, this.options.tickMs);
+
+    this.counts = emptyWindow();
+    this.windowStartedAt = Date.now();
+    this.statsInterval = setInterval(() => this.closeWindow(), STATS_WINDOW_MS);
+  }
+
+  private stopTimers(): void {
+    if (this.tickInterval !== null) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+    if (this.statsInterval !== null) {
+      clearInterval(this.statsInterval);
+      this.statsInterval = null;
+    }
+  }
+
+  private closeWindow(): void {
+    const now = Date.now();
+    const seconds = Math.max(now - this.windowStartedAt, 1) / 1000;
+    const active = this.bots.filter(bot => bot.isInSession()).length;
+    const perBot = (count: number) => active > 0 ? count / active / seconds : 0;
+    const counts = this.counts;
+
+    this.stats = {
+      ...this.stats,
+      updatesSent: perBot(counts.updatesSent),
+      updatesReceived: perBot(counts.updatesReceived),
+      messagesReceived: perBot(counts.messagesReceived),
+      bytesReceived: perBot(counts.bytesReceived),
+      frameMs: counts.frames > 0 ? counts.frameMs / counts.frames : 0,
+      maxFrameMs: counts.maxFrameMs
+    };
+
+    this.counts = emptyWindow();
+    this.windowStartedAt = now;
+  }
+}
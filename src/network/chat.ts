@@ -0,0 +1,50 @@
+// Text chat limits shared by ConnectionManager and the chat overlay
+// (jackalopes-server/server.js mirrors these values and enforces them too).
+
+import { ChatChannel } from './protocol';
+
+export const MAX_CHAT_LENGTH = 200;
+// At most CHAT_RATE_LIMIT messages in any CHAT_RATE_WINDOW_MS
+export const CHAT_RATE_LIMIT = 5;
+export const CHAT_RATE_WINDOW_MS = 5000;
+// How many lines the overlay keeps
+export const CHAT_HISTORY_SIZE = 50;
+
+// A chat message as delivered to `chat_message` listeners
+export interface ChatLine {
+  playerId: string;
+  playerName: string;
+  message: string;
+  channel: ChatChannel;
+  timestamp: number;
+}
+
+export type ChatRejectReason = 'empty' | 'too_long' | 'rate_limited' | 'not_connected';
+
+// Sliding window limiter, so clients don't send what the server would drop anyway
+export class ChatRateLimiter {
+  private sent: number[] = [];
+
+  constructor(
+    private readonly limit: number = CHAT_RATE_LIMIT,
+    private readonly windowMs: number = CHAT_RATE_WINDOW_MS
+  ) {}
+
+  // Record a message at `now` if the limit allows it. Returns how long to wait
+  // in ms, or 0 if the message can go out.
+  take(now: number = Date.now()): number {
+    this.sent = this.sent.filter(time => now - time < this.windowMs);
+
+    if (this.sent.length >= this.limit) {
+      return this.sent[0] + this.windowMs - now;
+    }
+
+    this.sent.push(now);
+    return 0;
+  }
+}
+
+// Collapse whitespace; the server strips anything else it doesn't like
+export function normalizeChatMessage(message: string): string {
+  return message.replace(/\s+/g, ' ').trim();
+}
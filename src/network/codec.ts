@@ -0,0 +1,286 @@
+// Message encoders used by ConnectionManager.send.
+//
+// The JSON encoder is the default and works with every server. When the server
+// advertises the `binary_player_update` capability, player_update messages are
+// sent as compact binary frames instead; everything else stays JSON.
+//
+// Binary player_update layout (little-endian):
+//
+//   u8   kind            BINARY_PLAYER_UPDATE
+//   u8   flags           see FLAG_* below
+//   u16  frame           codec frame number, acknowledged by the server
+//   u16  base            baseline frame (delta frames only)
+//   f64  sequence        full frames; delta frames send u32 (sequence - base sequence)
+//   pos                  full: 3 x i32 millimetres; delta: 3 x i16 millimetre offsets (if changed)
+//   u32  rotation        smallest-three quaternion (if changed, always in full frames)
+//   vel                  3 x i16 centimetres/second (if changed, always in full frames)
+//
+// Delta frames are only ever encoded against a frame the server has acknowledged
+// with `player_update_ack`, so the server always holds the baseline.
+
+import { ClientMessage, PlayerType, PlayerUpdateState, Quat, Vec3 } from './protocol';
+
+export const BINARY_PLAYER_UPDATE_CAPABILITY = 'binary_player_update';
+
+export const BINARY_PLAYER_UPDATE = 1;
+
+const FLAG_DELTA = 1 << 0;
+const FLAG_POSITION = 1 << 1;
+const FLAG_ROTATION = 1 << 2;
+const FLAG_VELOCITY = 1 << 3;
+const FLAG_PLAYER_TYPE = 1 << 4;
+const FLAG_JACKALOPE = 1 << 5;
+
+const POSITION_SCALE = 1000; // millimetres
+const VELOCITY_SCALE = 100; // centimetres per second
+const ROTATION_BITS = 10;
+const ROTATION_MAX = (1 << ROTATION_BITS) - 1;
+const ROTATION_RANGE = Math.SQRT1_2; // smallest three components lie in [-1/sqrt2, 1/sqrt2]
+
+const INT16_MIN = -32768;
+const INT16_MAX = 32767;
+const UINT32_MAX = 0xffffffff;
+
+// Frames kept while waiting for an ack, and how stale a baseline may get before
+// we fall back to a full frame. The server keeps more history than this.
+const HISTORY_SIZE = 64;
+const MAX_BASELINE_AGE = 32;
+
+export interface MessageEncoder {
+  readonly name: 'json' | 'binary';
+  encode(message: ClientMessage): string | ArrayBuffer;
+  // Called when the server acknowledges a binary frame
+  acknowledge(frame: number): void;
+  // Forget all delta state, e.g. after reconnecting
+  reset(): void;
+}
+
+export class JsonEncoder implements MessageEncoder {
+  readonly name = 'json' as const;
+
+  encode(message: ClientMessage): string {
+    return JSON.stringify(message);
+  }
+
+  acknowledge(): void {}
+
+  reset(): void {}
+}
+
+// Quantized state as the server will reconstruct it
+interface QuantizedState {
+  frame: number;
+  sequence: number;
+  position: Vec3;
+  rotation: number;
+  velocity: Vec3;
+}
+
+const quantizeVec3 = (v: Vec3, scale: number): Vec3 =>
+  [Math.round(v[0] * scale), Math.round(v[1] * scale), Math.round(v[2] * scale)];
+
+const clampInt16 = (value: number): number => Math.max(INT16_MIN, Math.min(INT16_MAX, value));
+
+const fitsInt16 = (value: number): boolean => value >= INT16_MIN && value <= INT16_MAX;
+
+const sameVec3 = (a: Vec3, b: Vec3): boolean => a[0] === b[0] && a[1] === b[1] && a[2] === b[2];
+
+// Smallest-three quaternion compression: drop the largest component (it can be
+// recovered from the unit length), flip the sign so it's positive, and store the
+// other three in 10 bits each plus a 2-bit index of the dropped one.
+export function packQuaternion(q: Quat): number {
+  const length = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+  let largest = 0;
+  for (let i = 1; i < 4; i++) {
+    if (Math.abs(q[i]) > Math.abs(q[largest])) largest = i;
+  }
+  const sign = q[largest] < 0 ? -1 : 1;
+
+  let packed = largest;
+  for (let i = 0; i < 4; i++) {
+    if (i === largest) continue;
+    const normalized = (q[i] * sign) / length;
+    const unit = (normalized + ROTATION_RANGE) / (2 * ROTATION_RANGE);
+    const quantized = Math.max(0, Math.min(ROTATION_MAX, Math.round(unit * ROTATION_MAX)));
+    packed = packed * (ROTATION_MAX + 1) + quantized;
+  }
+  return packed >>> 0;
+}
+
+export function unpackQuaternion(packed: number): Quat {
+  const components: number[] = [];
+  let remaining = packed;
+  for (let i = 0; i < 3; i++) {
+    const quantized = remaining % (ROTATION_MAX + 1);
+    remaining = Math.floor(remaining / (ROTATION_MAX + 1));
+    components.unshift((quantized / ROTATION_MAX) * 2 * ROTATION_RANGE - ROTATION_RANGE);
+  }
+  const largest = remaining & 3;
+  const sumSquares = components.reduce((sum, c) => sum + c * c, 0);
+  components.splice(largest, 0, Math.sqrt(Math.max(0, 1 - sumSquares)));
+  return components as Quat;
+}
+
+export class BinaryPlayerUpdateEncoder implements MessageEncoder {
+  readonly name = 'binary' as const;
+
+  private json = new JsonEncoder();
+  private nextFrame = 0;
+  private history = new Map<number, QuantizedState>();
+  private baseline: QuantizedState | null = null;
+
+  encode(message: ClientMessage): string | ArrayBuffer {
+    if (message.type !== 'player_update') {
+      return this.json.encode(message);
+    }
+    return this.encodePlayerUpdate(message.state);
+  }
+
+  acknowledge(frame: number): void {
+    const acked = this.history.get(frame);
+    if (!acked) return;
+
+    // Only ever move the baseline forward
+    if (this.baseline && frameAge(this.baseline.frame, frame) <= 0) return;
+
+    this.baseline = acked;
+
+    // Anything older than the new baseline can never be used again
+    for (const key of this.history.keys()) {
+      if (frameAge(key, frame) > 0) this.history.delete(key);
+    }
+  }
+
+  reset(): void {
+    this.nextFrame = 0;
+    this.history.clear();
+    this.baseline = null;
+  }
+
+  private encodePlayerUpdate(state: PlayerUpdateState): ArrayBuffer {
+    const frame = this.nextFrame;
+    this.nextFrame = (this.nextFrame + 1) & 0xffff;
+
+    const current: QuantizedState = {
+      frame,
+      sequence: state.sequence ?? Date.now(),
+      position: quantizeVec3(state.position, POSITION_SCALE),
+      rotation: packQuaternion(state.rotation),
+      velocity: quantizeVec3(state.velocity ?? [0, 0, 0], VELOCITY_SCALE).map(clampInt16) as Vec3
+    };
+
+    const base = this.usableBaseline(current);
+    const buffer = base
+      ? this.writeDelta(current, base, state.playerType)
+      : this.writeFull(current, state.playerType);
+
+    this.history.set(frame, current);
+    if (this.history.size > HISTORY_SIZE) {
+      const oldest = this.history.keys().next().value;
+      if (oldest !== undefined) this.history.delete(oldest);
+    }
+
+    return buffer;
+  }
+
+  // A baseline is only usable if it's recent and the change since then fits the delta encoding
+  private usableBaseline(current: QuantizedState): QuantizedState | null {
+    const base = this.baseline;
+    if (!base || frameAge(base.frame, current.frame) > MAX_BASELINE_AGE) return null;
+
+    const sequenceDelta = current.sequence - base.sequence;
+    if (!Number.isInteger(sequenceDelta) || sequenceDelta < 0 || sequenceDelta > UINT32_MAX) return null;
+
+    for (let i = 0; i < 3; i++) {
+      if (!fitsInt16(current.position[i] - base.position[i])) return null;
+    }
+    return base;
+  }
+
+  private writeFull(current: QuantizedState, playerType?: PlayerType): ArrayBuffer {
+    const flags = FLAG_POSITION | FLAG_ROTATION | FLAG_VELOCITY | playerTypeFlags(playerType);
+    const view = new DataView(new ArrayBuffer(4 + 8 + 12 + 4 + 6));
+    let offset = writeHeader(view, flags, current.frame);
+
+    view.setFloat64(offset, current.sequence, true);
+    offset += 8;
+    for (const value of current.position) {
+      view.setInt32(offset, value, true);
+      offset += 4;
+    }
+    view.setUint32(offset, current.rotation, true);
+    offset += 4;
+    writeVec3Int16(view, offset, current.velocity);
+
+    return view.buffer;
+  }
+
+  private writeDelta(current: QuantizedState, base: QuantizedState, playerType?: PlayerType): ArrayBuffer {
+    const positionChanged = !sameVec3(current.position, base.position);
+    const rotationChanged = current.rotation !== base.rotation;
+    const velocityChanged = !sameVec3(current.velocity, base.velocity);
+
+    let flags = FLAG_DELTA | playerTypeFlags(playerType);
+    let size = 4 + 2 + 4;
+    if (positionChanged) { flags |= FLAG_POSITION; size += 6; }
+    if (rotationChanged) { flags |= FLAG_ROTATION; size += 4; }
+    if (velocityChanged) { flags |= FLAG_VELOCITY; size += 6; }
+
+    const view = new DataView(new ArrayBuffer(size));
+    let offset = writeHeader(view, flags, current.frame);
+
+    view.setUint16(offset, base.frame, true);
+    offset += 2;
+    view.setUint32(offset, current.sequence - base.sequence, true);
+    offset += 4;
+    if (positionChanged) {
+      offset = writeVec3Int16(view, offset, [
+        current.position[0] - base.position[0],
+        current.position[1] - base.position[1],
+        current.position[2] - base.position[2]
+      ]);
+    }
+    if (rotationChanged) {
+      view.setUint32(offset, current.rotation, true);
+      offset += 4;
+    }
+    if (velocityChanged) {
+      writeVec3Int16(view, offset, current.velocity);
+    }
+
+    return view.buffer;
+  }
+}
+
+// How many frames `to` is ahead of `from`, accounting for u16 wraparound
+function frameAge(from: number, to: number): number {
+  const diff = (to - from) & 0xffff;
+  return diff >= 0x8000 ? diff - 0x10000 : diff;
+}
+
+function playerTypeFlags(playerType?: PlayerType): number {
+  if (!playerType) return 0;
+  return FLAG_PLAYER_TYPE | (playerType === 'jackalope' ? FLAG_JACKALOPE : 0);
+}
+
+function writeHeader(view: DataView, flags: number, frame: number): number {
+  view.setUint8(0, BINARY_PLAYER_UPDATE);
+  view.setUint8(1, flags);
+  view.setUint16(2, frame, true);
+  return 4;
+}
+
+function writeVec3Int16(view: DataView, offset: number, v: Vec3): number {
+  for (const value of v) {
+    view.setInt16(offset, value, true);
+    offset += 2;
+  }
+  return offset;
+}
+
+// Pick an encoder for the capabilities the server agreed to
+export function createEncoder(capabilities: readonly string[]): MessageEncoder {
+  return capabilities.includes(BINARY_PLAYER_UPDATE_CAPABILITY)
+    ? new BinaryPlayerUpdateEncoder()
+    : new JsonEncoder();
+}
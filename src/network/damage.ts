@@ -0,0 +1,41 @@
+// Damage rules shared by ConnectionManager (offline authority) and the
+// server (jackalopes-server/server.js mirrors these values).
+
+import { PlayerType } from './protocol';
+
+export const MAX_HEALTH = 100;
+export const FIREBALL_DAMAGE = 25;
+export const RESPAWN_DELAY_MS = 3000;
+
+// How long after a shot a hit may still be reported for it
+export const HIT_REPORT_WINDOW_MS = 15000;
+
+// userData attached to player rigid bodies so projectiles can tell who they hit
+export interface PlayerHitboxData {
+  hitbox: 'player';
+  playerId: string | null;
+  playerType: PlayerType;
+  isLocal: boolean;
+}
+
+export const isPlayerHitbox = (userData: unknown): userData is PlayerHitboxData =>
+  typeof userData === 'object' && userData !== null && (userData as PlayerHitboxData).hitbox === 'player';
+
+// Only jackalopes can be hurt by fireballs - mercs don't damage each other
+export const canBeDamaged = (playerType: PlayerType | undefined): boolean =>
+  playerType !== 'merc';
+
+export interface DamageResult {
+  damage: number;
+  health: number;
+  killed: boolean;
+}
+
+export function applyDamage(currentHealth: number, damage: number = FIREBALL_DAMAGE): DamageResult {
+  const health = Math.max(0, currentHealth - damage);
+  return {
+    damage: currentHealth - health,
+    health,
+    killed: currentHealth > 0 && health === 0
+  };
+}
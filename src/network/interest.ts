@@ -0,0 +1,186 @@
+// Interest management: which players' updates each client is sent, and how
+// often.
+//
+// Relaying every player_update to everyone makes each client pay for every
+// player in the session, however far away. Instead the server keeps each
+// player's newest state and, once a tick, picks per receiver which of them to
+// forward. Every (receiver, subject) pair has a priority accumulator: each tick
+// the subject's priority for that receiver is added to it, and once it reaches
+// 1 the newest state goes out and the accumulator starts again from 0. So a
+// priority of 1 is every tick and 0.25 every fourth. Priority falls with
+// distance and drops for players outside the receiver's view or behind a
+// platform; players close by always get every tick. On top of that a receiver
+// gets at most maxUpdatesPerTick updates a tick, fullest accumulators first,
+// so a crowd far away can't use up the bandwidth nearby players need.
+//
+// GameHost uses this directly. jackalopes-server/server.js follows the same
+// rules with the same numbers; keep the two in step.
+
+import { LevelBox, PLATFORM_BOXES } from '../game/level';
+import { Quat, Vec3 } from './protocol';
+
+export interface InterestOptions {
+  // Players this close are sent every tick, seen or not
+  nearDistance: number;
+  // Priority falls linearly from 1 at nearDistance to minPriority here
+  farDistance: number;
+  minPriority: number;
+  // Half the horizontal angle counted as in view, with room for turning
+  viewHalfAngle: number;
+  // Priority is multiplied by these outside the view, and behind a platform
+  outOfViewFactor: number;
+  occludedFactor: number;
+  // Most player updates sent to one receiver per tick
+  maxUpdatesPerTick: number;
+}
+
+export const DEFAULT_INTEREST_OPTIONS: InterestOptions = {
+  nearDistance: 8,
+  farDistance: 40,
+  minPriority: 0.1,
+  viewHalfAngle: (75 * Math.PI) / 180,
+  outOfViewFactor: 0.5,
+  occludedFactor: 0.5,
+  maxUpdatesPerTick: 8
+};
+
+// Where a receiver is and which way they look. Yaw follows the input
+// convention (game/movement.ts): looking along (sin yaw, 0, cos yaw). Null
+// when we don't know, which counts everything as in view.
+export interface InterestViewer {
+  position: Vec3;
+  yaw: number | null;
+}
+
+export interface InterestSubject {
+  id: string;
+  position: Vec3;
+  // Bumped whenever the subject has a new state to send
+  version: number;
+}
+
+interface PairState {
+  accumulated: number;
+  sentVersion: number;
+}
+
+// Yaw of a rotation's forward (+z) axis. Mercs send their body's rotation,
+// which doesn't turn, so prefer the yaw from their inputs when there is one.
+export function yawFromQuat([x, y, z, w]: Quat): number {
+  return Math.atan2(2 * (x * z + w * y), 1 - 2 * (x * x + y * y));
+}
+
+// Does the segment from a to b pass through any of the boxes?
+export function isOccluded(a: Vec3, b: Vec3, boxes: LevelBox[] = PLATFORM_BOXES): boolean {
+  return boxes.some(({ position, halfExtents }) => {
+    // Slab test, with the segment as t in [0, 1]
+    let enter = 0;
+    let exit = 1;
+    for (let i = 0; i < 3; i++) {
+      const delta = b[i] - a[i];
+      const min = position[i] - halfExtents[i];
+      const max = position[i] + halfExtents[i];
+      if (Math.abs(delta) < 1e-9) {
+        if (a[i] < min || a[i] > max) return false;
+        continue;
+      }
+      let t0 = (min - a[i]) / delta;
+      let t1 = (max - a[i]) / delta;
+      if (t0 > t1) [t0, t1] = [t1, t0];
+      enter = Math.max(enter, t0);
+      exit = Math.min(exit, t1);
+      if (enter > exit) return false;
+    }
+    return true;
+  });
+}
+
+// How much of the tick rate a receiver at `viewer` should get of a player at
+// `position`, between minPriority and 1
+export function getUpdatePriority(
+  viewer: InterestViewer,
+  position: Vec3,
+  options: InterestOptions = DEFAULT_INTEREST_OPTIONS,
+  occluders: LevelBox[] = PLATFORM_BOXES
+): number {
+  const dx = position[0] - viewer.position[0];
+  const dz = position[2] - viewer.position[2];
+  const distance = Math.hypot(dx, position[1] - viewer.position[1], dz);
+  if (distance <= options.nearDistance) return 1;
+
+  const falloff = Math.min(1, (distance - options.nearDistance) / Math.max(1e-6, options.farDistance - options.nearDistance));
+  let priority = 1 - falloff * (1 - options.minPriority);
+
+  if (viewer.yaw !== null) {
+    let angle = Math.abs(Math.atan2(dx, dz) - viewer.yaw) % (2 * Math.PI);
+    if (angle > Math.PI) angle = 2 * Math.PI - angle;
+    if (angle > options.viewHalfAngle) priority *= options.outOfViewFactor;
+  }
+  if (isOccluded(viewer.position, position, occluders)) {
+    priority *= options.occludedFactor;
+  }
+
+  return Math.max(options.minPriority, priority);
+}
+
+export class InterestManager {
+  private options: InterestOptions;
+  private occluders: LevelBox[];
+  // Receiver id -> subject id -> accumulator
+  private pairs = new Map<string, Map<string, PairState>>();
+
+  constructor(options: Partial<InterestOptions> = {}, occluders: LevelBox[] = PLATFORM_BOXES) {
+    this.options = { ...DEFAULT_INTEREST_OPTIONS, ...options };
+    this.occluders = occluders;
+  }
+
+  // Which subjects to send to this receiver this tick. Subjects whose current
+  // version they already have are skipped and don't accumulate; the rest
+  // accumulate, and the returned ones are marked as sent.
+  select(receiverId: string, viewer: InterestViewer | null, subjects: InterestSubject[]): string[] {
+    let pairs = this.pairs.get(receiverId);
+    if (!pairs) {
+      pairs = new Map();
+      this.pairs.set(receiverId, pairs);
+    }
+
+    const due: { subject: InterestSubject, pair: PairState }[] = [];
+    subjects.forEach(subject => {
+      if (subject.id === receiverId) return;
+
+      let pair = pairs!.get(subject.id);
+      if (!pair) {
+        // Someone we've never sent goes out on the first tick
+        pair = { accumulated: 1, sentVersion: -1 };
+        pairs!.set(subject.id, pair);
+      } else if (subject.version === pair.sentVersion) {
+        return;
+      } else {
+        pair.accumulated += viewer
+          ? getUpdatePriority(viewer, subject.position, this.options, this.occluders)
+          : 1;
+      }
+
+      if (pair.accumulated >= 1) due.push({ subject, pair });
+    });
+
+    return due
+      .sort((a, b) => b.pair.accumulated - a.pair.accumulated)
+      .slice(0, this.options.maxUpdatesPerTick)
+      .map(({ subject, pair }) => {
+        pair.accumulated = 0;
+        pair.sentVersion = subject.version;
+        return subject.id;
+      });
+  }
+
+  // A player left: drop them as a receiver and as a subject
+  forget(id: string): void {
+    this.pairs.delete(id);
+    this.pairs.forEach(pairs => pairs.delete(id));
+  }
+
+  clear(): void {
+    this.pairs.clear();
+  }
+}
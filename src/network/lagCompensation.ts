@@ -0,0 +1,160 @@
+// Lag-compensated hit detection for fireballs.
+//
+// By the time a merc's shot is validated, the jackalopes they were aiming at
+// have moved on. Instead of testing against where targets are now, we rewind
+// them to what the shooter was actually looking at and sweep the fireball's
+// flight path against those rewound hitboxes.
+
+import { GameSnapshot, Vec3 } from './protocol';
+import { canBeDamaged } from './damage';
+
+// Remote players are drawn this far behind the newest snapshot so there's
+// always a pair of snapshots to interpolate between (one snapshot interval).
+export const INTERPOLATION_DELAY_MS = 100;
+
+// Fireball flight model - keep in sync with the Sphere rigid body in sphere-tool.tsx
+export const FIREBALL_SPEED = 90; // SHOOT_FORCE
+export const FIREBALL_GRAVITY = -15 * 0.3; // world gravity * gravityScale
+export const FIREBALL_RADIUS = 0.15;
+export const FIREBALL_ARM_DISTANCE = 5; // spheres can't collide until they've travelled this far
+
+// Player hitbox - matches the CapsuleCollider on Jackalope and RemotePlayer
+export const HITBOX_HALF_HEIGHT = 1.0;
+export const HITBOX_RADIUS = 0.5;
+export const HITBOX_OFFSET_Y = -0.28;
+
+const SWEEP_STEP_S = 1 / 120;
+const MAX_FLIGHT_TIME_S = 1.5;
+
+export interface SnapshotSource {
+  getSnapshotAtTime(timestamp: number): GameSnapshot | null;
+}
+
+export interface ShotToValidate {
+  shooterId: string;
+  origin: Vec3;
+  direction: Vec3;
+  // When the shot was fired, on the same clock as the snapshots
+  shotTime: number;
+  // One-way latency to the server in ms (ConnectionManager.getLatency())
+  latency: number;
+  interpolationDelay?: number;
+}
+
+export interface LagCompensatedHit {
+  playerId: string;
+  point: Vec3;
+  // The snapshot time the target was rewound to when the fireball left the muzzle
+  rewindTime: number;
+  // Seconds into the flight when the fireball reached the target
+  flightTime: number;
+}
+
+// The moment in snapshot time that the shooter was looking at when they fired.
+// Target states reach us one latency after the server has them, and we draw
+// them one interpolation delay behind that.
+export function getShooterRenderTime(shotTime: number, latency: number, interpolationDelay: number = INTERPOLATION_DELAY_MS): number {
+  return shotTime - latency - interpolationDelay;
+}
+
+// Where the fireball is `t` seconds after leaving the muzzle
+export function fireballPositionAt(origin: Vec3, direction: Vec3, t: number): Vec3 {
+  return [
+    origin[0] + direction[0] * FIREBALL_SPEED * t,
+    origin[1] + direction[1] * FIREBALL_SPEED * t + 0.5 * FIREBALL_GRAVITY * t * t,
+    origin[2] + direction[2] * FIREBALL_SPEED * t
+  ];
+}
+
+// Sweep the fireball's path against rewound hitboxes and return the first hit.
+// Static level geometry isn't considered - a fireball blocked by a wall will
+// have stuck to it before the hit is reported anyway.
+export function validateShot(source: SnapshotSource, shot: ShotToValidate): LagCompensatedHit | null {
+  const rewindTime = getShooterRenderTime(shot.shotTime, shot.latency, shot.interpolationDelay);
+  const hitDistance = HITBOX_RADIUS + FIREBALL_RADIUS;
+
+  let previous = shot.origin;
+  let travelled = 0;
+
+  for (let t = SWEEP_STEP_S; t <= MAX_FLIGHT_TIME_S; t += SWEEP_STEP_S) {
+    const current = fireballPositionAt(shot.origin, shot.direction, t);
+    travelled += distance(previous, current);
+
+    if (travelled >= FIREBALL_ARM_DISTANCE) {
+      // Targets keep moving while the fireball is in flight
+      const snapshot = source.getSnapshotAtTime(rewindTime + t * 1000);
+      if (!snapshot) return null;
+
+      let closest: LagCompensatedHit | null = null;
+      let closestDistance = Infinity;
+
+      for (const [playerId, player] of Object.entries(snapshot.players)) {
+        if (playerId === shot.shooterId || !canBeDamaged(player.playerType) || player.health <= 0) continue;
+
+        const bottom: Vec3 = [player.position[0], player.position[1] + HITBOX_OFFSET_Y - HITBOX_HALF_HEIGHT, player.position[2]];
+        const top: Vec3 = [player.position[0], player.position[1] + HITBOX_OFFSET_Y + HITBOX_HALF_HEIGHT, player.position[2]];
+        const { distance: d, pointOnFirst } = closestPointsBetweenSegments(previous, current, bottom, top);
+
+        if (d <= hitDistance && d < closestDistance) {
+          closestDistance = d;
+          closest = { playerId, point: pointOnFirst, rewindTime, flightTime: t };
+        }
+      }
+
+      if (closest) return closest;
+    }
+
+    previous = current;
+  }
+
+  return null;
+}
+
+function distance(a: Vec3, b: Vec3): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+// Closest points between segments p1-q1 and p2-q2 (Real-Time Collision Detection, 5.1.9)
+function closestPointsBetweenSegments(p1: Vec3, q1: Vec3, p2: Vec3, q2: Vec3): { distance: number, pointOnFirst: Vec3 } {
+  const d1: Vec3 = [q1[0] - p1[0], q1[1] - p1[1], q1[2] - p1[2]];
+  const d2: Vec3 = [q2[0] - p2[0], q2[1] - p2[1], q2[2] - p2[2]];
+  const r: Vec3 = [p1[0] - p2[0], p1[1] - p2[1], p1[2] - p2[2]];
+  const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+  const a = dot(d1, d1);
+  const e = dot(d2, d2);
+  const f = dot(d2, r);
+  let s: number;
+  let t: number;
+
+  if (a <= 1e-9 && e <= 1e-9) {
+    s = 0;
+    t = 0;
+  } else if (a <= 1e-9) {
+    s = 0;
+    t = clamp01(f / e);
+  } else {
+    const c = dot(d1, r);
+    if (e <= 1e-9) {
+      t = 0;
+      s = clamp01(-c / a);
+    } else {
+      const b = dot(d1, d2);
+      const denom = a * e - b * b;
+      s = denom > 1e-9 ? clamp01((b * f - c * e) / denom) : 0;
+      t = (b * s + f) / e;
+      if (t < 0) {
+        t = 0;
+        s = clamp01(-c / a);
+      } else if (t > 1) {
+        t = 1;
+        s = clamp01((b - c) / a);
+      }
+    }
+  }
+
+  const c1: Vec3 = [p1[0] + d1[0] * s, p1[1] + d1[1] * s, p1[2] + d1[2] * s];
+  const c2: Vec3 = [p2[0] + d2[0] * t, p2[1] + d2[1] * t, p2[2] + d2[2] * t];
+  return { distance: distance(c1, c2), pointOnFirst: c1 };
+}
@@ -0,0 +1,135 @@
+// Client-side prediction against server acknowledged input commands.
+//
+// Every movement step the local player takes is sent to the server as a
+// sequenced input command and kept here along with the state it produced.
+// The server acks the last sequence it processed with the state it ended up
+// at. If that differs from what we predicted for the same sequence, we rewind
+// to the server's state and replay the inputs it hasn't seen yet through the
+// same movement code, rather than blending towards a position that is already
+// out of date by the time it arrives.
+
+import { MovementState, cloneMovementState } from '../game/movement';
+import { InputAck, InputCommand } from './protocol';
+
+export interface PredictionOptions {
+  // Predicted positions within this distance of the server's (in world units) are left alone
+  positionTolerance: number;
+  // Oldest inputs are dropped past this many, e.g. if acks stop arriving
+  maxPending: number;
+}
+
+export const DEFAULT_PREDICTION_OPTIONS: PredictionOptions = {
+  positionTolerance: 0.05,
+  maxPending: 1024
+};
+
+export interface Correction {
+  // State after replaying every unacknowledged input
+  state: MovementState;
+  // How far our prediction for the acked input was from the server's state
+  error: number;
+  replayed: number;
+}
+
+// Running totals for the reconciliation debug overlay
+export interface ReconciliationMetrics {
+  totalCorrections: number;
+  averageError: number;
+  lastError: number;
+  // Date.now() of the last correction, 0 if there hasn't been one
+  lastCorrection: number;
+  lastReplayed: number;
+}
+
+interface PredictedStep {
+  input: InputCommand;
+  state: MovementState;
+}
+
+export class InputPredictor {
+  private history: PredictedStep[] = [];
+  private options: PredictionOptions;
+
+  constructor(options: Partial<PredictionOptions> = {}) {
+    this.options = { ...DEFAULT_PREDICTION_OPTIONS, ...options };
+  }
+
+  // Remember an input and the state it led to
+  record(input: InputCommand, stateAfter: MovementState): void {
+    this.history.push({ input, state: cloneMovementState(stateAfter) });
+    if (this.history.length > this.options.maxPending) {
+      this.history.shift();
+    }
+  }
+
+  // Drop inputs up to the acked one and check our prediction for it. Returns
+  // the corrected current state if the server disagreed, or null if it didn't.
+  reconcile(ack: InputAck, step: (state: MovementState, input: InputCommand) => void): Correction | null {
+    const index = this.history.findIndex(entry => entry.input.seq === ack.seq);
+    if (index === -1) {
+      // Either already reconciled or too old to still have
+      this.history = this.history.filter(entry => entry.input.seq > ack.seq);
+      return null;
+    }
+
+    const predicted = this.history[index].state;
+    this.history = this.history.slice(index + 1);
+
+    const error = Math.hypot(
+      predicted.position.x - ack.position[0],
+      predicted.position.y - ack.position[1],
+      predicted.position.z - ack.position[2]
+    );
+    if (error <= this.options.positionTolerance) {
+      return null;
+    }
+
+    // Client-only flags (grounded, jumping) are taken from our prediction
+    const state = cloneMovementState(predicted);
+    state.position = { x: ack.position[0], y: ack.position[1], z: ack.position[2] };
+    state.velocity = { x: ack.velocity[0], y: ack.velocity[1], z: ack.velocity[2] };
+
+    this.history.forEach(entry => {
+      step(state, entry.input);
+      entry.state = cloneMovementState(state);
+    });
+
+    return { state, error, replayed: this.history.length };
+  }
+
+  // Inputs sent but not acknowledged yet
+  getPendingCount(): number {
+    return this.history.length;
+  }
+
+  clear(): void {
+    this.history = [];
+  }
+}
+
+const sameInput = (a: InputCommand, b: InputCommand) =>
+  a.moveX === b.moveX &&
+  a.moveZ === b.moveZ &&
+  a.jump === b.jump &&
+  a.sprint === b.sprint &&
+  a.yaw === b.yaw &&
+  a.pitch === b.pitch &&
+  a.dt === b.dt;
+
+// Merge runs of identical consecutive inputs into one command with `steps`.
+// Sequence numbers are consecutive, so the run covers seq .. seq + steps - 1.
+export function compressInputs(inputs: InputCommand[]): InputCommand[] {
+  const compressed: InputCommand[] = [];
+
+  inputs.forEach(input => {
+    const last = compressed[compressed.length - 1];
+    const lastSteps = last?.steps ?? 1;
+    if (last && last.seq + lastSteps === input.seq && sameInput(last, input)) {
+      last.steps = lastSteps + (input.steps ?? 1);
+    } else {
+      compressed.push({ ...input });
+    }
+  });
+
+  return compressed;
+}
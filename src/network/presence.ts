@@ -0,0 +1,91 @@
+// Tracks when we last heard from each remote player, owned by ConnectionManager.
+//
+// A tab that crashes or freezes never sends leave_session, and the server only
+// notices once its socket dies. Players who go quiet are marked stale (drawn
+// fading out) and dropped as if they'd left once the timeout runs out.
+
+export interface PlayerTimeouts {
+  // No update for this long marks a player as stale
+  staleAfterMs: number;
+  // No update for this long removes them
+  removeAfterMs: number;
+}
+
+// Clients send a position update at least every 2 seconds, even standing still
+export const DEFAULT_PLAYER_TIMEOUTS: PlayerTimeouts = {
+  staleAfterMs: 5000,
+  removeAfterMs: 15000
+};
+
+export interface PresenceChanges {
+  // Players that have just gone stale
+  stale: string[];
+  // Players that have been quiet for too long and should be removed
+  timedOut: string[];
+}
+
+export class PresenceTracker {
+  private lastHeard = new Map<string, number>();
+  private staleSince = new Map<string, number>();
+  private timeouts: PlayerTimeouts;
+
+  constructor(timeouts: Partial<PlayerTimeouts> = {}) {
+    this.timeouts = { ...DEFAULT_PLAYER_TIMEOUTS, ...timeouts };
+  }
+
+  getTimeouts(): PlayerTimeouts {
+    return { ...this.timeouts };
+  }
+
+  setTimeouts(timeouts: Partial<PlayerTimeouts>): void {
+    const staleAfterMs = Math.max(0, timeouts.staleAfterMs ?? this.timeouts.staleAfterMs);
+    this.timeouts = {
+      staleAfterMs,
+      removeAfterMs: Math.max(staleAfterMs, timeouts.removeAfterMs ?? this.timeouts.removeAfterMs)
+    };
+  }
+
+  // Note that a player is alive. Returns true if they had gone stale.
+  heard(id: string, now: number = Date.now()): boolean {
+    this.lastHeard.set(id, now);
+    return this.staleSince.delete(id);
+  }
+
+  forget(id: string): void {
+    this.lastHeard.delete(id);
+    this.staleSince.delete(id);
+  }
+
+  clear(): void {
+    this.lastHeard.clear();
+    this.staleSince.clear();
+  }
+
+  isStale(id: string): boolean {
+    return this.staleSince.has(id);
+  }
+
+  // When the player went stale, or null if they're active (or unknown)
+  getStaleSince(id: string): number | null {
+    return this.staleSince.get(id) ?? null;
+  }
+
+  // Check everyone against the timeouts. Timed out players are forgotten.
+  sweep(now: number = Date.now()): PresenceChanges {
+    const changes: PresenceChanges = { stale: [], timedOut: [] };
+
+    this.lastHeard.forEach((heardAt, id) => {
+      const quietFor = now - heardAt;
+
+      if (quietFor >= this.timeouts.removeAfterMs) {
+        changes.timedOut.push(id);
+      } else if (quietFor >= this.timeouts.staleAfterMs && !this.staleSince.has(id)) {
+        this.staleSince.set(id, now);
+        changes.stale.push(id);
+      }
+    });
+
+    changes.timedOut.forEach(id => this.forget(id));
+    return changes;
+  }
+}
@@ -0,0 +1,1075 @@
+// Wire protocol for ConnectionManager <-> server traffic.
+//
+// Every message that crosses the socket is described here as a discriminated
+// union on `type`. Inbound messages are validated at runtime and normalized into
+// a single canonical shape, so the rest of the client never has to guess whether
+// the server put the player id in `id`, `player_id` or `player`.
+
+// Bump this whenever a message shape changes in a way old peers can't read.
+// Version 1 is the original untyped format that servers without negotiation speak.
+export const PROTOCOL_VERSION = 2;
+export const MIN_PROTOCOL_VERSION = 1;
+
+export type Vec3 = [number, number, number];
+export type Quat = [number, number, number, number];
+export type PlayerType = 'merc' | 'jackalope';
+
+// Shared state shapes
+
+export interface PlayerState {
+  position: Vec3;
+  rotation: Quat;
+  velocity?: Vec3;
+  health: number;
+  playerType: PlayerType;
+  // Display name, when the server tells us
+  name?: string;
+}
+
+export type GameState = {
+  players: Record<string, PlayerState>;
+};
+
+export interface PlayerSnapshot {
+  id: string;
+  position: Vec3;
+  rotation: Quat;
+  velocity?: Vec3;
+  health: number;
+  playerType: PlayerType;
+}
+
+// Game snapshot interface for state synchronization
+export interface GameSnapshot {
+  timestamp: number;
+  sequence: number;
+  players: Record<string, PlayerSnapshot>;
+  events: GameEventPayload[];
+}
+
+export interface PlayerUpdateState {
+  position: Vec3;
+  rotation: Quat;
+  velocity?: Vec3;
+  sequence?: number;
+  playerType?: PlayerType;
+}
+
+// One step of local player movement input (see src/game/movement.ts)
+export interface InputCommand {
+  seq: number;
+  // -1..1, right and forward
+  moveX: number;
+  moveZ: number;
+  jump: boolean;
+  sprint: boolean;
+  // Look direction in radians
+  yaw: number;
+  pitch: number;
+  // Length of the step in seconds
+  dt: number;
+  // How many identical steps this command stands for, seq .. seq + steps - 1
+  steps?: number;
+}
+
+// The server's word on where a player was after input `seq`
+export interface InputAck {
+  seq: number;
+  position: Vec3;
+  velocity: Vec3;
+}
+
+// Game events are open-ended: `event_type` selects the handler and the rest of
+// the fields depend on it (e.g. player_shoot carries origin/direction/shotId).
+export interface GameEventPayload {
+  event_type: string;
+  player?: string;
+  player_id?: string;
+  timestamp?: number;
+  [key: string]: unknown;
+}
+
+// Health events. Clients report hits; only the server (or the client itself
+// when offline) turns them into damage.
+
+export interface PlayerHitEvent extends GameEventPayload {
+  event_type: 'player_hit';
+  shotId: string;
+  target: string;
+  point?: Vec3;
+}
+
+export interface PlayerDamagedEvent extends GameEventPayload {
+  event_type: 'player_damaged';
+  target: string;
+  attacker: string;
+  damage: number;
+  health: number;
+  shotId?: string;
+}
+
+export interface PlayerKilledEvent extends GameEventPayload {
+  event_type: 'player_killed';
+  target: string;
+  attacker: string;
+}
+
+export interface PlayerRespawnedEvent extends GameEventPayload {
+  event_type: 'player_respawned';
+  target: string;
+  health: number;
+}
+
+export type HealthEvent = PlayerDamagedEvent | PlayerKilledEvent | PlayerRespawnedEvent;
+
+// Hunt mode match state (see rounds.ts). The server owns it and broadcasts the
+// whole thing whenever it changes.
+
+export type RoundPhase = 'waiting' | 'countdown' | 'playing' | 'results';
+
+export interface RoundState {
+  phase: RoundPhase;
+  round: number;
+  // Time left in the current phase when the server sent this (0 while waiting)
+  remainingMs: number;
+  // Server time when the current phase ends, if the server sends it
+  endsAt?: number;
+  // Sides for the current round; players who joined mid-round aren't listed
+  roles: Record<string, PlayerType>;
+  // Jackalopes tagged out of the current round
+  tagged: string[];
+  // Tags scored by each merc this round
+  tags: Record<string, number>;
+  // Rounds won by each player across the match
+  wins: Record<string, number>;
+  winner: PlayerType | null;
+}
+
+// Chat goes to everyone in the session, or only to the sender's side
+export type ChatChannel = 'all' | 'team';
+
+// Client -> server messages
+
+export interface AuthMessage {
+  type: 'auth';
+  playerName: string;
+  protocolVersion: number;
+  // Optional wire features this client supports, e.g. 'binary_player_update'
+  capabilities?: string[];
+  // From an earlier auth_success, to take our player back after a reconnect
+  resumeToken?: string;
+}
+
+// Join by `code` (fails if there's no such session) or by `sessionKey` (the
+// older form, which creates the session if it doesn't exist)
+export interface JoinSessionMessage {
+  type: 'join_session';
+  playerName: string;
+  sessionKey?: string;
+  code?: string;
+  password?: string;
+  protocolVersion?: number;
+  // Watch the session instead of playing in it
+  spectate?: boolean;
+}
+
+// Create a named session and join it
+export interface CreateSessionMessage {
+  type: 'create_session';
+  name: string;
+  maxPlayers: number;
+  password?: string;
+  private?: boolean;
+}
+
+export interface ListSessionsMessage {
+  type: 'list_sessions';
+}
+
+export interface PlayerUpdateMessage {
+  type: 'player_update';
+  state: PlayerUpdateState;
+}
+
+// Movement inputs since the last batch, and the state we predicted after the last of them
+export interface PlayerInputMessage {
+  type: 'player_input';
+  inputs: InputCommand[];
+  state: {
+    position: Vec3;
+    velocity: Vec3;
+  };
+}
+
+export interface GameEventMessage {
+  type: 'game_event';
+  event: GameEventPayload;
+  // Sequence number, when the server takes reliable events (see reliable.ts)
+  seq?: number;
+}
+
+// We've received every reliable game event up to seq
+export interface EventAckMessage {
+  type: 'event_ack';
+  seq: number;
+}
+
+export interface GameSnapshotMessage {
+  type: 'game_snapshot';
+  snapshot: GameSnapshot;
+}
+
+// Answered with a pong carrying the server's clock. The client also says
+// what it last measured, so the server knows how far back to rewind its hits.
+export interface PingMessage {
+  type: 'ping';
+  timestamp: number;
+  // Round trip in ms, once clock sync has one
+  rtt?: number;
+  // How far behind remote players are drawn, in ms
+  interpolationDelay?: number;
+}
+
+export interface KeepaliveMessage {
+  type: 'keepalive';
+  timestamp: number;
+}
+
+export interface RequestPlayerListMessage {
+  type: 'request_player_list';
+}
+
+// Ask the server to move us to the other team
+export interface RoleSwapRequestMessage {
+  type: 'role_swap_request';
+}
+
+export interface LeaveSessionMessage {
+  type: 'leave_session';
+}
+
+export interface ChatMessage {
+  type: 'chat';
+  message: string;
+  channel: ChatChannel;
+}
+
+export type ClientMessage =
+  | AuthMessage
+  | JoinSessionMessage
+  | CreateSessionMessage
+  | ListSessionsMessage
+  | PlayerUpdateMessage
+  | PlayerInputMessage
+  | GameEventMessage
+  | EventAckMessage
+  | GameSnapshotMessage
+  | KeepaliveMessage
+  | PingMessage
+  | RequestPlayerListMessage
+  | RoleSwapRequestMessage
+  | LeaveSessionMessage
+  | ChatMessage;
+
+export type ClientMessageType = ClientMessage['type'];
+
+// Server -> client messages (canonical, post-normalization shapes)
+
+export interface WelcomeServerMessage {
+  type: 'welcome';
+  server?: string;
+  timestamp?: number;
+  protocolVersion?: number;
+}
+
+export interface ConnectionServerMessage {
+  type: 'connection';
+  id: string;
+  gameState: GameState;
+}
+
+export interface SessionInfo {
+  id: string;
+  // Also the share code for sessions created from the lobby
+  key?: string;
+  name?: string;
+  maxPlayers?: number;
+  locked?: boolean;
+  private?: boolean;
+}
+
+// A public session with room left, as listed in the lobby
+export interface SessionSummary {
+  code: string;
+  name: string;
+  players: number;
+  maxPlayers: number;
+  // Needs a password to join
+  locked: boolean;
+  phase: RoundPhase;
+}
+
+// The team the server put us on, balanced against the other players in the
+// session. `index` is our slot; its parity matches the team (even = jackalope).
+export interface TeamAssignment {
+  team: PlayerType;
+  index: number;
+}
+
+interface SessionJoinedFields {
+  player: { id: string; name?: string };
+  session?: SessionInfo;
+  playerCount?: number;
+  protocolVersion?: number;
+  // Capabilities from the auth request that the server agreed to use
+  capabilities: string[];
+  // Only sent once we're in a session; older servers never send it
+  assignment?: TeamAssignment;
+  // Present on auth_success to resume this player after a dropped connection
+  resumeToken?: string;
+  // We got our old player back, so the server has already put us back in our session
+  resumed?: boolean;
+  // Our health in the session (join_success only)
+  health?: number;
+  // We joined to watch: no team, no health, and our updates are ignored.
+  // Servers without spectators never send it.
+  spectator?: boolean;
+}
+
+export interface AuthSuccessServerMessage extends SessionJoinedFields {
+  type: 'auth_success';
+}
+
+export interface JoinSuccessServerMessage extends SessionJoinedFields {
+  type: 'join_success';
+}
+
+export interface PlayerJoinedServerMessage {
+  type: 'player_joined';
+  id: string;
+  state: PlayerState;
+}
+
+export interface PlayerLeftServerMessage {
+  type: 'player_left';
+  id: string;
+}
+
+export interface PlayerListServerMessage {
+  type: 'player_list';
+  players: Record<string, PlayerState>;
+}
+
+export interface PlayerUpdateServerMessage {
+  type: 'player_update';
+  id: string;
+  state: PlayerUpdateState;
+  timestamp?: number;
+  positionError?: number;
+  serverCorrection?: boolean;
+}
+
+export interface GameEventServerMessage {
+  type: 'game_event';
+  event: GameEventPayload;
+  // Sequence number, if we asked for reliable events (see reliable.ts)
+  seq?: number;
+}
+
+// The server has every reliable game event we sent up to seq
+export interface EventAckServerMessage {
+  type: 'event_ack';
+  seq: number;
+}
+
+// Server acknowledgement of a binary player_update frame (see codec.ts)
+export interface PlayerUpdateAckServerMessage {
+  type: 'player_update_ack';
+  frame: number;
+}
+
+// Last input the server processed for us (see prediction.ts)
+export interface InputAckServerMessage extends InputAck {
+  type: 'input_ack';
+}
+
+export interface PongServerMessage {
+  type: 'pong';
+  // Our ping's timestamp, echoed back
+  timestamp: number;
+  // Server clock when it answered (servers that only echo leave it out)
+  serverTime?: number;
+}
+
+export interface GameSnapshotServerMessage {
+  type: 'game_snapshot';
+  snapshot: GameSnapshot;
+}
+
+export interface RoundStateServerMessage {
+  type: 'round_state';
+  round: RoundState;
+}
+
+// Our team changed after joining - a granted role swap, or sides swapping
+// between hunt mode rounds
+export interface TeamAssignmentServerMessage {
+  type: 'team_assignment';
+  assignment: TeamAssignment;
+}
+
+export type RoleSwapStatus = 'granted' | 'pending' | 'denied';
+
+// Answer to a role_swap_request. A pending swap is granted later, when someone
+// on the other team asks to swap too. Grants are followed by a team_assignment.
+export interface RoleSwapServerMessage {
+  type: 'role_swap';
+  status: RoleSwapStatus;
+  reason?: string;
+}
+
+export interface SessionListServerMessage {
+  type: 'session_list';
+  sessions: SessionSummary[];
+}
+
+// spectating_unsupported comes from ConnectionManager, when a server lets a
+// spectator in as a player
+export type JoinFailureReason = 'not_found' | 'full' | 'wrong_password' | 'already_joined' | 'spectating_unsupported';
+
+// Answer to a join_session or create_session that didn't work out
+export interface JoinFailedServerMessage {
+  type: 'join_failed';
+  reason: JoinFailureReason;
+  message: string;
+}
+
+export interface ChatServerMessage {
+  type: 'chat';
+  playerId: string;
+  playerName: string;
+  message: string;
+  channel: ChatChannel;
+  timestamp: number;
+}
+
+// The server dropped one of our chat messages
+export interface ChatRejectedServerMessage {
+  type: 'chat_rejected';
+  reason: 'too_long' | 'rate_limited';
+  retryAfterMs?: number;
+}
+
+export interface ErrorServerMessage {
+  type: 'error';
+  message: string;
+}
+
+export type ServerMessage =
+  | WelcomeServerMessage
+  | ConnectionServerMessage
+  | AuthSuccessServerMessage
+  | JoinSuccessServerMessage
+  | PlayerJoinedServerMessage
+  | PlayerLeftServerMessage
+  | PlayerListServerMessage
+  | PlayerUpdateServerMessage
+  | GameEventServerMessage
+  | EventAckServerMessage
+  | PlayerUpdateAckServerMessage
+  | InputAckServerMessage
+  | PongServerMessage
+  | GameSnapshotServerMessage
+  | RoundStateServerMessage
+  | TeamAssignmentServerMessage
+  | RoleSwapServerMessage
+  | SessionListServerMessage
+  | JoinFailedServerMessage
+  | ChatServerMessage
+  | ChatRejectedServerMessage
+  | ErrorServerMessage;
+
+export type ServerMessageType = ServerMessage['type'];
+
+// Errors
+
+export type ProtocolErrorCode = 'malformed' | 'unknown_type' | 'version_mismatch';
+
+export class ProtocolError extends Error {
+  constructor(
+    public readonly code: ProtocolErrorCode,
+    message: string,
+    public readonly raw?: unknown
+  ) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+// Runtime validation helpers
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isNumberTuple = (value: unknown, length: number): boolean =>
+  Array.isArray(value) && value.length === length && value.every(isFiniteNumber);
+
+export const isVec3 = (value: unknown): value is Vec3 => isNumberTuple(value, 3);
+export const isQuat = (value: unknown): value is Quat => isNumberTuple(value, 4);
+
+const isPlayerType = (value: unknown): value is PlayerType =>
+  value === 'merc' || value === 'jackalope';
+
+const optionalNumber = (value: unknown): number | undefined =>
+  isFiniteNumber(value) ? value : undefined;
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+const malformed = (type: string, reason: string, raw: unknown): ProtocolError =>
+  new ProtocolError('malformed', `Malformed ${type} message: ${reason}`, raw);
+
+// Servers have historically sent player ids as `id`, `player_id`, `player` or
+// `player: { id }`. Pick whichever one is present.
+const readPlayerId = (msg: UnknownRecord): string | undefined => {
+  if (typeof msg.id === 'string') return msg.id;
+  if (typeof msg.player_id === 'string') return msg.player_id;
+  if (typeof msg.player === 'string') return msg.player;
+  if (isRecord(msg.player) && typeof msg.player.id === 'string') return msg.player.id;
+  return undefined;
+};
+
+const readPlayerState = (value: unknown, fallbackType: PlayerType = 'merc'): PlayerState | null => {
+  if (!isRecord(value) || !isVec3(value.position)) return null;
+  return {
+    position: value.position,
+    rotation: isQuat(value.rotation) ? value.rotation : [0, 0, 0, 1],
+    velocity: isVec3(value.velocity) ? value.velocity : undefined,
+    health: optionalNumber(value.health) ?? 100,
+    playerType: isPlayerType(value.playerType) ? value.playerType : fallbackType,
+    name: optionalString(value.name)
+  };
+};
+
+const readUpdateState = (msg: UnknownRecord): PlayerUpdateState | null => {
+  // Position/rotation may live at the top level or inside `state`
+  const state = isRecord(msg.state) ? msg.state : {};
+  const position = msg.position ?? state.position;
+  if (!isVec3(position)) return null;
+  const rotation = msg.rotation ?? state.rotation;
+  const velocity = msg.velocity ?? state.velocity;
+  const playerType = msg.playerType ?? state.playerType;
+  return {
+    position,
+    rotation: isQuat(rotation) ? rotation : [0, 0, 0, 1],
+    velocity: isVec3(velocity) ? velocity : undefined,
+    sequence: optionalNumber(msg.sequence) ?? optionalNumber(state.sequence),
+    playerType: isPlayerType(playerType) ? playerType : undefined
+  };
+};
+
+const readSnapshot = (value: unknown): GameSnapshot | null => {
+  if (!isRecord(value) || !isFiniteNumber(value.timestamp) || !isRecord(value.players)) return null;
+  const players: Record<string, PlayerSnapshot> = {};
+  for (const [id, player] of Object.entries(value.players)) {
+    const state = readPlayerState(player);
+    if (!state) return null;
+    players[id] = { id, ...state };
+  }
+  return {
+    timestamp: value.timestamp,
+    sequence: optionalNumber(value.sequence) ?? 0,
+    players,
+    events: Array.isArray(value.events) ? value.events.filter(isRecord).map(readGameEvent) : []
+  };
+};
+
+const readTeamAssignment = (value: unknown): TeamAssignment | undefined => {
+  if (!isRecord(value) || !isPlayerType(value.team) || !Number.isInteger(value.index)) return undefined;
+  return { team: value.team, index: value.index as number };
+};
+
+const ROUND_PHASES: readonly RoundPhase[] = ['waiting', 'countdown', 'playing', 'results'];
+
+const readSessionSummary = (value: unknown): SessionSummary | null => {
+  if (!isRecord(value) || typeof value.code !== 'string') return null;
+  return {
+    code: value.code,
+    name: optionalString(value.name) ?? value.code,
+    players: optionalNumber(value.players) ?? 0,
+    maxPlayers: optionalNumber(value.maxPlayers) ?? 0,
+    locked: value.locked === true,
+    phase: ROUND_PHASES.includes(value.phase as RoundPhase) ? value.phase as RoundPhase : 'waiting'
+  };
+};
+
+const JOIN_FAILURE_REASONS: readonly JoinFailureReason[] = ['not_found', 'full', 'wrong_password', 'already_joined'];
+
+const readCounts = (value: unknown): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  if (isRecord(value)) {
+    for (const [id, count] of Object.entries(value)) {
+      if (isFiniteNumber(count)) counts[id] = count;
+    }
+  }
+  return counts;
+};
+
+const readRoundState = (value: unknown): RoundState | null => {
+  if (!isRecord(value) || !ROUND_PHASES.includes(value.phase as RoundPhase)) return null;
+  const roles: Record<string, PlayerType> = {};
+  if (isRecord(value.roles)) {
+    for (const [id, role] of Object.entries(value.roles)) {
+      if (isPlayerType(role)) roles[id] = role;
+    }
+  }
+  return {
+    phase: value.phase as RoundPhase,
+    round: optionalNumber(value.round) ?? 0,
+    remainingMs: Math.max(0, optionalNumber(value.remainingMs) ?? 0),
+    endsAt: optionalNumber(value.endsAt),
+    roles,
+    tagged: Array.isArray(value.tagged) ? value.tagged.filter((id): id is string => typeof id === 'string') : [],
+    tags: readCounts(value.tags),
+    wins: readCounts(value.wins),
+    winner: isPlayerType(value.winner) ? value.winner : null
+  };
+};
+
+const readGameEvent = (event: UnknownRecord): GameEventPayload => ({
+  ...event,
+  event_type: optionalString(event.event_type) ?? optionalString(event.type) ?? 'unknown'
+});
+
+// Decoders, one per inbound type. Each returns the canonical message or throws.
+const decoders: { [K in ServerMessageType]: (msg: UnknownRecord) => Extract<ServerMessage, { type: K }> } = {
+  welcome: (msg) => ({
+    type: 'welcome',
+    server: optionalString(msg.server),
+    timestamp: optionalNumber(msg.timestamp),
+    protocolVersion: optionalNumber(msg.protocolVersion)
+  }),
+
+  connection: (msg) => {
+    const id = readPlayerId(msg);
+    if (!id) throw malformed('connection', 'missing id', msg);
+    const players: Record<string, PlayerState> = {};
+    const rawPlayers = isRecord(msg.gameState) && isRecord(msg.gameState.players) ? msg.gameState.players : {};
+    for (const [playerId, player] of Object.entries(rawPlayers)) {
+      const state = readPlayerState(player);
+      if (state) players[playerId] = state;
+    }
+    return { type: 'connection', id, gameState: { players } };
+  },
+
+  auth_success: (msg) => decodeAuthSuccess('auth_success', msg),
+  join_success: (msg) => decodeAuthSuccess('join_success', msg),
+
+  player_joined: (msg) => {
+    const id = readPlayerId(msg);
+    if (!id) throw malformed('player_joined', 'missing player id', msg);
+    const state = isRecord(msg.state) ? msg.state : {};
+    const playerType = [msg.playerType, state.playerType].find(isPlayerType) ?? 'merc';
+    const initial = readPlayerState(msg.initialState, playerType) ?? {
+      position: isVec3(msg.position) ? msg.position : [0, 1, 0],
+      rotation: isQuat(msg.rotation) ? msg.rotation : [0, 0, 0, 1],
+      health: 100,
+      playerType
+    };
+    const name = initial.name ?? optionalString(msg.name) ?? (isRecord(msg.player) ? optionalString(msg.player.name) : undefined);
+    return { type: 'player_joined', id, state: { ...initial, name } };
+  },
+
+  player_left: (msg) => {
+    const id = readPlayerId(msg);
+    if (!id) throw malformed('player_left', 'missing player id', msg);
+    return { type: 'player_left', id };
+  },
+
+  player_list: (msg) => {
+    if (!isRecord(msg.players)) throw malformed('player_list', 'players must be an object', msg);
+    const players: Record<string, PlayerState> = {};
+    for (const [id, player] of Object.entries(msg.players)) {
+      const state = readPlayerState(player);
+      if (state) players[id] = state;
+    }
+    return { type: 'player_list', players };
+  },
+
+  player_update: (msg) => {
+    const id = readPlayerId(msg);
+    if (!id) throw malformed('player_update', 'missing player id', msg);
+    const state = readUpdateState(msg);
+    if (!state) throw malformed('player_update', 'missing position', msg);
+    return {
+      type: 'player_update',
+      id,
+      state,
+      timestamp: optionalNumber(msg.timestamp),
+      positionError: optionalNumber(msg.positionError),
+      serverCorrection: typeof msg.serverCorrection === 'boolean' ? msg.serverCorrection : undefined
+    };
+  },
+
+  game_event: (msg) => {
+    // Older servers echo ping events with `event` as a bare string
+    if (typeof msg.event === 'string') {
+      return { type: 'game_event', event: { event_type: msg.event, timestamp: optionalNumber(msg.timestamp) } };
+    }
+    if (!isRecord(msg.event)) throw malformed('game_event', 'missing event', msg);
+    if (msg.seq !== undefined && !(Number.isInteger(msg.seq) && (msg.seq as number) > 0)) {
+      throw malformed('game_event', 'invalid seq', msg);
+    }
+    return { type: 'game_event', event: readGameEvent(msg.event), seq: msg.seq as number | undefined };
+  },
+
+  event_ack: (msg) => {
+    if (!Number.isInteger(msg.seq)) throw malformed('event_ack', 'missing seq', msg);
+    return { type: 'event_ack', seq: msg.seq as number };
+  },
+
+  player_update_ack: (msg) => {
+    if (!Number.isInteger(msg.frame)) throw malformed('player_update_ack', 'missing frame', msg);
+    return { type: 'player_update_ack', frame: msg.frame as number };
+  },
+
+  input_ack: (msg) => {
+    if (!Number.isInteger(msg.seq)) throw malformed('input_ack', 'missing seq', msg);
+    if (!isVec3(msg.position)) throw malformed('input_ack', 'missing position', msg);
+    return {
+      type: 'input_ack',
+      seq: msg.seq as number,
+      position: msg.position,
+      velocity: isVec3(msg.velocity) ? msg.velocity : [0, 0, 0]
+    };
+  },
+
+  pong: (msg) => {
+    if (!isFiniteNumber(msg.timestamp)) throw malformed('pong', 'missing timestamp', msg);
+    return { type: 'pong', timestamp: msg.timestamp, serverTime: optionalNumber(msg.serverTime) };
+  },
+
+  game_snapshot: (msg) => {
+    const snapshot = readSnapshot(msg.snapshot);
+    if (!snapshot) throw malformed('game_snapshot', 'invalid snapshot', msg);
+    return { type: 'game_snapshot', snapshot };
+  },
+
+  team_assignment: (msg) => {
+    const assignment = readTeamAssignment(msg.assignment);
+    if (!assignment) throw malformed('team_assignment', 'invalid assignment', msg);
+    return { type: 'team_assignment', assignment };
+  },
+
+  role_swap: (msg) => {
+    if (msg.status !== 'granted' && msg.status !== 'pending' && msg.status !== 'denied') {
+      throw malformed('role_swap', 'invalid status', msg);
+    }
+    return { type: 'role_swap', status: msg.status, reason: optionalString(msg.reason) };
+  },
+
+  round_state: (msg) => {
+    const round = readRoundState(msg.round);
+    if (!round) throw malformed('round_state', 'invalid round', msg);
+    return { type: 'round_state', round };
+  },
+
+  session_list: (msg) => {
+    if (!Array.isArray(msg.sessions)) throw malformed('session_list', 'sessions must be an array', msg);
+    const sessions = msg.sessions
+      .map(readSessionSummary)
+      .filter((session): session is SessionSummary => session !== null);
+    return { type: 'session_list', sessions };
+  },
+
+  join_failed: (msg) => {
+    if (!JOIN_FAILURE_REASONS.includes(msg.reason as JoinFailureReason)) {
+      throw malformed('join_failed', 'invalid reason', msg);
+    }
+    return {
+      type: 'join_failed',
+      reason: msg.reason as JoinFailureReason,
+      message: optionalString(msg.message) ?? 'Could not join session'
+    };
+  },
+
+  chat: (msg) => {
+    const playerId = readPlayerId(msg);
+    if (!playerId) throw malformed('chat', 'missing player id', msg);
+    if (typeof msg.message !== 'string') throw malformed('chat', 'missing message', msg);
+    return {
+      type: 'chat',
+      playerId,
+      playerName: optionalString(msg.playerName) ?? playerId,
+      message: msg.message,
+      channel: msg.channel === 'team' ? 'team' : 'all',
+      timestamp: optionalNumber(msg.timestamp) ?? Date.now()
+    };
+  },
+
+  chat_rejected: (msg) => {
+    if (msg.reason !== 'too_long' && msg.reason !== 'rate_limited') {
+      throw malformed('chat_rejected', 'invalid reason', msg);
+    }
+    return { type: 'chat_rejected', reason: msg.reason, retryAfterMs: optionalNumber(msg.retryAfterMs) };
+  },
+
+  error: (msg) => ({
+    type: 'error',
+    message: optionalString(msg.message) ?? 'Unknown server error'
+  })
+};
+
+function decodeAuthSuccess<T extends 'auth_success' | 'join_success'>(
+  type: T,
+  msg: UnknownRecord
+): SessionJoinedFields & { type: T } {
+  const id = readPlayerId(msg);
+  if (!id) throw malformed(type, 'missing player id', msg);
+  const player = isRecord(msg.player) ? msg.player : {};
+  const session = isRecord(msg.session) && typeof msg.session.id === 'string'
+    ? {
+        id: msg.session.id,
+        key: optionalString(msg.session.key),
+        name: optionalString(msg.session.name),
+        maxPlayers: optionalNumber(msg.session.maxPlayers),
+        locked: typeof msg.session.locked === 'boolean' ? msg.session.locked : undefined,
+        private: typeof msg.session.private === 'boolean' ? msg.session.private : undefined
+      }
+    : undefined;
+  return {
+    type,
+    player: { id, name: optionalString(player.name) },
+    session,
+    playerCount: optionalNumber(msg.playerCount),
+    protocolVersion: optionalNumber(msg.protocolVersion),
+    capabilities: Array.isArray(msg.capabilities)
+      ? msg.capabilities.filter((c): c is string => typeof c === 'string')
+      : [],
+    assignment: readTeamAssignment(msg.assignment),
+    resumeToken: optionalString(msg.resumeToken),
+    resumed: msg.resumed === true,
+    health: optionalNumber(msg.health),
+    spectator: msg.spectator === true
+  };
+}
+
+const isServerMessageType = (type: string): type is ServerMessageType =>
+  Object.prototype.hasOwnProperty.call(decoders, type);
+
+// Validate and normalize a parsed JSON value from the server
+export function decodeServerMessage(raw: unknown): ServerMessage {
+  if (!isRecord(raw)) {
+    throw new ProtocolError('malformed', 'Message is not an object', raw);
+  }
+  if (typeof raw.type !== 'string') {
+    throw new ProtocolError('malformed', 'Message has no type', raw);
+  }
+  if (!isServerMessageType(raw.type)) {
+    throw new ProtocolError('unknown_type', `Unknown message type: ${raw.type}`, raw);
+  }
+  return decoders[raw.type](raw);
+}
+
+// Parse a text frame from the socket
+export function parseServerMessage(data: string): ServerMessage {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (error) {
+    throw new ProtocolError('malformed', `Invalid JSON: ${(error as Error).message}`, data);
+  }
+  return decodeServerMessage(raw);
+}
+
+// Client messages, for hosts written in TypeScript (see GameHost.ts). Clients
+// send one shape per type, so these check it rather than normalize it.
+
+const readInputCommand = (value: unknown): InputCommand | null => {
+  if (!isRecord(value) || !Number.isInteger(value.seq)) return null;
+  if (![value.moveX, value.moveZ, value.yaw, value.pitch, value.dt].every(isFiniteNumber)) return null;
+  if (value.steps !== undefined && !(Number.isInteger(value.steps) && (value.steps as number) > 0)) return null;
+  return {
+    seq: value.seq as number,
+    moveX: value.moveX as number,
+    moveZ: value.moveZ as number,
+    jump: value.jump === true,
+    sprint: value.sprint === true,
+    yaw: value.yaw as number,
+    pitch: value.pitch as number,
+    dt: value.dt as number,
+    steps: value.steps as number | undefined
+  };
+};
+
+const clientDecoders: { [K in ClientMessageType]: (msg: UnknownRecord) => Extract<ClientMessage, { type: K }> } = {
+  auth: (msg) => {
+    if (typeof msg.playerName !== 'string') throw malformed('auth', 'missing playerName', msg);
+    return {
+      type: 'auth',
+      playerName: msg.playerName,
+      protocolVersion: optionalNumber(msg.protocolVersion) ?? MIN_PROTOCOL_VERSION,
+      capabilities: Array.isArray(msg.capabilities)
+        ? msg.capabilities.filter((c): c is string => typeof c === 'string')
+        : [],
+      resumeToken: optionalString(msg.resumeToken)
+    };
+  },
+
+  join_session: (msg) => ({
+    type: 'join_session',
+    playerName: optionalString(msg.playerName) ?? '',
+    sessionKey: optionalString(msg.sessionKey),
+    code: optionalString(msg.code),
+    password: optionalString(msg.password),
+    protocolVersion: optionalNumber(msg.protocolVersion),
+    spectate: msg.spectate === true || undefined
+  }),
+
+  create_session: (msg) => ({
+    type: 'create_session',
+    name: optionalString(msg.name) ?? '',
+    maxPlayers: optionalNumber(msg.maxPlayers) ?? 0,
+    password: optionalString(msg.password),
+    private: msg.private === true
+  }),
+
+  list_sessions: () => ({ type: 'list_sessions' }),
+
+  player_update: (msg) => {
+    const state = readUpdateState(msg);
+    if (!state) throw malformed('player_update', 'missing position', msg);
+    return { type: 'player_update', state };
+  },
+
+  player_input: (msg) => {
+    if (!Array.isArray(msg.inputs) || msg.inputs.length === 0) throw malformed('player_input', 'no inputs', msg);
+    const inputs = msg.inputs.map(readInputCommand);
+    if (inputs.some(input => input === null)) throw malformed('player_input', 'invalid input', msg);
+    const state = isRecord(msg.state) ? msg.state : {};
+    if (!isVec3(state.position)) throw malformed('player_input', 'missing state', msg);
+    return {
+      type: 'player_input',
+      inputs: inputs as InputCommand[],
+      state: { position: state.position, velocity: isVec3(state.velocity) ? state.velocity : [0, 0, 0] }
+    };
+  },
+
+  game_event: (msg) => {
+    if (!isRecord(msg.event)) throw malformed('game_event', 'missing event', msg);
+    if (msg.seq !== undefined && !(Number.isInteger(msg.seq) && (msg.seq as number) > 0)) {
+      throw malformed('game_event', 'invalid seq', msg);
+    }
+    return { type: 'game_event', event: readGameEvent(msg.event), seq: msg.seq as number | undefined };
+  },
+
+  event_ack: (msg) => {
+    if (!Number.isInteger(msg.seq)) throw malformed('event_ack', 'missing seq', msg);
+    return { type: 'event_ack', seq: msg.seq as number };
+  },
+
+  game_snapshot: (msg) => {
+    const snapshot = readSnapshot(msg.snapshot);
+    if (!snapshot) throw malformed('game_snapshot', 'invalid snapshot', msg);
+    return { type: 'game_snapshot', snapshot };
+  },
+
+  keepalive: (msg) => ({ type: 'keepalive', timestamp: optionalNumber(msg.timestamp) ?? 0 }),
+
+  ping: (msg) => {
+    if (!isFiniteNumber(msg.timestamp)) throw malformed('ping', 'missing timestamp', msg);
+    return {
+      type: 'ping',
+      timestamp: msg.timestamp,
+      rtt: optionalNumber(msg.rtt),
+      interpolationDelay: optionalNumber(msg.interpolationDelay)
+    };
+  },
+
+  request_player_list: () => ({ type: 'request_player_list' }),
+
+  role_swap_request: () => ({ type: 'role_swap_request' }),
+
+  leave_session: () => ({ type: 'leave_session' }),
+
+  chat: (msg) => {
+    if (typeof msg.message !== 'string') throw malformed('chat', 'missing message', msg);
+    return { type: 'chat', message: msg.message, channel: msg.channel === 'team' ? 'team' : 'all' };
+  }
+};
+
+const isClientMessageType = (type: string): type is ClientMessageType =>
+  Object.prototype.hasOwnProperty.call(clientDecoders, type);
+
+// Validate a parsed JSON value from a client
+export function decodeClientMessage(raw: unknown): ClientMessage {
+  if (!isRecord(raw)) {
+    throw new ProtocolError('malformed', 'Message is not an object', raw);
+  }
+  if (typeof raw.type !== 'string') {
+    throw new ProtocolError('malformed', 'Message has no type', raw);
+  }
+  if (!isClientMessageType(raw.type)) {
+    throw new ProtocolError('unknown_type', `Unknown message type: ${raw.type}`, raw);
+  }
+  return clientDecoders[raw.type](raw);
+}
+
+// Parse a text frame from a client
+export function parseClientMessage(data: string): ClientMessage {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (error) {
+    throw new ProtocolError('malformed', `Invalid JSON: ${(error as Error).message}`, data);
+  }
+  return decodeClientMessage(raw);
+}
+
+// Narrow a game event to one of the health events, or null if it isn't one
+// (or is missing required fields)
+export function decodeHealthEvent(event: GameEventPayload): HealthEvent | null {
+  const target = optionalString(event.target);
+  if (!target) return null;
+  const attacker = optionalString(event.attacker) ?? optionalString(event.player) ?? 'unknown';
+
+  switch (event.event_type) {
+    case 'player_damaged':
+      if (!isFiniteNumber(event.damage) || !isFiniteNumber(event.health)) return null;
+      return {
+        ...event,
+        event_type: 'player_damaged',
+        target,
+        attacker,
+        damage: event.damage,
+        health: event.health,
+        shotId: optionalString(event.shotId)
+      };
+    case 'player_killed':
+      return { ...event, event_type: 'player_killed', target, attacker };
+    case 'player_respawned':
+      if (!isFiniteNumber(event.health)) return null;
+      return { ...event, event_type: 'player_respawned', target, health: event.health };
+    default:
+      return null;
+  }
+}
+
+// Pick the version both sides understand. Servers that predate negotiation
+// don't send a version at all, which means they speak version 1.
+export function negotiateProtocolVersion(serverVersion: number | undefined): number {
+  const remote = serverVersion ?? MIN_PROTOCOL_VERSION;
+  const agreed = Math.min(PROTOCOL_VERSION, remote);
+  if (agreed < MIN_PROTOCOL_VERSION) {
+    throw new ProtocolError(
+      'version_mismatch',
+      `Server protocol version ${remote} is older than the minimum supported version ${MIN_PROTOCOL_VERSION}`
+    );
+  }
+  return agreed;
+}
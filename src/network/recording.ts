@@ -0,0 +1,211 @@
+// Session recordings, for bug reports that nobody can reproduce.
+//
+// While recording, ConnectionManager hands everything it receives from the
+// server, everything it sends, and every movement input it queues to a
+// SessionRecorder, stamped with the time since the recording started. That's
+// enough to watch the match again from any angle (replay.ts and
+// components/ReplayViewer.tsx).
+//
+// Files are gzipped JSON. Entries are [time, kind, data] tuples rather than
+// objects so the field names aren't repeated a few hundred thousand times, and
+// runs of identical inputs are stored once with a step count, as
+// compressInputs does for the wire.
+
+import { MovementInput } from '../game/movement';
+import { ClientMessage, PlayerState, SessionInfo } from './protocol';
+
+export const RECORDING_VERSION = 1;
+
+export const RECORDING_EXTENSION = '.jlrec';
+
+// A run of identical movement inputs, `steps` long and `dt` seconds in all
+export interface RecordedInput extends MovementInput {
+  dt: number;
+  steps: number;
+}
+
+// 'in' is a server message exactly as received, 'out' a message as sent
+// (before any binary encoding), 'input' a run of movement inputs
+export type RecordingEntry =
+  | [time: number, kind: 'in', data: string]
+  | [time: number, kind: 'out', data: ClientMessage]
+  | [time: number, kind: 'input', data: RecordedInput];
+
+// What we already knew when the recording started, so one started mid-game
+// can still show who was there
+export interface RecordingStart {
+  playerId: string | null;
+  playerName: string;
+  session: SessionInfo | null;
+  // Everyone else, as last heard from
+  players: Record<string, PlayerState>;
+}
+
+export interface SessionRecording {
+  version: number;
+  // Wall clock time the recording started, which replays run their clock from
+  startedAt: number;
+  duration: number;
+  serverUrl: string;
+  start: RecordingStart;
+  entries: RecordingEntry[];
+  // Stopped early for reaching maxEntries
+  truncated: boolean;
+}
+
+export interface RecorderOptions {
+  // Entries kept before the recording stops growing. About an hour of a full session.
+  maxEntries: number;
+}
+
+export const DEFAULT_RECORDER_OPTIONS: RecorderOptions = {
+  maxEntries: 500000
+};
+
+export class RecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordingError';
+  }
+}
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+const sameInput = (a: MovementInput, b: MovementInput) =>
+  a.moveX === b.moveX && a.moveZ === b.moveZ && a.jump === b.jump &&
+  a.sprint === b.sprint && a.yaw === b.yaw && a.pitch === b.pitch;
+
+export class SessionRecorder {
+  private startedAt: number;
+  private serverUrl: string;
+  private start: RecordingStart;
+  private options: RecorderOptions;
+  private entries: RecordingEntry[] = [];
+  private lastInput: RecordedInput | null = null;
+  private truncated = false;
+
+  constructor(startedAt: number, serverUrl: string, start: RecordingStart, options: Partial<RecorderOptions> = {}) {
+    this.startedAt = startedAt;
+    this.serverUrl = serverUrl;
+    this.start = start;
+    this.options = { ...DEFAULT_RECORDER_OPTIONS, ...options };
+  }
+
+  recordIncoming(data: string, now: number): void {
+    this.add([this.elapsed(now), 'in', data]);
+  }
+
+  recordOutgoing(message: ClientMessage, now: number): void {
+    this.add([this.elapsed(now), 'out', message]);
+  }
+
+  recordInput(input: MovementInput, dt: number, now: number): void {
+    // Only another entry in between starts a new run
+    const last = this.entries[this.entries.length - 1];
+    if (this.lastInput && last?.[2] === this.lastInput && sameInput(this.lastInput, input)) {
+      this.lastInput.dt += dt;
+      this.lastInput.steps++;
+      return;
+    }
+
+    const { moveX, moveZ, jump, sprint, yaw, pitch } = input;
+    const recorded: RecordedInput = { moveX, moveZ, jump, sprint, yaw, pitch, dt, steps: 1 };
+    if (this.add([this.elapsed(now), 'input', recorded])) {
+      this.lastInput = recorded;
+    }
+  }
+
+  getEntryCount(): number {
+    return this.entries.length;
+  }
+
+  isTruncated(): boolean {
+    return this.truncated;
+  }
+
+  getDuration(now: number): number {
+    return this.elapsed(now);
+  }
+
+  finish(now: number): SessionRecording {
+    return {
+      version: RECORDING_VERSION,
+      startedAt: this.startedAt,
+      duration: this.getDuration(now),
+      serverUrl: this.serverUrl,
+      start: this.start,
+      entries: this.entries,
+      truncated: this.truncated
+    };
+  }
+
+  private elapsed(now: number): number {
+    return Math.max(0, Math.round(now - this.startedAt));
+  }
+
+  private add(entry: RecordingEntry): boolean {
+    if (this.entries.length >= this.options.maxEntries) {
+      this.truncated = true;
+      return false;
+    }
+    this.entries.push(entry);
+    return true;
+  }
+}
+
+// The recording as a file: gzipped where the browser can, plain JSON otherwise
+export async function encodeRecording(recording: SessionRecording): Promise<Blob> {
+  const json = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  if (typeof CompressionStream === 'undefined') return json;
+
+  const compressed = json.stream().pipeThrough(new CompressionStream('gzip'));
+  return new Blob([await new Response(compressed).arrayBuffer()], { type: 'application/gzip' });
+}
+
+// Read a recording saved by encodeRecording. Throws RecordingError for
+// anything else.
+export async function decodeRecording(data: Blob | ArrayBuffer): Promise<SessionRecording> {
+  const blob = data instanceof Blob ? data : new Blob([data]);
+  const header = new Uint8Array(await blob.slice(0, 2).arrayBuffer());
+  const gzipped = header[0] === GZIP_MAGIC[0] && header[1] === GZIP_MAGIC[1];
+
+  let text: string;
+  if (gzipped) {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new RecordingError('This browser cannot read compressed recordings');
+    }
+    try {
+      text = await new Response(blob.stream().pipeThrough(new DecompressionStream('gzip'))).text();
+    } catch {
+      throw new RecordingError('The recording is damaged');
+    }
+  } else {
+    text = await blob.text();
+  }
+
+  let recording: unknown;
+  try {
+    recording = JSON.parse(text);
+  } catch {
+    throw new RecordingError('Not a Jackalopes recording');
+  }
+
+  if (
+    typeof recording !== 'object' || recording === null ||
+    !('version' in recording) || !('entries' in recording) || !Array.isArray(recording.entries)
+  ) {
+    throw new RecordingError('Not a Jackalopes recording');
+  }
+  if (recording.version !== RECORDING_VERSION) {
+    throw new RecordingError(`Unsupported recording version ${String(recording.version)}`);
+  }
+  return recording as SessionRecording;
+}
+
+// e.g. jackalopes-2024-05-01-1830.jlrec
+export function getRecordingFileName(recording: SessionRecording): string {
+  const started = new Date(recording.startedAt);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const date = `${started.getFullYear()}-${pad(started.getMonth() + 1)}-${pad(started.getDate())}`;
+  return `jackalopes-${date}-${pad(started.getHours())}${pad(started.getMinutes())}${RECORDING_EXTENSION}`;
+}
@@ -0,0 +1,176 @@
+// Reliable, ordered delivery for game events, owned by ConnectionManager.
+//
+// Player updates are latest-wins: if one goes missing the next replaces it.
+// Game events (shots, damage, kills) aren't, so when the server advertises
+// the `reliable_events` capability each one is numbered, per direction and
+// per player, and acknowledged:
+//
+// - ReliableSender keeps every event until the other side acks it, resending
+//   it if the ack is slow, and again after we resume a dropped connection.
+// - ReliableReceiver hands events on in order and exactly once, however they
+//   arrive: duplicates are dropped, and events that overtook a missing one
+//   wait for it.
+//
+// Acks are cumulative: `event_ack` with seq N covers every event up to N.
+
+export const RELIABLE_EVENTS_CAPABILITY = 'reliable_events';
+
+export interface ReliableOptions {
+  // Resend timeout bounds in ms. In between it's a couple of round trips,
+  // doubling with each attempt.
+  minResendMs: number;
+  maxResendMs: number;
+  // Most events kept waiting for an ack or for a missing earlier event.
+  // Beyond it the sender refuses new events.
+  capacity: number;
+}
+
+export const DEFAULT_RELIABLE_OPTIONS: ReliableOptions = {
+  minResendMs: 200,
+  maxResendMs: 2000,
+  capacity: 256
+};
+
+export interface SequencedEvent<T> {
+  seq: number;
+  payload: T;
+}
+
+interface PendingEvent<T> extends SequencedEvent<T> {
+  sentAt: number;
+  attempts: number;
+}
+
+export interface ReliableStats {
+  // Sent but not acknowledged yet
+  unacked: number;
+  resent: number;
+  // Highest event delivered in order
+  delivered: number;
+  // Arrived ahead of a missing event
+  held: number;
+  duplicates: number;
+}
+
+export class ReliableSender<T> {
+  private nextSeq = 1;
+  private pending: PendingEvent<T>[] = [];
+  private resent = 0;
+  private options: ReliableOptions;
+
+  constructor(options: Partial<ReliableOptions> = {}) {
+    this.options = { ...DEFAULT_RELIABLE_OPTIONS, ...options };
+  }
+
+  // Number an event and hold it until it's acked. Returns its sequence
+  // number, or null when `capacity` events are already waiting: nothing is
+  // acking, e.g. the other side went away. The event isn't numbered then,
+  // because dropping one that was would leave a gap the receiver waits at
+  // forever.
+  send(payload: T, now: number = Date.now()): number | null {
+    if (this.pending.length >= this.options.capacity) {
+      return null;
+    }
+
+    const seq = this.nextSeq++;
+    this.pending.push({ seq, payload, sentAt: now, attempts: 1 });
+    return seq;
+  }
+
+  // The other side has everything up to and including `seq`
+  ack(seq: number): void {
+    this.pending = this.pending.filter(event => event.seq > seq);
+  }
+
+  // Events whose ack is overdue, given the current round trip time. They're
+  // marked as sent again at `now`.
+  takeDue(now: number, rtt: number): SequencedEvent<T>[] {
+    const due = this.pending.filter(event => now - event.sentAt >= this.getResendTimeout(rtt, event.attempts));
+    due.forEach(event => this.markResent(event, now));
+    return due.map(({ seq, payload }) => ({ seq, payload }));
+  }
+
+  // Every unacked event, e.g. to send again on a new connection
+  takeAll(now: number = Date.now()): SequencedEvent<T>[] {
+    this.pending.forEach(event => this.markResent(event, now));
+    return this.pending.map(({ seq, payload }) => ({ seq, payload }));
+  }
+
+  hasPending(): boolean {
+    return this.pending.length > 0;
+  }
+
+  // Start over, for a new player on a new connection
+  reset(): void {
+    this.nextSeq = 1;
+    this.pending = [];
+  }
+
+  getStats(): Pick<ReliableStats, 'unacked' | 'resent'> {
+    return { unacked: this.pending.length, resent: this.resent };
+  }
+
+  private getResendTimeout(rtt: number, attempts: number): number {
+    const { minResendMs, maxResendMs } = this.options;
+    const base = Math.min(maxResendMs, Math.max(minResendMs, rtt * 2));
+    return Math.min(maxResendMs, base * Math.pow(2, attempts - 1));
+  }
+
+  private markResent(event: PendingEvent<T>, now: number): void {
+    event.sentAt = now;
+    event.attempts++;
+    this.resent++;
+  }
+}
+
+export class ReliableReceiver<T> {
+  private delivered = 0;
+  private held = new Map<number, T>();
+  private duplicates = 0;
+  private options: ReliableOptions;
+
+  constructor(options: Partial<ReliableOptions> = {}) {
+    this.options = { ...DEFAULT_RELIABLE_OPTIONS, ...options };
+  }
+
+  // Take an event off the wire. Returns the events that can now be handled,
+  // in order: none for a duplicate or an early arrival, possibly several when
+  // a missing event turns up.
+  receive(seq: number, payload: T): T[] {
+    if (seq <= this.delivered || this.held.has(seq)) {
+      this.duplicates++;
+      return [];
+    }
+
+    if (seq > this.delivered + 1) {
+      // Too far ahead to be worth waiting for; the sender will resend
+      if (this.held.size < this.options.capacity) {
+        this.held.set(seq, payload);
+      }
+      return [];
+    }
+
+    const ready = [payload];
+    this.delivered = seq;
+    while (this.held.has(this.delivered + 1)) {
+      this.delivered++;
+      ready.push(this.held.get(this.delivered)!);
+      this.held.delete(this.delivered);
+    }
+    return ready;
+  }
+
+  // What to ack: the last event handed on in order
+  getAck(): number {
+    return this.delivered;
+  }
+
+  reset(): void {
+    this.delivered = 0;
+    this.held.clear();
+  }
+
+  getStats(): Pick<ReliableStats, 'delivered' | 'held' | 'duplicates'> {
+    return { delivered: this.delivered, held: this.held.size, duplicates: this.duplicates };
+  }
+}
@@ -0,0 +1,299 @@
+// Plays a session recording (recording.ts) back into a ConnectionManager.
+//
+// The replay stands in for the server. ConnectionManager connects to it over
+// a loopback pair (transport.ts), and it sends down the other end what the
+// server sent, when it was sent. ConnectionManager runs on the replay's clock
+// (pass replay.now as its time source): that clock starts where the
+// recording did and only moves while playing, at the chosen speed. So clock
+// sync, interpolation and timeouts see the same timing as when the match was
+// recorded, and pausing freezes the lot. Whatever ConnectionManager sends is
+// ignored.
+//
+// The viewer joins as an onlooker. auth_success and join_success are
+// rewritten to REPLAY_VIEWER_ID, which makes the recorded player just another
+// player, and since the server never sent them their own position, their
+// outgoing player_updates are played back as if it had.
+//
+// Skipping ahead delivers everything in between at once, each message at its
+// own time. Messages can't be taken back, so going back needs a fresh
+// ConnectionManager: seek() bumps getGeneration(), and the next connection
+// replays from the start up to the new position.
+
+import { RecordedInput, SessionRecording } from './recording';
+import { Transport, createLoopbackPair } from './transport';
+
+export const REPLAY_VIEWER_ID = 'replay-viewer';
+
+// Server URL for ConnectionManagers connected to a replay
+export const REPLAY_SERVER_URL = 'replay://';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export interface ReplayOptions {
+  // How often the clock moves while playing, in ms
+  tickMs: number;
+  // Messages delivered in one go while skipping ahead before letting the page draw
+  messagesPerYield: number;
+}
+
+export const DEFAULT_REPLAY_OPTIONS: ReplayOptions = {
+  tickMs: 16,
+  messagesPerYield: 500
+};
+
+export interface ReplayState {
+  // Where we are, in ms from the start of the recording
+  position: number;
+  duration: number;
+  playing: boolean;
+  speed: number;
+  // Delivering a backlog after a seek rather than playing in time
+  seeking: boolean;
+  // The recorded player, once we know who that was
+  recordedPlayerId: string | null;
+  // What the recorded player was pressing
+  input: RecordedInput | null;
+}
+
+type WireMessage = { type: string; [key: string]: unknown };
+
+export class SessionReplay {
+  private recording: SessionRecording;
+  private options: ReplayOptions;
+  private server: Transport | null = null;
+  private connected = false;
+  private generation = 0;
+  // Next entry to deliver
+  private cursor = 0;
+  private position = 0;
+  // Where delivery is headed: the clock while playing, or a seek
+  private target = 0;
+  private advancing = false;
+  private seeking = false;
+  private playing = false;
+  private speed = 1;
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private lastTickAt = 0;
+  private recordedPlayerId: string | null = null;
+  private input: RecordedInput | null = null;
+  // Reliable event numbers already delivered, see deliverEvent
+  private eventSeqs = new Set<number>();
+
+  constructor(recording: SessionRecording, options: Partial<ReplayOptions> = {}) {
+    this.recording = recording;
+    this.options = { ...DEFAULT_REPLAY_OPTIONS, ...options };
+  }
+
+  // The replay's clock, in the recording's wall clock time
+  now = (): number => this.recording.startedAt + this.position;
+
+  getState(): ReplayState {
+    return {
+      position: this.position,
+      duration: this.recording.duration,
+      playing: this.playing,
+      speed: this.speed,
+      seeking: this.seeking,
+      recordedPlayerId: this.recordedPlayerId,
+      input: this.input
+    };
+  }
+
+  // Bumped when the ConnectionManager has to be replaced, see seek()
+  getGeneration(): number {
+    return this.generation;
+  }
+
+  // For ConnectionManager's server transport factory. Each connection
+  // replays from the start, up to wherever we were asked to be.
+  createTransport = (): Transport => {
+    const [client, server] = createLoopbackPair();
+    this.server = server;
+    this.connected = false;
+    this.cursor = 0;
+    this.position = 0;
+    this.recordedPlayerId = this.recording.start.playerId;
+    this.input = null;
+    this.eventSeqs.clear();
+
+    server.open({
+      onOpen: () => {},
+      onClose: () => {
+        if (this.server === server) this.server = null;
+      },
+      onError: () => {},
+      // The first thing ConnectionManager says means it's listening
+      onMessage: () => {
+        if (this.server !== server || this.connected) return;
+        this.connected = true;
+        this.sendStart();
+        void this.advance();
+      }
+    });
+    return client;
+  };
+
+  play(): void {
+    if (this.playing) return;
+    if (this.position >= this.recording.duration) this.seek(0);
+
+    this.playing = true;
+    this.lastTickAt = Date.now();
+    this.tickTimer = setInterval(() => this.tick(), this.options.tickMs);
+  }
+
+  pause(): void {
+    this.playing = false;
+    if (this.tickTimer !== null) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = Math.max(0.05, speed);
+  }
+
+  // Jump to a position in ms. Going back needs a new ConnectionManager.
+  seek(position: number): void {
+    const target = Math.max(0, Math.min(this.recording.duration, position));
+    this.target = target;
+
+    if (target < this.position) {
+      this.server = null;
+      this.connected = false;
+      this.position = 0;
+      this.generation++;
+    }
+    this.seeking = true;
+    void this.advance();
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastTickAt) * this.speed;
+    this.lastTickAt = now;
+
+    // Skipping ahead takes as long as it takes; play on from where it ends
+    if (this.seeking || !this.connected) return;
+
+    this.target = Math.min(this.recording.duration, Math.max(this.target, this.position) + elapsed);
+    void this.advance();
+    if (this.target >= this.recording.duration && !this.advancing) {
+      this.pause();
+    }
+  }
+
+  // Deliver everything up to the target, moving the clock to each message's
+  // time as it goes
+  private async advance(): Promise<void> {
+    if (this.advancing) return;
+    this.advancing = true;
+
+    const server = this.server;
+    const { entries } = this.recording;
+    let delivered = 0;
+    while (this.connected && this.server === server && this.cursor < entries.length && entries[this.cursor][0] <= this.target) {
+      const entry = entries[this.cursor++];
+      this.position = Math.max(this.position, entry[0]);
+
+      let message: WireMessage | null = null;
+      switch (entry[1]) {
+        case 'in':
+          message = this.fromServer(entry[2]);
+          break;
+        case 'out':
+          message = this.fromRecordedPlayer(entry[2] as unknown as WireMessage);
+          break;
+        case 'input':
+          this.input = entry[2];
+          break;
+      }
+      if (!message || !server) continue;
+
+      server.send(JSON.stringify(message));
+      // The loopback delivers on a microtask: let it, so ConnectionManager
+      // handles the message at this message's time
+      await Promise.resolve();
+
+      if (++delivered % this.options.messagesPerYield === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    if (this.connected && this.server === server) {
+      this.position = Math.max(this.position, this.target);
+      this.seeking = false;
+    }
+    this.advancing = false;
+
+    // Started over while we were busy with the old connection
+    if (this.server !== server && this.connected) void this.advance();
+  }
+
+  // A recorded server message as the viewer should get it, or null to skip it
+  private fromServer(data: string): WireMessage | null {
+    let message: WireMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return null;
+    }
+
+    switch (message.type) {
+      case 'auth_success':
+      case 'join_success':
+      case 'connection': {
+        // A new connection numbers its events from 1 again
+        this.eventSeqs.clear();
+        const player = typeof message.player === 'object' && message.player !== null ? message.player : {};
+        const id = message.id ?? (player as { id?: unknown }).id ?? message.player_id;
+        if (typeof id === 'string') this.recordedPlayerId = id;
+        return { ...message, id: REPLAY_VIEWER_ID, player: { ...player, id: REPLAY_VIEWER_ID } };
+      }
+
+      // Answers to the recorded player's own messages
+      case 'input_ack':
+      case 'player_update_ack':
+      case 'event_ack':
+        return null;
+
+      case 'game_event':
+        return this.deliverEvent(message);
+
+      default:
+        return message;
+    }
+  }
+
+  // Events are numbered per connection and the viewer can't ack them, so
+  // drop the numbers, and the resends the numbers were there to catch
+  private deliverEvent(message: WireMessage): WireMessage | null {
+    const { seq, ...event } = message;
+    if (typeof seq !== 'number') return message;
+    if (this.eventSeqs.has(seq)) return null;
+    this.eventSeqs.add(seq);
+    return event;
+  }
+
+  // The recorded player's own updates, as the server would have relayed them
+  private fromRecordedPlayer(message: WireMessage): WireMessage | null {
+    if (message.type !== 'player_update' || !this.recordedPlayerId) return null;
+    return { type: 'player_update', id: this.recordedPlayerId, state: message.state };
+  }
+
+  // Whatever the recording started in the middle of
+  private sendStart(): void {
+    const { session, players } = this.recording.start;
+    if (!session || !this.server) return;
+
+    const messages: WireMessage[] = [
+      { type: 'auth_success', id: REPLAY_VIEWER_ID, player: { id: REPLAY_VIEWER_ID, name: 'Replay' } },
+      { type: 'join_success', id: REPLAY_VIEWER_ID, player: { id: REPLAY_VIEWER_ID, name: 'Replay' }, session }
+    ];
+    if (Object.keys(players).length > 0) {
+      messages.push({ type: 'player_list', players });
+    }
+    messages.forEach(message => this.server!.send(JSON.stringify(message)));
+  }
+}
@@ -0,0 +1,32 @@
+// Hunt mode rules shared by ConnectionManager and the server
+// (jackalopes-server/server.js mirrors these values).
+//
+// A match cycles through: waiting (not enough players) -> countdown -> playing
+// -> results -> countdown... Mercs win a round by tagging every jackalope;
+// jackalopes win if any of them are still untagged when the timer runs out.
+// Everyone swaps sides between rounds.
+
+import { RoundState } from './protocol';
+
+export const MIN_ROUND_PLAYERS = 2;
+export const LOBBY_COUNTDOWN_MS = 10000;
+export const ROUND_DURATION_MS = 3 * 60 * 1000;
+export const RESULTS_DURATION_MS = 10000;
+
+export const INITIAL_ROUND_STATE: RoundState = {
+  phase: 'waiting',
+  round: 0,
+  remainingMs: 0,
+  roles: {},
+  tagged: [],
+  tags: {},
+  wins: {},
+  winner: null
+};
+
+export function formatRoundTime(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,67 @@
+// Session limits and share codes, shared by ConnectionManager and the lobby
+// (jackalopes-server/server.js mirrors these values).
+//
+// Every session is known by its key. Sessions created from the lobby get a
+// short random key that doubles as the code players share to join them.
+
+// The session everyone lands in when they skip the lobby
+export const DEFAULT_SESSION_KEY = 'JACKALOPES-TEST-SESSION';
+
+export const MIN_SESSION_PLAYERS = 2;
+export const MAX_SESSION_PLAYERS = 16;
+// Spectators don't take player slots, but there's a limit to them too
+export const MAX_SESSION_SPECTATORS = 16;
+export const MAX_SESSION_NAME_LENGTH = 32;
+export const SESSION_CODE_LENGTH = 6;
+// No 0/O, 1/I/L, so codes survive being read out loud
+export const SESSION_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+// Query string parameter used by share links, e.g. ?join=K7WQ2M
+export const SESSION_CODE_PARAM = 'join';
+
+// How long the server holds a dropped player's place. Reconnecting within this
+// with the resume token from auth_success takes the same player back.
+export const RESUME_GRACE_MS = 30000;
+
+export interface CreateSessionOptions {
+  name: string;
+  maxPlayers: number;
+  // Players need this to join. Leave it empty for an open session.
+  password?: string;
+  // Private sessions don't show up in the session list; join them by code
+  private?: boolean;
+}
+
+// What ConnectionManager should do once it's authenticated
+export type SessionRequest =
+  | { kind: 'key'; sessionKey: string; password?: string; spectate?: boolean }
+  | { kind: 'code'; code: string; password?: string; spectate?: boolean }
+  | { kind: 'create'; options: CreateSessionOptions };
+
+// Codes are shown in upper case but typed however
+export function normalizeSessionCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+// A random share code, as the server makes for new sessions
+export function generateSessionCode(): string {
+  let code = '';
+  for (let i = 0; i < SESSION_CODE_LENGTH; i++) {
+    code += SESSION_CODE_ALPHABET[Math.floor(Math.random() * SESSION_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+export function getSessionShareLink(code: string): string {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(SESSION_CODE_PARAM, code);
+  return url.toString();
+}
+
+// The code from a share link this page was opened with, if any
+export function getSessionCodeFromUrl(): string | null {
+  const code = new URLSearchParams(window.location.search).get(SESSION_CODE_PARAM);
+  return code ? normalizeSessionCode(code) : null;
+}
@@ -0,0 +1,432 @@
+// The pipes ConnectionManager talks through.
+//
+// ConnectionManager speaks the protocol in protocol.ts and doesn't care what
+// carries it:
+// - WebSocketTransport reaches the game server.
+// - BroadcastChannelTransport reaches the other tabs of this browser on the
+//   same channel, with no server in between. Offline mode uses it so tabs can
+//   still see and shoot each other.
+// - createLoopbackPair() gives two in-memory ends of one connection, for
+//   tests: what one end sends, the other receives.
+// - PeerClientTransport connects to a game hosted in another tab of this
+//   browser (see GameHost.ts), which takes connections with PeerHostListener.
+
+export type TransportState = 'connecting' | 'open' | 'closed';
+
+export type TransportPayload = string | ArrayBuffer;
+
+export interface TransportHandlers {
+  onOpen: () => void;
+  onClose: (reason: string) => void;
+  onError: (error: unknown) => void;
+  onMessage: (data: TransportPayload) => void;
+}
+
+export interface Transport {
+  // Short name for logs and debug panels
+  readonly kind: string;
+  getState(): TransportState;
+  // Bytes passed to send() that haven't gone out yet
+  getBufferedAmount(): number;
+  // Start connecting. onOpen is always called asynchronously.
+  open(handlers: TransportHandlers): void;
+  // Throws if the transport isn't open
+  send(payload: TransportPayload): void;
+  // Close without calling any more handlers
+  close(): void;
+}
+
+export class WebSocketTransport implements Transport {
+  readonly kind = 'websocket';
+  private url: string;
+  private socket: WebSocket | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  getState(): TransportState {
+    if (!this.socket) return 'closed';
+
+    switch (this.socket.readyState) {
+      case WebSocket.CONNECTING:
+        return 'connecting';
+      case WebSocket.OPEN:
+        return 'open';
+      default:
+        return 'closed';
+    }
+  }
+
+  getBufferedAmount(): number {
+    return this.socket?.bufferedAmount ?? 0;
+  }
+
+  open(handlers: TransportHandlers): void {
+    this.close();
+
+    const socket = new WebSocket(this.url);
+    socket.onopen = () => handlers.onOpen();
+    socket.onclose = (event) => handlers.onClose(`code ${event.code}, reason: ${event.reason || 'No reason given'}`);
+    socket.onerror = (error) => handlers.onError(error);
+    socket.onmessage = (event) => handlers.onMessage(event.data);
+    this.socket = socket;
+  }
+
+  send(payload: TransportPayload): void {
+    if (!this.socket) throw new Error('WebSocket transport is not open');
+    this.socket.send(payload);
+  }
+
+  close(): void {
+    const socket = this.socket;
+    if (!socket) return;
+
+    // Remove event listeners to prevent any callbacks after close
+    socket.onopen = null;
+    socket.onclose = null;
+    socket.onerror = null;
+    socket.onmessage = null;
+
+    if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) {
+      socket.close();
+    }
+    this.socket = null;
+  }
+}
+
+// Every tab that opens a channel with the same name hears what the others
+// send on it, but not its own messages
+export class BroadcastChannelTransport implements Transport {
+  readonly kind = 'broadcast';
+  private name: string;
+  private channel: BroadcastChannel | null = null;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  getState(): TransportState {
+    return this.channel ? 'open' : 'closed';
+  }
+
+  getBufferedAmount(): number {
+    return 0;
+  }
+
+  open(handlers: TransportHandlers): void {
+    this.close();
+
+    const channel = new BroadcastChannel(this.name);
+    channel.onmessage = (event) => handlers.onMessage(event.data);
+    channel.onmessageerror = (event) => handlers.onError(event);
+    this.channel = channel;
+
+    setTimeout(() => {
+      if (this.channel === channel) handlers.onOpen();
+    }, 0);
+  }
+
+  send(payload: TransportPayload): void {
+    if (!this.channel) throw new Error('BroadcastChannel transport is not open');
+    this.channel.postMessage(payload);
+  }
+
+  close(): void {
+    if (!this.channel) return;
+
+    this.channel.onmessage = null;
+    this.channel.onmessageerror = null;
+    this.channel.close();
+    this.channel = null;
+  }
+}
+
+class LoopbackTransport implements Transport {
+  readonly kind = 'loopback';
+  peer: LoopbackTransport | null = null;
+  private handlers: TransportHandlers | null = null;
+
+  getState(): TransportState {
+    return this.handlers ? 'open' : 'closed';
+  }
+
+  getBufferedAmount(): number {
+    return 0;
+  }
+
+  open(handlers: TransportHandlers): void {
+    this.handlers = handlers;
+    queueMicrotask(() => {
+      if (this.handlers === handlers) handlers.onOpen();
+    });
+  }
+
+  send(payload: TransportPayload): void {
+    if (!this.handlers) throw new Error('Loopback transport is not open');
+
+    // Delivered asynchronously, like a real connection
+    const peer = this.peer;
+    queueMicrotask(() => peer?.handlers?.onMessage(payload));
+  }
+
+  close(): void {
+    if (!this.handlers) return;
+    this.handlers = null;
+
+    const peer = this.peer;
+    queueMicrotask(() => {
+      const handlers = peer?.handlers;
+      if (!peer || !handlers) return;
+      peer.handlers = null;
+      handlers.onClose('peer closed');
+    });
+  }
+}
+
+// Two connected in-memory transports. Messages sent by one end arrive at the
+// other once it's open; closing either end tells the other.
+export function createLoopbackPair(): [Transport, Transport] {
+  const a = new LoopbackTransport();
+  const b = new LoopbackTransport();
+  a.peer = b;
+  b.peer = a;
+  return [a, b];
+}
+
+// Server URLs for games hosted in a browser tab, e.g. peer://K7WQ2M
+export const PEER_URL_PREFIX = 'peer://';
+
+export const getPeerUrl = (code: string): string => `${PEER_URL_PREFIX}${code}`;
+
+export const isPeerUrl = (url: string): boolean => url.startsWith(PEER_URL_PREFIX);
+
+// How long a client waits for the host to accept before giving up
+const PEER_ACCEPT_TIMEOUT_MS = 2000;
+
+// Host and clients share one BroadcastChannel per game, so everything sent
+// on it is wrapped with the connection it belongs to. Every client hears
+// every envelope and drops the ones that aren't for it.
+interface PeerEnvelope {
+  connection: string;
+  kind: 'open' | 'accept' | 'message' | 'close';
+  data?: TransportPayload;
+}
+
+const isPeerEnvelope = (value: unknown): value is PeerEnvelope =>
+  typeof value === 'object' && value !== null && typeof (value as PeerEnvelope).connection === 'string';
+
+const peerChannelName = (code: string) => `jackalopes-peer-${code}`;
+
+export class PeerClientTransport implements Transport {
+  readonly kind = 'peer';
+  private code: string;
+  private connection = '';
+  private channel: BroadcastChannel | null = null;
+  private accepted = false;
+  private acceptTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(code: string) {
+    this.code = code;
+  }
+
+  getState(): TransportState {
+    if (!this.channel) return 'closed';
+    return this.accepted ? 'open' : 'connecting';
+  }
+
+  getBufferedAmount(): number {
+    return 0;
+  }
+
+  open(handlers: TransportHandlers): void {
+    this.close();
+
+    const channel = new BroadcastChannel(peerChannelName(this.code));
+    const connection = Math.random().toString(36).substring(2, 11);
+    this.channel = channel;
+    this.connection = connection;
+    this.accepted = false;
+
+    const shutDown = (reason: string) => {
+      if (this.channel !== channel) return;
+      this.dispose();
+      handlers.onClose(reason);
+    };
+
+    channel.onmessage = (event) => {
+      const envelope = event.data;
+      if (!isPeerEnvelope(envelope) || envelope.connection !== connection) return;
+
+      switch (envelope.kind) {
+        case 'accept':
+          if (this.accepted) return;
+          this.accepted = true;
+          this.clearAcceptTimeout();
+          handlers.onOpen();
+          break;
+        case 'message':
+          if (this.accepted && envelope.data !== undefined) handlers.onMessage(envelope.data);
+          break;
+        case 'close':
+          shutDown('host closed the connection');
+          break;
+      }
+    };
+    channel.onmessageerror = (event) => handlers.onError(event);
+
+    this.acceptTimeout = setTimeout(() => shutDown(`no host for game ${this.code}`), PEER_ACCEPT_TIMEOUT_MS);
+    this.post({ connection, kind: 'open' });
+  }
+
+  send(payload: TransportPayload): void {
+    if (!this.channel || !this.accepted) throw new Error('Peer transport is not open');
+    this.post({ connection: this.connection, kind: 'message', data: payload });
+  }
+
+  close(): void {
+    if (!this.channel) return;
+    this.post({ connection: this.connection, kind: 'close' });
+    this.dispose();
+  }
+
+  private post(envelope: PeerEnvelope): void {
+    this.channel?.postMessage(envelope);
+  }
+
+  private clearAcceptTimeout(): void {
+    if (this.acceptTimeout !== null) {
+      clearTimeout(this.acceptTimeout);
+      this.acceptTimeout = null;
+    }
+  }
+
+  private dispose(): void {
+    this.clearAcceptTimeout();
+    if (!this.channel) return;
+
+    this.channel.onmessage = null;
+    this.channel.onmessageerror = null;
+    this.channel.close();
+    this.channel = null;
+    this.accepted = false;
+  }
+}
+
+// The host's end of one client's connection. Opening it accepts the client.
+class PeerHostTransport implements Transport {
+  readonly kind = 'peer';
+  readonly connection: string;
+  handlers: TransportHandlers | null = null;
+  private listener: PeerHostListener;
+
+  constructor(listener: PeerHostListener, connection: string) {
+    this.listener = listener;
+    this.connection = connection;
+  }
+
+  getState(): TransportState {
+    return this.handlers ? 'open' : 'closed';
+  }
+
+  getBufferedAmount(): number {
+    return 0;
+  }
+
+  open(handlers: TransportHandlers): void {
+    this.handlers = handlers;
+    this.listener.post({ connection: this.connection, kind: 'accept' });
+    setTimeout(() => {
+      if (this.handlers === handlers) handlers.onOpen();
+    }, 0);
+  }
+
+  send(payload: TransportPayload): void {
+    if (!this.handlers) throw new Error('Peer transport is not open');
+    this.listener.post({ connection: this.connection, kind: 'message', data: payload });
+  }
+
+  close(): void {
+    if (!this.handlers) return;
+    this.handlers = null;
+    this.listener.post({ connection: this.connection, kind: 'close' });
+    this.listener.forget(this.connection);
+  }
+}
+
+// Takes connections from PeerClientTransports for one game code and hands
+// each to `onConnection` as a Transport, not yet opened
+export class PeerHostListener {
+  private code: string;
+  private channel: BroadcastChannel | null = null;
+  private connections = new Map<string, PeerHostTransport>();
+
+  constructor(code: string) {
+    this.code = code;
+  }
+
+  listen(onConnection: (transport: Transport) => void): void {
+    this.close();
+
+    const channel = new BroadcastChannel(peerChannelName(this.code));
+    channel.onmessage = (event) => {
+      const envelope = event.data;
+      if (!isPeerEnvelope(envelope)) return;
+
+      const transport = this.connections.get(envelope.connection);
+      switch (envelope.kind) {
+        case 'open':
+          if (transport) return;
+          this.connections.set(envelope.connection, new PeerHostTransport(this, envelope.connection));
+          onConnection(this.connections.get(envelope.connection)!);
+          break;
+        case 'message':
+          if (envelope.data !== undefined) transport?.handlers?.onMessage(envelope.data);
+          break;
+        case 'close': {
+          const handlers = transport?.handlers;
+          this.forget(envelope.connection);
+          if (transport) transport.handlers = null;
+          handlers?.onClose('client closed the connection');
+          break;
+        }
+      }
+    };
+    this.channel = channel;
+  }
+
+  // Close every connection and stop taking new ones
+  close(): void {
+    this.connections.forEach(transport => transport.close());
+    this.connections.clear();
+
+    if (!this.channel) return;
+    this.channel.onmessage = null;
+    this.channel.close();
+    this.channel = null;
+  }
+
+  post(envelope: PeerEnvelope): void {
+    this.channel?.postMessage(envelope);
+  }
+
+  forget(connection: string): void {
+    this.connections.delete(connection);
+  }
+}
+
+// Where ConnectionManager gets its transports from. Tests swap these out.
+export interface TransportFactories {
+  // Connects to the game server, or to a game hosted in a tab for peer:// URLs
+  server: (url: string) => Transport;
+  // Reaches other tabs when playing offline
+  offline: () => Transport;
+}
+
+// Name of the channel offline tabs share
+export const OFFLINE_CHANNEL = 'jackalopes-offline';
+
+export const DEFAULT_TRANSPORTS: TransportFactories = {
+  server: (url) => isPeerUrl(url) ? new PeerClientTransport(url.slice(PEER_URL_PREFIX.length)) : new WebSocketTransport(url),
+  offline: () => new BroadcastChannelTransport(OFFLINE_CHANNEL)
+};
@@ -0,0 +1,356 @@
+// Checks an authoritative host (GameHost) runs on what clients tell it.
+//
+// A client can put anything in player_update and fire as often as it likes.
+// The validator holds each player to what their character and weapon can
+// actually do:
+//
+// - Movement: horizontal speed (the jackalope's BASE_SPEED * RUN_MULTIPLIER,
+//   the merc's runSpeed), acceleration of the velocity they report, and how
+//   far one update may jump. Distance is paid for from a budget that refills
+//   at top speed, so updates that arrive bunched up aren't mistaken for
+//   speeding.
+// - Shots: the weapon's fire rate (game/weapon.ts), with a little credit for
+//   shots that arrive together, a magazine of MAX_AMMO that only refills
+//   after a pause as long as a reload, and a shot has to start near the
+//   shooter with no platform in between.
+//
+// What happens about a violation is policy: 'log' lets it through, 'correct'
+// pulls the player back or drops the shot, 'kick' disconnects them. Enough
+// violations of any kind in a short time is a kick regardless.
+
+import { LevelBox, PLATFORM_BOXES } from '../game/level';
+import { BASE_SPEED, MERC_STEPS_PER_SECOND, MercMovementParams, RUN_MULTIPLIER } from '../game/movement';
+import { FIRE_INTERVAL_MS, MAX_AMMO, RELOAD_MS } from '../game/weapon';
+import { isOccluded } from './interest';
+import { PlayerType, Vec3 } from './protocol';
+
+export type ViolationKind =
+  | 'speed'
+  | 'acceleration'
+  | 'teleport'
+  | 'fire_rate'
+  | 'ammo'
+  | 'shot_origin'
+  | 'line_of_sight';
+
+export type ViolationAction = 'log' | 'correct' | 'kick';
+
+export interface Violation {
+  player: string;
+  kind: ViolationKind;
+  action: ViolationAction;
+  time: number;
+  // How far over the limit, for logs
+  detail: string;
+}
+
+export interface ValidationPolicy {
+  actions: Record<ViolationKind, ViolationAction>;
+  // This many violations within kickWindowMs is a kick, whatever they were. 0 never kicks.
+  kickAfter: number;
+  kickWindowMs: number;
+}
+
+export const DEFAULT_VALIDATION_POLICY: ValidationPolicy = {
+  actions: {
+    speed: 'correct',
+    // Reported velocities only feed dead reckoning, so a bad one is cosmetic
+    acceleration: 'log',
+    teleport: 'correct',
+    fire_rate: 'correct',
+    ammo: 'correct',
+    shot_origin: 'correct',
+    line_of_sight: 'correct'
+  },
+  kickAfter: 50,
+  kickWindowMs: 10000
+};
+
+export interface ValidationOptions {
+  policy: ValidationPolicy;
+  // The merc's movement, as the clients are configured
+  merc: MercMovementParams;
+  // Speeds may run this much over the character's top speed, for rounding
+  speedTolerance: number;
+  // Seconds of top speed movement a player may bank while updates are late
+  maxBurstS: number;
+  // No single update moves a player further than this
+  maxTeleportDistance: number;
+  // Furthest a shot may start from the shooter
+  maxShotDistance: number;
+  // Shots that may arrive together after a network stall
+  shotBurst: number;
+  // Timing slack for the reload
+  reloadToleranceMs: number;
+  occluders: LevelBox[];
+  // Called for every violation, e.g. to log it
+  onViolation: ((violation: Violation) => void) | null;
+}
+
+export const DEFAULT_VALIDATION_OPTIONS: ValidationOptions = {
+  policy: DEFAULT_VALIDATION_POLICY,
+  merc: { walkSpeed: 0.02, runSpeed: 0.025, jumpForce: 0.6 },
+  speedTolerance: 1.25,
+  maxBurstS: 0.5,
+  maxTeleportDistance: 10,
+  maxShotDistance: 3,
+  shotBurst: 3,
+  reloadToleranceMs: 150,
+  occluders: PLATFORM_BOXES,
+  onViolation: null
+};
+
+export interface MovementSample {
+  position: Vec3;
+  // Units per second, if the client sent one
+  velocity?: Vec3;
+  time: number;
+}
+
+export interface ShotSample {
+  origin: Vec3;
+  // Where the host has the shooter
+  shooter: Vec3;
+  time: number;
+}
+
+export interface Verdict {
+  violations: Violation[];
+  // The strictest action called for, null if there were no violations
+  action: ViolationAction | null;
+}
+
+export interface MovementVerdict extends Verdict {
+  // Where to put the player: the sample, or as far towards it as they could have got
+  position: Vec3;
+}
+
+export interface ValidationStats {
+  checkedMoves: number;
+  checkedShots: number;
+  violations: Record<ViolationKind, number>;
+  kicks: number;
+}
+
+interface PlayerRecord {
+  position: Vec3 | null;
+  velocity: Vec3 | null;
+  lastMoveAt: number;
+  // Distance they may still move before it refills
+  moveBudget: number;
+  lastShotAt: number | null;
+  shotCredit: number;
+  ammo: number;
+  // Times of recent violations, for kickAfter
+  recent: number[];
+}
+
+const ACTION_SEVERITY: Record<ViolationAction, number> = { log: 0, correct: 1, kick: 2 };
+
+// Clients send an update about every 50 ms. Velocity changes are measured
+// over at least this long.
+const MIN_SAMPLE_INTERVAL_S = 0.05;
+
+const horizontal = (v: Vec3) => Math.hypot(v[0], v[2]);
+
+const distance = (a: Vec3, b: Vec3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+// Top horizontal speed in units per second
+export function getMaxSpeed(type: PlayerType, merc: MercMovementParams): number {
+  return type === 'jackalope'
+    ? BASE_SPEED * RUN_MULTIPLIER
+    : Math.max(merc.walkSpeed, merc.runSpeed) * MERC_STEPS_PER_SECOND;
+}
+
+export class ClientValidator {
+  private options: ValidationOptions;
+  private players = new Map<string, PlayerRecord>();
+  private stats: ValidationStats = {
+    checkedMoves: 0,
+    checkedShots: 0,
+    violations: {
+      speed: 0,
+      acceleration: 0,
+      teleport: 0,
+      fire_rate: 0,
+      ammo: 0,
+      shot_origin: 0,
+      line_of_sight: 0
+    },
+    kicks: 0
+  };
+
+  constructor(options: Partial<ValidationOptions> = {}) {
+    this.options = { ...DEFAULT_VALIDATION_OPTIONS, ...options };
+  }
+
+  getStats(): ValidationStats {
+    return { ...this.stats, violations: { ...this.stats.violations } };
+  }
+
+  // Check a position a player reports
+  checkMovement(player: string, type: PlayerType, sample: MovementSample): MovementVerdict {
+    this.stats.checkedMoves++;
+    const record = this.getRecord(player);
+    const { position, velocity, time } = sample;
+
+    if (!record.position) {
+      // Nothing to compare the first sample with
+      record.position = position;
+      record.velocity = velocity ?? null;
+      record.lastMoveAt = time;
+      return { violations: [], action: null, position };
+    }
+
+    const maxSpeed = getMaxSpeed(type, this.options.merc) * this.options.speedTolerance;
+    const elapsed = Math.max(0, time - record.lastMoveAt) / 1000;
+    record.moveBudget = Math.min(maxSpeed * this.options.maxBurstS, record.moveBudget + maxSpeed * elapsed);
+
+    const violations: Violation[] = [];
+    const from = record.position;
+    const moved = distance(from, position);
+    const movedHorizontally = horizontal([position[0] - from[0], 0, position[2] - from[2]]);
+
+    let overshoot: Violation | null = null;
+    if (moved > this.options.maxTeleportDistance) {
+      overshoot = this.violation(player, 'teleport', time, `moved ${moved.toFixed(1)} in one update`);
+    } else if (movedHorizontally > record.moveBudget) {
+      overshoot = this.violation(player, 'speed', time,
+        `moved ${movedHorizontally.toFixed(2)} with ${record.moveBudget.toFixed(2)} to spare`);
+    }
+    if (overshoot) violations.push(overshoot);
+
+    if (velocity) {
+      const speed = horizontal(velocity);
+      if (speed > maxSpeed) {
+        violations.push(this.violation(player, 'speed', time, `reported ${speed.toFixed(1)}/s, top speed ${maxSpeed.toFixed(1)}/s`));
+      } else if (record.velocity) {
+        // A full reversal at top speed within one update is the most a character can do
+        const change = horizontal([velocity[0] - record.velocity[0], 0, velocity[2] - record.velocity[2]]);
+        const acceleration = change / Math.max(MIN_SAMPLE_INTERVAL_S, elapsed);
+        const maxAcceleration = (2 * maxSpeed) / MIN_SAMPLE_INTERVAL_S;
+        if (acceleration > maxAcceleration) {
+          violations.push(this.violation(player, 'acceleration', time,
+            `${acceleration.toFixed(0)}/s², limit ${maxAcceleration.toFixed(0)}/s²`));
+        }
+      }
+    }
+
+    const verdict = this.decide(player, record, violations, time);
+    let accepted = position;
+    if (overshoot && overshoot.action !== 'log') {
+      // As far towards the reported position as the budget reaches
+      const t = moved > 0 ? Math.min(1, record.moveBudget / moved) : 0;
+      accepted = [0, 1, 2].map(i => from[i] + (position[i] - from[i]) * t) as Vec3;
+      record.moveBudget = 0;
+    } else {
+      record.moveBudget = Math.max(0, record.moveBudget - movedHorizontally);
+    }
+
+    record.position = accepted;
+    record.velocity = velocity ?? null;
+    record.lastMoveAt = time;
+    return { ...verdict, position: accepted };
+  }
+
+  // Check a shot a player fires. Shots that pass, or only break 'log'
+  // rules, use up ammo.
+  checkShot(player: string, sample: ShotSample): Verdict {
+    this.stats.checkedShots++;
+    const record = this.getRecord(player);
+    const { origin, shooter, time } = sample;
+    const violations: Violation[] = [];
+
+    const offset = distance(origin, shooter);
+    if (offset > this.options.maxShotDistance) {
+      violations.push(this.violation(player, 'shot_origin', time, `fired from ${offset.toFixed(1)} away`));
+    } else if (isOccluded(shooter, origin, this.options.occluders)) {
+      violations.push(this.violation(player, 'line_of_sight', time, 'fired from the far side of a platform'));
+    }
+
+    // A pause as long as a reload refills the magazine, whether or not it
+    // was empty: players can reload early
+    const sinceLast = record.lastShotAt === null ? Infinity : time - record.lastShotAt;
+    const ammo = sinceLast >= RELOAD_MS - this.options.reloadToleranceMs ? MAX_AMMO : record.ammo;
+    const credit = Math.min(this.options.shotBurst, record.shotCredit + sinceLast / FIRE_INTERVAL_MS);
+
+    if (ammo <= 0) {
+      violations.push(this.violation(player, 'ammo', time, `fired ${Math.round(sinceLast)} ms into a reload`));
+    } else if (credit < 1) {
+      violations.push(this.violation(player, 'fire_rate', time, `fired ${Math.round(sinceLast)} ms after the last shot`));
+    }
+
+    const verdict = this.decide(player, record, violations, time);
+    if (verdict.action === null || verdict.action === 'log') {
+      record.lastShotAt = time;
+      record.shotCredit = Math.max(0, credit - 1);
+      record.ammo = Math.max(0, ammo - 1);
+    }
+    return verdict;
+  }
+
+  // Start over from wherever the player is next seen, e.g. after a respawn
+  resetMovement(player: string): void {
+    const record = this.players.get(player);
+    if (!record) return;
+
+    record.position = null;
+    record.velocity = null;
+  }
+
+  forget(player: string): void {
+    this.players.delete(player);
+  }
+
+  private getRecord(player: string): PlayerRecord {
+    let record = this.players.get(player);
+    if (!record) {
+      record = {
+        position: null,
+        velocity: null,
+        lastMoveAt: 0,
+        moveBudget: 0,
+        lastShotAt: null,
+        shotCredit: this.options.shotBurst,
+        ammo: MAX_AMMO,
+        recent: []
+      };
+      this.players.set(player, record);
+    }
+    return record;
+  }
+
+  private violation(player: string, kind: ViolationKind, time: number, detail: string): Violation {
+    return { player, kind, action: this.options.policy.actions[kind], time, detail };
+  }
+
+  // Count the violations and pick the strictest action, escalating to a
+  // kick once there have been too many
+  private decide(player: string, record: PlayerRecord, violations: Violation[], time: number): Verdict {
+    if (violations.length === 0) return { violations, action: null };
+
+    const { kickAfter, kickWindowMs } = this.options.policy;
+    record.recent = record.recent.filter(at => time - at < kickWindowMs);
+    violations.forEach(violation => {
+      record.recent.push(time);
+      this.stats.violations[violation.kind]++;
+    });
+    if (kickAfter > 0 && record.recent.length >= kickAfter) {
+      violations.forEach(violation => {
+        violation.action = 'kick';
+      });
+    }
+
+    violations.forEach(violation => this.options.onViolation?.(violation));
+
+    const action = violations.reduce<ViolationAction>(
+      (strictest, { action }) => (ACTION_SEVERITY[action] > ACTION_SEVERITY[strictest] ? action : strictest),
+      'log'
+    );
+    if (action === 'kick') {
+      this.stats.kicks++;
+      this.forget(player);
+    }
+    return { violations, action };
+  }
+}